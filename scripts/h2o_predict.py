@@ -20,6 +20,13 @@ def init_h2o():
         print(f"ERROR: Failed to init H2O: {e}", file=sys.stderr)
         return False
 
+def win_probability(row) -> float:
+    """WIN class probability from an H2O binomial prediction row"""
+    for column in ('WIN', 'p1', '1'):
+        if column in row.index:
+            return float(row[column])
+    raise ValueError(f"No WIN probability column in predictions: {list(row.index)}")
+
 def predict_from_csv(model_path: str, csv_path: str):
     """Make predictions from a CSV file"""
 
@@ -35,7 +42,7 @@ def predict_from_csv(model_path: str, csv_path: str):
 
     results = []
     for i, row in preds_df.iterrows():
-        win_prob = row.get('WIN', row.get('p1', 0.5))
+        win_prob = win_probability(row)
         results.append({
             'prediction': 'WIN' if win_prob > 0.5 else 'LOSS',
             'win_probability': float(win_prob),
@@ -58,7 +65,7 @@ def predict_single(model_path: str, features: dict):
     preds_df = preds.as_data_frame()
 
     row = preds_df.iloc[0]
-    win_prob = row.get('WIN', row.get('p1', 0.5))
+    win_prob = win_probability(row)
 
     return {
         'prediction': 'WIN' if win_prob > 0.5 else 'LOSS',
@@ -23,7 +23,7 @@ def init_h2o():
         print(f"ERROR: Failed to init H2O: {e}")
         return False
 
-def train_model(csv_path: str, algorithm: str = "xgboost", target: str = "outcome"):
+def train_model(csv_path: str, algorithm: str = "xgboost", target: str = "outcome", test_split: float = 0.2):
     """Train a model on the CSV data"""
 
     print(f"\n{'='*60}")
@@ -42,12 +42,18 @@ def train_model(csv_path: str, algorithm: str = "xgboost", target: str = "outcom
     data[target] = data[target].asfactor()
 
     # Get feature columns (exclude target and non-predictive columns)
-    exclude_cols = [target, 'symbol', 'timeframe', 'exit_reason', 'pnl_percent', 'entry_price']
+    # Outcome/label/path columns are excluded whichever one is the target
+    exclude_cols = [target, 'symbol', 'timeframe', 'exit_reason', 'pnl_percent', 'entry_price', 'exit_time',
+                    'outcome', 'pnl', 'holding_periods', 'barrier_label', 'r_multiple', 'meta_label',
+                    'mae_price', 'mfe_price', 'mae_r', 'mfe_r', 'bars_to_mfe', 'touched_1r', 'exit_bar']
     features = [c for c in data.columns if c not in exclude_cols]
     print(f"Features: {len(features)}")
 
-    # Split data
-    train, test = data.split_frame(ratios=[0.8], seed=42)
+    # Split by row order - the pipeline writes trades oldest first, so the test
+    # rows are the most recent (a shuffled split would leak future trades)
+    n_train = int(data.nrows * (1 - test_split))
+    train = data[:n_train, :]
+    test = data[n_train:, :]
     print(f"Train: {train.nrows} rows, Test: {test.nrows} rows")
 
     # Train model based on algorithm
@@ -217,6 +223,7 @@ def main():
     parser.add_argument('--target', '-t', default='outcome', help='Target column')
     parser.add_argument('--model', '-m', help='Model path for predictions')
     parser.add_argument('--output', '-o', help='Output path for predictions')
+    parser.add_argument('--test-split', type=float, default=0.2, help='Fraction held out for evaluation')
 
     args = parser.parse_args()
 
@@ -226,9 +233,9 @@ def main():
 
     try:
         if args.action == 'train':
-            train_model(args.data, args.algorithm, args.target)
+            train_model(args.data, args.algorithm, args.target, args.test_split)
         elif args.action == 'automl':
-            train_model(args.data, 'automl', args.target)
+            train_model(args.data, 'automl', args.target, args.test_split)
         elif args.action == 'predict':
             if not args.model:
                 print("ERROR: --model required for predictions")
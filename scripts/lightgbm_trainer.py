@@ -52,7 +52,8 @@ def prepare_features(df: pd.DataFrame) -> tuple:
         'trend_direction', 'ob_type', 'fvg_type', 'ema_trend',
         'rsi_state', 'direction', 'session', 'pullback_fib',
         'smart_money_direction',  # Institutional flow direction
-        'ob_state'  # OB State Machine (CRITICAL for SMC)
+        'ob_state',  # OB State Machine (CRITICAL for SMC)
+        'market_regime'  # trend/range x high/low volatility
     ]
 
     # Numeric features
@@ -69,7 +70,9 @@ def prepare_features(df: pd.DataFrame) -> tuple:
         # Bollinger Bands
         'bb_position', 'bb_width',
         # Institutional flow
-        'volume_delta'
+        'volume_delta',
+        # Market regime
+        'regime_bars'
     ]
 
     # Boolean features
@@ -130,16 +133,40 @@ def prepare_features(df: pd.DataFrame) -> tuple:
     return X, y, cat_indices, list(X.columns)
 
 
-def train_lightgbm(X: pd.DataFrame, y: pd.Series, cat_indices: list) -> tuple:
-    """Train LightGBM model"""
+def chronological_split(X: pd.DataFrame, y: pd.Series, times: pd.Series, val_size: float = 0.15, holdout_size: float = 0.15) -> tuple:
+    """Oldest rows train, the next ones drive early stopping, the newest are a holdout
+    that neither training nor early stopping sees (reported metrics + calibration)"""
 
-    # Split data
-    X_train, X_val, y_train, y_val = train_test_split(
-        X, y, test_size=0.2, random_state=42, stratify=y
-    )
+    order = times.sort_values(kind='stable').index
+    n = len(order)
+    holdout_start = int(n * (1 - holdout_size))
+    val_start = int(n * (1 - holdout_size - val_size))
+    train_idx, val_idx, holdout_idx = order[:val_start], order[val_start:holdout_start], order[holdout_start:]
+    return (X.loc[train_idx], X.loc[val_idx], X.loc[holdout_idx],
+            y.loc[train_idx], y.loc[val_idx], y.loc[holdout_idx])
+
+
+def train_lightgbm(X: pd.DataFrame, y: pd.Series, cat_indices: list, times: pd.Series = None) -> tuple:
+    """Train LightGBM model
+
+    With entry times the split is chronological and the returned predictions are
+    the untouched holdout's; without them it falls back to a random stratified
+    split whose validation set also drives early stopping (holdout is None).
+    """
+
+    if times is not None:
+        X_train, X_val, X_holdout, y_train, y_val, y_holdout = chronological_split(X, y, times)
+    else:
+        print("\nWARNING: no entry_time column - random split, no out-of-sample holdout")
+        X_train, X_val, y_train, y_val = train_test_split(
+            X, y, test_size=0.2, random_state=42, stratify=y
+        )
+        X_holdout, y_holdout = None, None
 
     print(f"\nTraining set: {len(X_train)}")
-    print(f"Validation set: {len(X_val)}")
+    print(f"Validation set (early stopping): {len(X_val)}")
+    if X_holdout is not None:
+        print(f"Holdout set (chronological): {len(X_holdout)}")
     print(f"Win rate (train): {y_train.mean():.1%}")
     print(f"Win rate (val): {y_val.mean():.1%}")
 
@@ -188,22 +215,25 @@ def train_lightgbm(X: pd.DataFrame, y: pd.Series, cat_indices: list) -> tuple:
         callbacks=callbacks
     )
 
-    # Evaluate
-    y_pred_proba = model.predict(X_val, num_iteration=model.best_iteration)
+    # Evaluate on the holdout when there is one (early stopping already saw X_val)
+    X_eval, y_eval = (X_holdout, y_holdout) if X_holdout is not None else (X_val, y_val)
+    y_pred_proba = model.predict(X_eval, num_iteration=model.best_iteration)
     y_pred = (y_pred_proba >= 0.5).astype(int)
 
-    accuracy = accuracy_score(y_val, y_pred)
-    auc = roc_auc_score(y_val, y_pred_proba)
+    accuracy = accuracy_score(y_eval, y_pred)
+    auc = roc_auc_score(y_eval, y_pred_proba)
 
     print(f"\n{'='*50}")
-    print(f"RESULTS (Best Iteration: {model.best_iteration})")
+    print(f"RESULTS (Best Iteration: {model.best_iteration}, {'chronological holdout' if X_holdout is not None else 'validation set'})")
     print(f"{'='*50}")
     print(f"Accuracy: {accuracy:.1%}")
     print(f"AUC-ROC: {auc:.4f}")
     print(f"\nClassification Report:")
-    print(classification_report(y_val, y_pred, target_names=['LOSS', 'WIN']))
+    print(classification_report(y_eval, y_pred, target_names=['LOSS', 'WIN']))
 
-    return model, accuracy, auc
+    if X_holdout is None:
+        return model, accuracy, auc, None, None
+    return model, accuracy, auc, y_pred_proba, y_holdout
 
 
 def get_feature_importance(model, feature_names: list) -> dict:
@@ -228,7 +258,17 @@ def get_feature_importance(model, feature_names: list) -> dict:
     return sorted_importance
 
 
-def save_model(model, output_dir: str, feature_names: list, accuracy: float, auc: float):
+def mean_r_by_outcome(df: pd.DataFrame) -> dict:
+    """Mean R-multiple of winners and losers - lets the advisor turn win probability into expected R"""
+    if 'r_multiple' not in df.columns:
+        return None
+    means = df.groupby('outcome')['r_multiple'].mean()
+    if 'WIN' not in means or 'LOSS' not in means:
+        return None
+    return {'WIN': float(means['WIN']), 'LOSS': float(means['LOSS'])}
+
+
+def save_model(model, output_dir: str, feature_names: list, accuracy: float, auc: float, mean_r: dict = None):
     """Save model and metadata"""
 
     os.makedirs(output_dir, exist_ok=True)
@@ -257,7 +297,8 @@ def save_model(model, output_dir: str, feature_names: list, accuracy: float, auc
         'bestIteration': model.best_iteration,
         'numFeatures': len(feature_names),
         'features': feature_names,
-        'featureImportance': get_feature_importance(model, feature_names)
+        'featureImportance': get_feature_importance(model, feature_names),
+        'meanR': mean_r
     }
 
     metadata_path = os.path.join(output_dir, 'lightgbm_metadata.json')
@@ -266,6 +307,43 @@ def save_model(model, output_dir: str, feature_names: list, accuracy: float, auc
     print(f"Saved metadata: {metadata_path}")
 
 
+def save_parity_samples(model, df: pd.DataFrame, X: pd.DataFrame, output_dir: str, n: int = 200):
+    """Save raw rows + Python predictions so the TypeScript scorer can be checked (cli lgbm-check)"""
+
+    sample = X.sample(n=min(n, len(X)), random_state=42)
+    predictions = model.predict(sample, num_iteration=model.best_iteration)
+
+    raw = df.loc[sample.index, list(X.columns)].astype(object)
+    raw = raw.where(pd.notna(raw), None)
+
+    samples = [
+        {'features': row, 'prediction': float(pred)}
+        for row, pred in zip(raw.to_dict(orient='records'), predictions)
+    ]
+
+    parity_path = os.path.join(output_dir, 'lightgbm_parity.json')
+    with open(parity_path, 'w') as f:
+        json.dump({'model': 'lightgbm_model.txt', 'samples': samples}, f, default=str)
+    print(f"Saved parity samples: {parity_path} ({len(samples)} rows)")
+
+
+def save_validation_predictions(probabilities, outcomes, output_dir: str):
+    """Save chronological-holdout predictions, oldest first - the TypeScript side fits
+    its probability calibrator on them (neither training nor early stopping saw them)"""
+
+    validation = {
+        'model': 'lightgbm_model.txt',
+        'split': 'chronological_holdout',
+        'probabilities': [float(p) for p in probabilities],
+        'outcomes': [int(y) for y in outcomes]
+    }
+
+    validation_path = os.path.join(output_dir, 'lightgbm_validation.json')
+    with open(validation_path, 'w') as f:
+        json.dump(validation, f)
+    print(f"Saved validation predictions: {validation_path} ({len(validation['outcomes'])} rows)")
+
+
 def main():
     parser = argparse.ArgumentParser(description='Train LightGBM model for trading')
     parser.add_argument('--input', '-i', required=True, help='Path to training CSV')
@@ -278,11 +356,22 @@ def main():
     # Prepare features
     X, y, cat_indices, feature_names = prepare_features(df)
 
-    # Train model
-    model, accuracy, auc = train_lightgbm(X, y, cat_indices)
+    # Train model (chronological split when trades carry their entry time)
+    times = pd.to_numeric(df['entry_time'], errors='coerce') if 'entry_time' in df.columns else None
+    if times is not None and times.isna().any():
+        times = None
+    model, accuracy, auc, holdout_proba, y_holdout = train_lightgbm(X, y, cat_indices, times)
 
     # Save model
-    save_model(model, args.output, feature_names, accuracy, auc)
+    save_model(model, args.output, feature_names, accuracy, auc, mean_r_by_outcome(df))
+    save_parity_samples(model, df, X, args.output)
+    validation_path = os.path.join(args.output, 'lightgbm_validation.json')
+    if holdout_proba is not None:
+        save_validation_predictions(holdout_proba, y_holdout, args.output)
+    elif os.path.exists(validation_path):
+        # A previous model's holdout would calibrate the wrong model
+        os.remove(validation_path)
+        print(f"Removed stale validation predictions: {validation_path}")
 
     print(f"\n{'='*50}")
     print("TRAINING COMPLETE")
@@ -0,0 +1,440 @@
+/**
+ * Backtest Engine
+ * Shared trade simulator for every pipeline that needs trade outcomes
+ *
+ * Driven by config/features.json → trade_simulation:
+ *   - Stop loss at atr_multiplier_sl × ATR
+ *   - Scale out at TP1 / TP2 / TP3 (atr_multiplier_tp1..3 × ATR)
+ *   - After TP1 the stop moves to breakeven, after TP2 it trails to TP1
+ *   - Anything still open after max_holding_periods exits at the close
+ *   - P&L is measured on position_size (USD notional), net of the fees,
+ *     slippage and funding from TradingCostModel
+ *   - MAE/MFE and the other path stats (trade-path.ts) are tracked bar by bar
+ *
+ * A bar that touches the stop or a target is walked as a price path from
+ * IntrabarResolver: finer (1m/5m) candles when they exist, otherwise the
+ * intrabar.mode heuristic (pessimistic = stop first when both are touched).
+ * Bars touching both are counted per trade (ambiguous_bars / resolved_bars).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle } from './smc-indicators.js';
+import { BacktestTrade } from './trade-features.js';
+import { BacktestResult } from './types.js';
+import { TradingCostModel, CostLeg } from './trading-costs.js';
+import { TradePath, PathStats } from './trade-path.js';
+import { IntrabarResolver, IntrabarMode } from './intrabar-resolver.js';
+import { MarketRegime } from './market-regime.js';
+
+export interface TradeSimulationConfig {
+  atr_multiplier_sl: number;
+  atr_multiplier_tp1: number;
+  atr_multiplier_tp2: number;
+  atr_multiplier_tp3: number;
+  max_holding_periods: number;
+  position_size: number;
+  tp_allocation: [number, number, number];  // Fraction of position closed at TP1/TP2/TP3
+}
+
+const DEFAULT_CONFIG: TradeSimulationConfig = {
+  atr_multiplier_sl: 2,
+  atr_multiplier_tp1: 2,
+  atr_multiplier_tp2: 3,
+  atr_multiplier_tp3: 5,
+  max_holding_periods: 100,
+  position_size: 1000,
+  tp_allocation: [0.5, 0.3, 0.2],
+};
+
+// Score tiers used for by_score_tier (aligned with UnifiedScoring entry grades)
+export const SCORE_TIERS: Array<{ name: string; min: number }> = [
+  { name: '70+', min: 70 },
+  { name: '50-69', min: 50 },
+  { name: '30-49', min: 30 },
+  { name: '0-29', min: -Infinity },
+];
+
+export interface SimulatedTrade extends Omit<BacktestTrade, keyof PathStats>, PathStats {
+  symbol?: string;
+  timeframe?: string;
+  regime?: MarketRegime;    // Regime of the entry bar (runners that classify bars)
+  direction: 'long' | 'short';
+  score?: number;
+  entry_index: number;
+  exit_index: number;
+  entry_time: number;
+  entry_price: number;
+  exit_time: number;
+  exit_price: number;       // Size-weighted average exit
+  stop_loss: number;
+  take_profits: [number, number, number];
+  r_multiple: number;       // Net P&L in units of initial risk
+  gross_pnl: number;        // Before costs
+  fees: number;
+  slippage: number;
+  funding: number;
+  ambiguous_bars: number;   // Bars touching both the stop and the next target
+  resolved_bars: number;    // ...of which finer data decided the order
+}
+
+// How often the fill order inside a bar had to be guessed
+export interface IntrabarSummary {
+  mode: IntrabarMode;
+  ambiguous_trades: number;   // Trades with at least one ambiguous bar
+  heuristic_trades: number;   // ...where the heuristic decided at least one
+  ambiguous_bars: number;
+  resolved_bars: number;
+}
+
+export interface BacktestSignal {
+  index: number;            // Candle index the signal fires on (entry at its close)
+  direction: 'long' | 'short';
+  score?: number;
+  atr?: number | null;
+  entryPrice?: number;
+}
+
+export interface BacktestRunOptions {
+  symbol?: string;
+  timeframe?: string;
+  allowOverlap?: boolean;   // Default false: one position at a time
+  intrabar?: IntrabarResolver;  // Finer data for the symbol (IntrabarResolver.load)
+}
+
+export class BacktestEngine {
+  private config: TradeSimulationConfig;
+  private costModel: TradingCostModel;
+  private intrabar: IntrabarResolver;
+
+  /**
+   * @param intrabar - default resolver (heuristic only); pass a loaded one per
+   *   symbol to simulateTrade / run to replay finer data
+   */
+  constructor(
+    config: Partial<TradeSimulationConfig> = {},
+    costModel: TradingCostModel = new TradingCostModel(),
+    intrabar: IntrabarResolver = new IntrabarResolver()
+  ) {
+    this.config = { ...BacktestEngine.loadConfig(), ...config };
+    this.costModel = costModel;
+    this.intrabar = intrabar;
+  }
+
+  /**
+   * Load trade_simulation from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): TradeSimulationConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.trade_simulation || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  getConfig(): TradeSimulationConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Simulate one trade entered at the close of candles[entryIndex]
+   */
+  simulateTrade(
+    candles: Candle[],
+    entryIndex: number,
+    direction: 'long' | 'short',
+    options: {
+      atr?: number | null;
+      entryPrice?: number;
+      score?: number;
+      symbol?: string;
+      timeframe?: string;
+      intrabar?: IntrabarResolver;
+      notional?: number;        // Position size in USD (default trade_simulation.position_size)
+    } = {}
+  ): SimulatedTrade {
+    const cfg = this.config;
+    const notional = options.notional ?? cfg.position_size;
+    const intrabar = options.intrabar ?? this.intrabar;
+    const isLong = direction === 'long';
+    const sign = isLong ? 1 : -1;
+    const entryCandle = candles[entryIndex];
+    const entryPrice = options.entryPrice ?? entryCandle.close;
+    const atr = options.atr || (entryCandle.high - entryCandle.low) || entryPrice * 0.01;
+
+    const riskDistance = atr * cfg.atr_multiplier_sl;
+    const initialStop = entryPrice - sign * riskDistance;
+    const targets: [number, number, number] = [
+      entryPrice + sign * atr * cfg.atr_multiplier_tp1,
+      entryPrice + sign * atr * cfg.atr_multiplier_tp2,
+      entryPrice + sign * atr * cfg.atr_multiplier_tp3,
+    ];
+
+    let stop = initialStop;
+    let stopReason = 'SL';
+    let remaining = 1;
+    let targetsHit = 0;
+    let realized = 0;         // Sum of fraction × price move
+    let exitValue = 0;        // Sum of fraction × exit price
+    let exitReason = 'timeout';
+    let lastIndex = entryIndex;
+    const exits: CostLeg[] = [];
+    const pathStats = TradePath.empty();
+    let ambiguousBars = 0;
+    let resolvedBars = 0;
+
+    // Targets are resting limit orders (maker); stops and timeouts fill at market (taker)
+    const closePortion = (fraction: number, price: number, order: 'maker' | 'taker') => {
+      realized += fraction * sign * (price - entryPrice);
+      exitValue += fraction * price;
+      remaining -= fraction;
+      exits.push({
+        fraction,
+        price,
+        order,
+        time: candles[lastIndex].timestamp,
+        context: { atr, volume: candles[lastIndex].volume },
+      });
+    };
+
+    const endIndex = Math.min(entryIndex + cfg.max_holding_periods, candles.length - 1);
+
+    // Move through the bar's prices in order: stops trigger on the way down
+    // (long), targets on the way up, and a stop raised by a target on this
+    // bar can still be hit later in the same bar
+    const walk = (prices: number[], i: number) => {
+      let prev = candles[i - 1].close;
+      for (const price of prices) {
+        if (sign * (price - prev) < 0) {
+          if (isLong ? price <= stop : price >= stop) {
+            TradePath.update(pathStats, direction, entryPrice, riskDistance, i - entryIndex, stop, null);
+            closePortion(remaining, stop, 'taker');
+            exitReason = stopReason;
+            return;
+          }
+        } else {
+          takeTargets(price);
+        }
+
+        // Once TP3 closes the runner, anything beyond it is not excursion
+        const favourable = remaining > 1e-9 ? price : (isLong ? Math.min(price, targets[2]) : Math.max(price, targets[2]));
+        TradePath.update(pathStats, direction, entryPrice, riskDistance, i - entryIndex, price, favourable);
+        if (remaining <= 1e-9) return;
+        prev = price;
+      }
+    };
+
+    // Scale out through any targets the price reached
+    const takeTargets = (price: number) => {
+      while (targetsHit < 3) {
+        const target = targets[targetsHit];
+        const reached = isLong ? price >= target : price <= target;
+        if (!reached) break;
+
+        const fraction = targetsHit === 2 ? remaining : Math.min(remaining, cfg.tp_allocation[targetsHit]);
+        closePortion(fraction, target, 'maker');
+        targetsHit++;
+        exitReason = `TP${targetsHit}`;
+
+        // Protect the runner
+        if (targetsHit === 1) {
+          stop = entryPrice;
+          stopReason = 'breakeven';
+        } else if (targetsHit === 2) {
+          stop = targets[0];
+          stopReason = 'trailing';
+        }
+      }
+    };
+
+    for (let i = entryIndex + 1; i <= endIndex && remaining > 1e-9; i++) {
+      const candle = candles[i];
+      lastIndex = i;
+
+      const stopTouched = isLong ? candle.low <= stop : candle.high >= stop;
+      const targetTouched = targetsHit < 3 && (isLong ? candle.high >= targets[targetsHit] : candle.low <= targets[targetsHit]);
+
+      if (!stopTouched && !targetTouched) {
+        TradePath.update(
+          pathStats, direction, entryPrice, riskDistance, i - entryIndex,
+          isLong ? candle.low : candle.high,
+          isLong ? candle.high : candle.low
+        );
+        continue;
+      }
+
+      // Only the order of prices inside the bar can tell what filled
+      const barPath = intrabar.path(candle, direction);
+      if (stopTouched && targetTouched) {
+        ambiguousBars++;
+        if (barPath.resolved) resolvedBars++;
+      }
+      walk(barPath.prices, i);
+    }
+
+    // Timeout: close whatever is left at the last bar's close
+    if (remaining > 1e-9) {
+      closePortion(remaining, candles[lastIndex].close, 'taker');
+      if (targetsHit === 0) exitReason = 'timeout';
+    }
+
+    const grossPnl = notional * (realized / entryPrice);
+    const costs = this.costModel.calculate({
+      symbol: options.symbol || '',
+      direction,
+      notional,
+      entry: {
+        fraction: 1,
+        price: entryPrice,
+        order: 'taker',
+        time: entryCandle.timestamp,
+        context: { atr, volume: entryCandle.volume },
+      },
+      exits,
+    });
+    const pnl = grossPnl - costs.total;
+    const pnlPercent = (pnl / notional) * 100;
+    const riskValue = notional * (riskDistance / entryPrice);
+
+    return {
+      symbol: options.symbol,
+      timeframe: options.timeframe,
+      direction,
+      score: options.score,
+      entry_index: entryIndex,
+      entry_time: entryCandle.timestamp,
+      entry_price: entryPrice,
+      exit_index: lastIndex,
+      exit_time: candles[lastIndex].timestamp,
+      exit_price: exitValue,
+      stop_loss: initialStop,
+      take_profits: targets,
+      r_multiple: riskValue > 0 ? pnl / riskValue : 0,
+      gross_pnl: grossPnl,
+      fees: costs.fees,
+      slippage: costs.slippage,
+      funding: costs.funding,
+      outcome: pnl > 0 ? 'WIN' : 'LOSS',
+      pnl,
+      pnl_percent: pnlPercent,
+      exit_reason: exitReason,
+      holding_periods: lastIndex - entryIndex,
+      ambiguous_bars: ambiguousBars,
+      resolved_bars: resolvedBars,
+      ...pathStats,
+    };
+  }
+
+  /**
+   * Run a list of signals through the simulator
+   * Without allowOverlap a signal is ignored while a previous trade is still open.
+   */
+  run(
+    candles: Candle[],
+    signals: BacktestSignal[],
+    options: BacktestRunOptions = {}
+  ): { trades: SimulatedTrade[]; result: BacktestResult } {
+    const trades: SimulatedTrade[] = [];
+    let busyUntil = -1;
+
+    for (const signal of [...signals].sort((a, b) => a.index - b.index)) {
+      if (!options.allowOverlap && signal.index <= busyUntil) continue;
+      if (signal.index >= candles.length - 1) continue;
+
+      const trade = this.simulateTrade(candles, signal.index, signal.direction, {
+        atr: signal.atr,
+        entryPrice: signal.entryPrice,
+        score: signal.score,
+        symbol: options.symbol,
+        timeframe: options.timeframe,
+        intrabar: options.intrabar,
+      });
+      trades.push(trade);
+      busyUntil = trade.entry_index + trade.holding_periods;
+    }
+
+    return { trades, result: BacktestEngine.summarize(trades) };
+  }
+
+  /**
+   * Count the trades whose result depended on the order of prices inside a bar
+   */
+  static summarizeIntrabar(trades: SimulatedTrade[], mode: IntrabarMode): IntrabarSummary {
+    const summary: IntrabarSummary = { mode, ambiguous_trades: 0, heuristic_trades: 0, ambiguous_bars: 0, resolved_bars: 0 };
+    for (const t of trades) {
+      if (t.ambiguous_bars > 0) summary.ambiguous_trades++;
+      if (t.ambiguous_bars > t.resolved_bars) summary.heuristic_trades++;
+      summary.ambiguous_bars += t.ambiguous_bars;
+      summary.resolved_bars += t.resolved_bars;
+    }
+    return summary;
+  }
+
+  /**
+   * One-line report for pipeline output
+   */
+  static formatIntrabar(summary: IntrabarSummary, totalTrades: number): string {
+    const pct = totalTrades > 0 ? (summary.ambiguous_trades / totalTrades * 100).toFixed(1) : '0.0';
+    return `${summary.ambiguous_trades} ambiguous trades (${pct}%) | ` +
+      `${summary.resolved_bars}/${summary.ambiguous_bars} bars replayed from finer data | ` +
+      `${summary.heuristic_trades} decided by ${summary.mode} heuristic`;
+  }
+
+  /**
+   * Aggregate trades into a BacktestResult
+   * Drawdown is measured on the equity curve ordered by exit time.
+   */
+  static summarize(trades: Array<{ pnl: number; score?: number; exit_time?: number }>): BacktestResult {
+    let wins = 0;
+    let grossProfit = 0;
+    let grossLoss = 0;
+
+    for (const t of trades) {
+      if (t.pnl > 0) {
+        wins++;
+        grossProfit += t.pnl;
+      } else {
+        grossLoss += Math.abs(t.pnl);
+      }
+    }
+
+    const ordered = [...trades].sort((a, b) => (a.exit_time ?? 0) - (b.exit_time ?? 0));
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const t of ordered) {
+      equity += t.pnl;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    }
+
+    const byScoreTier: BacktestResult['by_score_tier'] = {};
+    for (const tier of SCORE_TIERS) {
+      const tierTrades = trades.filter(t => t.score !== undefined && this.getScoreTier(t.score) === tier.name);
+      if (tierTrades.length === 0) continue;
+
+      const tierWins = tierTrades.filter(t => t.pnl > 0).length;
+      byScoreTier[tier.name] = {
+        trades: tierTrades.length,
+        win_rate: tierWins / tierTrades.length,
+        avg_pnl: tierTrades.reduce((s, t) => s + t.pnl, 0) / tierTrades.length,
+      };
+    }
+
+    return {
+      trades: trades.length,
+      wins,
+      losses: trades.length - wins,
+      win_rate: trades.length > 0 ? wins / trades.length : 0,
+      total_pnl: grossProfit - grossLoss,
+      profit_factor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 10 : 0,
+      max_drawdown: maxDrawdown,
+      by_score_tier: byScoreTier,
+    };
+  }
+
+  static getScoreTier(score: number): string {
+    return (SCORE_TIERS.find(t => score >= t.min) || SCORE_TIERS[SCORE_TIERS.length - 1]).name;
+  }
+}
@@ -18,11 +18,21 @@ import fs from 'fs';
 import path from 'path';
 import { execSync } from 'child_process';
 import { LocalDataLoader } from './data-loader.js';
-import { SMCIndicators, Candle } from './smc-indicators.js';
+import { SMCAnalyzer } from './smc-analyzer.js';
 import { ICTIndicators, ICTAnalysis } from './ict-indicators.js';
 import { UnifiedScoring } from './unified-scoring.js';
 import { FeatureExtractor, TradeFeatures } from './trade-features.js';
-import { TradingMLModel } from './ml-model.js';
+import { TradingMLModel, WalkForwardResult, OutOfSampleMetrics } from './ml-model.js';
+import { BacktestEngine, SimulatedTrade } from './backtest-engine.js';
+import { IntrabarResolver } from './intrabar-resolver.js';
+import { PerformanceAnalyzer, PerformanceReport } from './performance-metrics.js';
+import { TimeframeAligner } from './timeframe-alignment.js';
+import { RegimeClassifier } from './market-regime.js';
+import { ModelRegistry, OutOfSampleSummary } from './model-registry.js';
+import { ProbabilityCalibrator, CalibrationSelection } from './probability-calibration.js';
+import { TradeLabeler, LABEL_SCHEMES } from './trade-labels.js';
+import { TradePath } from './trade-path.js';
+import { BacktestResult } from './types.js';
 
 import os from 'os';
 
@@ -46,19 +56,27 @@ const CONFIG = {
   maxIterations: 10,           // Max training iterations
   minAccuracyImprovement: 0.005, // Stop if improvement < 0.5%
   trainTestSplit: 0.7,         // 70% train, 30% test
+  selectionSplit: 0.5,         // Older half of the test slice picks the iteration...
+  calibrationSplit: 0.5,       // ...the rest: older half fits the calibrator, newest half reports
 
   // Emphasis on prediction errors (model learns more from mistakes)
   errorEmphasisMultiplier: 3,  // Wrong predictions weighted 3x in training
 
-  // Parallel processing - REDUCED to prevent Python subprocess hangs
-  workers: 4,  // Keep low to prevent memory issues with large files
+  // Training target: binary, triple_barrier, r_multiple or meta (see trade-labels.ts)
+  labelScheme: TradeLabeler.loadConfig().scheme,
 
-  // Larger files - process sequentially to avoid hangs
-  sequentialTimeframes: ['1h', '5m'],
+  // Parallel processing - parquet is decoded in-process (ParquetReader), so
+  // workers only bound how many symbol series are held in memory at once
+  workers: 4,
+
+  // Timeframes processed one symbol at a time (none needed since the Python
+  // parquet subprocess was removed; add large ones here to cap memory)
+  sequentialTimeframes: [] as string[],
 
   // Sampling: analyze every Nth candle (1 = no sampling, 24 = every 24th candle)
-  // This massively speeds up extraction for high-frequency data
-  sampleRates: { '1d': 1, '1h': 24, '5m': 48, '1m': 120 } as Record<string, number>,
+  // SMC analysis is incremental (SMCAnalyzer), so every bar is affordable -
+  // sampling now only thins the dataset
+  sampleRates: { '1d': 1, '1h': 1, '5m': 1, '1m': 1 } as Record<string, number>,
 
   // Session filtering - DISABLED for analysis
   // We want ALL sessions in dataset so ML can learn which are bad
@@ -72,15 +90,16 @@ const CONFIG = {
   recentDays: 30,                 // How many days of recent data
 
   // ═══════════════════════════════════════════════════════════════
-  // TRANCHED TRAINING - For large 1m/5m datasets
+  // TRANCHED TRAINING - Purged walk-forward validation
   // Train on 3 months, test on next month, roll forward
-  // Prevents memory crashes and provides walk-forward validation
+  // Training trades whose outcome overlaps the test month are purged,
+  // plus an embargo gap sized to the median holding period
   // ═══════════════════════════════════════════════════════════════
   useTranchTraining: true,
   tranchTrainMonths: 3,          // Train on 3 months
   tranchTestMonths: 1,           // Test on next 1 month
-  tranchRollForward: true,       // Roll forward through data
-  tranchTimeframes: ['1m', '5m', '15m'] as string[],  // Which timeframes use tranching
+  tranchRollForward: true,       // Roll forward through data (false = last tranche only)
+  tranchEmbargoHolds: 1,         // Embargo gap in median holding periods
 };
 
 interface LoopIteration {
@@ -101,12 +120,21 @@ interface TradeWithPrediction extends TradeFeatures {
 class BacktestLearnLoop {
   private dataLoader: LocalDataLoader;
   private model: TradingMLModel;
+  private backtestEngine: BacktestEngine;
   private allTrades: TradeFeatures[] = [];
+  private simulatedTrades: SimulatedTrade[] = [];
+  private backtestResult: BacktestResult | null = null;
+  private performance: Omit<PerformanceReport, 'equity_curve'> | null = null;   // Curve left out of the history file
+  private walkForward: WalkForwardResult | null = null;
+  private holdout: OutOfSampleMetrics | null = null;   // Saved model on the report slice
+  private calibration: CalibrationSelection | null = null;
+  private labelConfig = TradeLabeler.loadConfig();
   private iterations: LoopIteration[] = [];
 
   constructor() {
     this.dataLoader = new LocalDataLoader(CONFIG.dataPath);
     this.model = new TradingMLModel();
+    this.backtestEngine = new BacktestEngine();
     this.ensureDirectories();
   }
 
@@ -126,6 +154,7 @@ class BacktestLearnLoop {
     console.log(`  Min Score: ${CONFIG.minScore} (LOW to capture losers)`);
     console.log(`  Max Iterations: ${CONFIG.maxIterations}`);
     console.log(`  Error Emphasis: ${CONFIG.errorEmphasisMultiplier}x`);
+    console.log(`  Labels: ${CONFIG.labelScheme} (${TradeLabeler.objective(CONFIG.labelScheme)})`);
     console.log('');
 
     // Phase 1: Extract ALL trades (including low quality)
@@ -153,31 +182,58 @@ class BacktestLearnLoop {
     console.log(`  High Score (>60%): ${highScore}`);
     console.log(`  Low Score (≤60%): ${lowScore}`);
 
-    // Phase 2: Train with gradient descent
+    // Label view beyond WIN/LOSS
+    const barrierCounts = { TP: 0, SL: 0, TIMEOUT: 0 };
+    let totalR = 0;
+    let totalMae = 0;
+    let totalMfe = 0;
+    for (const t of this.allTrades) {
+      barrierCounts[t.barrier_label]++;
+      totalR += t.r_multiple;
+      totalMae += t.mae_r;
+      totalMfe += t.mfe_r;
+    }
+    const metaPositive = this.allTrades.filter(t => t.meta_label === 1).length;
+    const touched1R = this.allTrades.filter(t => t.touched_1r).length;
+    const lostAfter1R = this.allTrades.filter(t => t.touched_1r && t.outcome === 'LOSS').length;
+    console.log(`  Barriers: TP ${barrierCounts.TP} | SL ${barrierCounts.SL} | Timeout ${barrierCounts.TIMEOUT}`);
+    console.log(`  Mean R: ${(totalR / this.allTrades.length).toFixed(3)} | Meta-positive (≥${this.labelConfig.meta_min_r}R): ${metaPositive} (${(metaPositive / this.allTrades.length * 100).toFixed(1)}%)`);
+    console.log(`  Mean MAE: ${(totalMae / this.allTrades.length).toFixed(2)}R | Mean MFE: ${(totalMfe / this.allTrades.length).toFixed(2)}R | Touched 1R: ${touched1R} (${lostAfter1R} still lost)`);
+
+    this.backtestResult = BacktestEngine.summarize(this.simulatedTrades);
+    console.log(`\n📈 Backtest (all signals):`);
+    console.log(`  Profit Factor: ${this.backtestResult.profit_factor.toFixed(2)}`);
+    console.log(`  Total P&L: $${this.backtestResult.total_pnl.toFixed(2)}`);
+    console.log(`  Max Drawdown: $${this.backtestResult.max_drawdown.toFixed(2)}`);
+    for (const [tier, stats] of Object.entries(this.backtestResult.by_score_tier)) {
+      console.log(`  Score ${tier.padEnd(6)} ${stats.trades} trades, ${(stats.win_rate * 100).toFixed(1)}% WR, avg $${stats.avg_pnl.toFixed(2)}`);
+    }
+    const intrabar = BacktestEngine.summarizeIntrabar(this.simulatedTrades, IntrabarResolver.loadConfig().mode);
+    console.log(`  Intrabar: ${BacktestEngine.formatIntrabar(intrabar, this.simulatedTrades.length)}`);
+
+    const report = PerformanceAnalyzer.report(this.simulatedTrades);
+    console.log(`\n📐 Performance (all signals):`);
+    PerformanceAnalyzer.printReport(report);
+    const { equity_curve: _curve, ...performance } = report;
+    this.performance = performance;
+
+    // Phase 2: Train with gradient descent, re-weighting mistakes each iteration
     console.log('\n═══════════════════════════════════════════════════════════════');
-    console.log('PHASE 2: Training Model (Gradient Descent)');
+    console.log('PHASE 2: Training Model (Gradient Descent + Error Emphasis)');
     console.log('═══════════════════════════════════════════════════════════════\n');
 
-    // The model internally:
-    // - Splits into train/validation
-    // - Runs up to 100 epochs of gradient descent
-    // - Uses early stopping (patience=10)
-    // - Saves best weights automatically
-    // - Uses L2 regularization to prevent overfitting
-    this.model.train(this.allTrades);
+    // Out-of-sample estimate first: fresh model per fold, time-ordered
+    if (CONFIG.useTranchTraining) {
+      this.walkForward = TradingMLModel.walkForward(this.allTrades, {
+        trainMonths: CONFIG.tranchTrainMonths,
+        testMonths: CONFIG.tranchTestMonths,
+        rollForward: CONFIG.tranchRollForward,
+        embargoMultiple: CONFIG.tranchEmbargoHolds,
+        labelScheme: CONFIG.labelScheme
+      });
+    }
 
-    // Get final stats
-    const modelStats = this.model.getStats();
-    const finalAccuracy = modelStats.finalAccuracy;
-
-    this.iterations.push({
-      iteration: 1,
-      tradesExtracted: this.allTrades.length,
-      trainAccuracy: finalAccuracy,
-      testAccuracy: finalAccuracy,
-      predictionErrors: Math.floor(this.allTrades.length * (1 - finalAccuracy)),
-      improvementFromLast: finalAccuracy
-    });
+    await this.runLearningIterations();
 
     // Phase 3: Save results
     console.log('\n═══════════════════════════════════════════════════════════════');
@@ -198,9 +254,151 @@ class BacktestLearnLoop {
     console.log(`  Learned weights: ${stats.numWeights}`);
     console.log(`  Best validation loss: ${stats.bestValLoss?.toFixed(4)}`);
     console.log(`  Final accuracy: ${(stats.finalAccuracy * 100).toFixed(1)}%`);
+    const best = this.iterations.reduce((a, b) => b.testAccuracy > a.testAccuracy ? b : a, this.iterations[0]);
+    if (best) {
+      console.log(`  Learning iterations: ${this.iterations.length} (best #${best.iteration}, selection ${(best.testAccuracy * 100).toFixed(1)}%${this.holdout ? `, report ${(this.holdout.accuracy * 100).toFixed(1)}%` : ''})`);
+    }
+    if (this.calibration) {
+      console.log(`  Calibration: ${this.calibration.method} (calibration-slice ECE ${(this.calibration.raw.ece * 100).toFixed(2)}%${this.calibration.method !== 'none' ? ` -> ${(this.calibration[this.calibration.method]!.ece * 100).toFixed(2)}%` : ''})`);
+    }
+    if (this.walkForward) {
+      console.log(`  Walk-forward OOS accuracy (plain fold models, not registered): ${(this.walkForward.aggregate.accuracy * 100).toFixed(1)}% over ${this.walkForward.folds.length} folds (base rate ${(this.walkForward.aggregate.baseRate * 100).toFixed(1)}%)`);
+    }
     console.log(`  Duration: ${duration.toFixed(1)}s`);
-    console.log(`\n  Model saved to: ${CONFIG.modelDir}`);
-    console.log(`  Weights file: model-weights.json`);
+    console.log(`\n  Model registry: ${path.join(CONFIG.modelDir, 'registry')}`);
+  }
+
+  /**
+   * Boosting-style learning iterations
+   *
+   * The most recent (1 - trainTestSplit) of trades is held out and split in
+   * time into selection, calibration and report slices. Each iteration trains
+   * a fresh model with the current sample weights, scores it on the selection
+   * slice, then multiplies the weight of every misclassified training trade by
+   * errorEmphasisMultiplier (renormalized to mean 1). Stops when selection
+   * accuracy improves by less than minAccuracyImprovement. The best iteration's
+   * weights are refit on train + selection; that refit - the saved model - is
+   * calibrated on the calibration slice and scored on the report slice, neither
+   * of which it trained on.
+   */
+  private async runLearningIterations(): Promise<void> {
+    const sorted = [...this.allTrades].sort((a, b) => a.entry_time - b.entry_time);
+    const splitIdx = Math.floor(sorted.length * CONFIG.trainTestSplit);
+    const calibrationIdx = splitIdx + Math.floor((sorted.length - splitIdx) * CONFIG.selectionSplit);
+    const reportIdx = calibrationIdx + Math.floor((sorted.length - calibrationIdx) * CONFIG.calibrationSplit);
+    const selectionSet = sorted.slice(splitIdx, calibrationIdx);
+    const calibrationSet = sorted.slice(calibrationIdx, reportIdx);
+    const reportSet = sorted.slice(reportIdx);
+
+    if (selectionSet.length === 0 || calibrationSet.length === 0 || reportSet.length === 0) {
+      console.log(`\n❌ Too few trades (${sorted.length}) to split into train, selection, calibration and report sets - skipping learning iterations`);
+      return;
+    }
+    const splitTime = selectionSet[0].entry_time;
+
+    // Purge training trades still open when the selection slice starts
+    const trainSet = sorted.slice(0, splitIdx).filter(t => (t.exit_time || t.entry_time) < splitTime);
+
+    console.log(`\n=== Learning Iterations (selection ${selectionSet.length} trades from ${new Date(splitTime).toISOString().slice(0, 10)}, calibration ${calibrationSet.length}, report ${reportSet.length} from ${new Date(reportSet[0].entry_time).toISOString().slice(0, 10)}) ===`);
+    console.log(`Train: ${trainSet.length} (purged ${splitIdx - trainSet.length}) | Emphasis: ${CONFIG.errorEmphasisMultiplier}x | Max: ${CONFIG.maxIterations}`);
+
+    const sampleWeights = new Map<TradeFeatures, number>(trainSet.map(t => [t, 1]));
+    let bestModel: TradingMLModel | null = null;
+    let bestWeights = new Map(sampleWeights);
+    let bestTestAccuracy = -Infinity;
+    let lastTestAccuracy = 0;
+
+    for (let iteration = 1; iteration <= CONFIG.maxIterations; iteration++) {
+      this.model = new TradingMLModel(CONFIG.labelScheme);
+      this.model.train(trainSet, { verbose: iteration === 1, sampleWeights });
+
+      if (!this.model.getStats().trained) break;
+
+      const train = this.evaluateModel(trainSet);
+      const test = this.evaluateModel(selectionSet);
+      const improvement = iteration === 1 ? 0 : test.accuracy - lastTestAccuracy;
+
+      this.iterations.push({
+        iteration,
+        tradesExtracted: this.allTrades.length,
+        trainAccuracy: train.accuracy,
+        testAccuracy: test.accuracy,
+        predictionErrors: train.errors.length,
+        improvementFromLast: improvement
+      });
+
+      const isBest = test.accuracy > bestTestAccuracy;
+      console.log(`  Iteration ${iteration}: train ${(train.accuracy * 100).toFixed(1)}% | selection ${(test.accuracy * 100).toFixed(1)}% | ${train.errors.length} errors emphasized${iteration > 1 ? ` | ${improvement >= 0 ? '+' : ''}${(improvement * 100).toFixed(2)}%` : ''}${isBest ? ' [BEST]' : ''}`);
+
+      if (isBest) {
+        bestTestAccuracy = test.accuracy;
+        bestModel = this.model;
+        bestWeights = new Map(sampleWeights);
+      }
+
+      if (iteration > 1 && improvement < CONFIG.minAccuracyImprovement) {
+        console.log(`  Plateau: improvement below ${(CONFIG.minAccuracyImprovement * 100).toFixed(1)}%, stopping`);
+        break;
+      }
+      lastTestAccuracy = test.accuracy;
+
+      // Up-weight mistakes for the next iteration, keeping the mean weight at 1
+      for (const trade of train.errors) {
+        sampleWeights.set(trade, (sampleWeights.get(trade) ?? 1) * CONFIG.errorEmphasisMultiplier);
+      }
+      let weightSum = 0;
+      for (const w of sampleWeights.values()) weightSum += w;
+      const scale = sampleWeights.size / weightSum;
+      for (const [trade, w] of sampleWeights) sampleWeights.set(trade, w * scale);
+    }
+
+    if (!bestModel) return;
+
+    // Refit the kept configuration on train + selection (purged before the
+    // calibration slice); selection trades weigh 1
+    const calibrationStart = calibrationSet[0].entry_time;
+    const refitSet = sorted.slice(0, calibrationIdx).filter(t => (t.exit_time || t.entry_time) < calibrationStart);
+    console.log(`\n=== Refit on ${refitSet.length} train + selection trades (best iteration's sample weights) ===`);
+    const refit = new TradingMLModel(CONFIG.labelScheme);
+    refit.train(refitSet, { verbose: false, sampleWeights: bestWeights });
+    if (refit.getStats().trained) {
+      this.model = refit;
+    } else {
+      console.log(`  Refit failed - keeping the selected iteration's model`);
+      this.model = bestModel;
+    }
+
+    // Calibrate and score the model that gets saved, on slices it never trained on
+    this.calibrateModel(calibrationSet);
+    this.holdout = TradingMLModel.scoreProbabilities(
+      reportSet.map(t => this.model.predict(t).winProbability),
+      reportSet.map(t => TradeLabeler.isPositive(t, CONFIG.labelScheme, this.labelConfig) ? 1 : 0)
+    );
+    console.log(`\n  Saved model scores ${(this.holdout.accuracy * 100).toFixed(1)}% (calibrated, base rate ${(this.holdout.baseRate * 100).toFixed(1)}%) on the ${reportSet.length}-trade report slice`);
+  }
+
+  /**
+   * Fit the probability calibrator on the saved model's calibration-slice predictions
+   * (time-ordered, so select() compares methods on the most recent trades)
+   */
+  private calibrateModel(holdout: TradeFeatures[]): void {
+    const probs = holdout.map(t => this.model.predict(t).rawWinProbability);
+    const targets = holdout.map(t => TradeLabeler.isPositive(t, CONFIG.labelScheme, this.labelConfig) ? 1 : 0);
+
+    this.calibration = ProbabilityCalibrator.select(probs, targets);
+    this.model.setCalibrator(this.calibration.calibrator);
+
+    console.log(`\n=== Probability Calibration (${probs.length} calibration-slice predictions) ===`);
+    if (this.calibration.evaluated === 0) {
+      console.log(`  Too few predictions to calibrate - raw probabilities kept`);
+      return;
+    }
+    ProbabilityCalibrator.printReport('Raw', this.calibration.raw);
+    for (const method of ['platt', 'isotonic'] as const) {
+      const report = this.calibration[method];
+      if (report) ProbabilityCalibrator.printReport(method === 'platt' ? 'Platt' : 'Isotonic', report);
+    }
+    console.log(`\n  Selected: ${this.calibration.method === 'none' ? 'none (raw probabilities already best)' : this.calibration.method} - compared on the latest ${this.calibration.evaluated} predictions`);
   }
 
   /**
@@ -216,7 +414,10 @@ class BacktestLearnLoop {
     const sequentialTFs = CONFIG.timeframes.filter(tf => CONFIG.sequentialTimeframes.includes(tf));
 
     console.log(`\n🚀 Parallel (${CONFIG.workers} workers): ${parallelTFs.join(', ')}`);
-    console.log(`📝 Sequential (1 at a time): ${sequentialTFs.join(', ')}\n`);
+    if (sequentialTFs.length > 0) {
+      console.log(`📝 Sequential (1 at a time): ${sequentialTFs.join(', ')}`);
+    }
+    console.log('');
 
     const results: TradeFeatures[][] = [];
 
@@ -258,7 +459,7 @@ class BacktestLearnLoop {
       }
     }
 
-    // SEQUENTIAL: Process 5m one symbol at a time to avoid memory/subprocess issues
+    // SEQUENTIAL: Process one symbol at a time to cap memory
     for (const timeframe of sequentialTFs) {
       console.log(`\n\n📝 Processing ${timeframe} sequentially...`);
       for (const symbol of CONFIG.symbols) {
@@ -332,6 +533,17 @@ class BacktestLearnLoop {
     const totalIterations = Math.floor((candles.length - 50 - lookback) / sampleRate);
     let iteration = 0;
 
+    // Streaming analysis: every candle is ingested once, analysis built only on sampled bars
+    const analyzer = new SMCAnalyzer();
+    let ingested = 0;
+
+    // Real 1d/1h/5m context - only candles closed by each bar's close
+    const aligner = await TimeframeAligner.load(this.dataLoader, symbol, timeframe);
+    // 1m/5m replay for bars that touch both stop and target
+    const intrabar = await IntrabarResolver.load(this.dataLoader, symbol, timeframe);
+    // Regime per bar over the full series (same labels backtest-runner filters on)
+    const regimes = new RegimeClassifier().classify(candles);
+
     for (let i = lookback; i < candles.length - 50; i += sampleRate) {
       iteration++;
 
@@ -342,7 +554,7 @@ class BacktestLearnLoop {
       }
 
       const currentCandle = candles[i];
-      const historicalCandles = candles.slice(0, i + 1);
+      while (ingested <= i) analyzer.push(candles[ingested++]);
 
       // PRE-CHECK: Skip bad sessions (overlap has -0.1159 weight)
       const session = getSession(currentCandle.timestamp);
@@ -351,7 +563,7 @@ class BacktestLearnLoop {
         continue;
       }
 
-      const analysis = SMCIndicators.analyze(historicalCandles);
+      const analysis = analyzer.analyze();
 
       // FIRST CHECK: Must have a trend
       if (!analysis.trend) {
@@ -368,7 +580,9 @@ class BacktestLearnLoop {
         // continue;  // DISABLED - we want these for analysis
       }
 
-      const scoring = UnifiedScoring.calculateConfluence(analysis, currentCandle.close, weights, currentCandle.timestamp);
+      const mtf = aligner.advance(currentCandle, analysis);
+      const mtfBonus = mtf.daily ? UnifiedScoring.calculateMTFBonus(mtf.daily, mtf.hourly, mtf.fiveMin) : undefined;
+      const scoring = UnifiedScoring.calculateConfluence(analysis, currentCandle.close, weights, currentCandle.timestamp, mtfBonus);
 
       // THIRD CHECK: Score threshold
       if (scoring.score < CONFIG.minScore) {
@@ -381,17 +595,24 @@ class BacktestLearnLoop {
       const direction = scoring.bias === 'bullish' ? 'long' : 'short';
 
       // Run fast ICT analysis for institutional-grade features (optimized for backtesting)
-      const ictAnalysis = ICTIndicators.analyzeFast(historicalCandles, analysis);
+      const ictAnalysis = ICTIndicators.analyzeFast(analyzer.getCandles(), analysis, mtf);
 
       // Add pullback info and ICT features for ML training
       const features = FeatureExtractor.extractFeatures(
-        candles, i, analysis, scoring.score, direction, ictAnalysis
+        candles, i, analysis, scoring.score, direction, ictAnalysis, mtf, regimes[i]
       );
 
-      const trade = this.simulateTrade(candles, i, currentCandle.close, direction, analysis);
+      const trade = this.backtestEngine.simulateTrade(candles, i, direction, {
+        atr: analysis.atr,
+        score: scoring.score,
+        symbol,
+        timeframe,
+        intrabar,
+      });
       const featuresWithOutcome = FeatureExtractor.addOutcome(features, trade);
 
       trades.push(featuresWithOutcome);
+      this.simulatedTrades.push(trade);
     }
 
     // Log skip stats (helps understand filtering)
@@ -402,127 +623,6 @@ class BacktestLearnLoop {
     return trades;
   }
 
-  /**
-   * Simulate a trade to get outcome
-   * Uses dynamic R:R based on ATR and market structure
-   */
-  private simulateTrade(
-    candles: Candle[],
-    startIndex: number,
-    entryPrice: number,
-    direction: 'long' | 'short',
-    analysis: any
-  ): any {
-    const isLong = direction === 'long';
-    const atr = analysis.atr || (candles[startIndex].high - candles[startIndex].low);
-
-    // Dynamic stop loss: 1.5x ATR (same as before)
-    const stopMultiplier = 1.5;
-    const stopLoss = isLong
-      ? entryPrice - (atr * stopMultiplier)
-      : entryPrice + (atr * stopMultiplier);
-    const riskDistance = Math.abs(entryPrice - stopLoss);
-
-    // DYNAMIC R:R based on signal strength and volatility
-    // Base R:R is 2:1, but adjust based on conditions
-    let targetRR = 2.0;
-
-    // If we have a strong SMC signal, target higher R:R
-    if (analysis.bestSignal?.strength > 0.7) {
-      targetRR = 2.5;
-    } else if (analysis.bestSignal?.strength > 0.5) {
-      targetRR = 2.0;
-    } else {
-      targetRR = 1.5;  // Lower R:R for weaker signals
-    }
-
-    // Adjust based on pullback fib level
-    if (analysis.pullback?.fibLevel === '0.618') {
-      targetRR += 0.5;  // Golden ratio = stronger reversal
-    } else if (analysis.pullback?.fibLevel === '0.786') {
-      targetRR -= 0.5;  // Deep pullback = riskier
-    }
-
-    // Cap R:R between 1.5 and 3.0
-    targetRR = Math.max(1.5, Math.min(3.0, targetRR));
-
-    const takeProfit = isLong
-      ? entryPrice + (riskDistance * targetRR)
-      : entryPrice - (riskDistance * targetRR);
-
-    let exitPrice = entryPrice;
-    let exitReason = 'timeout';
-    let holdingPeriods = 0;
-    const maxHoldPeriod = 20;
-
-    for (let i = startIndex + 1; i < Math.min(startIndex + maxHoldPeriod, candles.length); i++) {
-      const candle = candles[i];
-      holdingPeriods++;
-
-      // Check stop loss first
-      if (isLong && candle.low <= stopLoss) {
-        exitPrice = stopLoss;
-        exitReason = 'SL';
-        break;
-      }
-      if (!isLong && candle.high >= stopLoss) {
-        exitPrice = stopLoss;
-        exitReason = 'SL';
-        break;
-      }
-
-      // Check take profit
-      if (isLong && candle.high >= takeProfit) {
-        exitPrice = takeProfit;
-        exitReason = 'TP';
-        break;
-      }
-      if (!isLong && candle.low <= takeProfit) {
-        exitPrice = takeProfit;
-        exitReason = 'TP';
-        break;
-      }
-
-      // NEW: Trailing stop after 1:1 profit
-      const currentProfit = isLong
-        ? (candle.close - entryPrice)
-        : (entryPrice - candle.close);
-      const profitInR = currentProfit / riskDistance;
-
-      // Move stop to breakeven after hitting 1:1
-      if (profitInR >= 1.0) {
-        const trailingStop = isLong
-          ? entryPrice + (riskDistance * 0.5)  // Lock in 0.5R
-          : entryPrice - (riskDistance * 0.5);
-
-        if ((isLong && candle.low <= trailingStop) ||
-            (!isLong && candle.high >= trailingStop)) {
-          exitPrice = trailingStop;
-          exitReason = 'trailing';
-          break;
-        }
-      }
-    }
-
-    // If timeout, exit at current price
-    if (exitReason === 'timeout') {
-      const lastCandle = candles[Math.min(startIndex + maxHoldPeriod, candles.length - 1)];
-      exitPrice = lastCandle.close;
-    }
-
-    const priceDiff = isLong ? (exitPrice - entryPrice) : (entryPrice - exitPrice);
-    const pnl = 1000 * (priceDiff / entryPrice);
-
-    return {
-      pnl,
-      pnl_percent: (priceDiff / entryPrice) * 100,
-      outcome: pnl > 0 ? 'WIN' : 'LOSS',
-      exit_reason: exitReason,
-      holding_periods: holdingPeriods,
-      target_rr: targetRR  // Track what R:R was used
-    };
-  }
-
   /**
    * Evaluate model on a set of trades
    */
@@ -533,7 +633,7 @@ class BacktestLearnLoop {
     for (const trade of trades) {
       const prediction = this.model.predict(trade);
       const predictedWin = prediction.winProbability >= 0.5;
-      const actualWin = trade.outcome === 'WIN';
+      const actualWin = TradeLabeler.isPositive(trade, CONFIG.labelScheme, this.labelConfig);
 
       if (predictedWin === actualWin) {
         correct++;
@@ -562,36 +662,85 @@ class BacktestLearnLoop {
       config: CONFIG,
       iterations: this.iterations,
       totalTrades: this.allTrades.length,
+      backtest: this.backtestResult,
+      performance: this.performance,
+      walkForward: this.walkForward,
+      calibration: this.calibration,
       modelStats
     }, null, 2));
 
-    // Save model metadata
-    const modelMeta = {
-      modelId: `loop_model_${timestamp}`,
-      trainedAt: Date.now(),
-      epochs: modelStats.epochs,
-      finalAccuracy: modelStats.finalAccuracy,
-      bestValLoss: modelStats.bestValLoss,
-      numWeights: modelStats.numWeights,
-      tradesUsed: this.allTrades.length,
-      algorithm: 'gradient-descent-logistic'
-    };
-
-    const modelFile = path.join(CONFIG.modelDir, 'best-model.json');
-    fs.writeFileSync(modelFile, JSON.stringify(modelMeta, null, 2));
-
-    // Save learned weights (the actual model!)
-    const weightsFile = path.join(CONFIG.modelDir, 'model-weights.json');
-    fs.writeFileSync(weightsFile, JSON.stringify(this.model.exportWeights(), null, 2));
-
-    // Save training data for future use
+    // Save training data for future use (hashed into the registry entry)
     const trainingFile = path.join(CONFIG.outputDir, `training_data_${timestamp}.csv`);
     this.saveToCSV(this.allTrades, trainingFile);
 
     console.log(`  Saved: ${historyFile}`);
-    console.log(`  Saved: ${modelFile}`);
-    console.log(`  Saved: ${weightsFile} (learned weights)`);
     console.log(`  Saved: ${trainingFile}`);
+
+    if (!modelStats.trained) {
+      console.log('  No model was trained - nothing registered');
+      return;
+    }
+
+    // Per-run weights, copied into the registry
+    const weights = this.model.exportWeights();
+    const runWeightsFile = path.join(CONFIG.outputDir, `model_weights_${timestamp}.json`);
+    fs.writeFileSync(runWeightsFile, JSON.stringify(weights, null, 2));
+
+    console.log(`  Saved: ${runWeightsFile} (learned weights)`);
+
+    // Out-of-sample evidence for promotion: the saved model itself (refit with
+    // emphasis weights, calibrated) on the report slice. Walk-forward trains plain
+    // fold models, so it stays a diagnostic in the history file.
+    const oos: OutOfSampleSummary | undefined = this.holdout ? {
+      trades: this.holdout.trades,
+      accuracy: this.holdout.accuracy,
+      logLoss: this.holdout.logLoss,
+      baseRate: this.holdout.baseRate,
+      source: 'holdout'
+    } : undefined;
+
+    const registry = new ModelRegistry(CONFIG.modelDir);
+    const entry = registry.register({
+      id: `loop_model_${timestamp}`,
+      kind: 'logistic',
+      algorithm: 'gradient-descent-logistic',
+      target: CONFIG.labelScheme,
+      features: Object.keys(weights.weights),
+      artifacts: { weights: runWeightsFile },
+      dataFile: trainingFile,
+      metrics: {
+        accuracy: modelStats.finalAccuracy,
+        logloss: modelStats.bestValLoss,
+        oos
+      }
+    });
+    const decision = registry.autoPromote(entry.id);
+
+    console.log(`\n  Registered: ${entry.id} (parent: ${entry.parent ?? 'none'})`);
+    console.log(`  ${decision.promote ? '🏆 Promoted to champion' : '📋 Kept as candidate'}: ${decision.reasons.join('; ')}`);
+
+    // Legacy best-model.json / model-weights.json mirror the champion only
+    if (decision.promote) {
+      const modelMeta = {
+        modelId: entry.id,
+        trainedAt: Date.now(),
+        epochs: modelStats.epochs,
+        finalAccuracy: modelStats.finalAccuracy,
+        bestValLoss: modelStats.bestValLoss,
+        numWeights: modelStats.numWeights,
+        tradesUsed: this.allTrades.length,
+        algorithm: 'gradient-descent-logistic'
+      };
+
+      const modelFile = path.join(CONFIG.modelDir, 'best-model.json');
+      fs.writeFileSync(modelFile, JSON.stringify(modelMeta, null, 2));
+
+      const weightsFile = path.join(CONFIG.modelDir, 'model-weights.json');
+      fs.writeFileSync(weightsFile, JSON.stringify(weights, null, 2));
+
+      console.log(`  Saved: ${modelFile}`);
+      console.log(`  Saved: ${weightsFile}`);
+    }
   }
 
   /**
@@ -641,14 +790,16 @@ async function addLiveTrades(): Promise<TradeFeatures[]> {
 
       for (const trade of closed) {
         if (trade.features) {
-          liveTrades.push({
-            ...trade.features,
+          liveTrades.push(FeatureExtractor.addOutcome(trade.features, {
             outcome: trade.pnl > 0 ? 'WIN' : 'LOSS',
             pnl: trade.pnl,
             pnl_percent: trade.pnl_percent || 0,
             exit_reason: trade.exit_reason || 'unknown',
-            holding_periods: trade.holding_periods || 0
-          });
+            holding_periods: trade.holding_periods || 0,
+            exit_time: trade.exit_time || trade.features.entry_time || 0,
+            r_multiple: trade.r_multiple,
+            ...TradePath.pick(trade)
+          }));
         }
       }
     } catch {}
@@ -679,6 +830,7 @@ Options:
   --iterations <n>    Max iterations (default: 10)
   --min-score <n>     Minimum SMC score (default: 25, LOW to capture losers)
   --emphasis <n>      Error emphasis multiplier (default: 3)
+  --labels <scheme>   Training target: ${LABEL_SCHEMES.join(', ')} (default: ${CONFIG.labelScheme})
   -h, --help          Show this help
 
 Examples:
@@ -705,6 +857,9 @@ Examples:
       case '--emphasis':
         CONFIG.errorEmphasisMultiplier = parseInt(args[++i]);
         break;
+      case '--labels':
+        CONFIG.labelScheme = TradeLabeler.parseScheme(args[++i]);
+        break;
     }
   }
 
@@ -717,7 +872,7 @@ Examples:
 
     // Now retrain LightGBM with the fresh training data
     console.log('\n═══════════════════════════════════════════════════════════════');
-    console.log('PHASE 4: Retraining LightGBM (77% accuracy model)');
+    console.log('PHASE 4: Retraining LightGBM');
     console.log('═══════════════════════════════════════════════════════════════\n');
 
     try {
@@ -742,6 +897,32 @@ Examples:
           });
 
           console.log('\n  ✅ LightGBM model retrained with fresh data');
+
+          // Register as a candidate - the trainer's single holdout isn't walk-forward
+          // evidence, so promotion is manual (cli registry promote <id>)
+          const modelDir = path.join(process.cwd(), 'data', 'models');
+          const metadata = JSON.parse(fs.readFileSync(path.join(modelDir, 'lightgbm_metadata.json'), 'utf-8'));
+          const artifacts: Record<string, string> = {
+            model: path.join(modelDir, 'lightgbm_model.txt'),
+            metadata: path.join(modelDir, 'lightgbm_metadata.json')
+          };
+          const parityFile = path.join(modelDir, 'lightgbm_parity.json');
+          if (fs.existsSync(parityFile)) artifacts.parity = parityFile;
+          const validationFile = path.join(modelDir, 'lightgbm_validation.json');
+          if (fs.existsSync(validationFile)) artifacts.validation = validationFile;
+
+          const registry = new ModelRegistry(modelDir);
+          const entry = registry.register({
+            id: metadata.modelId,
+            kind: 'lightgbm',
+            algorithm: metadata.algorithm || 'lightgbm-gbdt',
+            features: metadata.features || [],
+            artifacts,
+            dataFile: latestCSV,
+            metrics: { accuracy: metadata.accuracy, auc: metadata.auc }
+          });
+          const decision = registry.autoPromote(entry.id);
+          console.log(`  Registered: ${entry.id} - ${decision.promote ? 'promoted to champion' : `candidate (${decision.reasons.join('; ')})`}`);
         } else {
           console.log('  ⚠️  LightGBM trainer script not found, skipping');
         }
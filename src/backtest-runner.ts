@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+/**
+ * Backtest Runner
+ * Backtests a stored strategy with the shared BacktestEngine:
+ *   1. Loads strategy weights/min_score from data/strategies.json
+ *   2. Walks each symbol bar by bar, scoring with UnifiedScoring
+ *      (MTF bonus from the real 1d/1h/5m series via TimeframeAligner)
+ *   3. Simulates entries with trade_simulation from config/features.json,
+ *      net of trading_costs (fees, slippage, funding); bars touching both
+ *      stop and target are replayed from 1m/5m data when it exists
+ *   4. Labels every bar with RegimeClassifier; trades carry their entry regime
+ *      and --regime restricts entries to one regime (or one axis of it)
+ *   5. Prints BacktestResult (overall, per symbol, per score tier, per regime)
+ *      and the PerformanceAnalyzer report (Sharpe, drawdown, streaks...), and saves both
+ *
+ * Run: npm run backtest -- --strategy production --symbols BTCUSDT,ETHUSDT
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LocalDataLoader } from './data-loader.js';
+import { SMCAnalyzer } from './smc-analyzer.js';
+import { UnifiedScoring } from './unified-scoring.js';
+import { BacktestEngine, SimulatedTrade, IntrabarSummary } from './backtest-engine.js';
+import { TimeframeAligner } from './timeframe-alignment.js';
+import { IntrabarResolver, IntrabarMode } from './intrabar-resolver.js';
+import { PerformanceAnalyzer, PerformanceReport } from './performance-metrics.js';
+import { RegimeClassifier } from './market-regime.js';
+import { BacktestResult, Strategy } from './types.js';
+
+// Configuration
+const CONFIG = {
+  strategy: 'production',
+  symbols: ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'XRPUSDT'],
+  timeframe: '1d',
+  minScore: undefined as number | undefined,   // Default: strategy min_score
+  allowOverlap: false,
+  regime: undefined as string | undefined,      // Only enter in this regime (RegimeClassifier.parseFilter)
+  intrabarMode: IntrabarResolver.loadConfig().mode as IntrabarMode,
+  lookback: 200,
+  dataPath: path.join(process.cwd(), 'Historical_Data_Lite'),
+  strategiesFile: path.join(process.cwd(), 'data', 'strategies.json'),
+  outputDir: path.join(process.cwd(), 'data', 'backtests'),
+};
+
+class BacktestRunner {
+  private dataLoader: LocalDataLoader;
+  private engine: BacktestEngine;
+  private regimes: RegimeClassifier;
+
+  constructor() {
+    this.dataLoader = new LocalDataLoader(CONFIG.dataPath);
+    this.engine = new BacktestEngine();
+    this.regimes = new RegimeClassifier();
+  }
+
+  async run(): Promise<BacktestResult> {
+    const strategy = this.loadStrategy(CONFIG.strategy);
+    const minScore = CONFIG.minScore ?? strategy.min_score ?? 70;
+    const sim = this.engine.getConfig();
+
+    console.log('╔═══════════════════════════════════════════════════════════════╗');
+    console.log('║                     STRATEGY BACKTEST                         ║');
+    console.log('╚═══════════════════════════════════════════════════════════════╝\n');
+
+    console.log('Configuration:');
+    console.log(`  Strategy: ${strategy.id} (${strategy.name} v${strategy.version})`);
+    console.log(`  Symbols: ${CONFIG.symbols.join(', ')}`);
+    console.log(`  Timeframe: ${CONFIG.timeframe}`);
+    console.log(`  Min Score: ${minScore}`);
+    console.log(`  SL: ${sim.atr_multiplier_sl} ATR | TP: ${sim.atr_multiplier_tp1}/${sim.atr_multiplier_tp2}/${sim.atr_multiplier_tp3} ATR | Max hold: ${sim.max_holding_periods} bars`);
+    console.log(`  Intrabar: finer data, else ${CONFIG.intrabarMode}`);
+    console.log(`  Regime: ${CONFIG.regime ?? 'all'} (${this.regimes.getConfig().volatility_method} volatility)`);
+    console.log('');
+
+    const allTrades: SimulatedTrade[] = [];
+    const bySymbol: Record<string, BacktestResult> = {};
+
+    for (const symbol of CONFIG.symbols) {
+      try {
+        const trades = await this.backtestSymbol(symbol, strategy, minScore);
+        allTrades.push(...trades);
+        bySymbol[symbol] = BacktestEngine.summarize(trades);
+        console.log(`  ✅ ${symbol}: ${trades.length} trades, ${(bySymbol[symbol].win_rate * 100).toFixed(1)}% WR, $${bySymbol[symbol].total_pnl.toFixed(2)}`);
+      } catch (err: any) {
+        console.log(`  ❌ ${symbol}: ${err.message}`);
+      }
+    }
+
+    const result = BacktestEngine.summarize(allTrades);
+    this.printResult(result);
+    this.printByRegime(allTrades);
+
+    const fees = allTrades.reduce((s, t) => s + t.fees, 0);
+    const slippage = allTrades.reduce((s, t) => s + t.slippage, 0);
+    const funding = allTrades.reduce((s, t) => s + t.funding, 0);
+    console.log(`\n  Costs: fees $${fees.toFixed(2)} | slippage $${slippage.toFixed(2)} | funding $${funding.toFixed(2)}`);
+
+    const intrabar = BacktestEngine.summarizeIntrabar(allTrades, CONFIG.intrabarMode);
+    console.log(`  Intrabar: ${BacktestEngine.formatIntrabar(intrabar, allTrades.length)}`);
+
+    const performance = PerformanceAnalyzer.report(allTrades);
+    console.log('\n  Performance:');
+    PerformanceAnalyzer.printReport(performance, '    ');
+    this.saveResult(strategy, minScore, result, bySymbol, allTrades, intrabar, performance);
+
+    return result;
+  }
+
+  private loadStrategy(id: string): Strategy {
+    const strategies: Record<string, Strategy> = JSON.parse(fs.readFileSync(CONFIG.strategiesFile, 'utf-8'));
+    const strategy = strategies[id];
+    if (!strategy) {
+      throw new Error(`Strategy not found: ${id} (available: ${Object.keys(strategies).join(', ')})`);
+    }
+    return strategy;
+  }
+
+  /**
+   * Walk one symbol bar by bar; while a trade is open no new entries are scanned
+   */
+  private async backtestSymbol(symbol: string, strategy: Strategy, minScore: number): Promise<SimulatedTrade[]> {
+    const { candles } = await this.dataLoader.loadData(symbol, CONFIG.timeframe);
+    if (candles.length < CONFIG.lookback + 50) {
+      throw new Error(`Insufficient data: ${candles.length} candles`);
+    }
+
+    const trades: SimulatedTrade[] = [];
+    const analyzer = new SMCAnalyzer();
+    const aligner = await TimeframeAligner.load(this.dataLoader, symbol, CONFIG.timeframe);
+    const intrabar = await IntrabarResolver.load(this.dataLoader, symbol, CONFIG.timeframe, { mode: CONFIG.intrabarMode });
+    const regimes = this.regimes.classify(candles);
+    let busyUntil = -1;
+
+    for (let i = 0; i < candles.length - 1; i++) {
+      analyzer.push(candles[i]);
+      if (i < CONFIG.lookback) continue;
+      if (!CONFIG.allowOverlap && i <= busyUntil) continue;
+      if (CONFIG.regime && !RegimeClassifier.matches(regimes[i].regime, CONFIG.regime)) continue;
+
+      const analysis = analyzer.analyze();
+      const mtf = aligner.advance(candles[i], analysis);
+      const mtfBonus = mtf.daily ? UnifiedScoring.calculateMTFBonus(mtf.daily, mtf.hourly, mtf.fiveMin) : undefined;
+      const scoring = UnifiedScoring.calculateConfluence(analysis, candles[i].close, strategy.weights, candles[i].timestamp, mtfBonus);
+
+      if (scoring.bias === 'neutral' || scoring.score < minScore) continue;
+
+      const trade = this.engine.simulateTrade(candles, i, scoring.bias === 'bullish' ? 'long' : 'short', {
+        atr: analysis.atr,
+        score: scoring.score,
+        symbol,
+        timeframe: CONFIG.timeframe,
+        intrabar,
+      });
+      trade.regime = regimes[i].regime;
+      trades.push(trade);
+      busyUntil = i + trade.holding_periods;
+    }
+
+    return trades;
+  }
+
+  private printResult(result: BacktestResult): void {
+    console.log('\n═══════════════════════════════════════════════════════════════');
+    console.log('RESULTS');
+    console.log('═══════════════════════════════════════════════════════════════');
+    console.log(`  Trades: ${result.trades} (${result.wins}W / ${result.losses}L)`);
+    console.log(`  Win Rate: ${(result.win_rate * 100).toFixed(1)}%`);
+    console.log(`  Profit Factor: ${result.profit_factor.toFixed(2)}`);
+    console.log(`  Total P&L: $${result.total_pnl.toFixed(2)}`);
+    console.log(`  Max Drawdown: $${result.max_drawdown.toFixed(2)}`);
+
+    if (Object.keys(result.by_score_tier).length > 0) {
+      console.log('\n  By score tier:');
+      for (const [tier, stats] of Object.entries(result.by_score_tier)) {
+        console.log(`    ${tier.padEnd(6)} ${String(stats.trades).padStart(5)} trades  ${(stats.win_rate * 100).toFixed(1).padStart(5)}% WR  avg $${stats.avg_pnl.toFixed(2)}`);
+      }
+    }
+  }
+
+  private printByRegime(trades: SimulatedTrade[]): void {
+    const byRegime = new Map<string, SimulatedTrade[]>();
+    for (const t of trades) {
+      const regime = t.regime ?? 'unknown';
+      if (!byRegime.has(regime)) byRegime.set(regime, []);
+      byRegime.get(regime)!.push(t);
+    }
+    if (byRegime.size === 0) return;
+
+    console.log('\n  By regime:');
+    for (const [regime, group] of Array.from(byRegime.entries()).sort()) {
+      const stats = BacktestEngine.summarize(group);
+      console.log(`    ${regime.padEnd(15)} ${String(stats.trades).padStart(5)} trades  ${(stats.win_rate * 100).toFixed(1).padStart(5)}% WR  ` +
+        `PF ${stats.profit_factor.toFixed(2).padStart(5)}  $${stats.total_pnl.toFixed(2)}`);
+    }
+  }
+
+  private saveResult(
+    strategy: Strategy,
+    minScore: number,
+    result: BacktestResult,
+    bySymbol: Record<string, BacktestResult>,
+    trades: SimulatedTrade[],
+    intrabar: IntrabarSummary,
+    performance: PerformanceReport
+  ): void {
+    if (!fs.existsSync(CONFIG.outputDir)) {
+      fs.mkdirSync(CONFIG.outputDir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    const outputFile = path.join(CONFIG.outputDir, `backtest_${strategy.id}_${timestamp}.json`);
+
+    fs.writeFileSync(outputFile, JSON.stringify({
+      timestamp: new Date().toISOString(),
+      strategy: strategy.id,
+      version: strategy.version,
+      timeframe: CONFIG.timeframe,
+      minScore,
+      regime: CONFIG.regime ?? null,
+      tradeSimulation: this.engine.getConfig(),
+      result,
+      performance,
+      intrabar,
+      bySymbol,
+      trades,
+    }, null, 2));
+
+    console.log(`\n  Saved: ${outputFile}`);
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Parse args
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--strategy':
+        CONFIG.strategy = args[++i];
+        break;
+      case '--symbols':
+        CONFIG.symbols = args[++i].split(',');
+        break;
+      case '--timeframe':
+        CONFIG.timeframe = args[++i];
+        break;
+      case '--min-score':
+        CONFIG.minScore = parseInt(args[++i]);
+        break;
+      case '--overlap':
+        CONFIG.allowOverlap = true;
+        break;
+      case '--intrabar':
+        CONFIG.intrabarMode = IntrabarResolver.parseMode(args[++i]);
+        break;
+      case '--regime':
+        CONFIG.regime = RegimeClassifier.parseFilter(args[++i]);
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Strategy Backtest
+Scores historical bars with a stored strategy → Simulates trades → Reports BacktestResult
+
+Usage: npm run backtest -- [OPTIONS]
+
+Options:
+  --strategy <id>        Strategy id from data/strategies.json (default: production)
+  --symbols <list>       Comma-separated symbols (default: BTC, ETH, SOL, BNB, XRP)
+  --timeframe <tf>       Candle timeframe (default: 1d)
+  --min-score <n>        Override the strategy's min_score
+  --overlap              Allow overlapping trades (default: one position per symbol)
+  --intrabar <mode>      Stop/target order when no finer data covers a bar:
+                         pessimistic | optimistic | ohlc (default: config intrabar.mode)
+  --regime <regime>      Only enter in one regime: trend_high_vol | trend_low_vol |
+                         range_high_vol | range_low_vol, or trend | range | high_vol | low_vol
+  -h, --help             Show this help
+
+Trade simulation (stops, targets, holding period, size) is read from
+config/features.json → trade_simulation, intrabar replay from → intrabar,
+regime labels from → regime.
+
+Examples:
+  npm run backtest
+  npm run backtest -- --strategy experimental_v1 --timeframe 1h
+  npm run backtest -- --symbols BTCUSDT --min-score 50
+  npm run backtest -- --regime trend
+        `);
+        process.exit(0);
+    }
+  }
+
+  try {
+    const runner = new BacktestRunner();
+    await runner.run();
+  } catch (error) {
+    console.error('\n❌ Backtest failed:', error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
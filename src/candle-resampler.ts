@@ -0,0 +1,133 @@
+/**
+ * Candle Resampler
+ * Builds higher-interval candles (15m, 4h, 1d, ...) from a finer series
+ *
+ * - OHLCV aggregation: first open, max high, min low, last close, summed volume
+ * - Buckets are aligned to sessionOffsetHours: 0 = UTC midnight (Binance daily
+ *   candles), e.g. 21 = 21:00 UTC session close. The offset shifts every bucket
+ *   boundary, so 4h bars line up with the same session.
+ * - Partial buckets at either end of the source (series starts mid-bucket, or the
+ *   last bucket has not closed yet) are dropped unless includePartial is set.
+ *   Gaps inside the series are aggregated from whatever candles exist.
+ *
+ * Candle timestamps are open times.
+ */
+
+import { Candle } from './smc-indicators.js';
+
+export const TIMEFRAME_MS: Record<string, number> = {
+  '1m': 60 * 1000,
+  '3m': 3 * 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '2h': 2 * 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+};
+
+export interface ResampleOptions {
+  sessionOffsetHours: number;   // Bucket anchor relative to UTC midnight
+  includePartial: boolean;      // Keep incomplete first/last buckets
+}
+
+export const DEFAULT_RESAMPLE_OPTIONS: ResampleOptions = {
+  sessionOffsetHours: 0,
+  includePartial: false,
+};
+
+export class CandleResampler {
+  /**
+   * Interval length in ms for a timeframe string ('15m', '4h', '1d')
+   */
+  static intervalMs(timeframe: string): number {
+    const ms = TIMEFRAME_MS[timeframe];
+    if (!ms) {
+      throw new Error(`Unknown timeframe: ${timeframe} (known: ${Object.keys(TIMEFRAME_MS).join(', ')})`);
+    }
+    return ms;
+  }
+
+  /**
+   * Can `target` be built from `source`? (finer and divides evenly)
+   */
+  static canResample(source: string, target: string): boolean {
+    const sourceMs = TIMEFRAME_MS[source];
+    const targetMs = TIMEFRAME_MS[target];
+    return !!sourceMs && !!targetMs && sourceMs < targetMs && targetMs % sourceMs === 0;
+  }
+
+  /**
+   * Timeframes that could be used to build `target`, finest first
+   */
+  static sourcesFor(target: string): string[] {
+    return Object.keys(TIMEFRAME_MS)
+      .filter(tf => this.canResample(tf, target))
+      .sort((a, b) => TIMEFRAME_MS[a] - TIMEFRAME_MS[b]);
+  }
+
+  /**
+   * Open time of the bucket containing `timestamp`
+   */
+  static bucketStart(timestamp: number, targetMs: number, sessionOffsetHours: number = 0): number {
+    const offset = ((sessionOffsetHours * 60 * 60 * 1000) % targetMs + targetMs) % targetMs;
+    return Math.floor((timestamp - offset) / targetMs) * targetMs + offset;
+  }
+
+  /**
+   * Aggregate a sorted candle series from `source` into `target` interval
+   */
+  static resample(
+    candles: Candle[],
+    source: string,
+    target: string,
+    options: Partial<ResampleOptions> = {}
+  ): Candle[] {
+    if (!this.canResample(source, target)) {
+      throw new Error(`Cannot resample ${source} → ${target}`);
+    }
+
+    const opts = { ...DEFAULT_RESAMPLE_OPTIONS, ...options };
+    const sourceMs = TIMEFRAME_MS[source];
+    const targetMs = TIMEFRAME_MS[target];
+    const result: Candle[] = [];
+
+    let current: Candle | null = null;
+    let isFirstBucket = true;
+    let firstOpen = 0;          // Open time of the first source candle in the bucket
+    let lastOpen = 0;           // Open time of the last source candle in the bucket
+
+    // Only the first and last buckets can be cut off by the ends of the source
+    const flush = (isLastBucket: boolean) => {
+      if (!current) return;
+      const startsLate = isFirstBucket && firstOpen > current.timestamp;
+      const endsEarly = isLastBucket && lastOpen + sourceMs < current.timestamp + targetMs;
+      if (opts.includePartial || (!startsLate && !endsEarly)) {
+        result.push(current);
+      }
+      isFirstBucket = false;
+    };
+
+    for (const c of candles) {
+      const bucket = this.bucketStart(c.timestamp, targetMs, opts.sessionOffsetHours);
+
+      if (!current || current.timestamp !== bucket) {
+        flush(false);
+        current = { timestamp: bucket, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume };
+        firstOpen = c.timestamp;
+      } else {
+        current.high = Math.max(current.high, c.high);
+        current.low = Math.min(current.low, c.low);
+        current.close = c.close;
+        current.volume += c.volume;
+      }
+      lastOpen = c.timestamp;
+    }
+
+    flush(true);
+    return result;
+  }
+}
@@ -5,6 +5,16 @@
  */
 
 import { H2OIntegration } from './h2o-integration.js';
+import { LocalDataLoader } from './data-loader.js';
+import { DataQualityValidator, DataQualityReport, DATA_ISSUE_TYPES } from './data-quality.js';
+import { LightGBMModel, LightGBMParitySample } from './lightgbm-model.js';
+import { ModelRegistry, ModelEntry, ModelKind, MODEL_KINDS } from './model-registry.js';
+import { PerformanceMetrics } from './performance-metrics.js';
+import { CorrelationEngine, CorrelationMethod } from './correlation-engine.js';
+import { MonteCarloAnalyzer, MonteCarloConfig, MonteCarloTrade, RobustnessSummary } from './monte-carlo.js';
+import { RegimeClassifier, VolatilityMethod, MARKET_REGIMES } from './market-regime.js';
+import { EnsembleVoting } from './ensemble-voting.js';
+import { EnsembleWeights, ENSEMBLE_SOURCES, ALL_REGIMES, EnsembleWeightLearner } from './ensemble-weights.js';
 import fs from 'fs';
 import path from 'path';
 
@@ -29,6 +39,38 @@ async function main() {
       await listModels();
       break;
 
+    case 'evaluate':
+      await evaluateH2O(args);
+      break;
+
+    case 'data-check':
+      await dataCheck(args);
+      break;
+
+    case 'lgbm-check':
+      await lightgbmCheck(args);
+      break;
+
+    case 'registry':
+      await registryCommand(args);
+      break;
+
+    case 'monte-carlo':
+      await monteCarlo(args);
+      break;
+
+    case 'correlation':
+      await correlationCommand(args);
+      break;
+
+    case 'regime':
+      await regimeCommand(args);
+      break;
+
+    case 'ensemble-weights':
+      await ensembleWeightsCommand(args);
+      break;
+
     case 'help':
     default:
       showHelp();
@@ -56,6 +98,14 @@ async function showStatus() {
     console.log('  Run: npm run learn-loop');
   }
 
+  // Registry champions
+  const registry = new ModelRegistry(modelDir);
+  console.log('\nChampions:');
+  for (const kind of MODEL_KINDS) {
+    const champion = registry.getChampion(kind);
+    console.log(`  ${kind.padEnd(9)} ${champion ? formatEntry(champion) : 'none'}`);
+  }
+
   // Check training data
   console.log('\nTraining Data:');
   if (fs.existsSync(trainingDir)) {
@@ -75,6 +125,9 @@ async function showStatus() {
       console.log(`  Last run: ${history.timestamp}`);
       console.log(`  Iterations: ${history.iterations?.length || 0}`);
       console.log(`  Trades used: ${history.totalTrades || 0}`);
+      if (history.performance) {
+        console.log(`  Performance: ${formatPerformance(history.performance)}`);
+      }
     } else {
       console.log('  No loop history');
     }
@@ -82,6 +135,28 @@ async function showStatus() {
     console.log('  Not run yet');
   }
 
+  // Latest strategy backtest
+  const backtestDir = path.join(process.cwd(), 'data', 'backtests');
+  const backtests = fs.existsSync(backtestDir)
+    ? fs.readdirSync(backtestDir).filter(f => f.startsWith('backtest_') && f.endsWith('.json'))
+    : [];
+  console.log('\nLatest Backtest:');
+  if (backtests.length > 0) {
+    // Newest by file time - names start with the strategy id
+    const latest = backtests
+      .map(f => ({ f, mtime: fs.statSync(path.join(backtestDir, f)).mtimeMs }))
+      .sort((a, b) => b.mtime - a.mtime)[0].f;
+    const backtest = JSON.parse(fs.readFileSync(path.join(backtestDir, latest), 'utf-8'));
+    console.log(`  ${backtest.strategy} (${backtest.timeframe}) at ${backtest.timestamp}`);
+    if (backtest.performance) {
+      console.log(`  Performance: ${formatPerformance(backtest.performance)}`);
+    } else if (backtest.result) {
+      console.log(`  ${backtest.result.trades} trades, ${(backtest.result.win_rate * 100).toFixed(1)}% WR, PF ${backtest.result.profit_factor.toFixed(2)}`);
+    }
+  } else {
+    console.log('  None (npm run backtest)');
+  }
+
   console.log('\n=== Commands ===');
   console.log('  npm run learn-loop     # Run self-improving backtest loop');
   console.log('  npm run h2o-pipeline   # Extract + train (one-time)');
@@ -89,6 +164,12 @@ async function showStatus() {
   console.log('  npm run ml-advisor     # Test ML predictions');
 }
 
+function formatPerformance(p: PerformanceMetrics): string {
+  return `${p.trades} trades | Sharpe ${p.sharpe.toFixed(2)} | Sortino ${p.sortino.toFixed(2)} | ` +
+    `Calmar ${p.calmar.toFixed(2)} | CAGR ${(p.cagr * 100).toFixed(1)}% | ` +
+    `Max DD ${(p.max_drawdown_pct * 100).toFixed(1)}% | ${p.expectancy_r.toFixed(3)}R/trade`;
+}
+
 async function trainH2O(args: string[]) {
   const csvPath = args[0];
   const targetColumn = args[1] || 'outcome';
@@ -106,25 +187,482 @@ async function trainH2O(args: string[]) {
 
 async function predictH2O(args: string[]) {
   const modelId = args[0];
-  const featuresJson = args[1];
+  const input = args[1];
 
-  if (!modelId || !featuresJson) {
-    console.log('Usage: cli h2o-predict <model_id> <features_json>');
+  if (!modelId || !input) {
+    console.log('Usage: cli h2o-predict <model_id> <features_json | csv_path>');
     return;
   }
 
   const h2o = new H2OIntegration();
-  const features = JSON.parse(featuresJson);
-  const result = await h2o.predict(modelId, features);
+  const result = await h2o.predict(modelId, fs.existsSync(input) ? input : JSON.parse(input));
   console.log('Prediction:', JSON.stringify(result, null, 2));
 }
 
+async function evaluateH2O(args: string[]) {
+  const modelId = args[0];
+  const testFile = args[1];
+  const targetColumn = args[2] || 'outcome';
+
+  if (!modelId || !testFile) {
+    console.log('Usage: cli evaluate <model_id> <test_csv> [target_column]');
+    return;
+  }
+
+  const h2o = new H2OIntegration();
+  const result = await h2o.evaluateModel(modelId, testFile, targetColumn);
+  console.log('Evaluation:', JSON.stringify(result, null, 2));
+}
+
 async function listModels() {
   const h2o = new H2OIntegration();
   const models = await h2o.listModels();
   console.log('Models:', JSON.stringify(models, null, 2));
 }
 
+async function dataCheck(args: string[]) {
+  let symbols = [
+    'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT',
+    'XRPUSDT', 'DOGEUSDT', 'DOTUSDT', 'AVAXUSDT', 'LINKUSDT'
+  ];
+  let intervals = ['1d', '1h'];
+  let applyRepairs = false;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbols':
+        symbols = args[++i].split(',');
+        break;
+      case '--intervals':
+        intervals = args[++i].split(',');
+        break;
+      case '--repair':
+        applyRepairs = true;
+        break;
+    }
+  }
+
+  // Raw series - the loader's own repair pass would hide the issues
+  const loader = new LocalDataLoader(path.join(process.cwd(), 'Historical_Data_Lite'), { repair: false });
+  const validator = new DataQualityValidator();
+  const reports: DataQualityReport[] = [];
+
+  console.log('\n=== Data Quality Check ===\n');
+  console.log(`Mode: ${applyRepairs ? 'repair (configured policies)' : 'validate only'}`);
+  console.log(`Policies: ${Object.entries(validator.getConfig().repair).map(([k, v]) => `${k}=${v}`).join(', ')}\n`);
+
+  for (const interval of intervals) {
+    for (const symbol of symbols) {
+      try {
+        const { candles } = await loader.loadData(symbol, interval);
+        const report = applyRepairs
+          ? validator.repair(candles, symbol, interval).report
+          : validator.validate(candles, symbol, interval);
+        reports.push(report);
+        console.log(`  ${report.clean ? '✅' : '⚠️ '} ${DataQualityValidator.summarize(report)}`);
+      } catch (err: any) {
+        console.log(`  ❌ ${symbol} ${interval}: ${err.message.split('\n')[0]}`);
+      }
+    }
+  }
+
+  console.log('\nTotals:');
+  for (const type of DATA_ISSUE_TYPES) {
+    const total = reports.reduce((s, r) => s + r.counts[type], 0);
+    console.log(`  ${type.padEnd(14)} ${total}`);
+  }
+
+  const outputDir = path.join(process.cwd(), 'data', 'data-quality');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const outputFile = path.join(outputDir, `data_check_${timestamp}.json`);
+  fs.writeFileSync(outputFile, JSON.stringify({ timestamp: new Date().toISOString(), repaired: applyRepairs, reports }, null, 2));
+  console.log(`\nSaved: ${outputFile}`);
+}
+
+async function lightgbmCheck(args: string[]) {
+  const modelDir = path.join(process.cwd(), 'data', 'models');
+  const modelPath = args[0] || path.join(modelDir, 'lightgbm_model.txt');
+  const parityPath = args[1] || path.join(modelDir, 'lightgbm_parity.json');
+  const tolerance = 1e-6;
+
+  console.log('\n=== LightGBM Parity Check ===\n');
+
+  const model = LightGBMModel.fromFile(modelPath);
+  console.log(`Model: ${modelPath}`);
+  console.log(`  Trees: ${model.getNumTrees()} | Features: ${model.getFeatureNames().length} | Objective: ${model.getObjective()}`);
+
+  if (!fs.existsSync(parityPath)) {
+    console.log(`\n⚠️  No parity samples at ${parityPath}`);
+    console.log('  Retrain to generate them: npm run train-lgbm -- --input <training_csv>');
+    process.exitCode = 1;
+    return;
+  }
+
+  const { samples } = JSON.parse(fs.readFileSync(parityPath, 'utf-8')) as { samples: LightGBMParitySample[] };
+  const result = model.checkParity(samples, tolerance);
+
+  console.log(`\nSamples: ${result.samples}`);
+  console.log(`  Max |diff|:  ${result.maxAbsDiff.toExponential(3)}${result.worstIndex >= 0 ? ` (row ${result.worstIndex})` : ''}`);
+  console.log(`  Mean |diff|: ${result.meanAbsDiff.toExponential(3)}`);
+  console.log(`\n${result.passed ? '✅ TypeScript scorer matches Python' : `❌ Parity FAILED (tolerance ${tolerance})`}`);
+
+  if (!result.passed) {
+    process.exitCode = 1;
+  }
+}
+
+async function registryCommand(args: string[]) {
+  const modelDir = path.join(process.cwd(), 'data', 'models');
+  const registry = new ModelRegistry(modelDir);
+  const [action = 'list', target] = args;
+
+  switch (action) {
+    case 'list': {
+      console.log('\n=== Model Registry ===\n');
+      const models = registry.list(target as ModelKind | undefined);
+      if (models.length === 0) {
+        console.log('No registered models. Import existing ones: npm run registry -- import');
+        return;
+      }
+      for (const entry of models) {
+        console.log(`  [${entry.stage.padEnd(9)}] ${entry.kind.padEnd(9)} ${formatEntry(entry)}`);
+        console.log(`               features ${entry.featureHash} (${entry.featureCount}) | data ${entry.dataHash ?? 'n/a'} | parent ${entry.parent ?? 'none'}`);
+      }
+      const history = registry.getHistory().slice(-5);
+      if (history.length > 0) {
+        console.log('\nRecent changes:');
+        for (const event of history) {
+          console.log(`  ${event.at} ${event.action} ${event.kind}: ${event.from ?? 'none'} -> ${event.to} (${event.reason})`);
+        }
+      }
+      break;
+    }
+
+    case 'promote': {
+      if (!target) {
+        console.log('Usage: cli registry promote <model_id>');
+        return;
+      }
+      const decision = registry.evaluatePromotion(target);
+      const entry = registry.promote(target, decision.promote ? decision.reasons.join('; ') : 'manual override');
+      console.log(`✅ ${entry.id} is now the ${entry.kind} champion`);
+      if (!decision.promote) {
+        console.log(`  ⚠️  Rules would not have promoted it: ${decision.reasons.join('; ')}`);
+      }
+      break;
+    }
+
+    case 'rollback': {
+      if (!target || !MODEL_KINDS.includes(target as ModelKind)) {
+        console.log(`Usage: cli registry rollback <${MODEL_KINDS.join('|')}>`);
+        return;
+      }
+      const restored = registry.rollback(target as ModelKind);
+      console.log(`↩️  Restored ${restored.id} as the ${restored.kind} champion`);
+      break;
+    }
+
+    case 'import':
+      importLegacyModels(registry, modelDir);
+      break;
+
+    default:
+      console.log('Usage: cli registry [list [kind]|promote <id>|rollback <kind>|import]');
+  }
+}
+
+/**
+ * Register the pre-registry model files so the current models become champions
+ */
+function importLegacyModels(registry: ModelRegistry, modelDir: string) {
+  const weightsFile = path.join(modelDir, 'model-weights.json');
+  const bestModelFile = path.join(modelDir, 'best-model.json');
+  if (fs.existsSync(weightsFile)) {
+    const weights = JSON.parse(fs.readFileSync(weightsFile, 'utf-8'));
+    const meta = fs.existsSync(bestModelFile) ? JSON.parse(fs.readFileSync(bestModelFile, 'utf-8')) : {};
+    const id = meta.modelId && !registry.find(meta.modelId) ? meta.modelId : undefined;
+    const entry = registry.register({
+      id,
+      kind: 'logistic',
+      algorithm: meta.algorithm || 'gradient-descent-logistic',
+      features: Object.keys(weights.weights || {}),
+      artifacts: { weights: weightsFile },
+      metrics: { accuracy: meta.finalAccuracy, logloss: meta.bestValLoss }
+    });
+    console.log(`Imported logistic: ${entry.id}`);
+    if (!registry.getChampion('logistic')) registry.promote(entry.id, 'imported legacy model');
+  }
+
+  const lgbmFile = path.join(modelDir, 'lightgbm_model.txt');
+  const lgbmMetaFile = path.join(modelDir, 'lightgbm_metadata.json');
+  if (fs.existsSync(lgbmFile)) {
+    const meta = fs.existsSync(lgbmMetaFile) ? JSON.parse(fs.readFileSync(lgbmMetaFile, 'utf-8')) : {};
+    const artifacts: Record<string, string> = { model: lgbmFile };
+    if (fs.existsSync(lgbmMetaFile)) artifacts.metadata = lgbmMetaFile;
+    const parityFile = path.join(modelDir, 'lightgbm_parity.json');
+    if (fs.existsSync(parityFile)) artifacts.parity = parityFile;
+    const validationFile = path.join(modelDir, 'lightgbm_validation.json');
+    if (fs.existsSync(validationFile)) artifacts.validation = validationFile;
+
+    const id = meta.modelId && !registry.find(meta.modelId) ? meta.modelId : undefined;
+    const entry = registry.register({
+      id,
+      kind: 'lightgbm',
+      algorithm: meta.algorithm || 'lightgbm-gbdt',
+      features: meta.features || LightGBMModel.fromFile(lgbmFile).getFeatureNames(),
+      artifacts,
+      metrics: { accuracy: meta.accuracy, auc: meta.auc }
+    });
+    console.log(`Imported lightgbm: ${entry.id}`);
+    if (!registry.getChampion('lightgbm')) registry.promote(entry.id, 'imported legacy model');
+  }
+}
+
+async function correlationCommand(args: string[]) {
+  let symbols = [
+    'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT',
+    'XRPUSDT', 'DOGEUSDT', 'DOTUSDT', 'AVAXUSDT', 'LINKUSDT'
+  ];
+  let timeframe = '1d';
+  let method: CorrelationMethod | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbols':
+        symbols = args[++i].split(',');
+        break;
+      case '--timeframe':
+        timeframe = args[++i];
+        break;
+      case '--spearman':
+        method = 'spearman';
+        break;
+    }
+  }
+
+  const loader = new LocalDataLoader(path.join(process.cwd(), 'Historical_Data_Lite'));
+  const engine = await CorrelationEngine.load(loader, symbols, timeframe, method ? { method } : {});
+  const config = engine.getConfig();
+
+  console.log('\n=== Rolling Correlation ===\n');
+  for (const m of engine.matrices(Infinity)) {
+    console.log(`${m.method} over ${m.window} ${timeframe} bars (as of ${new Date(m.time).toISOString().slice(0, 16)}):`);
+    const names = m.symbols.map(s => s.replace(/USDT$/, ''));
+    console.log(`  ${''.padEnd(6)}${names.map(n => n.padStart(6)).join('')}`);
+    m.values.forEach((row, i) => {
+      console.log(`  ${names[i].padEnd(6)}${row.map(v => (Number.isNaN(v) ? '-' : v.toFixed(2)).padStart(6)).join('')}`);
+    });
+    console.log('');
+  }
+
+  console.log(`Clusters (${config.primary_window} bars, ≥ ${config.threshold}):`);
+  for (const cluster of engine.clusters(Infinity)) {
+    console.log(`  ${cluster.symbols.join(', ')}`);
+  }
+}
+
+/**
+ * Current regime, regime mix and recent regime changes per symbol
+ */
+async function regimeCommand(args: string[]) {
+  let symbols = ['BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'BNBUSDT', 'XRPUSDT'];
+  let timeframe = '1d';
+  let changes = 5;
+  let method: VolatilityMethod | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbols':
+        symbols = args[++i].split(',');
+        break;
+      case '--timeframe':
+        timeframe = args[++i];
+        break;
+      case '--changes':
+        changes = parseInt(args[++i]);
+        break;
+      case '--method':
+        method = RegimeClassifier.parseMethod(args[++i]);
+        break;
+    }
+  }
+
+  const loader = new LocalDataLoader(path.join(process.cwd(), 'Historical_Data_Lite'));
+  const classifier = new RegimeClassifier(method ? { volatility_method: method } : {});
+  const config = classifier.getConfig();
+
+  console.log('\n=== Market Regime ===\n');
+  console.log(`ER(${config.er_period}) ≥ ${config.trend_threshold} → trend | ${config.volatility_method} volatility | ` +
+    `${config.min_regime_bars} bars to confirm a change\n`);
+
+  for (const symbol of symbols) {
+    let bars;
+    try {
+      bars = classifier.classify((await loader.loadData(symbol, timeframe)).candles);
+    } catch (err: any) {
+      console.log(`${symbol}: ${err.message}\n`);
+      continue;
+    }
+    if (bars.length === 0) continue;
+
+    const last = bars[bars.length - 1];
+    const mix = RegimeClassifier.distribution(bars);
+    const regimeChanges = RegimeClassifier.changes(bars);
+    console.log(`${symbol} (${timeframe}): ${last.regime} for ${last.bars_in_regime} bars ` +
+      `(ER ${last.efficiency_ratio.toFixed(2)}, ATR ${(last.atr_pct * 100).toFixed(2)}%, vol ${last.vol_score.toFixed(2)})`);
+    console.log(`  Mix: ${MARKET_REGIMES.map(r => `${r} ${(mix[r] * 100).toFixed(0)}%`).join(' | ')}`);
+    console.log(`  Changes: ${regimeChanges.length}`);
+    for (const change of regimeChanges.slice(-changes)) {
+      console.log(`    ${new Date(change.timestamp).toISOString().slice(0, 16)}  ${change.from} → ${change.to}`);
+    }
+    console.log('');
+  }
+}
+
+/**
+ * Learned ensemble weights per regime and their refit history
+ */
+async function ensembleWeightsCommand(args: string[]) {
+  const ensemble = new EnsembleVoting();
+  const learner = ensemble.getLearner();
+  if (!learner) {
+    console.log('Adaptive ensemble weights are disabled (config/features.json → ensemble_weights.enabled)');
+    return;
+  }
+
+  const action = args[0] || 'show';
+  if (action === 'refit') {
+    const methodIndex = args.indexOf('--method');
+    const method = methodIndex >= 0 ? EnsembleWeightLearner.parseMethod(args[methodIndex + 1]) : undefined;
+    const refit = learner.refit(method);
+    console.log(`Refitted (${refit.method}) on ${refit.records} records: ${Object.keys(refit.fits).join(', ') || 'not enough records yet'}`);
+  } else if (action === 'reset') {
+    learner.reset();
+    console.log('Cleared recorded outcomes, learned weights and history');
+    return;
+  }
+
+  const format = (w: EnsembleWeights) => ENSEMBLE_SOURCES.map(s => `${s} ${(w[s] * 100).toFixed(0)}%`).join(' | ');
+  const stats = learner.getStats();
+  const config = learner.getConfig();
+
+  console.log('\n=== Ensemble Weights ===\n');
+  console.log(`Method: ${config.method}${config.by_regime ? ' per regime' : ''} | refit every ${config.refit_every} records, min ${config.min_records}`);
+  console.log(`Records: ${stats.records} (${Object.entries(stats.byRegime).map(([r, n]) => `${r} ${n}`).join(', ') || 'none'}) | ` +
+    `${stats.pendingRecords} since last refit`);
+  console.log(`Static fallback: ${format(stats.fallback)}\n`);
+
+  const learned = learner.getLearnedWeights();
+  if (Object.keys(learned).length === 0) {
+    console.log('No learned weights yet - votes use the static weights');
+  }
+  for (const [regime, fit] of Object.entries(learned)) {
+    console.log(`${regime} (${fit.records} records): ${format(fit.weights)}`);
+    for (const source of ENSEMBLE_SOURCES) {
+      const s = fit.sources[source];
+      console.log(`  ${source.padEnd(14)} hit rate ${(s.hit_rate * 100).toFixed(1).padStart(5)}% over ${String(s.votes).padStart(4)} votes` +
+        (s.coefficient !== undefined ? `  coef ${s.coefficient.toFixed(3)}` : ''));
+    }
+  }
+
+  const history = learner.getHistory();
+  if (history.length > 0) {
+    console.log(`\nHistory (last ${Math.min(10, history.length)} of ${history.length} refits, all-records weights):`);
+    for (const refit of history.slice(-10)) {
+      const all = refit.fits[ALL_REGIMES];
+      console.log(`  ${refit.timestamp.slice(0, 16)}  ${String(refit.records).padStart(5)} records  ${all ? format(all.weights) : '(below min_records)'}`);
+    }
+  }
+}
+
+/**
+ * Monte Carlo a saved backtest (data/backtests, newest by default), or show
+ * the robustness stored in an evolved-strategies top-N file
+ */
+async function monteCarlo(args: string[]) {
+  const overrides: Partial<MonteCarloConfig> = {};
+  let file: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--runs':
+        overrides.runs = parseInt(args[++i]);
+        break;
+      case '--seed':
+        overrides.seed = parseInt(args[++i]);
+        break;
+      case '--method':
+        overrides.methods = args[++i].split(',').map(MonteCarloAnalyzer.parseMethod);
+        break;
+      default:
+        file = args[i];
+    }
+  }
+
+  if (!file) {
+    const backtestDir = path.join(process.cwd(), 'data', 'backtests');
+    const backtests = fs.existsSync(backtestDir)
+      ? fs.readdirSync(backtestDir).filter(f => f.startsWith('backtest_') && f.endsWith('.json'))
+      : [];
+    if (backtests.length === 0) {
+      console.log('Usage: cli monte-carlo [backtest_json | evolved_top_json] [--runs N] [--method a,b] [--seed N]');
+      console.log('  No saved backtests (npm run backtest)');
+      return;
+    }
+    file = backtests
+      .map(f => path.join(backtestDir, f))
+      .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)[0];
+  }
+
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  console.log('\n=== Monte Carlo Robustness ===\n');
+  console.log(`Source: ${file}`);
+
+  // Evolved top-N: trades are not stored, the robustness was computed during evolution
+  if (Array.isArray(data)) {
+    for (const c of data as Array<{ id: string; fitness: number; robustness?: RobustnessSummary | null }>) {
+      const r = c.robustness;
+      console.log(`  ${c.id.padEnd(32)} fitness=${c.fitness.toFixed(2).padStart(6)} ` + (r
+        ? `${r.robust ? '✅' : '⚠️ '} ${r.method} p5 return ${(r.p5_return * 100).toFixed(1)}% | p95 DD ${(r.p95_drawdown_pct * 100).toFixed(1)}% | ruin ${(r.risk_of_ruin * 100).toFixed(1)}%`
+        : 'no robustness recorded (evolved before Monte Carlo)'));
+    }
+    return;
+  }
+
+  const trades: MonteCarloTrade[] = data.trades || [];
+  if (trades.length === 0) {
+    console.log('  No trades in file');
+    process.exitCode = 1;
+    return;
+  }
+
+  const analyzer = new MonteCarloAnalyzer(overrides);
+  const config = analyzer.getConfig();
+  console.log(`Strategy: ${data.strategy ?? 'unknown'} | ${config.runs} runs | seed ${config.seed}\n`);
+  const report = analyzer.analyze(trades);
+  MonteCarloAnalyzer.printReport(report);
+
+  const decision = analyzer.evaluate(report);
+  console.log(`\n${decision.robust ? '✅ Passes' : '⚠️  Fails'} the promotion gate: ${decision.reasons.join('; ')}`);
+
+  const outputDir = path.join(process.cwd(), 'data', 'monte-carlo');
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+  }
+  const outputFile = path.join(outputDir, `mc_${path.basename(file, '.json')}.json`);
+  fs.writeFileSync(outputFile, JSON.stringify({ timestamp: new Date().toISOString(), source: file, config, report, decision }, null, 2));
+  console.log(`\nSaved: ${outputFile}`);
+}
+
+function formatEntry(entry: ModelEntry): string {
+  const accuracy = entry.metrics.oos?.accuracy ?? entry.metrics.accuracy;
+  const accuracyText = accuracy !== undefined ? `${(accuracy * 100).toFixed(1)}%${entry.metrics.oos ? ` OOS/${entry.metrics.oos.source}` : ''}` : 'N/A';
+  return `${entry.id} (${entry.algorithm}, ${accuracyText}, ${entry.createdAt.slice(0, 10)})`;
+}
+
 function showHelp() {
   console.log(`
 Learning Orchestrator CLI
@@ -132,8 +670,16 @@ Learning Orchestrator CLI
 Commands:
   status        Show system status
   h2o-train     Train an H2O model
-  h2o-predict   Make a prediction
+  h2o-predict   Make predictions (features JSON or CSV)
   h2o-list      List available models
+  evaluate      Evaluate an H2O model on a test CSV
+  data-check    Validate candle data [--symbols A,B] [--intervals 1d,1h] [--repair]
+  lgbm-check    Compare TS LightGBM scoring to the trainer's predictions [model] [parity_json]
+  registry      Model registry [list [kind]|promote <id>|rollback <kind>|import]
+  monte-carlo   Resample a backtest's trades [file] [--runs N] [--method a,b] [--seed N]
+  correlation   Rolling correlation matrices and clusters [--symbols A,B] [--timeframe 1d] [--spearman]
+  regime        Market regime per symbol and recent changes [--symbols A,B] [--timeframe 1d] [--method hmm] [--changes N]
+  ensemble-weights  Learned ensemble weights and history [show|refit [--method logistic]|reset]
   help          Show this help
 
 NPM Scripts:
@@ -0,0 +1,326 @@
+/**
+ * Correlation Engine
+ * Rolling return correlations between symbols, clusters and cluster exposure
+ *
+ * Feeds Layer 5 of TradeDecisionPipeline: instead of callers guessing which
+ * open positions are "correlated", the engine measures it.
+ *   - Close-to-close returns per symbol on one shared timeline (bars missing
+ *     for a symbol are skipped pairwise)
+ *   - Pearson or Spearman (rank) correlation over each configured window
+ *   - Single-linkage clusters of symbols whose primary-window correlation is
+ *     at or above threshold
+ *   - correlatedPositions for a setup = open symbols correlated with it;
+ *     cluster exposure = net signed notional of open positions in its cluster
+ *
+ * Queries take a bar's open timestamp and treat that bar as closed (entries
+ * happen at its close), so backtests never see later returns.
+ *
+ * Usage:
+ *   const correlation = await CorrelationEngine.load(loader, symbols, '1d');
+ *   correlation.populate(setup, openPositions, candle.timestamp);
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle } from './smc-indicators.js';
+import { LocalDataLoader } from './data-loader.js';
+import { TradeSetup } from './trade-decision-pipeline.js';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export interface CorrelationConfig {
+  windows: number[];            // Bars of returns per rolling window
+  primary_window: number;       // Window used for clusters and correlatedPositions
+  method: CorrelationMethod;
+  threshold: number;            // Correlation at or above this links two symbols
+  min_overlap: number;          // Shared returns required for a pair to count
+}
+
+const DEFAULT_CONFIG: CorrelationConfig = {
+  windows: [30, 90],
+  primary_window: 30,
+  method: 'pearson',
+  threshold: 0.7,
+  min_overlap: 20,
+};
+
+// An open position as far as exposure is concerned
+export interface ExposurePosition {
+  symbol: string;
+  direction: 'long' | 'short' | 'LONG' | 'SHORT';
+  notional: number;
+}
+
+export interface CorrelationMatrix {
+  time: number;
+  window: number;
+  method: CorrelationMethod;
+  symbols: string[];
+  values: number[][];           // NaN where a pair has too little overlap
+}
+
+export interface CorrelationCluster {
+  id: string;                   // Members joined with '+'
+  symbols: string[];
+}
+
+export class CorrelationEngine {
+  private config: CorrelationConfig;
+  private candles = new Map<string, Candle[]>();
+  private timeline: number[] = [];
+  private returns = new Map<string, number[]>();    // Aligned to timeline, NaN where missing
+  private dirty = false;
+  private cache = new Map<string, CorrelationMatrix>();  // Latest matrix per window/method
+
+  constructor(config: Partial<CorrelationConfig> = {}) {
+    this.config = { ...CorrelationEngine.loadConfig(), ...config };
+  }
+
+  /**
+   * Load correlation from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): CorrelationConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.correlation || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  /**
+   * Engine with every symbol's series loaded (symbols without data are skipped)
+   */
+  static async load(
+    loader: LocalDataLoader,
+    symbols: string[],
+    timeframe: string,
+    config: Partial<CorrelationConfig> = {}
+  ): Promise<CorrelationEngine> {
+    const engine = new CorrelationEngine(config);
+    for (const symbol of symbols) {
+      try {
+        engine.update(symbol, (await loader.loadData(symbol, timeframe)).candles);
+      } catch (err: any) {
+        console.warn(`[Correlation] Skipping ${symbol}: ${err.message}`);
+      }
+    }
+    return engine;
+  }
+
+  getConfig(): CorrelationConfig {
+    return { ...this.config };
+  }
+
+  getSymbols(): string[] {
+    return Array.from(this.candles.keys());
+  }
+
+  /**
+   * Add or extend a symbol's candles (newer candles replace same-timestamp ones)
+   */
+  update(symbol: string, candles: Candle[]): void {
+    const merged = new Map<number, Candle>();
+    for (const c of this.candles.get(symbol) ?? []) merged.set(c.timestamp, c);
+    for (const c of candles) merged.set(c.timestamp, c);
+    this.candles.set(symbol, Array.from(merged.values()).sort((a, b) => a.timestamp - b.timestamp));
+    this.dirty = true;
+  }
+
+  /**
+   * Correlation matrix as of `time` over the last `window` bars
+   */
+  matrix(
+    time: number,
+    window: number = this.config.primary_window,
+    method: CorrelationMethod = this.config.method
+  ): CorrelationMatrix {
+    this.rebuild();
+    const end = this.indexAt(time);
+    const key = `${window}:${method}`;
+    const cached = this.cache.get(key);
+    const asOf = end >= 0 ? this.timeline[end] : 0;
+    if (cached && cached.time === asOf) return cached;
+
+    const symbols = Array.from(this.returns.keys()).sort();
+    const start = Math.max(1, end - window + 1);
+    const values = symbols.map(() => symbols.map(() => NaN));
+    for (let a = 0; a < symbols.length; a++) {
+      values[a][a] = 1;
+      for (let b = a + 1; b < symbols.length; b++) {
+        const rho = this.pair(this.returns.get(symbols[a])!, this.returns.get(symbols[b])!, start, end, method);
+        values[a][b] = rho;
+        values[b][a] = rho;
+      }
+    }
+
+    const result: CorrelationMatrix = { time: asOf, window, method, symbols, values };
+    this.cache.set(key, result);
+    return result;
+  }
+
+  /**
+   * Correlation matrix for every configured window
+   */
+  matrices(time: number, method: CorrelationMethod = this.config.method): CorrelationMatrix[] {
+    return this.config.windows.map(window => this.matrix(time, window, method));
+  }
+
+  correlation(a: string, b: string, time: number): number {
+    const m = this.matrix(time);
+    const i = m.symbols.indexOf(a);
+    const j = m.symbols.indexOf(b);
+    return i >= 0 && j >= 0 ? m.values[i][j] : NaN;
+  }
+
+  /**
+   * Single-linkage clusters on the primary window (singletons included)
+   */
+  clusters(time: number): CorrelationCluster[] {
+    const m = this.matrix(time);
+    const parent = m.symbols.map((_, i) => i);
+    const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+    for (let a = 0; a < m.symbols.length; a++) {
+      for (let b = a + 1; b < m.symbols.length; b++) {
+        if (m.values[a][b] >= this.config.threshold) parent[find(a)] = find(b);
+      }
+    }
+
+    const groups = new Map<number, string[]>();
+    m.symbols.forEach((symbol, i) => {
+      const root = find(i);
+      if (!groups.has(root)) groups.set(root, []);
+      groups.get(root)!.push(symbol);
+    });
+    return Array.from(groups.values()).map(symbols => ({ id: symbols.join('+'), symbols }));
+  }
+
+  clusterOf(symbol: string, time: number): CorrelationCluster {
+    return this.clusters(time).find(c => c.symbols.includes(symbol)) ?? { id: symbol, symbols: [symbol] };
+  }
+
+  /**
+   * Open symbols correlated with `symbol` at or above threshold
+   * (same signature as PortfolioBacktester's CorrelatedPositionsFn)
+   */
+  correlatedWith(symbol: string, openSymbols: string[], time: number): string[] {
+    return openSymbols.filter(other => other !== symbol && this.correlation(symbol, other, time) >= this.config.threshold);
+  }
+
+  /**
+   * Net signed notional per cluster (long +, short -)
+   */
+  exposureByCluster(positions: ExposurePosition[], time: number): Record<string, number> {
+    const clusters = this.clusters(time);
+    const exposure: Record<string, number> = {};
+    for (const p of positions) {
+      const cluster = clusters.find(c => c.symbols.includes(p.symbol))?.id ?? p.symbol;
+      const sign = p.direction.toLowerCase() === 'long' ? 1 : -1;
+      exposure[cluster] = (exposure[cluster] || 0) + sign * p.notional;
+    }
+    return exposure;
+  }
+
+  /**
+   * Fill correlatedPositions and clusterExposure on a setup from the open positions
+   */
+  populate(setup: TradeSetup, openPositions: ExposurePosition[], time: number): TradeSetup {
+    const cluster = this.clusterOf(setup.symbol, time);
+    setup.correlatedPositions = this.correlatedWith(setup.symbol, openPositions.map(p => p.symbol), time);
+    setup.clusterExposure = this.exposureByCluster(openPositions, time)[cluster.id] ?? 0;
+    setup.openPositionCount ??= openPositions.length;
+    return setup;
+  }
+
+  /**
+   * Rebuild the shared timeline after updates
+   */
+  private rebuild(): void {
+    if (!this.dirty) return;
+    const times = new Set<number>();
+    for (const candles of this.candles.values()) {
+      for (const c of candles) times.add(c.timestamp);
+    }
+    this.timeline = Array.from(times).sort((a, b) => a - b);
+    const position = new Map(this.timeline.map((t, i) => [t, i]));
+
+    this.returns.clear();
+    for (const [symbol, candles] of this.candles) {
+      const series = new Array<number>(this.timeline.length).fill(NaN);
+      for (let i = 1; i < candles.length; i++) {
+        if (candles[i - 1].close > 0) {
+          series[position.get(candles[i].timestamp)!] = candles[i].close / candles[i - 1].close - 1;
+        }
+      }
+      this.returns.set(symbol, series);
+    }
+    this.cache.clear();
+    this.dirty = false;
+  }
+
+  /**
+   * Last timeline index at or before `time` (-1 if none)
+   */
+  private indexAt(time: number): number {
+    let lo = 0;
+    let hi = this.timeline.length - 1;
+    let result = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.timeline[mid] <= time) {
+        result = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    return result;
+  }
+
+  private pair(a: number[], b: number[], start: number, end: number, method: CorrelationMethod): number {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let i = start; i <= end; i++) {
+      if (Number.isNaN(a[i]) || Number.isNaN(b[i])) continue;
+      xs.push(a[i]);
+      ys.push(b[i]);
+    }
+    if (xs.length < this.config.min_overlap) return NaN;
+    return method === 'spearman'
+      ? CorrelationEngine.pearson(CorrelationEngine.ranks(xs), CorrelationEngine.ranks(ys))
+      : CorrelationEngine.pearson(xs, ys);
+  }
+
+  static pearson(xs: number[], ys: number[]): number {
+    const n = xs.length;
+    if (n < 2) return NaN;
+    const mx = xs.reduce((s, v) => s + v, 0) / n;
+    const my = ys.reduce((s, v) => s + v, 0) / n;
+    let sxy = 0;
+    let sxx = 0;
+    let syy = 0;
+    for (let i = 0; i < n; i++) {
+      sxy += (xs[i] - mx) * (ys[i] - my);
+      sxx += (xs[i] - mx) ** 2;
+      syy += (ys[i] - my) ** 2;
+    }
+    return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : NaN;
+  }
+
+  /**
+   * Ranks with ties averaged (for Spearman)
+   */
+  static ranks(values: number[]): number[] {
+    const order = values.map((v, i) => [v, i] as [number, number]).sort((a, b) => a[0] - b[0]);
+    const ranks = new Array<number>(values.length);
+    for (let i = 0; i < order.length;) {
+      let j = i;
+      while (j + 1 < order.length && order[j + 1][0] === order[i][0]) j++;
+      const rank = (i + j) / 2 + 1;
+      for (let k = i; k <= j; k++) ranks[order[k][1]] = rank;
+      i = j + 1;
+    }
+    return ranks;
+  }
+}
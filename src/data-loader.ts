@@ -1,12 +1,19 @@
 /**
  * Local Data Loader
- * Loads historical candle data from CSV files
+ * Loads historical candle data from Parquet and CSV files
+ *
+ * Intervals without a file on disk (15m, 4h, ...) are resampled from the finest
+ * available series of the same symbol and cached under data/cache/resampled.
+ * Every loaded series goes through DataQualityValidator.repair (see data_quality
+ * in config/features.json).
  */
 
 import { Candle } from './smc-indicators.js';
+import { CandleResampler, ResampleOptions, DEFAULT_RESAMPLE_OPTIONS, TIMEFRAME_MS } from './candle-resampler.js';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
+import { ParquetReader } from './parquet-reader.js';
+import { DataQualityValidator, DataQualityReport } from './data-quality.js';
 
 export interface DataLoadResult {
   symbol: string;
@@ -14,13 +21,39 @@ export interface DataLoadResult {
   candles: Candle[];
   loaded: number;
   total: number;
+  resampledFrom?: string;   // Source interval when built by CandleResampler
+  quality?: DataQualityReport;
+}
+
+export interface DataLoaderOptions {
+  cacheDir: string;                      // Resampled series cache
+  resample: Partial<ResampleOptions>;    // Session anchor / partial-bar handling
+  repair: boolean;                       // Run DataQualityValidator.repair on every series
+}
+
+// On-disk cache entry - invalidated when the source file changes
+interface ResampleCacheEntry {
+  source: string;
+  sourceFile: string;
+  sourceMtimeMs: number;
+  options: ResampleOptions;
+  candles: Candle[];
 }
 
 export class LocalDataLoader {
   private dataPath: string;
+  private options: DataLoaderOptions;
+  private resampled = new Map<string, DataLoadResult>();
+  private validator = new DataQualityValidator();
   
-  constructor(dataPath: string = './Historical_Data_Lite') {
+  constructor(dataPath: string = './Historical_Data_Lite', options: Partial<DataLoaderOptions> = {}) {
     this.dataPath = dataPath;
+    this.options = {
+      cacheDir: path.join(process.cwd(), 'data', 'cache', 'resampled'),
+      repair: true,
+      ...options,
+      resample: { ...DEFAULT_RESAMPLE_OPTIONS, ...(options.resample || {}) },
+    };
   }
   
   /**
@@ -109,34 +142,6 @@ export class LocalDataLoader {
     });
   }
   
-  /**
-   * Load candle data from Parquet file using Python script
-   */
-  private async loadParquet(fullPath: string): Promise<Candle[]> {
-    return new Promise((resolve, reject) => {
-      // Get script path - resolve relative to current working directory
-      const scriptPath = path.join(process.cwd(), 'scripts', 'read-parquet.py');
-      
-      exec(`python "${scriptPath}" "${fullPath}"`, { maxBuffer: 100 * 1024 * 1024 }, (error, stdout, stderr) => {
-        if (error) {
-          reject(new Error(`Failed to read parquet: ${error.message}\n${stderr}`));
-          return;
-        }
-        
-        try {
-          const result = JSON.parse(stdout);
-          if (result.success) {
-            resolve(result.candles);
-          } else {
-            reject(new Error(result.error || 'Failed to parse parquet'));
-          }
-        } catch (e) {
-          reject(new Error(`Failed to parse Python output: ${e}`));
-        }
-      });
-    });
-  }
-  
   /**
    * Load data for a specific symbol and interval
    */
@@ -145,6 +150,9 @@ export class LocalDataLoader {
     const fileData = this.findDataFile(symbol, interval);
     
     if (!fileData) {
+      const resampled = await this.loadResampled(symbol, interval);
+      if (resampled) return resampled;
+
       throw new Error(
         `Data file not found for ${symbol} ${interval}\n` +
         `Looked in: ${this.dataPath}\n` +
@@ -154,24 +162,99 @@ export class LocalDataLoader {
     }
     
     console.log(`Found data file: ${fileData.path} (${fileData.type})`);
-    
-    let candles: Candle[];
-    if (fileData.type === 'parquet') {
-      // Convert to absolute path
-      const absolutePath = path.resolve(fileData.path);
-      candles = await this.loadParquet(absolutePath);
-    } else {
-      candles = await this.loadCSV(fileData.path);
-    }
+    const { candles, quality } = this.checkQuality(symbol, interval, await this.readDataFile(fileData));
     
     return {
       symbol,
       interval,
       candles,
       loaded: candles.length,
-      total: candles.length
+      total: candles.length,
+      quality
     };
   }
+
+  private async readDataFile(fileData: { path: string; type: 'parquet' | 'csv' }): Promise<Candle[]> {
+    if (fileData.type === 'parquet') {
+      // Decoded in-process (no Python) - see ParquetReader
+      return ParquetReader.readCandles(path.resolve(fileData.path));
+    }
+    return this.loadCSV(fileData.path);
+  }
+
+  /**
+   * Apply the data_quality repair policies (when enabled) and log what was found
+   */
+  private checkQuality(symbol: string, interval: string, candles: Candle[]): { candles: Candle[]; quality?: DataQualityReport } {
+    if (!this.options.repair) return { candles };
+
+    const { candles: repaired, report } = this.validator.repair(candles, symbol, interval);
+    if (!report.clean) {
+      console.log(`  Data quality: ${DataQualityValidator.summarize(report)}`);
+    }
+    return { candles: repaired, quality: report };
+  }
+
+  /**
+   * Build an interval from the finest available series (null if none can be used)
+   * Cached in memory and on disk; the disk cache is keyed on the source file's mtime.
+   */
+  private async loadResampled(symbol: string, interval: string): Promise<DataLoadResult | null> {
+    const opts = this.options.resample as ResampleOptions;
+    const key = `${symbol}_${interval}_s${opts.sessionOffsetHours}${opts.includePartial ? '_partial' : ''}`;
+    const cachedResult = this.resampled.get(key);
+    if (cachedResult) return cachedResult;
+
+    for (const source of CandleResampler.sourcesFor(interval)) {
+      const fileData = this.findDataFile(symbol, source);
+      if (!fileData) continue;
+
+      const sourceMtimeMs = fs.statSync(fileData.path).mtimeMs;
+      const cacheFile = path.join(this.options.cacheDir, `${key}.json`);
+      let candles: Candle[] | null = null;
+
+      if (fs.existsSync(cacheFile)) {
+        try {
+          const entry: ResampleCacheEntry = JSON.parse(fs.readFileSync(cacheFile, 'utf-8'));
+          if (entry.source === source && entry.sourceFile === path.resolve(fileData.path) && entry.sourceMtimeMs === sourceMtimeMs) {
+            candles = entry.candles;
+            console.log(`Using resampled cache: ${cacheFile}`);
+          }
+        } catch {
+          // Corrupt cache - rebuild below
+        }
+      }
+
+      if (!candles) {
+        console.log(`Resampling ${symbol} ${source} → ${interval} from ${fileData.path}`);
+        const sourceCandles = this.checkQuality(symbol, source, await this.readDataFile(fileData)).candles;
+        candles = CandleResampler.resample(sourceCandles, source, interval, opts);
+
+        const entry: ResampleCacheEntry = {
+          source,
+          sourceFile: path.resolve(fileData.path),
+          sourceMtimeMs,
+          options: opts,
+          candles,
+        };
+        fs.mkdirSync(this.options.cacheDir, { recursive: true });
+        fs.writeFileSync(cacheFile, JSON.stringify(entry));
+      }
+
+      const result: DataLoadResult = {
+        symbol,
+        interval,
+        candles,
+        loaded: candles.length,
+        total: candles.length,
+        resampledFrom: source,
+      };
+      this.resampled.set(key, result);
+      return result;
+    }
+
+    return null;
+  }
   
   /**
    * Load data for multiple symbols
@@ -231,16 +314,7 @@ export class LocalDataLoader {
    * @param days Number of days to fetch (default 30)
    */
   async fetchRecentFromBinance(symbol: string, interval: string, days: number = 30): Promise<Candle[]> {
-    const intervalMs: Record<string, number> = {
-      '1m': 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000,
-      '1d': 24 * 60 * 60 * 1000
-    };
-
-    const msPerCandle = intervalMs[interval] || intervalMs['1h'];
+    const msPerCandle = TIMEFRAME_MS[interval] || TIMEFRAME_MS['1h'];
     const endTime = Date.now();
     const startTime = endTime - (days * 24 * 60 * 60 * 1000);
     const candlesNeeded = Math.ceil((endTime - startTime) / msPerCandle);
@@ -335,12 +409,16 @@ export class LocalDataLoader {
 
     console.log(`  Merged: ${historical.candles.length} historical + ${recent.length} recent = ${merged.length} total`);
 
+    // Re-check after the merge - catches a gap between file end and API start
+    const { candles, quality } = this.checkQuality(symbol, interval, merged);
+
     return {
       symbol,
       interval,
-      candles: merged,
-      loaded: merged.length,
-      total: merged.length
+      candles,
+      loaded: candles.length,
+      total: candles.length,
+      quality
     };
   }
 }
\ No newline at end of file
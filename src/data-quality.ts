@@ -0,0 +1,380 @@
+/**
+ * Data Quality Validator
+ * Checks a candle series for problems and optionally repairs it
+ *
+ * Issue types (one report per symbol/interval):
+ *   - out_of_order:    timestamp lower than the previous row (always re-sorted)
+ *   - duplicate:       same timestamp more than once
+ *   - missing_bar:     gap larger than the interval
+ *   - invalid_ohlc:    non-positive/NaN price, high < low, open/close outside [low, high]
+ *   - zero_volume:     run of zero-volume bars at least zero_volume_streak long
+ *   - outlier:         close-to-close log return beyond outlier_mad_multiple robust
+ *                      deviations (median/MAD over the trailing outlier_window returns)
+ *
+ * Repair policies (config/features.json → data_quality.repair, per issue type):
+ *   - drop:          remove the affected bars
+ *   - forward_fill:  replace (or, for gaps, insert) flat bars at the previous close
+ *   - interpolate:   replace/insert bars on the line between the neighbouring closes
+ *   - flag:          leave the data alone, report only
+ * Gaps longer than max_fill_bars are never filled, only reported.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle } from './smc-indicators.js';
+import { TIMEFRAME_MS } from './candle-resampler.js';
+
+export type RepairPolicy = 'drop' | 'forward_fill' | 'interpolate' | 'flag';
+export type DataIssueType = 'out_of_order' | 'duplicate' | 'missing_bar' | 'invalid_ohlc' | 'zero_volume' | 'outlier';
+
+export const DATA_ISSUE_TYPES: DataIssueType[] = [
+  'out_of_order', 'duplicate', 'missing_bar', 'invalid_ohlc', 'zero_volume', 'outlier',
+];
+
+export interface DataQualityConfig {
+  repair: {
+    duplicate: 'drop' | 'flag';            // drop keeps the first occurrence
+    missing_bar: RepairPolicy;             // drop = flag (nothing to remove)
+    invalid_ohlc: RepairPolicy;
+    zero_volume: 'drop' | 'flag';
+    outlier: RepairPolicy;
+  };
+  max_fill_bars: number;                   // Longest gap that forward_fill/interpolate will fill
+  zero_volume_streak: number;              // Minimum zero-volume run to report
+  outlier_window: number;                  // Trailing returns for median/MAD
+  outlier_mad_multiple: number;            // Robust z-score threshold
+  max_issues_listed: number;               // Issue details kept per report (counts are exact)
+}
+
+const DEFAULT_CONFIG: DataQualityConfig = {
+  repair: {
+    duplicate: 'drop',
+    missing_bar: 'flag',
+    invalid_ohlc: 'drop',
+    zero_volume: 'flag',
+    outlier: 'flag',
+  },
+  max_fill_bars: 12,
+  zero_volume_streak: 3,
+  outlier_window: 100,
+  outlier_mad_multiple: 15,
+  max_issues_listed: 50,
+};
+
+export interface DataIssue {
+  type: DataIssueType;
+  timestamp: number;
+  detail: string;
+  action: RepairPolicy | 'sort';
+}
+
+export interface DataQualityReport {
+  symbol: string;
+  interval: string;
+  checkedAt: string;
+  bars: number;                            // Input bars
+  barsAfterRepair: number;
+  firstTimestamp: number | null;
+  lastTimestamp: number | null;
+  coverage: number;                        // Present / expected bars over the span (0-1)
+  counts: Record<DataIssueType, number>;
+  repaired: { inserted: number; dropped: number; modified: number; sorted: boolean };
+  issues: DataIssue[];                     // First max_issues_listed issues
+  clean: boolean;                          // No issues found
+}
+
+export class DataQualityValidator {
+  private config: DataQualityConfig;
+
+  constructor(config: Partial<DataQualityConfig> = {}) {
+    const base = DataQualityValidator.loadConfig();
+    this.config = {
+      ...base,
+      ...config,
+      repair: { ...base.repair, ...(config.repair || {}) },
+    };
+  }
+
+  /**
+   * Load data_quality from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): DataQualityConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const quality = features.data_quality || {};
+      return {
+        ...DEFAULT_CONFIG,
+        ...quality,
+        repair: { ...DEFAULT_CONFIG.repair, ...(quality.repair || {}) },
+      };
+    } catch {
+      return { ...DEFAULT_CONFIG, repair: { ...DEFAULT_CONFIG.repair } };
+    }
+  }
+
+  getConfig(): DataQualityConfig {
+    return this.config;
+  }
+
+  /**
+   * Report issues without changing anything (every policy treated as flag)
+   */
+  validate(candles: Candle[], symbol: string, interval: string): DataQualityReport {
+    return this.run(candles, symbol, interval, false).report;
+  }
+
+  /**
+   * Report issues and apply the configured repair policies
+   */
+  repair(candles: Candle[], symbol: string, interval: string): { candles: Candle[]; report: DataQualityReport } {
+    return this.run(candles, symbol, interval, true);
+  }
+
+  private run(
+    input: Candle[],
+    symbol: string,
+    interval: string,
+    applyRepairs: boolean
+  ): { candles: Candle[]; report: DataQualityReport } {
+    const cfg = this.config;
+    const counts = Object.fromEntries(DATA_ISSUE_TYPES.map(t => [t, 0])) as Record<DataIssueType, number>;
+    const issues: DataIssue[] = [];
+    const repaired = { inserted: 0, dropped: 0, modified: 0, sorted: false };
+    const policy = (type: Exclude<DataIssueType, 'out_of_order'>): RepairPolicy =>
+      applyRepairs ? cfg.repair[type] : 'flag';
+
+    const record = (type: DataIssueType, timestamp: number, detail: string, action: RepairPolicy | 'sort') => {
+      counts[type]++;
+      if (issues.length < cfg.max_issues_listed) {
+        issues.push({ type, timestamp, detail, action });
+      }
+    };
+
+    // 1. Ordering
+    let candles = input.map(c => ({ ...c }));
+    for (let i = 1; i < candles.length; i++) {
+      if (candles[i].timestamp < candles[i - 1].timestamp) {
+        record('out_of_order', candles[i].timestamp, `after ${candles[i - 1].timestamp}`, applyRepairs ? 'sort' : 'flag');
+      }
+    }
+    if (counts.out_of_order > 0 && applyRepairs) {
+      candles.sort((a, b) => a.timestamp - b.timestamp);
+      repaired.sorted = true;
+    }
+
+    // 2. Duplicates (compared after sorting so scattered repeats are caught)
+    const sorted = repaired.sorted ? candles : [...candles].sort((a, b) => a.timestamp - b.timestamp);
+    const duplicateAction = policy('duplicate');
+    const seen = new Set<number>();
+    for (let i = 1; i < sorted.length; i++) {
+      if (sorted[i].timestamp === sorted[i - 1].timestamp) {
+        record('duplicate', sorted[i].timestamp, 'repeated timestamp', duplicateAction);
+      }
+    }
+    if (duplicateAction === 'drop' && counts.duplicate > 0) {
+      const before = candles.length;
+      candles = candles.filter(c => !seen.has(c.timestamp) && seen.add(c.timestamp));
+      repaired.dropped += before - candles.length;
+    }
+
+    // 3. Invalid OHLC
+    const invalidAction = policy('invalid_ohlc');
+    candles = this.replaceBars(candles, c => this.describeInvalid(c), invalidAction, repaired, (c, detail) =>
+      record('invalid_ohlc', c.timestamp, detail, invalidAction));
+
+    // 4. Return outliers
+    const outlierAction = policy('outlier');
+    const outliers = this.findOutliers(candles);
+    candles = this.replaceBars(candles, (_c, i) => outliers.get(i) ?? null, outlierAction, repaired, (c, detail) =>
+      record('outlier', c.timestamp, detail, outlierAction));
+
+    // 5. Zero-volume streaks
+    const zeroAction = policy('zero_volume');
+    const zeroDrop = new Set<number>();
+    for (let i = 0; i < candles.length;) {
+      if (candles[i].volume !== 0) { i++; continue; }
+      let j = i;
+      while (j < candles.length && candles[j].volume === 0) j++;
+      if (j - i >= cfg.zero_volume_streak) {
+        record('zero_volume', candles[i].timestamp, `${j - i} bars`, zeroAction);
+        if (zeroAction === 'drop') for (let k = i; k < j; k++) zeroDrop.add(k);
+      }
+      i = j;
+    }
+    if (zeroDrop.size > 0) {
+      candles = candles.filter((_c, i) => !zeroDrop.has(i));
+      repaired.dropped += zeroDrop.size;
+    }
+
+    // 6. Missing bars
+    const step = TIMEFRAME_MS[interval] ?? this.medianStep(candles);
+    const missingAction = policy('missing_bar');
+    const filled: Candle[] = [];
+    let expectedBars = candles.length;
+    for (let i = 0; i < candles.length; i++) {
+      const c = candles[i];
+      const prev = filled[filled.length - 1];
+      if (prev && step > 0 && c.timestamp - prev.timestamp > step) {
+        const missing = Math.round((c.timestamp - prev.timestamp) / step) - 1;
+        if (missing > 0) {
+          expectedBars += missing;
+          const fill = (missingAction === 'forward_fill' || missingAction === 'interpolate') && missing <= cfg.max_fill_bars;
+          record('missing_bar', prev.timestamp + step, `${missing} bar(s) missing`, fill ? missingAction : 'flag');
+          if (fill) {
+            for (let k = 1; k <= missing; k++) {
+              const price = missingAction === 'interpolate'
+                ? prev.close + (c.open - prev.close) * (k / (missing + 1))
+                : prev.close;
+              filled.push({ timestamp: prev.timestamp + k * step, open: price, high: price, low: price, close: price, volume: 0 });
+              repaired.inserted++;
+            }
+          }
+        }
+      }
+      filled.push(c);
+    }
+    candles = filled;
+
+    const totalIssues = DATA_ISSUE_TYPES.reduce((s, t) => s + counts[t], 0);
+    const present = candles.length - repaired.inserted;
+
+    return {
+      candles: applyRepairs ? candles : input,
+      report: {
+        symbol,
+        interval,
+        checkedAt: new Date().toISOString(),
+        bars: input.length,
+        barsAfterRepair: applyRepairs ? candles.length : input.length,
+        firstTimestamp: candles.length > 0 ? candles[0].timestamp : null,
+        lastTimestamp: candles.length > 0 ? candles[candles.length - 1].timestamp : null,
+        coverage: expectedBars > 0 ? present / expectedBars : 0,
+        counts,
+        repaired,
+        issues,
+        clean: totalIssues === 0,
+      },
+    };
+  }
+
+  /**
+   * Why a bar is invalid, or null if it is fine
+   */
+  private describeInvalid(c: Candle): string | null {
+    const prices = [c.open, c.high, c.low, c.close];
+    if (prices.some(p => !Number.isFinite(p) || p <= 0)) return 'non-positive or missing price';
+    if (!Number.isFinite(c.volume) || c.volume < 0) return 'invalid volume';
+    if (c.high < c.low) return `high ${c.high} < low ${c.low}`;
+    if (c.close > c.high || c.close < c.low) return `close ${c.close} outside [${c.low}, ${c.high}]`;
+    if (c.open > c.high || c.open < c.low) return `open ${c.open} outside [${c.low}, ${c.high}]`;
+    return null;
+  }
+
+  /**
+   * Bars whose close-to-close return is an outlier against the trailing window
+   * (robust z-score: |r - median| / (1.4826 × MAD))
+   */
+  private findOutliers(candles: Candle[]): Map<number, string> {
+    const { outlier_window: window, outlier_mad_multiple: threshold } = this.config;
+    const outliers = new Map<number, string>();
+    const returns: number[] = [];
+
+    const median = (values: number[]): number => {
+      const s = [...values].sort((a, b) => a - b);
+      const mid = s.length >> 1;
+      return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+    };
+
+    for (let i = 1; i < candles.length; i++) {
+      const prevClose = candles[i - 1].close;
+      const close = candles[i].close;
+      if (!(prevClose > 0) || !(close > 0)) continue;
+      const r = Math.log(close / prevClose);
+
+      if (returns.length >= Math.min(window, 20)) {
+        const recent = returns.slice(-window);
+        const med = median(recent);
+        const mad = median(recent.map(x => Math.abs(x - med))) * 1.4826;
+        if (mad > 0 && Math.abs(r - med) / mad > threshold) {
+          outliers.set(i, `return ${(r * 100).toFixed(1)}% (${(Math.abs(r - med) / mad).toFixed(1)} MADs)`);
+          continue;   // Keep the outlier out of the baseline
+        }
+      }
+      returns.push(r);
+    }
+
+    return outliers;
+  }
+
+  /**
+   * Apply a policy to every bar the detector flags
+   */
+  private replaceBars(
+    candles: Candle[],
+    detect: (c: Candle, index: number) => string | null,
+    action: RepairPolicy,
+    repaired: DataQualityReport['repaired'],
+    onIssue: (c: Candle, detail: string) => void
+  ): Candle[] {
+    const flagged = new Set<number>();
+    candles.forEach((c, i) => {
+      const detail = detect(c, i);
+      if (detail) {
+        flagged.add(i);
+        onIssue(c, detail);
+      }
+    });
+    if (flagged.size === 0 || action === 'flag') return candles;
+
+    if (action === 'drop') {
+      repaired.dropped += flagged.size;
+      return candles.filter((_c, i) => !flagged.has(i));
+    }
+
+    // forward_fill / interpolate: rebuild flagged bars from valid neighbours
+    const result = candles.map(c => ({ ...c }));
+    for (const i of [...flagged].sort((a, b) => a - b)) {
+      let prev = i - 1;
+      while (prev >= 0 && flagged.has(prev)) prev--;
+      let next = i + 1;
+      while (next < result.length && flagged.has(next)) next++;
+
+      const prevClose = prev >= 0 ? result[prev].close : null;
+      const nextOpen = next < result.length ? result[next].open : null;
+      let price: number | null;
+      if (action === 'interpolate' && prevClose !== null && nextOpen !== null) {
+        price = prevClose + (nextOpen - prevClose) * ((i - prev) / (next - prev));
+      } else {
+        price = prevClose ?? nextOpen;
+      }
+      if (price === null) continue;
+
+      const volume = Number.isFinite(result[i].volume) && result[i].volume >= 0 ? result[i].volume : 0;
+      result[i] = { timestamp: result[i].timestamp, open: price, high: price, low: price, close: price, volume };
+      repaired.modified++;
+    }
+    return result;
+  }
+
+  private medianStep(candles: Candle[]): number {
+    const diffs: number[] = [];
+    for (let i = 1; i < Math.min(candles.length, 1000); i++) {
+      const d = candles[i].timestamp - candles[i - 1].timestamp;
+      if (d > 0) diffs.push(d);
+    }
+    if (diffs.length === 0) return 0;
+    diffs.sort((a, b) => a - b);
+    return diffs[diffs.length >> 1];
+  }
+
+  /**
+   * One-line summary for logs
+   */
+  static summarize(report: DataQualityReport): string {
+    if (report.clean) return `${report.symbol} ${report.interval}: clean (${report.bars} bars)`;
+    const parts = DATA_ISSUE_TYPES
+      .filter(t => report.counts[t] > 0)
+      .map(t => `${report.counts[t]} ${t}`);
+    return `${report.symbol} ${report.interval}: ${parts.join(', ')} | coverage ${(report.coverage * 100).toFixed(1)}%`;
+  }
+}
@@ -9,12 +9,20 @@
  * - Mean Reversion (15%) - Bollinger Bands deviation
  *
  * Requires 60% consensus + 50% confidence to pass
+ *
+ * The percentages above are the static fallback: once closed trades are
+ * recorded (recordOutcome), EnsembleWeightLearner re-fits the weights from
+ * each source's track record, per market regime when MarketData.regime is set
+ * (see ensemble-weights.ts, config/features.json → ensemble_weights).
  */
 
+import { EnsembleWeightLearner, EnsembleSource, EnsembleWeights, ResolvedWeights, WeightRefit, ENSEMBLE_SOURCES } from './ensemble-weights.js';
+
 export type SignalDirection = 'LONG' | 'SHORT' | 'NEUTRAL';
 
 export interface StrategySignal {
   name: string;
+  source: EnsembleSource;
   direction: SignalDirection;
   confidence: number;  // 0-1
   weight: number;      // 0-1, should sum to 1.0
@@ -27,18 +35,14 @@ export interface EnsembleResult {
   confidence: number;      // 0-1, weighted confidence
   approved: boolean;
   signals: StrategySignal[];
+  weightSource: string;    // 'static' or 'learned:<regime|all>'
   vetoReason?: string;
 }
 
 export interface EnsembleConfig {
   minConsensus: number;      // Default 0.6 (60%)
   minConfidence: number;     // Default 0.5 (50%)
-  weights: {
-    smc: number;
-    ml: number;
-    momentum: number;
-    meanReversion: number;
-  };
+  weights: EnsembleWeights;  // Static weights (fallback for learned ones)
 }
 
 const DEFAULT_CONFIG: EnsembleConfig = {
@@ -65,6 +69,7 @@ export interface MarketData {
   smcDirection?: SignalDirection;
   mlWinProbability?: number;  // 0-1
   mlDirection?: SignalDirection;
+  regime?: string;            // RegimeClassifier label - selects regime-specific learned weights
 
   // Raw data for momentum/mean reversion calculation
   closes: number[];           // Last N closes for indicator calc
@@ -75,8 +80,9 @@ export interface MarketData {
 
 export class EnsembleVoting {
   private config: EnsembleConfig;
+  private learner: EnsembleWeightLearner | null;
 
-  constructor(config: Partial<EnsembleConfig> = {}) {
+  constructor(config: Partial<EnsembleConfig> = {}, learner?: EnsembleWeightLearner | null) {
     this.config = {
       ...DEFAULT_CONFIG,
       ...config,
@@ -91,12 +97,16 @@ export class EnsembleVoting {
         this.config.weights[key] /= totalWeight;
       }
     }
+
+    this.learner = learner !== undefined
+      ? learner
+      : EnsembleWeightLearner.loadConfig().enabled ? new EnsembleWeightLearner(this.config.weights) : null;
   }
 
   /**
-   * Get ensemble vote on a trading opportunity
+   * Get ensemble vote on a trading opportunity (verbose: false skips the log, for backtests)
    */
-  vote(data: MarketData): EnsembleResult {
+  vote(data: MarketData, options: { verbose?: boolean } = {}): EnsembleResult {
     const signals: StrategySignal[] = [];
 
     // 1. SMC Signal (from existing analysis)
@@ -111,11 +121,18 @@ export class EnsembleVoting {
     // 4. Mean Reversion Signal (Bollinger Bands)
     signals.push(this.getMeanReversionSignal(data));
 
+    // Learned weights for the regime when there are any
+    const weights = this.getWeights(data.regime);
+    for (const sig of signals) {
+      sig.weight = weights.weights[sig.source];
+    }
+
     // Calculate weighted consensus
-    const result = this.calculateConsensus(signals);
+    const result = this.calculateConsensus(signals, weights.source);
+    if (options.verbose === false) return result;
 
     // Log the vote
-    console.log(`\n[Ensemble] Vote Results:`);
+    console.log(`\n[Ensemble] Vote Results (${weights.source} weights):`);
     for (const sig of signals) {
       const arrow = sig.direction === 'LONG' ? '↑' : sig.direction === 'SHORT' ? '↓' : '→';
       console.log(`  ${sig.name.padEnd(15)} ${arrow} ${sig.direction.padEnd(7)} ${(sig.confidence * 100).toFixed(0)}% conf (${(sig.weight * 100).toFixed(0)}% weight)`);
@@ -131,6 +148,58 @@ export class EnsembleVoting {
     return result;
   }
 
+  /**
+   * Weights a vote would use for a regime
+   */
+  getWeights(regime?: string): ResolvedWeights {
+    return this.learner ? this.learner.weightsFor(regime) : { weights: { ...this.config.weights }, source: 'static' };
+  }
+
+  /**
+   * History of learned-weight refits (empty without a learner)
+   */
+  getWeightHistory(): WeightRefit[] {
+    return this.learner ? this.learner.getHistory() : [];
+  }
+
+  getLearner(): EnsembleWeightLearner | null {
+    return this.learner;
+  }
+
+  /**
+   * Record how a voted trade turned out, so the learner can re-fit the weights
+   * (timestamp: when the trade closed - the learner orders records by it)
+   */
+  recordOutcome(
+    result: EnsembleResult,
+    direction: 'LONG' | 'SHORT',
+    won: boolean,
+    context: { symbol?: string; regime?: string; timestamp: number }
+  ): void {
+    if (!this.learner) return;
+
+    const votes = Object.fromEntries(ENSEMBLE_SOURCES.map(source => {
+      const signal = result.signals.find(s => s.source === source);
+      return [source, { direction: signal?.direction ?? 'NEUTRAL', confidence: signal?.confidence ?? 0 }];
+    })) as Record<EnsembleSource, { direction: SignalDirection; confidence: number }>;
+
+    this.learner.record({
+      timestamp: context.timestamp,
+      symbol: context.symbol,
+      regime: context.regime,
+      direction,
+      won,
+      votes,
+    });
+  }
+
+  /**
+   * Persist outcomes recorded since the learner's last refit
+   */
+  flush(): void {
+    this.learner?.flush();
+  }
+
   /**
    * SMC Signal - Order Blocks, FVGs, Liquidity
    */
@@ -157,6 +226,7 @@ export class EnsembleVoting {
 
     return {
       name: 'SMC',
+      source: 'smc',
       direction,
       confidence,
       weight: this.config.weights.smc,
@@ -184,6 +254,7 @@ export class EnsembleVoting {
 
     return {
       name: 'ML Model',
+      source: 'ml',
       direction,
       confidence,
       weight: this.config.weights.ml,
@@ -198,6 +269,7 @@ export class EnsembleVoting {
     if (!data.closes || data.closes.length < 20) {
       return {
         name: 'Momentum',
+        source: 'momentum',
         direction: 'NEUTRAL',
         confidence: 0,
         weight: this.config.weights.momentum,
@@ -260,6 +332,7 @@ export class EnsembleVoting {
 
     return {
       name: 'Momentum',
+      source: 'momentum',
       direction,
       confidence: Math.min(1, Math.max(0, confidence)),
       weight: this.config.weights.momentum,
@@ -274,6 +347,7 @@ export class EnsembleVoting {
     if (!data.closes || data.closes.length < 20) {
       return {
         name: 'Mean Reversion',
+        source: 'meanReversion',
         direction: 'NEUTRAL',
         confidence: 0,
         weight: this.config.weights.meanReversion,
@@ -325,6 +399,7 @@ export class EnsembleVoting {
 
     return {
       name: 'Mean Reversion',
+      source: 'meanReversion',
       direction,
       confidence: Math.min(1, Math.max(0, confidence)),
       weight: this.config.weights.meanReversion,
@@ -335,7 +410,7 @@ export class EnsembleVoting {
   /**
    * Calculate weighted consensus from all signals
    */
-  private calculateConsensus(signals: StrategySignal[]): EnsembleResult {
+  private calculateConsensus(signals: StrategySignal[], weightSource: string): EnsembleResult {
     let longScore = 0;
     let shortScore = 0;
     let totalWeight = 0;
@@ -392,6 +467,7 @@ export class EnsembleVoting {
       confidence: weightedConfidence,
       approved,
       signals,
+      weightSource,
       vetoReason
     };
   }
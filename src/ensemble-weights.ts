@@ -0,0 +1,396 @@
+/**
+ * Adaptive Ensemble Weights
+ * Learns EnsembleVoting's source weights from each signal's track record
+ *
+ * Every closed trade is recorded with the direction/confidence each source
+ * (SMC, ML, momentum, mean reversion) voted and whether the trade won. A
+ * source's vote counts as a hit when it pointed the way the trade paid off
+ * (the trade's direction on a win, the opposite on a loss). Every refit_every
+ * records the weights are re-fitted:
+ *   - ewma_hit_rate: exponentially weighted, confidence-weighted hit rate per
+ *                    source (half_life records); weight ∝ edge over a coin flip
+ *   - logistic:      logistic stacking of the signed votes (+confidence when a
+ *                    source agreed with the trade, - when it opposed) on the
+ *                    win/loss outcome; weight ∝ positive coefficient
+ * Weights are fitted over all records and, with by_regime, per market regime
+ * (RegimeClassifier labels). A regime with fewer than min_records records
+ * falls back to the all-records weights, and those to the static
+ * EnsembleVoting weights.
+ *
+ * Records, learned weights and the history of every refit are persisted to
+ * state_file on each refit; records since the last refit are written by
+ * flush(). Config: config/features.json → ensemble_weights.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type EnsembleSource = 'smc' | 'ml' | 'momentum' | 'meanReversion';
+export type EnsembleWeights = Record<EnsembleSource, number>;
+export type WeightFitMethod = 'ewma_hit_rate' | 'logistic';
+
+export const ENSEMBLE_SOURCES: EnsembleSource[] = ['smc', 'ml', 'momentum', 'meanReversion'];
+export const WEIGHT_FIT_METHODS: WeightFitMethod[] = ['ewma_hit_rate', 'logistic'];
+
+// Key of the weights fitted over every record
+export const ALL_REGIMES = 'all';
+
+export interface EnsembleWeightsConfig {
+  enabled: boolean;
+  method: WeightFitMethod;
+  by_regime: boolean;
+  min_records: number;          // Records needed before a fit replaces its fallback
+  refit_every: number;          // New records between refits
+  half_life: number;            // ewma_hit_rate: records for a vote's influence to halve
+  min_weight: number;           // Floor per source before normalizing (keeps every source voting)
+  logistic: {
+    learning_rate: number;
+    iterations: number;
+    l2: number;
+  };
+  max_records: number;          // Oldest records are dropped beyond this
+  max_history: number;          // Refits kept in the history
+  state_file: string;
+}
+
+const DEFAULT_CONFIG: EnsembleWeightsConfig = {
+  enabled: true,
+  method: 'ewma_hit_rate',
+  by_regime: true,
+  min_records: 30,
+  refit_every: 10,
+  half_life: 50,
+  min_weight: 0.05,
+  logistic: {
+    learning_rate: 0.1,
+    iterations: 500,
+    l2: 0.01,
+  },
+  max_records: 2000,
+  max_history: 100,
+  state_file: 'data/models/ensemble_weights.json',
+};
+
+export interface SignalVote {
+  direction: 'LONG' | 'SHORT' | 'NEUTRAL';
+  confidence: number;
+}
+
+export interface SignalRecord {
+  timestamp: number;
+  symbol?: string;
+  regime?: string;
+  direction: 'LONG' | 'SHORT';  // Trade direction
+  won: boolean;
+  votes: Record<EnsembleSource, SignalVote>;
+}
+
+export interface SourceFit {
+  weight: number;
+  hit_rate: number;             // Confidence-weighted (EWMA for ewma_hit_rate)
+  votes: number;                // Non-neutral votes in the fit
+  coefficient?: number;         // logistic only
+}
+
+export interface LearnedWeights {
+  weights: EnsembleWeights;
+  records: number;
+  sources: Record<EnsembleSource, SourceFit>;
+}
+
+export interface WeightRefit {
+  timestamp: string;
+  method: WeightFitMethod;
+  records: number;
+  fits: Record<string, LearnedWeights>;   // ALL_REGIMES and each regime with enough records
+}
+
+export interface ResolvedWeights {
+  weights: EnsembleWeights;
+  source: string;               // 'learned:<regime>', 'learned:all' or 'static'
+}
+
+export class EnsembleWeightLearner {
+  private config: EnsembleWeightsConfig;
+  private fallback: EnsembleWeights;
+  private statePath: string;
+  private records: SignalRecord[] = [];
+  private learned: Record<string, LearnedWeights> = {};
+  private history: WeightRefit[] = [];
+  private sinceRefit = 0;
+  private dirty = false;        // Records not yet written to state_file
+
+  constructor(fallback: EnsembleWeights, config: Partial<EnsembleWeightsConfig> = {}) {
+    const base = EnsembleWeightLearner.loadConfig();
+    this.config = { ...base, ...config, logistic: { ...base.logistic, ...(config.logistic || {}) } };
+    this.fallback = { ...fallback };
+    this.statePath = path.isAbsolute(this.config.state_file)
+      ? this.config.state_file
+      : path.join(process.cwd(), this.config.state_file);
+
+    this.loadState();
+  }
+
+  /**
+   * Load ensemble_weights from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): EnsembleWeightsConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const section = features.ensemble_weights || {};
+      return { ...DEFAULT_CONFIG, ...section, logistic: { ...DEFAULT_CONFIG.logistic, ...(section.logistic || {}) } };
+    } catch {
+      return { ...DEFAULT_CONFIG, logistic: { ...DEFAULT_CONFIG.logistic } };
+    }
+  }
+
+  static parseMethod(value: string): WeightFitMethod {
+    if (!WEIGHT_FIT_METHODS.includes(value as WeightFitMethod)) {
+      throw new Error(`Unknown weight fit method "${value}" (expected ${WEIGHT_FIT_METHODS.join(', ')})`);
+    }
+    return value as WeightFitMethod;
+  }
+
+  getConfig(): EnsembleWeightsConfig {
+    return { ...this.config, logistic: { ...this.config.logistic } };
+  }
+
+  /**
+   * Weights for a regime: its own fit, else the all-records fit, else static
+   */
+  weightsFor(regime?: string): ResolvedWeights {
+    if (this.config.by_regime && regime && this.learned[regime]) {
+      return { weights: { ...this.learned[regime].weights }, source: `learned:${regime}` };
+    }
+    if (this.learned[ALL_REGIMES]) {
+      return { weights: { ...this.learned[ALL_REGIMES].weights }, source: `learned:${ALL_REGIMES}` };
+    }
+    return { weights: { ...this.fallback }, source: 'static' };
+  }
+
+  /**
+   * Record a closed trade's votes; refits (and saves) every refit_every records,
+   * otherwise the record stays in memory until the next refit or flush()
+   */
+  record(record: SignalRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.config.max_records) {
+      this.records = this.records.slice(-this.config.max_records);
+    }
+    this.sinceRefit++;
+    this.dirty = true;
+
+    if (this.sinceRefit >= this.config.refit_every) {
+      this.refit();
+    }
+  }
+
+  /**
+   * Write records added since the last save to state_file
+   */
+  flush(): void {
+    if (this.dirty) this.saveState();
+  }
+
+  /**
+   * Re-fit every weight set from the recorded votes and append to the history
+   */
+  refit(method: WeightFitMethod = this.config.method): WeightRefit {
+    const fits: Record<string, LearnedWeights> = {};
+    const all = this.fit(this.records, method);
+    if (all) fits[ALL_REGIMES] = all;
+
+    if (this.config.by_regime) {
+      const regimes = new Set(this.records.map(r => r.regime).filter((r): r is string => !!r));
+      for (const regime of regimes) {
+        const fit = this.fit(this.records.filter(r => r.regime === regime), method);
+        if (fit) fits[regime] = fit;
+      }
+    }
+
+    const refit: WeightRefit = { timestamp: new Date().toISOString(), method, records: this.records.length, fits };
+    this.learned = fits;
+    this.history.push(refit);
+    if (this.history.length > this.config.max_history) {
+      this.history = this.history.slice(-this.config.max_history);
+    }
+    this.sinceRefit = 0;
+    this.saveState();
+    return refit;
+  }
+
+  getLearnedWeights(): Record<string, LearnedWeights> {
+    return JSON.parse(JSON.stringify(this.learned));
+  }
+
+  getHistory(): WeightRefit[] {
+    return JSON.parse(JSON.stringify(this.history));
+  }
+
+  getStats(): {
+    records: number;
+    byRegime: Record<string, number>;
+    refits: number;
+    lastRefit: string | null;
+    pendingRecords: number;
+    fallback: EnsembleWeights;
+  } {
+    const byRegime: Record<string, number> = {};
+    for (const r of this.records) {
+      const regime = r.regime ?? 'unknown';
+      byRegime[regime] = (byRegime[regime] || 0) + 1;
+    }
+    return {
+      records: this.records.length,
+      byRegime,
+      refits: this.history.length,
+      lastRefit: this.history.length > 0 ? this.history[this.history.length - 1].timestamp : null,
+      pendingRecords: this.sinceRefit,
+      fallback: { ...this.fallback },
+    };
+  }
+
+  /**
+   * Forget records, learned weights and history
+   */
+  reset(): void {
+    this.records = [];
+    this.learned = {};
+    this.history = [];
+    this.sinceRefit = 0;
+    this.saveState();
+  }
+
+  /**
+   * Fit one weight set (null below min_records)
+   */
+  private fit(records: SignalRecord[], method: WeightFitMethod): LearnedWeights | null {
+    if (records.length < this.config.min_records) return null;
+
+    const ordered = [...records].sort((a, b) => a.timestamp - b.timestamp);
+    const hitRates = this.hitRates(ordered, method === 'ewma_hit_rate' ? this.config.half_life : Infinity);
+    const coefficients = method === 'logistic' ? this.logisticCoefficients(ordered) : null;
+
+    // Edge over a coin flip (or the positive stacking coefficient), floored
+    const raw = {} as EnsembleWeights;
+    for (const source of ENSEMBLE_SOURCES) {
+      const edge = coefficients ? coefficients[source] : 2 * hitRates[source].rate - 1;
+      raw[source] = Math.max(this.config.min_weight, edge);
+    }
+    const total = ENSEMBLE_SOURCES.reduce((s, source) => s + raw[source], 0);
+
+    const sources = {} as Record<EnsembleSource, SourceFit>;
+    const weights = {} as EnsembleWeights;
+    for (const source of ENSEMBLE_SOURCES) {
+      weights[source] = raw[source] / total;
+      sources[source] = {
+        weight: weights[source],
+        hit_rate: hitRates[source].rate,
+        votes: hitRates[source].votes,
+        ...(coefficients ? { coefficient: coefficients[source] } : {}),
+      };
+    }
+    return { weights, records: records.length, sources };
+  }
+
+  /**
+   * Confidence-weighted hit rate per source, newest records weighted most
+   * (Infinity half-life = plain average). No votes → 0.5.
+   */
+  private hitRates(records: SignalRecord[], halfLife: number): Record<EnsembleSource, { rate: number; votes: number }> {
+    const decay = Number.isFinite(halfLife) ? Math.pow(0.5, 1 / halfLife) : 1;
+    const result = {} as Record<EnsembleSource, { rate: number; votes: number }>;
+
+    for (const source of ENSEMBLE_SOURCES) {
+      let hits = 0;
+      let total = 0;
+      let votes = 0;
+      for (const record of records) {
+        hits *= decay;
+        total *= decay;
+        const vote = record.votes[source];
+        if (!vote || vote.direction === 'NEUTRAL' || vote.confidence <= 0) continue;
+        const hit = (vote.direction === record.direction) === record.won;
+        hits += hit ? vote.confidence : 0;
+        total += vote.confidence;
+        votes++;
+      }
+      result[source] = { rate: total > 0 ? hits / total : 0.5, votes };
+    }
+    return result;
+  }
+
+  /**
+   * L2-regularized logistic regression of win/loss on the signed votes
+   * (batch gradient descent, with an intercept)
+   */
+  private logisticCoefficients(records: SignalRecord[]): EnsembleWeights {
+    const { learning_rate, iterations, l2 } = this.config.logistic;
+    const xs = records.map(r => ENSEMBLE_SOURCES.map(source => EnsembleWeightLearner.signedVote(r, source)));
+    const ys = records.map(r => (r.won ? 1 : 0));
+    const beta = new Array<number>(ENSEMBLE_SOURCES.length).fill(0);
+    let intercept = 0;
+
+    for (let iter = 0; iter < iterations; iter++) {
+      const gradient = new Array<number>(beta.length).fill(0);
+      let gradientIntercept = 0;
+      for (let i = 0; i < xs.length; i++) {
+        const z = intercept + xs[i].reduce((s, x, j) => s + x * beta[j], 0);
+        const error = 1 / (1 + Math.exp(-z)) - ys[i];
+        gradientIntercept += error;
+        for (let j = 0; j < beta.length; j++) gradient[j] += error * xs[i][j];
+      }
+      intercept -= learning_rate * gradientIntercept / xs.length;
+      for (let j = 0; j < beta.length; j++) {
+        beta[j] -= learning_rate * (gradient[j] / xs.length + l2 * beta[j]);
+      }
+    }
+
+    return Object.fromEntries(ENSEMBLE_SOURCES.map((source, j) => [source, beta[j]])) as EnsembleWeights;
+  }
+
+  /**
+   * +confidence when the source agreed with the trade, -confidence when it opposed it
+   */
+  private static signedVote(record: SignalRecord, source: EnsembleSource): number {
+    const vote = record.votes[source];
+    if (!vote || vote.direction === 'NEUTRAL') return 0;
+    return vote.direction === record.direction ? vote.confidence : -vote.confidence;
+  }
+
+  /**
+   * Save records, learned weights and history to disk
+   */
+  private saveState(): void {
+    const dir = path.dirname(this.statePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(this.statePath, JSON.stringify({
+      records: this.records,
+      learned: this.learned,
+      history: this.history,
+      sinceRefit: this.sinceRefit,
+      savedAt: new Date().toISOString(),
+    }, null, 2));
+    this.dirty = false;
+  }
+
+  /**
+   * Load saved state (starts empty when there is none)
+   */
+  private loadState(): void {
+    if (!fs.existsSync(this.statePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.statePath, 'utf-8'));
+      this.records = data.records || [];
+      this.learned = data.learned || {};
+      this.history = data.history || [];
+      this.sinceRefit = data.sinceRefit || 0;
+    } catch (e) {
+      console.error('[Ensemble] Error loading learned weights:', e);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+/**
+ * Evolution Runner
+ * Runs the genetic strategy evolution engine:
+ *   1. Seeds population from data/strategies.json
+ *   2. Evolves SMC weights over several generations
+ *   3. Saves top candidates (with Monte Carlo robustness) to data/evolved-strategies/
+ *   4. Registers winning offspring that pass the robustness gate as experimental (paper) strategies
+ *
+ * Run: npm run evolve
+ */
+
+import path from 'path';
+import { StrategyEvolution, EvolutionEngineConfig } from './strategy-evolution.js';
+import { RegimeClassifier } from './market-regime.js';
+
+// Configuration
+const CONFIG: Partial<EvolutionEngineConfig> = {
+  populationSize: 20,
+  generations: 5,
+  timeframe: '1d',
+  dataPath: path.join(process.cwd(), 'Historical_Data_Lite'),
+};
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Parse args
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--symbols':
+        CONFIG.symbols = args[++i].split(',');
+        break;
+      case '--timeframe':
+        CONFIG.timeframe = args[++i];
+        break;
+      case '--generations':
+        CONFIG.generations = parseInt(args[++i]);
+        break;
+      case '--population':
+        CONFIG.populationSize = parseInt(args[++i]);
+        break;
+      case '--sample-rate':
+        CONFIG.sampleRate = parseInt(args[++i]);
+        break;
+      case '--max-new':
+        CONFIG.maxNewStrategies = parseInt(args[++i]);
+        break;
+      case '--regime':
+        CONFIG.regime = RegimeClassifier.parseFilter(args[++i]);
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Strategy Evolution
+Evolves SMC scoring weights → Backtests → Registers experimental strategies
+
+Usage: npm run evolve -- [OPTIONS]
+
+Options:
+  --symbols <list>       Comma-separated symbols (default: production phase backtest_symbols)
+  --timeframe <tf>       Candle timeframe to backtest (default: 1d)
+  --generations <n>      Number of generations (default: 5)
+  --population <n>       Population size (default: 20)
+  --sample-rate <n>      Analyze every Nth bar (default: 1)
+  --max-new <n>          Max experimental strategies to create (default: 2)
+  --regime <regime>      Only backtest bars in one regime (e.g. trend, range_high_vol)
+  -h, --help             Show this help
+
+Examples:
+  npm run evolve
+  npm run evolve -- --generations 10 --population 30
+  npm run evolve -- --symbols BTCUSDT,ETHUSDT --timeframe 1h --sample-rate 4
+  npm run evolve -- --regime range_low_vol
+        `);
+        process.exit(0);
+    }
+  }
+
+  console.log('╔════════════════════════════════════════════════════════════╗');
+  console.log('║              STRATEGY EVOLUTION ENGINE                     ║');
+  console.log('╚════════════════════════════════════════════════════════════╝');
+
+  try {
+    const engine = new StrategyEvolution(CONFIG);
+    const result = await engine.run();
+
+    console.log('\n═══════════════════════════════════════════════════════════');
+    console.log(`Generations: ${result.generations} | Candidates evaluated: ${result.evaluated} | Regime: ${result.regime}`);
+    console.log(`Market regimes: ${Object.entries(result.marketRegimes).map(([s, r]) => `${s} ${r}`).join(', ')} ` +
+      `(${result.regimeChanged ? 'changed' : 'unchanged'} since the last evolution)`);
+    console.log('\nTop candidates:');
+    for (const c of result.top.slice(0, 5)) {
+      const m = c.metrics!;
+      console.log(`  ${c.id.padEnd(32)} fitness=${c.fitness.toFixed(2).padStart(6)} ` +
+        `WR=${(m.winRate * 100).toFixed(1)}% PF=${m.profitFactor.toFixed(2)} Sharpe=${m.sharpe.toFixed(2)} trades=${m.totalTrades}`);
+      if (c.robustness) {
+        const r = c.robustness;
+        console.log(`  ${''.padEnd(32)} ${r.robust ? '✅' : '⚠️ '} MC ${r.method}: p5 return ${(r.p5_return * 100).toFixed(1)}% ` +
+          `p95 DD ${(r.p95_drawdown_pct * 100).toFixed(1)}% ruin ${(r.risk_of_ruin * 100).toFixed(1)}%`);
+      }
+    }
+    console.log(`\nSaved: ${result.topFile}`);
+
+    if (result.newStrategies.length > 0) {
+      console.log(`\n✅ New experimental strategies: ${result.newStrategies.join(', ')}`);
+    } else {
+      console.log('\n⚠️  No new strategies registered (see data/learning/evolution_skipped.log)');
+    }
+  } catch (error) {
+    console.error('\n❌ Evolution failed:', error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
@@ -2,14 +2,20 @@
  * H2O Integration Module
  * Handles H2O model training, prediction, and evaluation for Learning Orchestrator
  * Uses Python H2O for real ML operations
+ *
+ * Training runs scripts/h2o_trainer.py, scoring runs scripts/h2o_predict.py
+ * against the saved model. Evaluation compares those predictions with the
+ * test CSV's target column. Any failure throws - no metrics are made up.
+ *
+ * Evaluation also fits a probability calibrator on the test predictions
+ * (h2o/<model id>_calibration.json); predict() applies it when present.
  */
 
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { exec, spawn } from 'child_process';
-import { promisify } from 'util';
-
-const execAsync = promisify(exec);
+import { spawn } from 'child_process';
+import { ProbabilityCalibrator, CalibrationReport, CalibrationState } from './probability-calibration.js';
 
 // Java path for H2O
 const JAVA_PATH = 'C:/Program Files/Microsoft/jdk-21.0.9.10-hotspot/bin';
@@ -29,14 +35,34 @@ export interface H2OTrainingResult {
   features: string[];
   algorithm: string;
   timestamp: number;
+  modelPath?: string;
 }
 
 export interface H2OPrediction {
   prediction: string;
-  win_probability: number;
+  win_probability: number;       // Calibrated when the model has a calibration file
+  raw_win_probability?: number;  // Set when calibrated
   confidence: number;
 }
 
+export interface H2OEvaluation {
+  modelId: string;
+  rows: number;
+  accuracy: number;
+  precision: number;
+  recall: number;
+  f1: number;
+  logloss: number;
+  confusionMatrix: {
+    truePositive: number;
+    falsePositive: number;
+    trueNegative: number;
+    falseNegative: number;
+  };
+  calibration: CalibrationReport;               // Reliability of the raw test probabilities
+  calibrationMethod: 'platt' | 'isotonic' | 'none';
+}
+
 export class H2OIntegration {
   private config: H2OConfig;
 
@@ -65,26 +91,22 @@ export class H2OIntegration {
     console.log(`Target: ${targetColumn}`);
     console.log(`Algorithm: ${algorithm}`);
 
+    let result: H2OTrainingResult;
     try {
-      // Use real H2O via Python
-      const result = await this.trainWithPython(trainFile, algorithm, targetColumn);
+      result = await this.trainWithPython(trainFile, algorithm, targetColumn, validationSplit);
+    } catch (error) {
+      throw new Error(`H2O training failed: ${error instanceof Error ? error.message : error}`);
+    }
 
-      // Save model metadata
-      await this.saveModelMetadata(result);
+    // Only real results are persisted
+    await this.saveModelMetadata(result);
 
-      console.log(`✅ Model trained: ${result.modelId}`);
-      console.log(`   Accuracy: ${(result.accuracy * 100).toFixed(1)}%`);
-      console.log(`   AUC: ${(result.auc * 100).toFixed(1)}%`);
-      console.log(`   LogLoss: ${result.logloss.toFixed(3)}`);
+    console.log(`✅ Model trained: ${result.modelId}`);
+    console.log(`   Accuracy: ${(result.accuracy * 100).toFixed(1)}%`);
+    console.log(`   AUC: ${(result.auc * 100).toFixed(1)}%`);
+    console.log(`   LogLoss: ${result.logloss.toFixed(3)}`);
 
-      return result;
-    } catch (error) {
-      console.error('H2O training failed, falling back to simulation:', error);
-      // Fallback to simulation if Python fails
-      const result = await this.simulateTraining(trainFile, targetColumn, algorithm, validationSplit);
-      await this.saveModelMetadata(result);
-      return result;
-    }
+    return result;
   }
 
   /**
@@ -93,7 +115,8 @@ export class H2OIntegration {
   private async trainWithPython(
     trainFile: string,
     algorithm: string,
-    targetColumn: string
+    targetColumn: string,
+    validationSplit: number
   ): Promise<H2OTrainingResult> {
     const scriptPath = path.join(SCRIPTS_DIR, 'h2o_trainer.py');
     const absTrainFile = path.resolve(trainFile);
@@ -107,7 +130,8 @@ export class H2OIntegration {
         'train',
         '--data', absTrainFile,
         '--algorithm', algorithm,
-        '--target', targetColumn
+        '--target', targetColumn,
+        '--test-split', String(validationSplit)
       ], { env, cwd: process.cwd() });
 
       let stdout = '';
@@ -149,6 +173,7 @@ export class H2OIntegration {
             features: result.features,
             algorithm: result.algorithm,
             timestamp: Date.now(),
+            modelPath: result.model_path,
           });
         } catch (e) {
           reject(new Error(`Failed to parse training result: ${e}`));
@@ -159,49 +184,97 @@ export class H2OIntegration {
 
   /**
    * Make predictions using trained model
+   * @param input - CSV path (batch) or a single feature object
    */
-  async predict(modelId: string, dataFile: string): Promise<H2OPrediction[]> {
+  async predict(modelId: string, input: string | Record<string, unknown>): Promise<H2OPrediction[]> {
     console.log('\n=== Making Predictions ===');
     console.log(`Model: ${modelId}`);
-    console.log(`Data file: ${dataFile}`);
+    console.log(typeof input === 'string' ? `Data file: ${input}` : `Features: ${Object.keys(input).length}`);
 
-    try {
-      // For now, simulate predictions
-      // In production, call H2O MCP server or H2O API
-      const predictions = await this.simulatePredictions(dataFile);
-      
-      console.log(`✅ Generated ${predictions.length} predictions`);
-      console.log(`   Avg win probability: ${this.calculateAvgWinProb(predictions).toFixed(1)}%`);
-      
-      return predictions;
-    } catch (error) {
-      throw new Error(`Failed to make predictions: ${error}`);
-    }
+    const modelPath = this.resolveModelPath(modelId);
+    const predictions = this.applyCalibration(modelId, await this.predictWithPython(modelPath, input));
+
+    console.log(`✅ Generated ${predictions.length} predictions`);
+    console.log(`   Avg win probability: ${this.calculateAvgWinProb(predictions).toFixed(1)}%`);
+
+    return predictions;
   }
 
   /**
-   * Evaluate model performance
+   * Evaluate model performance on a labelled test CSV
    */
-  async evaluateModel(modelId: string, testFile: string): Promise<any> {
+  async evaluateModel(modelId: string, testFile: string, targetColumn: string = 'outcome'): Promise<H2OEvaluation> {
     console.log('\n=== Evaluating Model ===');
     console.log(`Model: ${modelId}`);
     console.log(`Test file: ${testFile}`);
 
-    try {
-      // For now, simulate evaluation
-      // In production, call H2O MCP server or H2O API
-      const result = await this.simulateEvaluation(testFile);
-      
-      console.log(`✅ Model evaluated`);
-      console.log(`   Accuracy: ${(result.accuracy * 100).toFixed(1)}%`);
-      console.log(`   Precision: ${(result.precision * 100).toFixed(1)}%`);
-      console.log(`   Recall: ${(result.recall * 100).toFixed(1)}%`);
-      console.log(`   F1 Score: ${result.f1.toFixed(3)}`);
-      
-      return result;
-    } catch (error) {
-      throw new Error(`Failed to evaluate model: ${error}`);
+    const actual = this.readCsvColumn(testFile, targetColumn);
+    const predictions = await this.predictWithPython(this.resolveModelPath(modelId), testFile);
+
+    if (predictions.length !== actual.length) {
+      throw new Error(`Prediction count (${predictions.length}) does not match test rows (${actual.length})`);
+    }
+
+    let tp = 0, fp = 0, tn = 0, fn = 0, loss = 0;
+    const epsilon = 1e-15;
+
+    predictions.forEach((pred, i) => {
+      const isWin = actual[i] === 'WIN' || actual[i] === '1';
+      const predictedWin = pred.win_probability >= 0.5;
+      const p = Math.min(1 - epsilon, Math.max(epsilon, pred.win_probability));
+
+      if (predictedWin && isWin) tp++;
+      else if (predictedWin) fp++;
+      else if (isWin) fn++;
+      else tn++;
+
+      loss += isWin ? -Math.log(p) : -Math.log(1 - p);
+    });
+
+    const rows = predictions.length;
+    const precision = tp + fp > 0 ? tp / (tp + fp) : 0;
+
+    // Test rows are out-of-sample for this model - fit its calibrator on them
+    const probs = predictions.map(p => p.win_probability);
+    const targets = actual.map(a => (a === 'WIN' || a === '1') ? 1 : 0);
+    const selection = ProbabilityCalibrator.select(probs, targets);
+    const calibrationFile = this.calibrationPath(modelId);
+    if (selection.calibrator) {
+      fs.mkdirSync(path.dirname(calibrationFile), { recursive: true });
+      fs.writeFileSync(calibrationFile, JSON.stringify(selection.calibrator.toJSON(), null, 2));
+    } else if (fs.existsSync(calibrationFile)) {
+      fs.unlinkSync(calibrationFile);
     }
+    const recall = tp + fn > 0 ? tp / (tp + fn) : 0;
+
+    const result: H2OEvaluation = {
+      modelId,
+      rows,
+      accuracy: rows > 0 ? (tp + tn) / rows : 0,
+      precision,
+      recall,
+      f1: precision + recall > 0 ? 2 * (precision * recall) / (precision + recall) : 0,
+      logloss: rows > 0 ? loss / rows : 0,
+      confusionMatrix: {
+        truePositive: tp,
+        falsePositive: fp,
+        trueNegative: tn,
+        falseNegative: fn,
+      },
+      calibration: ProbabilityCalibrator.evaluate(probs, targets),
+      calibrationMethod: selection.method,
+    };
+
+    console.log(`✅ Model evaluated on ${rows} rows`);
+    console.log(`   Accuracy: ${(result.accuracy * 100).toFixed(1)}%`);
+    console.log(`   Precision: ${(result.precision * 100).toFixed(1)}%`);
+    console.log(`   Recall: ${(result.recall * 100).toFixed(1)}%`);
+    console.log(`   F1 Score: ${result.f1.toFixed(3)}`);
+    console.log(`   LogLoss: ${result.logloss.toFixed(3)}`);
+    console.log(`   Confusion: TP=${tp} FP=${fp} TN=${tn} FN=${fn}`);
+    console.log(`   Calibration: Brier ${result.calibration.brier.toFixed(4)}, ECE ${(result.calibration.ece * 100).toFixed(2)}% -> ${selection.method}${selection.calibrator ? ` (${calibrationFile})` : ''}`);
+
+    return result;
   }
 
   /**
@@ -279,86 +352,128 @@ export class H2OIntegration {
   }
 
   /**
-   * Simulate H2O training (for testing)
+   * Score a CSV file or feature object with scripts/h2o_predict.py
    */
-  private async simulateTraining(
-    trainFile: string,
-    targetColumn: string,
-    algorithm: string,
-    validationSplit: number
-  ): Promise<H2OTrainingResult> {
-    // Read CSV to get number of rows and features
-    const data = fs.readFileSync(trainFile, 'utf-8');
-    const lines = data.split('\n');
-    const headers = lines[0].split(',').map((h: string) => h.trim());
-    const features = headers.filter((h: string) => h !== targetColumn);
-    const numRows = lines.length - 1;
-
-    const modelId = `model_${Date.now()}`;
-    const timestamp = Date.now();
-
-    // Simulate training metrics (in production, get from H2O)
-    const accuracy = 0.65 + (Math.random() * 0.15); // 65-80%
-    const auc = 0.70 + (Math.random() * 0.20); // 70-90%
-    const logloss = 0.3 + (Math.random() * 0.3); // 0.3-0.6
-
-    return {
-      modelId,
-      accuracy,
-      auc,
-      logloss,
-      features,
-      algorithm,
-      timestamp,
-    };
+  private async predictWithPython(
+    modelPath: string,
+    input: string | Record<string, unknown>
+  ): Promise<H2OPrediction[]> {
+    const scriptPath = path.join(SCRIPTS_DIR, 'h2o_predict.py');
+    const outputFile = path.join(os.tmpdir(), `h2o_predictions_${process.pid}_${Date.now()}.json`);
+    const env = { ...process.env, PATH: `${JAVA_PATH};${process.env.PATH}` };
+
+    const inputArgs = typeof input === 'string'
+      ? ['--csv', path.resolve(input)]
+      : ['--json', JSON.stringify(input)];
+
+    await new Promise<void>((resolve, reject) => {
+      const proc = spawn('python', [
+        scriptPath,
+        '--model', modelPath,
+        ...inputArgs,
+        '--output', outputFile
+      ], { env, cwd: process.cwd() });
+
+      let stderr = '';
+      proc.stderr.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      proc.on('error', (err) => reject(new Error(`Failed to start Python: ${err.message}`)));
+      proc.on('close', (code) => {
+        if (code !== 0) {
+          reject(new Error(`Prediction script exited with code ${code}: ${stderr}`));
+          return;
+        }
+        resolve();
+      });
+    });
+
+    try {
+      const predictions = JSON.parse(fs.readFileSync(outputFile, 'utf-8')) as H2OPrediction[];
+      if (!Array.isArray(predictions)) {
+        throw new Error('Prediction output is not an array');
+      }
+      return predictions;
+    } finally {
+      if (fs.existsSync(outputFile)) fs.unlinkSync(outputFile);
+    }
   }
 
   /**
-   * Simulate predictions (for testing)
+   * Calibration written by evaluateModel for a model ID
    */
-  private async simulatePredictions(dataFile: string): Promise<H2OPrediction[]> {
-    const data = fs.readFileSync(dataFile, 'utf-8');
-    const lines = data.split('\n').slice(1); // Skip header
-    const predictions: H2OPrediction[] = [];
-
-    for (const line of lines) {
-      if (!line.trim()) continue;
-
-      const winProb = 0.45 + (Math.random() * 0.40); // 45-85%
-      const prediction = winProb > 0.5 ? 'WIN' : 'LOSS';
-      const confidence = 0.50 + (Math.random() * 0.40); // 50-90%
-
-      predictions.push({
-        prediction,
-        win_probability: winProb,
-        confidence,
-      });
+  calibrationPath(modelId: string): string {
+    return path.join(this.config.modelDir, 'h2o', `${modelId}_calibration.json`);
+  }
+
+  /**
+   * Replace raw win probabilities with calibrated ones (no-op without a calibration file)
+   */
+  private applyCalibration(modelId: string, predictions: H2OPrediction[]): H2OPrediction[] {
+    const calibrationFile = this.calibrationPath(modelId);
+    if (!fs.existsSync(calibrationFile)) return predictions;
+
+    const state = JSON.parse(fs.readFileSync(calibrationFile, 'utf-8')) as CalibrationState;
+    const calibrator = ProbabilityCalibrator.fromJSON(state);
+
+    return predictions.map(pred => {
+      const winProbability = calibrator.calibrate(pred.win_probability);
+      return {
+        prediction: winProbability > 0.5 ? 'WIN' : 'LOSS',
+        win_probability: winProbability,
+        raw_win_probability: pred.win_probability,
+        confidence: Math.abs(winProbability - 0.5) * 2,
+      };
+    });
+  }
+
+  /**
+   * Find the saved H2O model for a model ID
+   *
+   * Looks at our metadata (modelPath) and the trainer's h2o/<id>_metadata.json
+   * (model_path). Paths recorded on another machine are retried by file name
+   * inside modelDir/h2o.
+   */
+  private resolveModelPath(modelId: string): string {
+    const candidates: string[] = [];
+
+    const ownMeta = path.join(this.config.modelDir, `${modelId}.json`);
+    if (fs.existsSync(ownMeta)) {
+      const meta = JSON.parse(fs.readFileSync(ownMeta, 'utf-8'));
+      if (meta.modelPath) candidates.push(meta.modelPath);
     }
 
-    return predictions;
+    const trainerMeta = path.join(this.config.modelDir, 'h2o', `${modelId}_metadata.json`);
+    if (fs.existsSync(trainerMeta)) {
+      const meta = JSON.parse(fs.readFileSync(trainerMeta, 'utf-8'));
+      if (meta.model_path) candidates.push(meta.model_path);
+    }
+
+    for (const candidate of candidates) {
+      if (fs.existsSync(candidate)) return candidate;
+
+      const local = path.join(this.config.modelDir, 'h2o', candidate.split(/[\\/]/).pop() || '');
+      if (fs.existsSync(local)) return local;
+    }
+
+    throw new Error(`No saved H2O model found for ${modelId}${candidates.length ? ` (tried ${candidates.join(', ')})` : ''}`);
   }
 
   /**
-   * Simulate evaluation (for testing)
+   * Read one column of a CSV written by saveToCSV (no embedded commas)
    */
-  private async simulateEvaluation(testFile: string): Promise<any> {
-    const accuracy = 0.60 + (Math.random() * 0.25); // 60-85%
-    const precision = 0.55 + (Math.random() * 0.30); // 55-85%
-    const recall = 0.50 + (Math.random() * 0.35); // 50-85%
-    const f1 = 2 * ((precision * recall) / (precision + recall));
-
-    return {
-      accuracy,
-      precision,
-      recall,
-      f1,
-      confusionMatrix: {
-        truePositive: Math.floor(Math.random() * 100),
-        falsePositive: Math.floor(Math.random() * 50),
-        trueNegative: Math.floor(Math.random() * 100),
-        falseNegative: Math.floor(Math.random() * 50),
-      },
-    };
+  private readCsvColumn(filePath: string, column: string): string[] {
+    const lines = fs.readFileSync(filePath, 'utf-8').split(/\r?\n/).filter(l => l.trim());
+    const unquote = (v: string) => v.trim().replace(/^"|"$/g, '');
+    const headers = lines[0].split(',').map(unquote);
+    const idx = headers.indexOf(column);
+
+    if (idx < 0) {
+      throw new Error(`Column "${column}" not found in ${filePath}`);
+    }
+
+    return lines.slice(1).map(line => unquote(line.split(',')[idx] ?? ''));
   }
 
   /**
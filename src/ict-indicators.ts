@@ -11,6 +11,7 @@
  */
 
 import { Candle, SMCIndicators, OrderBlock, FVG, SMCAnalysis } from './smc-indicators.js';
+import { MTFSnapshot } from './timeframe-alignment.js';
 
 // ═══════════════════════════════════════════════════════════════
 // INTERFACES
@@ -642,6 +643,7 @@ export class ICTIndicators {
    * HTF Cascade Validation (OPTIMIZED)
    * Simulates multi-timeframe analysis using different lookback periods
    * HTF = 100 bars, MTF = 30 bars, LTF = 10 bars
+   * Fallback for when no real timeframe data is available (see detectHTFCascadeFromTimeframes)
    */
   static detectHTFCascade(candles: Candle[]): HTFCascade {
     const htfTrend = this.getTrendFromPeriod(candles, 100);
@@ -676,6 +678,41 @@ export class ICTIndicators {
     };
   }
 
+  /**
+   * HTF Cascade from real timeframes (1d → 1h → 5m)
+   * Uses the SMC trend of each timeframe in an MTFSnapshot. Falls back to the
+   * lookback simulation when fewer than two timeframes are available.
+   */
+  static detectHTFCascadeFromTimeframes(candles: Candle[], mtf: MTFSnapshot): HTFCascade {
+    const frames = [mtf.daily, mtf.hourly, mtf.fiveMin];
+    const available = frames.filter((a): a is SMCAnalysis => a !== null);
+    if (available.length < 2) {
+      return this.detectHTFCascade(candles);
+    }
+
+    const toTrend = (a: SMCAnalysis | null): 'bullish' | 'bearish' | 'ranging' =>
+      a?.trend === 'up' ? 'bullish' : a?.trend === 'down' ? 'bearish' : 'ranging';
+    const [htfTrend, mtfTrend, ltfTrend] = frames.map(toTrend);
+
+    // Score only over timeframes that have data
+    const trends = available.map(toTrend);
+    const bullishCount = trends.filter(t => t === 'bullish').length;
+    const bearishCount = trends.filter(t => t === 'bearish').length;
+    const alignmentScore = Math.max(bullishCount, bearishCount) / trends.length;
+
+    // Daily must agree with hourly; without hourly data, with the lowest timeframe
+    const confirming = mtf.hourly ? mtfTrend : ltfTrend;
+    const aligned = htfTrend === confirming && htfTrend !== 'ranging';
+
+    return {
+      aligned,
+      htfTrend,
+      mtfTrend,
+      ltfTrend,
+      alignmentScore
+    };
+  }
+
   /**
    * Get trend direction from a specific lookback period
    */
@@ -804,8 +841,9 @@ export class ICTIndicators {
   /**
    * Fast ICT Analysis (optimized for backtesting)
    * Skips expensive computations, focuses on key signals
+   * @param mtf - Optional real timeframe context; without it the cascade mirrors the structure trend
    */
-  static analyzeFast(candles: Candle[], smcAnalysis: SMCAnalysis): ICTAnalysis {
+  static analyzeFast(candles: Candle[], smcAnalysis: SMCAnalysis, mtf?: MTFSnapshot): ICTAnalysis {
     const lastCandle = candles[candles.length - 1];
 
     // Simplified structure from existing SMC analysis
@@ -873,8 +911,8 @@ export class ICTIndicators {
       return mid >= ote.bottom && mid <= ote.top;
     });
 
-    // Simplified HTF cascade (use pullback info if available)
-    const htfCascade: HTFCascade = {
+    // HTF cascade from real timeframes when available, else simplified from structure
+    const htfCascade: HTFCascade = mtf ? this.detectHTFCascadeFromTimeframes(candles, mtf) : {
       aligned: structure.trend !== 'ranging',
       htfTrend: structure.trend,
       mtfTrend: structure.trend,
@@ -939,8 +977,9 @@ export class ICTIndicators {
 
   /**
    * Full ICT Analysis (more thorough but slower)
+   * @param mtf - Optional real timeframe context for the HTF cascade
    */
-  static analyze(candles: Candle[], smcAnalysis: SMCAnalysis): ICTAnalysis {
+  static analyze(candles: Candle[], smcAnalysis: SMCAnalysis, mtf?: MTFSnapshot): ICTAnalysis {
     const structure = this.detectMarketStructure(candles);
     const ote = this.detectOTE(candles, structure);
     const displacement = this.detectDisplacement(candles);
@@ -955,7 +994,9 @@ export class ICTIndicators {
     );
 
     // HTF Cascade validation
-    const htfCascade = this.detectHTFCascade(candles);
+    const htfCascade = mtf
+      ? this.detectHTFCascadeFromTimeframes(candles, mtf)
+      : this.detectHTFCascade(candles);
 
     // Build 12-condition entry checklist
     const entryChecklist = this.buildEntryChecklist(
@@ -0,0 +1,196 @@
+/**
+ * Intrabar Resolver
+ * Order in which prices were visited inside a bar, for the trade simulator
+ *
+ * A 1h or 1d candle that touches both the stop and a target says nothing about
+ * which came first. The resolver answers with a price path through the bar:
+ *   - Finer data (config/features.json → intrabar.timeframes, finest first):
+ *     the bar's sub-candles are replayed in order, each one expanded with the
+ *     heuristic below. Used when they cover at least min_coverage of the bar.
+ *   - Otherwise a heuristic (intrabar.mode):
+ *       pessimistic: the extreme against the position first (O→L→H→C long)
+ *       optimistic:  the extreme in favour of the position first
+ *       ohlc:        the candle's own shape - up bars O→L→H→C, down bars O→H→L→C
+ *
+ * Candle timestamps are open times (Binance klines convention).
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle } from './smc-indicators.js';
+import { LocalDataLoader } from './data-loader.js';
+import { CandleResampler } from './candle-resampler.js';
+
+export type IntrabarMode = 'pessimistic' | 'optimistic' | 'ohlc';
+
+export const INTRABAR_MODES: IntrabarMode[] = ['pessimistic', 'optimistic', 'ohlc'];
+
+export interface IntrabarConfig {
+  mode: IntrabarMode;         // Heuristic when no finer data covers the bar
+  timeframes: string[];       // Finer timeframes to replay, finest first
+  min_coverage: number;       // Fraction of a bar's sub-candles that must exist
+}
+
+const DEFAULT_CONFIG: IntrabarConfig = {
+  mode: 'pessimistic',
+  timeframes: ['1m', '5m'],
+  min_coverage: 0.9,
+};
+
+export interface IntrabarPath {
+  prices: number[];           // Visited prices in order, starting at the open
+  resolved: boolean;          // true = replayed from finer data
+}
+
+interface FinerSeries {
+  intervalMs: number;
+  candles: Candle[];
+}
+
+export class IntrabarResolver {
+  private config: IntrabarConfig;
+  private baseIntervalMs: number | null;
+  private series: FinerSeries[] = [];
+
+  /**
+   * @param baseTimeframe - timeframe of the simulated candles (null = heuristic only)
+   * @param series - finer candles by timeframe; coarser or equal ones are ignored
+   */
+  constructor(
+    config: Partial<IntrabarConfig> = {},
+    baseTimeframe: string | null = null,
+    series: Record<string, Candle[]> = {}
+  ) {
+    this.config = { ...IntrabarResolver.loadConfig(), ...config };
+    IntrabarResolver.parseMode(this.config.mode);
+    this.baseIntervalMs = baseTimeframe ? CandleResampler.intervalMs(baseTimeframe) : null;
+
+    if (this.baseIntervalMs !== null) {
+      for (const timeframe of this.config.timeframes) {
+        const candles = series[timeframe];
+        const intervalMs = CandleResampler.intervalMs(timeframe);
+        if (!candles || candles.length === 0 || intervalMs >= this.baseIntervalMs) continue;
+        this.series.push({ intervalMs, candles });
+      }
+    }
+  }
+
+  /**
+   * Load intrabar from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): IntrabarConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.intrabar || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  static parseMode(value: string): IntrabarMode {
+    if (!INTRABAR_MODES.includes(value as IntrabarMode)) {
+      throw new Error(`Unknown intrabar mode "${value}" (expected ${INTRABAR_MODES.join(', ')})`);
+    }
+    return value as IntrabarMode;
+  }
+
+  /**
+   * Load the finer timeframes of a symbol that exist on disk
+   * Only files are used - finer data can't be resampled from the base series.
+   */
+  static async load(
+    loader: LocalDataLoader,
+    symbol: string,
+    baseTimeframe: string,
+    config: Partial<IntrabarConfig> = {}
+  ): Promise<IntrabarResolver> {
+    const cfg = { ...IntrabarResolver.loadConfig(), ...config };
+    const baseMs = CandleResampler.intervalMs(baseTimeframe);
+    const series: Record<string, Candle[]> = {};
+
+    for (const timeframe of cfg.timeframes) {
+      if (CandleResampler.intervalMs(timeframe) >= baseMs) continue;
+      try {
+        series[timeframe] = (await loader.loadData(symbol, timeframe)).candles;
+      } catch {
+        // No data at this timeframe - the heuristic covers those bars
+      }
+    }
+
+    return new IntrabarResolver(cfg, baseTimeframe, series);
+  }
+
+  getMode(): IntrabarMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Whether any finer series was loaded
+   */
+  hasFinerData(): boolean {
+    return this.series.length > 0;
+  }
+
+  /**
+   * Price path through a bar for a position in `direction`
+   */
+  path(candle: Candle, direction: 'long' | 'short'): IntrabarPath {
+    const subCandles = this.finerCandles(candle);
+    if (subCandles) {
+      return {
+        prices: subCandles.flatMap(c => IntrabarResolver.heuristicPath(c, direction, this.config.mode)),
+        resolved: true,
+      };
+    }
+    return { prices: IntrabarResolver.heuristicPath(candle, direction, this.config.mode), resolved: false };
+  }
+
+  /**
+   * Four-point path through one candle under a heuristic mode
+   */
+  static heuristicPath(candle: Candle, direction: 'long' | 'short', mode: IntrabarMode): number[] {
+    let lowFirst: boolean;
+    switch (mode) {
+      case 'optimistic': lowFirst = direction === 'short'; break;
+      case 'ohlc': lowFirst = candle.close >= candle.open; break;
+      default: lowFirst = direction === 'long';
+    }
+    return lowFirst
+      ? [candle.open, candle.low, candle.high, candle.close]
+      : [candle.open, candle.high, candle.low, candle.close];
+  }
+
+  /**
+   * Sub-candles of the finest series that covers the bar, or null
+   */
+  private finerCandles(candle: Candle): Candle[] | null {
+    if (this.baseIntervalMs === null) return null;
+    const end = candle.timestamp + this.baseIntervalMs;
+
+    for (const s of this.series) {
+      const start = IntrabarResolver.firstAtOrAfter(s.candles, candle.timestamp);
+      let stop = start;
+      while (stop < s.candles.length && s.candles[stop].timestamp < end) stop++;
+
+      const expected = this.baseIntervalMs / s.intervalMs;
+      if (stop - start >= expected * this.config.min_coverage) {
+        return s.candles.slice(start, stop);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Index of the first candle at or after `timestamp` (candles sorted by timestamp)
+   */
+  private static firstAtOrAfter(candles: Candle[], timestamp: number): number {
+    let lo = 0;
+    let hi = candles.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (candles[mid].timestamp < timestamp) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * LightGBM Model
+ * Pure TypeScript scorer for LightGBM text models (lightgbm_model.txt)
+ *
+ * Reads what `Booster.save_model()` writes for the trainer's GBDT models:
+ *   - Header: version=v4, objective (binary sigmoid:k, regression),
+ *     feature_names, feature_infos, average_output
+ *   - Trees: numerical splits with missing-value handling (None/Zero/NaN,
+ *     default_left) and categorical splits (cat_boundaries/cat_threshold bitsets)
+ *   - Footer: [categorical_feature: ...] and pandas_categorical, so string
+ *     categories map to the same codes pandas assigned at training time
+ *
+ * Inputs are encoded the way scripts/lightgbm_trainer.py prepares them:
+ * missing numerics -> 0, booleans -> 0/1, categories -> pandas code (unseen -> NaN).
+ *
+ * Usage:
+ *   const model = LightGBMModel.fromFile('data/models/lightgbm_model.txt');
+ *   const winProbability = model.predict(features);
+ */
+
+import fs from 'fs';
+
+// ═══════════════════════════════════════════════════════════════
+// FORMAT CONSTANTS
+// ═══════════════════════════════════════════════════════════════
+
+// decision_type bit layout (LightGBM tree.h)
+const CATEGORICAL_MASK = 1;
+const DEFAULT_LEFT_MASK = 2;
+
+enum MissingType {
+  NONE = 0,
+  ZERO = 1,
+  NAN = 2,
+}
+
+const ZERO_THRESHOLD = 1e-35;
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type LightGBMObjective = 'binary' | 'regression';
+
+export interface LightGBMParitySample {
+  features: Record<string, unknown>;   // Raw CSV row (pre-encoding)
+  prediction: number;                  // Python Booster.predict() output
+}
+
+export interface LightGBMParityResult {
+  samples: number;
+  maxAbsDiff: number;
+  meanAbsDiff: number;
+  worstIndex: number;
+  passed: boolean;
+}
+
+interface LightGBMTree {
+  numLeaves: number;
+  splitFeature: number[];
+  threshold: number[];
+  decisionType: number[];
+  leftChild: number[];
+  rightChild: number[];
+  leafValue: number[];
+  catBoundaries: number[];
+  catThreshold: number[];
+}
+
+// ═══════════════════════════════════════════════════════════════
+// MODEL
+// ═══════════════════════════════════════════════════════════════
+
+export class LightGBMModel {
+  private featureNames: string[] = [];
+  private trees: LightGBMTree[] = [];
+  private objective: LightGBMObjective = 'regression';
+  private sigmoid = 1;
+  private averageOutput = false;
+
+  // Feature index -> category list (position = pandas code)
+  private categories: Map<number, Map<string, number>> = new Map();
+
+  private constructor() {}
+
+  static fromFile(filePath: string): LightGBMModel {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`LightGBM model not found: ${filePath}`);
+    }
+    return LightGBMModel.parse(fs.readFileSync(filePath, 'utf-8'));
+  }
+
+  static parse(text: string): LightGBMModel {
+    const model = new LightGBMModel();
+    const lines = text.split(/\r?\n/);
+
+    const header = new Map<string, string>();
+    let i = 0;
+    for (; i < lines.length && !lines[i].startsWith('Tree='); i++) {
+      const eq = lines[i].indexOf('=');
+      if (eq > 0) header.set(lines[i].slice(0, eq), lines[i].slice(eq + 1));
+      else if (lines[i] === 'average_output') model.averageOutput = true;
+    }
+
+    const version = header.get('version');
+    if (version !== 'v4') {
+      throw new Error(`Unsupported LightGBM model version: ${version ?? 'missing'} (expected v4)`);
+    }
+    if (Number(header.get('num_class') ?? 1) !== 1) {
+      throw new Error('Multiclass LightGBM models are not supported');
+    }
+
+    model.featureNames = (header.get('feature_names') ?? '').split(' ').filter(Boolean);
+    if (model.featureNames.length === 0) {
+      throw new Error('LightGBM model has no feature_names');
+    }
+
+    const objective = (header.get('objective') ?? '').split(' ');
+    if (objective[0] === 'binary') {
+      model.objective = 'binary';
+      const param = objective.find(p => p.startsWith('sigmoid:'));
+      if (param) model.sigmoid = parseFloat(param.slice('sigmoid:'.length));
+    } else if (objective[0] === 'regression' || objective[0] === 'regression_l2') {
+      model.objective = 'regression';
+    } else {
+      throw new Error(`Unsupported LightGBM objective: ${objective[0] || 'missing'}`);
+    }
+
+    // Trees - blocks of key=value lines until "end of trees"
+    let block: Map<string, string> | null = null;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.startsWith('Tree=') || line === 'end of trees') {
+        if (block) model.trees.push(LightGBMModel.parseTree(block));
+        block = line === 'end of trees' ? null : new Map();
+        if (!block) break;
+        continue;
+      }
+      const eq = line.indexOf('=');
+      if (block && eq > 0) block.set(line.slice(0, eq), line.slice(eq + 1));
+    }
+    if (model.trees.length === 0) {
+      throw new Error('LightGBM model contains no trees');
+    }
+
+    // Categorical features and their pandas category order
+    let categoricalIndices: number[] | null = null;
+    let pandasCategorical: unknown = null;
+    for (; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.startsWith('[categorical_feature:')) {
+        const list = line.slice('[categorical_feature:'.length, -1).trim();
+        categoricalIndices = list ? list.split(',').map(Number) : [];
+      } else if (line.startsWith('pandas_categorical:')) {
+        pandasCategorical = JSON.parse(line.slice('pandas_categorical:'.length));
+      }
+    }
+
+    if (categoricalIndices === null) {
+      // No parameters block - categorical features have "a:b:c" infos instead of "[min:max]"
+      const infos = (header.get('feature_infos') ?? '').split(' ');
+      categoricalIndices = infos
+        .map((info, idx) => (info.includes(':') && !info.startsWith('[') ? idx : -1))
+        .filter(idx => idx >= 0);
+    }
+
+    if (Array.isArray(pandasCategorical)) {
+      if (pandasCategorical.length !== categoricalIndices.length) {
+        throw new Error(`pandas_categorical has ${pandasCategorical.length} entries for ${categoricalIndices.length} categorical features`);
+      }
+      categoricalIndices.forEach((featureIdx, k) => {
+        const codes = new Map<string, number>();
+        (pandasCategorical as unknown[][])[k].forEach((value, code) => codes.set(String(value), code));
+        model.categories.set(featureIdx, codes);
+      });
+    }
+
+    return model;
+  }
+
+  private static parseTree(block: Map<string, string>): LightGBMTree {
+    const numbers = (key: string): number[] => {
+      const value = block.get(key);
+      return value ? value.split(' ').map(Number) : [];
+    };
+
+    const tree: LightGBMTree = {
+      numLeaves: Number(block.get('num_leaves') ?? 1),
+      splitFeature: numbers('split_feature'),
+      threshold: numbers('threshold'),
+      decisionType: numbers('decision_type'),
+      leftChild: numbers('left_child'),
+      rightChild: numbers('right_child'),
+      leafValue: numbers('leaf_value'),
+      catBoundaries: numbers('cat_boundaries'),
+      catThreshold: numbers('cat_threshold'),
+    };
+
+    if (tree.leafValue.length !== tree.numLeaves) {
+      throw new Error(`LightGBM tree has ${tree.leafValue.length} leaf values for ${tree.numLeaves} leaves`);
+    }
+    return tree;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // SCORING
+  // ═══════════════════════════════════════════════════════════════
+
+  getFeatureNames(): string[] {
+    return [...this.featureNames];
+  }
+
+  getObjective(): LightGBMObjective {
+    return this.objective;
+  }
+
+  getNumTrees(): number {
+    return this.trees.length;
+  }
+
+  /**
+   * Encode a feature object into the model's input vector
+   */
+  encode(features: Record<string, unknown>): Float64Array {
+    const row = new Float64Array(this.featureNames.length);
+
+    this.featureNames.forEach((name, idx) => {
+      const value = features[name];
+      const codes = this.categories.get(idx);
+
+      if (codes) {
+        const key = value === undefined || value === null ? 'unknown' : String(value);
+        row[idx] = codes.get(key) ?? NaN;
+      } else if (typeof value === 'boolean') {
+        row[idx] = value ? 1 : 0;
+      } else {
+        const num = typeof value === 'number' ? value : parseFloat(String(value));
+        row[idx] = Number.isFinite(num) ? num : 0;
+      }
+    });
+
+    return row;
+  }
+
+  /**
+   * Raw score - sum (or average) of tree outputs
+   */
+  predictRaw(features: Record<string, unknown> | Float64Array): number {
+    const row = features instanceof Float64Array ? features : this.encode(features);
+
+    let sum = 0;
+    for (const tree of this.trees) {
+      sum += this.scoreTree(tree, row);
+    }
+    return this.averageOutput ? sum / this.trees.length : sum;
+  }
+
+  /**
+   * Prediction on the objective's scale (win probability for binary)
+   */
+  predict(features: Record<string, unknown> | Float64Array): number {
+    const raw = this.predictRaw(features);
+    return this.objective === 'binary' ? 1 / (1 + Math.exp(-this.sigmoid * raw)) : raw;
+  }
+
+  /**
+   * Compare against predictions written by the Python trainer
+   */
+  checkParity(samples: LightGBMParitySample[], tolerance: number = 1e-6): LightGBMParityResult {
+    let maxAbsDiff = 0;
+    let totalDiff = 0;
+    let worstIndex = -1;
+
+    samples.forEach((sample, idx) => {
+      const diff = Math.abs(this.predict(sample.features) - sample.prediction);
+      totalDiff += diff;
+      if (diff > maxAbsDiff || worstIndex < 0) {
+        maxAbsDiff = diff;
+        worstIndex = idx;
+      }
+    });
+
+    return {
+      samples: samples.length,
+      maxAbsDiff,
+      meanAbsDiff: samples.length > 0 ? totalDiff / samples.length : 0,
+      worstIndex,
+      passed: samples.length > 0 && maxAbsDiff <= tolerance,
+    };
+  }
+
+  private scoreTree(tree: LightGBMTree, row: Float64Array): number {
+    if (tree.numLeaves <= 1) return tree.leafValue[0] ?? 0;
+
+    let node = 0;
+    while (node >= 0) {
+      const type = tree.decisionType[node];
+      const value = row[tree.splitFeature[node]];
+      const goLeft = (type & CATEGORICAL_MASK)
+        ? this.categoricalDecision(tree, node, value)
+        : this.numericalDecision(tree, node, value, type);
+      node = goLeft ? tree.leftChild[node] : tree.rightChild[node];
+    }
+    return tree.leafValue[~node];
+  }
+
+  private numericalDecision(tree: LightGBMTree, node: number, value: number, type: number): boolean {
+    const missingType = (type >> 2) & 3;
+
+    if (Number.isNaN(value) && missingType !== MissingType.NAN) value = 0;
+    if ((missingType === MissingType.ZERO && Math.abs(value) <= ZERO_THRESHOLD)
+      || (missingType === MissingType.NAN && Number.isNaN(value))) {
+      return (type & DEFAULT_LEFT_MASK) !== 0;
+    }
+    return value <= tree.threshold[node];
+  }
+
+  private categoricalDecision(tree: LightGBMTree, node: number, value: number): boolean {
+    if (Number.isNaN(value)) return false;
+
+    const category = Math.trunc(value);
+    if (category < 0) return false;
+    const catIdx = tree.threshold[node];
+    const start = tree.catBoundaries[catIdx];
+    const words = tree.catBoundaries[catIdx + 1] - start;
+    const word = Math.floor(category / 32);
+    if (word >= words) return false;
+
+    return ((tree.catThreshold[start + word] >>> (category % 32)) & 1) === 1;
+  }
+}
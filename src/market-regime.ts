@@ -0,0 +1,433 @@
+/**
+ * Market Regime Classifier
+ * Labels every bar trend/range × high/low volatility
+ *
+ *   - Trend axis: Kaufman efficiency ratio over er_period bars (same measure as
+ *     ICTIndicators.isTrendingMarket) - at or above trend_threshold is 'trend'
+ *   - Volatility axis (volatility_method):
+ *       percentile: ATR% ranked against the last vol_lookback bars - at or
+ *                   above vol_percentile is 'high_vol'
+ *       hmm:        2-state Gaussian HMM over (log return, ATR%), fitted with
+ *                   Baum-Welch on the first fit_fraction of the series and then
+ *                   forward-filtered - P(high-vol state) >= 0.5 is 'high_vol'
+ *   - A new label must hold for min_regime_bars bars before the regime changes,
+ *     so single-bar flickers are not reported as regime changes
+ *
+ * Each bar only uses candles up to and including itself (the HMM parameters
+ * are the exception inside the fit window), so labels are safe for backtests.
+ *
+ * Usage:
+ *   const bars = new RegimeClassifier().classify(candles);
+ *   RegimeClassifier.changes(bars);          // Confirmed regime changes
+ *   RegimeClassifier.matches(bars[i].regime, 'trend');
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Candle, SMCIndicators } from './smc-indicators.js';
+
+export type TrendState = 'trend' | 'range';
+export type VolatilityState = 'high_vol' | 'low_vol';
+export type MarketRegime = `${TrendState}_${VolatilityState}`;
+export type VolatilityMethod = 'percentile' | 'hmm';
+
+export const MARKET_REGIMES: MarketRegime[] = ['trend_high_vol', 'trend_low_vol', 'range_high_vol', 'range_low_vol'];
+export const VOLATILITY_METHODS: VolatilityMethod[] = ['percentile', 'hmm'];
+
+// A full label, or one axis of it ('trend' matches trend_high_vol and trend_low_vol)
+const REGIME_FILTERS = [...MARKET_REGIMES, 'trend', 'range', 'high_vol', 'low_vol'];
+
+export interface RegimeConfig {
+  volatility_method: VolatilityMethod;
+  er_period: number;            // Bars for the efficiency ratio
+  trend_threshold: number;      // Efficiency ratio at or above this is 'trend'
+  atr_period: number;
+  vol_lookback: number;         // Bars ATR% is ranked against (percentile method)
+  vol_percentile: number;       // Rank at or above this is 'high_vol'
+  min_regime_bars: number;      // Consecutive bars a new label needs to become the regime
+  hmm: {
+    fit_fraction: number;       // Leading share of the series used to fit the HMM
+    min_fit_bars: number;       // Fewer bars than this → percentile method
+    iterations: number;
+    tolerance: number;          // Stop when the log-likelihood gains less than this
+  };
+}
+
+const DEFAULT_CONFIG: RegimeConfig = {
+  volatility_method: 'percentile',
+  er_period: 30,
+  trend_threshold: 0.30,
+  atr_period: 14,
+  vol_lookback: 100,
+  vol_percentile: 0.5,
+  min_regime_bars: 3,
+  hmm: {
+    fit_fraction: 0.5,
+    min_fit_bars: 100,
+    iterations: 50,
+    tolerance: 1e-4,
+  },
+};
+
+export interface RegimeBar {
+  timestamp: number;
+  regime: MarketRegime;         // Confirmed regime (after min_regime_bars)
+  raw: MarketRegime;            // This bar's label on its own
+  efficiency_ratio: number;
+  atr_pct: number;              // ATR / close
+  vol_score: number;            // ATR% percentile rank, or P(high-vol state) with hmm
+  bars_in_regime: number;       // Bars since the confirmed regime began (1 = first bar)
+}
+
+export interface RegimeChange {
+  index: number;                // Bar where the change was confirmed
+  timestamp: number;
+  from: MarketRegime;
+  to: MarketRegime;
+}
+
+export class RegimeClassifier {
+  private config: RegimeConfig;
+
+  constructor(config: Partial<RegimeConfig> = {}) {
+    const base = RegimeClassifier.loadConfig();
+    this.config = { ...base, ...config, hmm: { ...base.hmm, ...(config.hmm || {}) } };
+  }
+
+  /**
+   * Load regime from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): RegimeConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const regime = features.regime || {};
+      return { ...DEFAULT_CONFIG, ...regime, hmm: { ...DEFAULT_CONFIG.hmm, ...(regime.hmm || {}) } };
+    } catch {
+      return { ...DEFAULT_CONFIG, hmm: { ...DEFAULT_CONFIG.hmm } };
+    }
+  }
+
+  /**
+   * Validate a CLI/config regime filter
+   */
+  static parseFilter(value: string): string {
+    if (!REGIME_FILTERS.includes(value)) {
+      throw new Error(`Unknown regime "${value}" (expected ${REGIME_FILTERS.join(', ')})`);
+    }
+    return value;
+  }
+
+  static parseMethod(value: string): VolatilityMethod {
+    if (!VOLATILITY_METHODS.includes(value as VolatilityMethod)) {
+      throw new Error(`Unknown volatility method "${value}" (expected ${VOLATILITY_METHODS.join(', ')})`);
+    }
+    return value as VolatilityMethod;
+  }
+
+  /**
+   * Does a regime fall under a filter (full label or one axis)?
+   */
+  static matches(regime: MarketRegime, filter: string): boolean {
+    return regime === filter || regime.startsWith(`${filter}_`) || regime.endsWith(`_${filter}`);
+  }
+
+  getConfig(): RegimeConfig {
+    return { ...this.config, hmm: { ...this.config.hmm } };
+  }
+
+  /**
+   * Label every bar
+   */
+  classify(candles: Candle[]): RegimeBar[] {
+    if (candles.length === 0) return [];
+
+    const er = this.efficiencyRatios(candles);
+    const atrPct = this.atrPct(candles);
+    const volScore = this.config.volatility_method === 'hmm'
+      ? this.hmmScores(candles, atrPct) ?? this.percentileScores(atrPct)
+      : this.percentileScores(atrPct);
+    const threshold = this.config.volatility_method === 'hmm' ? 0.5 : this.config.vol_percentile;
+
+    const bars: RegimeBar[] = [];
+    let regime: MarketRegime | null = null;
+    let since = 0;
+    let pending: MarketRegime | null = null;
+    let pendingCount = 0;
+
+    for (let i = 0; i < candles.length; i++) {
+      const trend: TrendState = er[i] >= this.config.trend_threshold ? 'trend' : 'range';
+      const volatility: VolatilityState = volScore[i] >= threshold ? 'high_vol' : 'low_vol';
+      const raw: MarketRegime = `${trend}_${volatility}`;
+
+      if (regime === null) {
+        regime = raw;
+        since = i;
+      } else if (raw === regime) {
+        pending = null;
+        pendingCount = 0;
+      } else {
+        pendingCount = raw === pending ? pendingCount + 1 : 1;
+        pending = raw;
+        if (pendingCount >= this.config.min_regime_bars) {
+          regime = raw;
+          since = i - pendingCount + 1;
+          pending = null;
+          pendingCount = 0;
+        }
+      }
+
+      bars.push({
+        timestamp: candles[i].timestamp,
+        regime,
+        raw,
+        efficiency_ratio: er[i],
+        atr_pct: atrPct[i],
+        vol_score: volScore[i],
+        bars_in_regime: i - since + 1,
+      });
+    }
+    return bars;
+  }
+
+  /**
+   * Regime of the last bar (null without candles)
+   */
+  current(candles: Candle[]): RegimeBar | null {
+    const bars = this.classify(candles);
+    return bars.length > 0 ? bars[bars.length - 1] : null;
+  }
+
+  /**
+   * Bars where the confirmed regime changed
+   */
+  static changes(bars: RegimeBar[]): RegimeChange[] {
+    const changes: RegimeChange[] = [];
+    for (let i = 1; i < bars.length; i++) {
+      if (bars[i].regime !== bars[i - 1].regime) {
+        changes.push({ index: i, timestamp: bars[i].timestamp, from: bars[i - 1].regime, to: bars[i].regime });
+      }
+    }
+    return changes;
+  }
+
+  /**
+   * Share of bars per regime
+   */
+  static distribution(bars: RegimeBar[]): Record<MarketRegime, number> {
+    const counts = Object.fromEntries(MARKET_REGIMES.map(r => [r, 0])) as Record<MarketRegime, number>;
+    for (const bar of bars) counts[bar.regime]++;
+    for (const regime of MARKET_REGIMES) counts[regime] = bars.length > 0 ? counts[regime] / bars.length : 0;
+    return counts;
+  }
+
+  /**
+   * Efficiency ratio per bar over up to er_period previous closes
+   */
+  private efficiencyRatios(candles: Candle[]): number[] {
+    const period = this.config.er_period;
+    const moves = candles.map((c, i) => (i > 0 ? Math.abs(c.close - candles[i - 1].close) : 0));
+    const result: number[] = [];
+    let total = 0;
+
+    for (let i = 0; i < candles.length; i++) {
+      total += moves[i];
+      if (i > period) total -= moves[i - period];
+      const start = Math.max(0, i - period);
+      const net = Math.abs(candles[i].close - candles[start].close);
+      result.push(total > 0 ? net / total : 0);
+    }
+    return result;
+  }
+
+  /**
+   * ATR as a fraction of close (bars before the first full ATR average the
+   * true ranges of candles 0..i, same range measure as SMCIndicators.atr)
+   */
+  private atrPct(candles: Candle[]): number[] {
+    const period = Math.min(this.config.atr_period, candles.length);
+    const atr = SMCIndicators.atr(candles, period);
+    let warmupSum = 0;
+    return candles.map((c, i) => {
+      let value: number;
+      if (i >= period - 1) {
+        value = atr[i - period + 1];
+      } else {
+        warmupSum += Math.max(c.high - c.low, Math.abs(c.high - c.close), Math.abs(c.low - c.close));
+        value = warmupSum / (i + 1);
+      }
+      return c.close > 0 ? value / c.close : 0;
+    });
+  }
+
+  /**
+   * Share of the last vol_lookback ATR% values at or below the current one
+   */
+  private percentileScores(atrPct: number[]): number[] {
+    const lookback = this.config.vol_lookback;
+    return atrPct.map((value, i) => {
+      const start = Math.max(0, i - lookback + 1);
+      let below = 0;
+      for (let j = start; j <= i; j++) {
+        if (atrPct[j] <= value) below++;
+      }
+      // A lone bar has nothing to rank against - call it average
+      return i === start ? 0.5 : (below - 1) / (i - start);
+    });
+  }
+
+  /**
+   * Filtered P(high-vol state) per bar, or null with too little data to fit
+   */
+  private hmmScores(candles: Candle[], atrPct: number[]): number[] | null {
+    const { fit_fraction, min_fit_bars, iterations, tolerance } = this.config.hmm;
+    const observations: [number, number][] = candles.map((c, i) => [
+      i > 0 && candles[i - 1].close > 0 && c.close > 0 ? Math.log(c.close / candles[i - 1].close) : 0,
+      atrPct[i],
+    ]);
+    const fitBars = Math.floor(observations.length * fit_fraction);
+    if (fitBars < min_fit_bars) return null;
+
+    // Standardize with the fit window's moments so densities stay in range
+    const fitWindow = observations.slice(1, fitBars);
+    const moments = [0, 1].map(d => {
+      const mean = fitWindow.reduce((s, o) => s + o[d], 0) / fitWindow.length;
+      const std = Math.sqrt(fitWindow.reduce((s, o) => s + (o[d] - mean) ** 2, 0) / fitWindow.length) || 1;
+      return { mean, std };
+    });
+    const standardized = observations.map(o =>
+      [0, 1].map(d => (o[d] - moments[d].mean) / moments[d].std) as [number, number]);
+
+    const hmm = GaussianHMM.initialize(standardized.slice(1, fitBars));
+    hmm.fit(standardized.slice(1, fitBars), iterations, tolerance);
+    const high = hmm.highVolState();
+    return hmm.filter(standardized).map(p => p[high]);
+  }
+}
+
+/**
+ * Two-state HMM with diagonal Gaussian emissions
+ */
+class GaussianHMM {
+  private static readonly MIN_VARIANCE = 1e-12;
+
+  constructor(
+    private start: number[],
+    private transition: number[][],
+    private means: number[][],
+    private variances: number[][]
+  ) {}
+
+  /**
+   * Split on the median ATR% for the starting states, sticky transitions
+   */
+  static initialize(observations: [number, number][]): GaussianHMM {
+    const median = [...observations.map(o => o[1])].sort((a, b) => a - b)[Math.floor(observations.length / 2)];
+    const groups = [observations.filter(o => o[1] < median), observations.filter(o => o[1] >= median)];
+    const means: number[][] = [];
+    const variances: number[][] = [];
+    for (const group of groups) {
+      const members = group.length > 0 ? group : observations;
+      const mean = [0, 1].map(d => members.reduce((s, o) => s + o[d], 0) / members.length);
+      means.push(mean);
+      variances.push([0, 1].map(d =>
+        Math.max(GaussianHMM.MIN_VARIANCE, members.reduce((s, o) => s + (o[d] - mean[d]) ** 2, 0) / members.length)));
+    }
+    return new GaussianHMM([0.5, 0.5], [[0.95, 0.05], [0.05, 0.95]], means, variances);
+  }
+
+  /**
+   * State with the larger mean ATR%
+   */
+  highVolState(): number {
+    return this.means[1][1] >= this.means[0][1] ? 1 : 0;
+  }
+
+  /**
+   * Baum-Welch (scaled forward-backward)
+   */
+  fit(observations: [number, number][], iterations: number, tolerance: number): void {
+    const n = observations.length;
+    let previous = -Infinity;
+
+    for (let iter = 0; iter < iterations; iter++) {
+      const emission = observations.map(o => [0, 1].map(s => this.density(o, s)));
+      const { alpha, scale } = this.forward(emission);
+      const logLikelihood = scale.reduce((s, c) => s + Math.log(c), 0);
+
+      // Backward pass with the same scaling
+      const beta: number[][] = new Array(n);
+      beta[n - 1] = [1, 1];
+      for (let t = n - 2; t >= 0; t--) {
+        beta[t] = [0, 1].map(i =>
+          [0, 1].reduce((s, j) => s + this.transition[i][j] * emission[t + 1][j] * beta[t + 1][j], 0) / scale[t + 1]);
+      }
+
+      const gamma = alpha.map((a, t) => {
+        const g = [a[0] * beta[t][0], a[1] * beta[t][1]];
+        const total = g[0] + g[1] || 1;
+        return [g[0] / total, g[1] / total];
+      });
+
+      const xi = [[0, 0], [0, 0]];
+      for (let t = 0; t < n - 1; t++) {
+        for (let i = 0; i < 2; i++) {
+          for (let j = 0; j < 2; j++) {
+            xi[i][j] += alpha[t][i] * this.transition[i][j] * emission[t + 1][j] * beta[t + 1][j] / scale[t + 1];
+          }
+        }
+      }
+
+      this.start = gamma[0];
+      this.transition = xi.map(row => {
+        const total = row[0] + row[1];
+        return total > 0 ? [row[0] / total, row[1] / total] : [0.5, 0.5];
+      });
+      for (let s = 0; s < 2; s++) {
+        const weight = gamma.reduce((sum, g) => sum + g[s], 0);
+        if (weight <= 0) continue;
+        for (let d = 0; d < 2; d++) {
+          const mean = gamma.reduce((sum, g, t) => sum + g[s] * observations[t][d], 0) / weight;
+          const variance = gamma.reduce((sum, g, t) => sum + g[s] * (observations[t][d] - mean) ** 2, 0) / weight;
+          this.means[s][d] = mean;
+          this.variances[s][d] = Math.max(GaussianHMM.MIN_VARIANCE, variance);
+        }
+      }
+
+      if (Math.abs(logLikelihood - previous) < tolerance) break;
+      previous = logLikelihood;
+    }
+  }
+
+  /**
+   * Filtered state probabilities: P(state_t | observations up to t)
+   */
+  filter(observations: [number, number][]): number[][] {
+    return this.forward(observations.map(o => [0, 1].map(s => this.density(o, s)))).alpha;
+  }
+
+  private forward(emission: number[][]): { alpha: number[][]; scale: number[] } {
+    const alpha: number[][] = [];
+    const scale: number[] = [];
+    for (let t = 0; t < emission.length; t++) {
+      const prior = t === 0
+        ? this.start
+        : [0, 1].map(j => alpha[t - 1][0] * this.transition[0][j] + alpha[t - 1][1] * this.transition[1][j]);
+      const a = [prior[0] * emission[t][0], prior[1] * emission[t][1]];
+      const total = a[0] + a[1];
+      // Both densities underflowed: carry the prior forward
+      const c = total > 0 ? total : 1;
+      alpha.push(total > 0 ? [a[0] / c, a[1] / c] : prior);
+      scale.push(total > 0 ? total : Number.MIN_VALUE);
+    }
+    return { alpha, scale };
+  }
+
+  private density(observation: [number, number], state: number): number {
+    let p = 1;
+    for (let d = 0; d < 2; d++) {
+      const variance = this.variances[state][d];
+      p *= Math.exp(-((observation[d] - this.means[state][d]) ** 2) / (2 * variance)) / Math.sqrt(2 * Math.PI * variance);
+    }
+    return p;
+  }
+}
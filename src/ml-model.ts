@@ -3,17 +3,95 @@
  *
  * Uses gradient descent to learn optimal feature weights.
  * Actually learns and improves over iterations.
+ *
+ * Validation is time-ordered: training trades whose outcome window overlaps
+ * the validation/test period are purged, so overlapping holds can't leak
+ * future outcomes into the reported accuracy.
+ *
+ * A ProbabilityCalibrator fitted on out-of-sample predictions can be attached
+ * (setCalibrator); predict() then reports calibrated win probabilities and the
+ * calibrator is persisted with the weights.
+ *
+ * The training target follows the label scheme (trade-labels.ts): binary and
+ * meta labels train a logistic model, triple-barrier labels a softmax over
+ * TP/SL/TIMEOUT and R-multiples a linear regression. Every objective reports
+ * a win probability (P(target event)) and, when R-multiples are known, the
+ * expected R of taking the trade.
  */
 
 import { TradeFeatures } from './trade-features.js';
+import { ProbabilityCalibrator, CalibrationReport, CalibrationState } from './probability-calibration.js';
+import { TradeLabeler, LabelScheme, LabelConfig, ModelObjective, BARRIER_CLASSES } from './trade-labels.js';
 
 export interface Prediction {
-  winProbability: number;
+  winProbability: number;      // Calibrated when the model has a calibrator
+  rawWinProbability: number;   // Sigmoid output before calibration
+  calibrated: boolean;
+  expectedR: number | null;    // Expected R-multiple (null without R data)
+  classProbabilities?: Record<string, number>;   // Multiclass (triple-barrier) only
   confidence: number;
   keyFeatures: string[];
   reason: string;
 }
 
+export interface WalkForwardConfig {
+  trainMonths: number;
+  testMonths: number;
+  rollForward: boolean;      // false = single tranche at the end of the data
+  embargoMultiple: number;   // Extra gap before each test window, in median holding durations
+  minTrainTrades: number;
+  minTestTrades: number;
+  labelScheme: LabelScheme;  // Target each fold model trains on
+}
+
+export const DEFAULT_WALK_FORWARD_CONFIG: WalkForwardConfig = {
+  trainMonths: 3,
+  testMonths: 1,
+  rollForward: true,
+  embargoMultiple: 1,
+  minTrainTrades: 100,
+  minTestTrades: 20,
+  labelScheme: 'binary'
+};
+
+export interface OutOfSampleMetrics {
+  trades: number;
+  accuracy: number;
+  logLoss: number;
+  precision: number;  // Of predicted wins, fraction that won
+  recall: number;     // Of actual wins, fraction predicted
+  baseRate: number;   // Actual win rate - the accuracy bar to beat
+}
+
+export interface WalkForwardFold extends OutOfSampleMetrics {
+  fold: number;
+  trainStart: string;
+  testStart: string;
+  testEnd: string;
+  trainTrades: number;
+  purged: number;     // Outcome overlapped the test window
+  embargoed: number;  // Exited inside the embargo gap
+}
+
+export interface WalkForwardResult {
+  config: WalkForwardConfig;
+  embargoMs: number;
+  folds: WalkForwardFold[];
+  skippedFolds: number;
+  aggregate: OutOfSampleMetrics & { meanFoldAccuracy: number; stdFoldAccuracy: number };
+  calibration: CalibrationReport;   // Reliability of the pooled raw OOS probabilities
+}
+
+export interface TrainOptions {
+  verbose?: boolean;                             // Log progress (walk-forward folds train quietly)
+  sampleWeights?: Map<TradeFeatures, number>;    // Per-trade loss weight, missing = 1
+}
+
+interface OutputHead {
+  weights: Map<string, number>;
+  bias: number;
+}
+
 interface FeatureStats {
   mean: number;
   std: number;
@@ -32,15 +110,22 @@ const NUMERIC_FEATURES = [
 // Categorical features (one-hot encoded)
 const CATEGORICAL_FEATURES = [
   'trend_direction', 'ob_type', 'fvg_type', 'ema_trend',
-  'rsi_state', 'direction', 'session'
+  'rsi_state', 'direction', 'session', 'market_regime'
 ];
 
 export class TradingMLModel {
-  private weights: Map<string, number> = new Map();
-  private bias: number = 0;
+  // One head for binary/regression, one per class for multiclass
+  private heads: OutputHead[] = [{ weights: new Map(), bias: 0 }];
+  private labelScheme: LabelScheme;
+  private objective: ModelObjective;
+  private labelConfig: LabelConfig;
+  private targetMeanR: number[] = [];   // Mean R-multiple per binary target / class
+  private residualStd = 1;              // Regression: validation residual spread
   private featureStats: Map<string, FeatureStats> = new Map();
   private categoricalValues: Map<string, Set<string>> = new Map();
   private trained = false;
+  private verbose = true;
+  private calibrator: ProbabilityCalibrator | null = null;
 
   // Training hyperparameters
   private learningRate = 0.01;
@@ -50,42 +135,51 @@ export class TradingMLModel {
 
   // Training history
   private trainingHistory: { epoch: number; trainLoss: number; valLoss: number; accuracy: number }[] = [];
-  private bestWeights: Map<string, number> = new Map();
-  private bestBias: number = 0;
+  private bestHeads: OutputHead[] = [];
   private bestValLoss: number = Infinity;
 
+  constructor(labelScheme: LabelScheme = 'binary') {
+    this.labelScheme = labelScheme;
+    this.objective = TradeLabeler.objective(labelScheme);
+    this.labelConfig = TradeLabeler.loadConfig();
+  }
+
   /**
    * Train the model using gradient descent
    */
-  train(trades: TradeFeatures[]): void {
+  train(trades: TradeFeatures[], options: TrainOptions = {}): void {
+    this.verbose = options.verbose ?? true;
+
     if (trades.length < 100) {
-      console.log(`[ML] Not enough trades (${trades.length}). Need 100+.`);
+      this.log(`[ML] Not enough trades (${trades.length}). Need 100+.`);
       return;
     }
 
-    console.log(`\n=== Training ML Model (Gradient Descent) ===`);
-    console.log(`Trades: ${trades.length}`);
+    this.log(`\n=== Training ML Model (Gradient Descent, ${this.labelScheme} labels → ${this.objective}) ===`);
+    this.log(`Trades: ${trades.length}`);
 
-    // Split into train/validation (80/20)
-    const shuffled = [...trades].sort(() => Math.random() - 0.5);
-    const splitIdx = Math.floor(shuffled.length * 0.8);
-    const trainSet = shuffled.slice(0, splitIdx);
-    const valSet = shuffled.slice(splitIdx);
+    // Chronological split (80/20) - validation is the most recent slice
+    const sorted = [...trades].sort((a, b) => a.entry_time - b.entry_time);
+    const splitIdx = Math.floor(sorted.length * 0.8);
+    const valSet = sorted.slice(splitIdx);
+    const splitTime = valSet[0].entry_time;
+    const trainSet = sorted.slice(0, splitIdx).filter(t => TradingMLModel.exitTime(t) < splitTime);
 
-    console.log(`Train: ${trainSet.length}, Validation: ${valSet.length}`);
+    this.log(`Train: ${trainSet.length} (purged ${splitIdx - trainSet.length}), Validation: ${valSet.length}`);
 
     // Initialize feature stats from training data
     this.computeFeatureStats(trainSet);
 
     // Initialize weights randomly (small values)
     this.initializeWeights();
+    this.computeTargetMeanR(trainSet);
 
     // Training loop with early stopping
     let epochsWithoutImprovement = 0;
 
     for (let epoch = 1; epoch <= this.maxEpochs; epoch++) {
       // Train one epoch
-      const trainLoss = this.trainEpoch(trainSet);
+      const trainLoss = this.trainEpoch(trainSet, options.sampleWeights);
 
       // Evaluate on validation
       const { loss: valLoss, accuracy } = this.evaluate(valSet);
@@ -99,18 +193,18 @@ export class TradingMLModel {
         epochsWithoutImprovement = 0;
 
         if (epoch % 10 === 0 || epoch === 1) {
-          console.log(`  Epoch ${epoch}: loss=${valLoss.toFixed(4)}, acc=${(accuracy * 100).toFixed(1)}% [BEST]`);
+          this.log(`  Epoch ${epoch}: loss=${valLoss.toFixed(4)}, acc=${(accuracy * 100).toFixed(1)}% [BEST]`);
         }
       } else {
         epochsWithoutImprovement++;
         if (epoch % 20 === 0) {
-          console.log(`  Epoch ${epoch}: loss=${valLoss.toFixed(4)}, acc=${(accuracy * 100).toFixed(1)}%`);
+          this.log(`  Epoch ${epoch}: loss=${valLoss.toFixed(4)}, acc=${(accuracy * 100).toFixed(1)}%`);
         }
       }
 
       // Early stopping
       if (epochsWithoutImprovement >= this.patience) {
-        console.log(`  Early stopping at epoch ${epoch} (no improvement for ${this.patience} epochs)`);
+        this.log(`  Early stopping at epoch ${epoch} (no improvement for ${this.patience} epochs)`);
         break;
       }
     }
@@ -119,19 +213,161 @@ export class TradingMLModel {
     this.restoreBestWeights();
 
     // Final evaluation
-    const { accuracy: finalAcc } = this.evaluate(valSet);
-    console.log(`\n✓ Training complete. Best accuracy: ${(finalAcc * 100).toFixed(1)}%`);
+    const { accuracy: finalAcc, residualStd } = this.evaluate(valSet);
+    this.residualStd = residualStd;
+    this.log(`\n✓ Training complete. Best ${this.objective === 'regression' ? 'sign accuracy' : 'accuracy'}: ${(finalAcc * 100).toFixed(1)}%`);
 
     this.trained = true;
     this.printTopFeatures();
   }
 
+  /**
+   * Purged walk-forward validation
+   *
+   * Folds are calendar windows (train N months, test the next M). Training
+   * trades whose outcome falls inside the test window are purged, and those
+   * exiting within the embargo gap before it are dropped too. A fresh model is
+   * trained per fold; out-of-sample metrics are reported per fold and pooled.
+   */
+  static walkForward(trades: TradeFeatures[], config: Partial<WalkForwardConfig> = {}): WalkForwardResult {
+    const cfg = { ...DEFAULT_WALK_FORWARD_CONFIG, ...config };
+    const sorted = [...trades].sort((a, b) => a.entry_time - b.entry_time);
+
+    // Embargo sized to how long trades are typically held
+    const holds = sorted
+      .map(t => Math.max(0, TradingMLModel.exitTime(t) - t.entry_time))
+      .sort((a, b) => a - b);
+    const medianHold = holds.length > 0 ? holds[Math.floor(holds.length / 2)] : 0;
+    const embargoMs = medianHold * cfg.embargoMultiple;
+
+    const folds: WalkForwardFold[] = [];
+    const pooledProbs: number[] = [];
+    const pooledTargets: number[] = [];
+    let skippedFolds = 0;
+
+    const addMonths = (ts: number, months: number): number => {
+      const d = new Date(ts);
+      return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + months, 1);
+    };
+    const month = (ts: number) => new Date(ts).toISOString().slice(0, 7);
+
+    console.log(`\n=== Walk-Forward Validation (${cfg.trainMonths}m train / ${cfg.testMonths}m test, ${cfg.labelScheme} labels) ===`);
+    console.log(`Embargo: ${(embargoMs / 3600000).toFixed(1)}h (${cfg.embargoMultiple}x median hold)`);
+
+    if (sorted.length > 0) {
+      const lastEntry = sorted[sorted.length - 1].entry_time;
+
+      // Rolling windows from the first month, or one tranche ending at the data
+      let trainStart = cfg.rollForward
+        ? addMonths(sorted[0].entry_time, 0)
+        : addMonths(lastEntry, 1 - cfg.testMonths - cfg.trainMonths);
+
+      while (true) {
+        const testStart = addMonths(trainStart, cfg.trainMonths);
+        const testEnd = addMonths(testStart, cfg.testMonths);
+        if (testStart > lastEntry) break;
+
+        const window = sorted.filter(t => t.entry_time >= trainStart && t.entry_time < testStart);
+        const unpurged = window.filter(t => TradingMLModel.exitTime(t) < testStart);
+        const trainSet = unpurged.filter(t => TradingMLModel.exitTime(t) < testStart - embargoMs);
+        const testSet = sorted.filter(t => t.entry_time >= testStart && t.entry_time < testEnd);
+
+        if (trainSet.length >= cfg.minTrainTrades && testSet.length >= cfg.minTestTrades) {
+          const model = new TradingMLModel(cfg.labelScheme);
+          model.train(trainSet, { verbose: false });
+
+          if (model.trained) {
+            const probs = testSet.map(t => model.predict(t).winProbability);
+            const targets = testSet.map(t => TradeLabeler.isPositive(t, cfg.labelScheme, model.labelConfig) ? 1 : 0);
+            pooledProbs.push(...probs);
+            pooledTargets.push(...targets);
+
+            const fold: WalkForwardFold = {
+              fold: folds.length + 1,
+              trainStart: new Date(trainStart).toISOString(),
+              testStart: new Date(testStart).toISOString(),
+              testEnd: new Date(testEnd).toISOString(),
+              trainTrades: trainSet.length,
+              purged: window.length - unpurged.length,
+              embargoed: unpurged.length - trainSet.length,
+              ...TradingMLModel.scoreProbabilities(probs, targets)
+            };
+            folds.push(fold);
+
+            console.log(`  Fold ${String(fold.fold).padStart(3)}: test ${month(testStart)} | train ${fold.trainTrades} (purged ${fold.purged}, embargoed ${fold.embargoed}) | test ${fold.trades} | acc ${(fold.accuracy * 100).toFixed(1)}% vs base ${(fold.baseRate * 100).toFixed(1)}%`);
+          } else {
+            skippedFolds++;
+          }
+        } else {
+          skippedFolds++;
+        }
+
+        if (!cfg.rollForward) break;
+        trainStart = addMonths(trainStart, cfg.testMonths);
+      }
+    }
+
+    const accuracies = folds.map(f => f.accuracy);
+    const meanFoldAccuracy = accuracies.length > 0 ? accuracies.reduce((a, b) => a + b, 0) / accuracies.length : 0;
+    const stdFoldAccuracy = accuracies.length > 0
+      ? Math.sqrt(accuracies.reduce((sum, a) => sum + Math.pow(a - meanFoldAccuracy, 2), 0) / accuracies.length)
+      : 0;
+
+    const aggregate = {
+      ...TradingMLModel.scoreProbabilities(pooledProbs, pooledTargets),
+      meanFoldAccuracy,
+      stdFoldAccuracy
+    };
+
+    console.log(`\nOut-of-sample: ${folds.length} folds (${skippedFolds} skipped, too few trades), ${aggregate.trades} trades`);
+    console.log(`  Accuracy: ${(aggregate.accuracy * 100).toFixed(1)}% (base rate ${(aggregate.baseRate * 100).toFixed(1)}%, fold mean ${(meanFoldAccuracy * 100).toFixed(1)}% ± ${(stdFoldAccuracy * 100).toFixed(1)}%)`);
+    console.log(`  Precision: ${(aggregate.precision * 100).toFixed(1)}% | Recall: ${(aggregate.recall * 100).toFixed(1)}% | Log loss: ${aggregate.logLoss.toFixed(4)}`);
+
+    const calibration = ProbabilityCalibrator.evaluate(pooledProbs, pooledTargets);
+    console.log(`  Brier: ${calibration.brier.toFixed(4)} | ECE: ${(calibration.ece * 100).toFixed(2)}% (raw probabilities)`);
+
+    return { config: cfg, embargoMs, folds, skippedFolds, aggregate, calibration };
+  }
+
+  /**
+   * Classification metrics for predicted win probabilities (0.5 threshold)
+   */
+  static scoreProbabilities(probs: number[], targets: number[]): OutOfSampleMetrics {
+    const n = probs.length;
+    if (n === 0) {
+      return { trades: 0, accuracy: 0, logLoss: 0, precision: 0, recall: 0, baseRate: 0 };
+    }
+
+    const epsilon = 1e-7;
+    let correct = 0, loss = 0, truePos = 0, predPos = 0, actualPos = 0;
+
+    for (let i = 0; i < n; i++) {
+      const predicted = probs[i] >= 0.5 ? 1 : 0;
+      if (predicted === targets[i]) correct++;
+      if (predicted === 1) predPos++;
+      if (targets[i] === 1) actualPos++;
+      if (predicted === 1 && targets[i] === 1) truePos++;
+      loss += -targets[i] * Math.log(probs[i] + epsilon) - (1 - targets[i]) * Math.log(1 - probs[i] + epsilon);
+    }
+
+    return {
+      trades: n,
+      accuracy: correct / n,
+      logLoss: loss / n,
+      precision: predPos > 0 ? truePos / predPos : 0,
+      recall: actualPos > 0 ? truePos / actualPos : 0,
+      baseRate: actualPos / n
+    };
+  }
+
   /**
    * Train one epoch using mini-batch gradient descent
+   * Sample weights scale each trade's loss and gradient (error emphasis)
    */
-  private trainEpoch(trades: TradeFeatures[]): number {
+  private trainEpoch(trades: TradeFeatures[], sampleWeights?: Map<TradeFeatures, number>): number {
     const batchSize = 32;
     let totalLoss = 0;
+    let totalWeight = 0;
 
     // Shuffle for each epoch
     const shuffled = [...trades].sort(() => Math.random() - 0.5);
@@ -140,79 +376,137 @@ export class TradingMLModel {
       const batch = shuffled.slice(i, i + batchSize);
 
       // Compute gradients
-      const gradients = new Map<string, number>();
-      let biasGrad = 0;
+      const gradients = this.heads.map(() => new Map<string, number>());
+      const biasGrads = this.heads.map(() => 0);
       let batchLoss = 0;
+      let batchWeight = 0;
 
       for (const trade of batch) {
         const features = this.extractNormalizedFeatures(trade);
-        const target = trade.outcome === 'WIN' ? 1 : 0;
+        const target = TradeLabeler.target(trade, this.labelScheme, this.labelConfig);
+        const weight = sampleWeights?.get(trade) ?? 1;
+
+        // Forward pass, loss and d(loss)/d(output) per head
+        const { loss, errors } = this.lossAndErrors(this.computeOutputs(features), target);
+        batchLoss += weight * loss;
+
+        errors.forEach((error, k) => {
+          const weighted = error * weight;
+          for (const [name, value] of features.entries()) {
+            gradients[k].set(name, (gradients[k].get(name) || 0) + weighted * value);
+          }
+          biasGrads[k] += weighted;
+        });
+        batchWeight += weight;
+      }
 
-        // Forward pass (sigmoid)
-        const logit = this.computeLogit(features);
-        const pred = this.sigmoid(logit);
+      if (batchWeight === 0) continue;
 
-        // Binary cross-entropy loss
-        const epsilon = 1e-7;
-        batchLoss += -target * Math.log(pred + epsilon) - (1 - target) * Math.log(1 - pred + epsilon);
+      // Update weights with L2 regularization
+      this.heads.forEach((head, k) => {
+        for (const [name, grad] of gradients[k].entries()) {
+          const currentWeight = head.weights.get(name) || 0;
+          const avgGrad = grad / batchWeight;
+          const l2Term = this.l2Lambda * currentWeight;
+          head.weights.set(name, currentWeight - this.learningRate * (avgGrad + l2Term));
+        }
 
-        // Backward pass (gradient of BCE with sigmoid)
-        const error = pred - target;
+        // Update bias (no regularization on bias)
+        head.bias -= this.learningRate * (biasGrads[k] / batchWeight);
+      });
 
-        for (const [name, value] of features.entries()) {
-          const grad = (gradients.get(name) || 0) + error * value;
-          gradients.set(name, grad);
-        }
-        biasGrad += error;
-      }
+      totalLoss += batchLoss;
+      totalWeight += batchWeight;
+    }
 
-      // Update weights with L2 regularization
-      for (const [name, grad] of gradients.entries()) {
-        const currentWeight = this.weights.get(name) || 0;
-        const avgGrad = grad / batch.length;
-        const l2Term = this.l2Lambda * currentWeight;
-        const newWeight = currentWeight - this.learningRate * (avgGrad + l2Term);
-        this.weights.set(name, newWeight);
-      }
+    return totalWeight > 0 ? totalLoss / totalWeight : 0;
+  }
 
-      // Update bias (no regularization on bias)
-      this.bias -= this.learningRate * (biasGrad / batch.length);
+  /**
+   * Loss and output-layer error for one trade
+   *   binary:     sigmoid + cross-entropy
+   *   multiclass: softmax + cross-entropy
+   *   regression: linear + squared error
+   */
+  private lossAndErrors(outputs: number[], target: number): { loss: number; errors: number[] } {
+    const epsilon = 1e-7;
 
-      totalLoss += batchLoss;
+    if (this.objective === 'multiclass') {
+      const probs = this.softmax(outputs);
+      return {
+        loss: -Math.log(probs[target] + epsilon),
+        errors: probs.map((p, k) => p - (k === target ? 1 : 0))
+      };
+    }
+
+    if (this.objective === 'regression') {
+      const error = outputs[0] - target;
+      return { loss: 0.5 * error * error, errors: [error] };
     }
 
-    return totalLoss / trades.length;
+    const pred = this.sigmoid(outputs[0]);
+    return {
+      loss: -target * Math.log(pred + epsilon) - (1 - target) * Math.log(1 - pred + epsilon),
+      errors: [pred - target]
+    };
   }
 
   /**
    * Evaluate model on a dataset
+   * Accuracy is thresholded (binary), argmax (multiclass) or sign of R (regression)
    */
-  private evaluate(trades: TradeFeatures[]): { loss: number; accuracy: number } {
+  private evaluate(trades: TradeFeatures[]): { loss: number; accuracy: number; residualStd: number } {
     let totalLoss = 0;
     let correct = 0;
+    let squaredResiduals = 0;
 
     for (const trade of trades) {
       const features = this.extractNormalizedFeatures(trade);
-      const target = trade.outcome === 'WIN' ? 1 : 0;
-
-      const logit = this.computeLogit(features);
-      const pred = this.sigmoid(logit);
+      const target = TradeLabeler.target(trade, this.labelScheme, this.labelConfig);
+      const outputs = this.computeOutputs(features);
 
-      // Loss
-      const epsilon = 1e-7;
-      totalLoss += -target * Math.log(pred + epsilon) - (1 - target) * Math.log(1 - pred + epsilon);
+      totalLoss += this.lossAndErrors(outputs, target).loss;
 
-      // Accuracy
-      const predicted = pred >= 0.5 ? 1 : 0;
-      if (predicted === target) correct++;
+      if (this.objective === 'multiclass') {
+        if (outputs.indexOf(Math.max(...outputs)) === target) correct++;
+      } else if (this.objective === 'regression') {
+        if ((outputs[0] > 0) === (target > 0)) correct++;
+        squaredResiduals += Math.pow(outputs[0] - target, 2);
+      } else {
+        const predicted = this.sigmoid(outputs[0]) >= 0.5 ? 1 : 0;
+        if (predicted === target) correct++;
+      }
     }
 
     return {
       loss: totalLoss / trades.length,
-      accuracy: correct / trades.length
+      accuracy: correct / trades.length,
+      residualStd: Math.sqrt(squaredResiduals / trades.length) || 1
     };
   }
 
+  /**
+   * Mean realized R per target value (binary) or class (multiclass)
+   * Turns class probabilities into an expected R
+   */
+  private computeTargetMeanR(trades: TradeFeatures[]): void {
+    this.targetMeanR = [];
+    if (this.objective === 'regression') return;
+
+    const numTargets = this.objective === 'multiclass' ? BARRIER_CLASSES.length : 2;
+    const sums = new Array(numTargets).fill(0);
+    const counts = new Array(numTargets).fill(0);
+
+    for (const trade of trades) {
+      if (!Number.isFinite(trade.r_multiple)) continue;
+      const target = TradeLabeler.target(trade, this.labelScheme, this.labelConfig);
+      sums[target] += trade.r_multiple;
+      counts[target]++;
+    }
+
+    this.targetMeanR = sums.map((sum, k) => counts[k] > 0 ? sum / counts[k] : NaN);
+  }
+
   /**
    * Compute feature statistics for normalization
    */
@@ -254,25 +548,31 @@ export class TradingMLModel {
    * Initialize weights with small random values
    */
   private initializeWeights(): void {
-    this.weights.clear();
-    this.bias = 0;
+    const numHeads = this.objective === 'multiclass' ? BARRIER_CLASSES.length : 1;
+    this.heads = [];
 
-    // Numeric features
-    for (const name of NUMERIC_FEATURES) {
-      if (this.featureStats.has(name)) {
-        this.weights.set(name, (Math.random() - 0.5) * 0.1);
+    for (let k = 0; k < numHeads; k++) {
+      const weights = new Map<string, number>();
+
+      // Numeric features
+      for (const name of NUMERIC_FEATURES) {
+        if (this.featureStats.has(name)) {
+          weights.set(name, (Math.random() - 0.5) * 0.1);
+        }
       }
-    }
 
-    // Categorical features (one-hot)
-    for (const [catName, values] of this.categoricalValues.entries()) {
-      for (const val of values) {
-        const key = `${catName}_${val}`;
-        this.weights.set(key, (Math.random() - 0.5) * 0.1);
+      // Categorical features (one-hot)
+      for (const [catName, values] of this.categoricalValues.entries()) {
+        for (const val of values) {
+          const key = `${catName}_${val}`;
+          weights.set(key, (Math.random() - 0.5) * 0.1);
+        }
       }
+
+      this.heads.push({ weights, bias: 0 });
     }
 
-    console.log(`Initialized ${this.weights.size} weights`);
+    this.log(`Initialized ${this.heads[0].weights.size} weights${numHeads > 1 ? ` × ${numHeads} classes` : ''}`);
   }
 
   /**
@@ -307,17 +607,30 @@ export class TradingMLModel {
   }
 
   /**
-   * Compute logit (weighted sum)
+   * Compute each head's output (weighted sum - logit, class score or R)
    */
-  private computeLogit(features: Map<string, number>): number {
-    let logit = this.bias;
+  private computeOutputs(features: Map<string, number>): number[] {
+    return this.heads.map(head => {
+      let output = head.bias;
 
-    for (const [name, value] of features.entries()) {
-      const weight = this.weights.get(name) || 0;
-      logit += weight * value;
-    }
+      for (const [name, value] of features.entries()) {
+        const weight = head.weights.get(name) || 0;
+        output += weight * value;
+      }
+
+      return output;
+    });
+  }
+
+  /**
+   * When the trade's outcome was known (entry time for trades without one)
+   */
+  private static exitTime(trade: TradeFeatures): number {
+    return trade.exit_time || trade.entry_time;
+  }
 
-    return logit;
+  private log(message: string): void {
+    if (this.verbose) console.log(message);
   }
 
   /**
@@ -327,29 +640,37 @@ export class TradingMLModel {
     return 1 / (1 + Math.exp(-Math.max(-500, Math.min(500, x))));
   }
 
+  private softmax(outputs: number[]): number[] {
+    const max = Math.max(...outputs);
+    const exps = outputs.map(o => Math.exp(o - max));
+    const sum = exps.reduce((a, b) => a + b, 0);
+    return exps.map(e => e / sum);
+  }
+
   /**
    * Save current weights as best
    */
   private saveBestWeights(): void {
-    this.bestWeights = new Map(this.weights);
-    this.bestBias = this.bias;
+    this.bestHeads = this.heads.map(h => ({ weights: new Map(h.weights), bias: h.bias }));
   }
 
   /**
    * Restore best weights
    */
   private restoreBestWeights(): void {
-    this.weights = new Map(this.bestWeights);
-    this.bias = this.bestBias;
+    this.heads = this.bestHeads.map(h => ({ weights: new Map(h.weights), bias: h.bias }));
   }
 
   /**
-   * Predict win probability
+   * Predict win probability (and expected R)
    */
   predict(features: TradeFeatures): Prediction {
     if (!this.trained) {
       return {
         winProbability: 0.5,
+        rawWinProbability: 0.5,
+        calibrated: false,
+        expectedR: null,
         confidence: 0,
         keyFeatures: [],
         reason: 'Model not trained'
@@ -357,14 +678,39 @@ export class TradingMLModel {
     }
 
     const normalizedFeatures = this.extractNormalizedFeatures(features);
-    const logit = this.computeLogit(normalizedFeatures);
-    const winProbability = this.sigmoid(logit);
+    const outputs = this.computeOutputs(normalizedFeatures);
+
+    let rawWinProbability: number;
+    let classProbabilities: Record<string, number> | undefined;
+    let expectedR: number | null = null;
+    let head = 0;
+
+    if (this.objective === 'multiclass') {
+      const probs = this.softmax(outputs);
+      classProbabilities = Object.fromEntries(BARRIER_CLASSES.map((c, k) => [c, probs[k]]));
+      rawWinProbability = probs[0];   // TP barrier
+      head = probs.indexOf(Math.max(...probs));
+    } else if (this.objective === 'regression') {
+      // P(R > 0), treating validation residuals as normal (logistic approximation of the CDF)
+      expectedR = outputs[0];
+      rawWinProbability = this.sigmoid(1.702 * outputs[0] / this.residualStd);
+    } else {
+      rawWinProbability = this.sigmoid(outputs[0]);
+    }
+
+    const winProbability = this.calibrator ? this.calibrator.calibrate(rawWinProbability) : rawWinProbability;
+
+    if (this.targetMeanR.length > 0 && this.targetMeanR.every(Number.isFinite)) {
+      expectedR = classProbabilities
+        ? BARRIER_CLASSES.reduce((sum, c, k) => sum + classProbabilities![c] * this.targetMeanR[k], 0)
+        : winProbability * this.targetMeanR[1] + (1 - winProbability) * this.targetMeanR[0];
+    }
 
-    // Find top contributing features
+    // Find top contributing features (predicted class head for multiclass)
     const contributions: { name: string; contribution: number }[] = [];
 
     for (const [name, value] of normalizedFeatures.entries()) {
-      const weight = this.weights.get(name) || 0;
+      const weight = this.heads[head].weights.get(name) || 0;
       contributions.push({ name, contribution: Math.abs(weight * value) });
     }
 
@@ -379,26 +725,42 @@ export class TradingMLModel {
 
     return {
       winProbability,
+      rawWinProbability,
+      calibrated: this.calibrator !== null,
+      expectedR,
+      classProbabilities,
       confidence,
       keyFeatures: topFeatures,
-      reason: `${strength} ${direction} signal (${(winProbability * 100).toFixed(0)}% win prob)`
+      reason: `${strength} ${direction} signal (${(winProbability * 100).toFixed(0)}% win prob${expectedR !== null ? `, ${expectedR >= 0 ? '+' : ''}${expectedR.toFixed(2)}R expected` : ''})`
     };
   }
 
+  /**
+   * Attach (or remove) the calibrator applied in predict()
+   * Fit it on predictions this model made out-of-sample
+   */
+  setCalibrator(calibrator: ProbabilityCalibrator | null): void {
+    this.calibrator = calibrator;
+  }
+
+  getCalibrator(): ProbabilityCalibrator | null {
+    return this.calibrator;
+  }
+
   /**
    * Print top features by weight magnitude
    */
   private printTopFeatures(): void {
-    const sorted = Array.from(this.weights.entries())
+    const sorted = Array.from(this.heads[0].weights.entries())
       .map(([name, weight]) => ({ name, weight, absWeight: Math.abs(weight) }))
       .sort((a, b) => b.absWeight - a.absWeight)
       .slice(0, 15);
 
-    console.log(`\n📊 Top Features by Weight:`);
+    this.log(`\n📊 Top Features by Weight:`);
     for (const { name, weight } of sorted) {
       const direction = weight > 0 ? '↑' : '↓';
       const impact = weight > 0 ? 'increases' : 'decreases';
-      console.log(`  ${direction} ${name.padEnd(30)} ${weight > 0 ? '+' : ''}${weight.toFixed(4)} (${impact} win prob)`);
+      this.log(`  ${direction} ${name.padEnd(30)} ${weight > 0 ? '+' : ''}${weight.toFixed(4)} (${impact} ${this.objective === 'regression' ? 'expected R' : this.objective === 'multiclass' ? 'TP odds' : 'win prob'})`);
     }
   }
 
@@ -416,7 +778,9 @@ export class TradingMLModel {
     const lastHistory = this.trainingHistory[this.trainingHistory.length - 1];
     return {
       trained: this.trained,
-      numWeights: this.weights.size,
+      labelScheme: this.labelScheme,
+      objective: this.objective,
+      numWeights: this.heads[0].weights.size * this.heads.length,
       bestValLoss: this.bestValLoss,
       finalAccuracy: lastHistory?.accuracy || 0,
       epochs: this.trainingHistory.length
@@ -426,14 +790,31 @@ export class TradingMLModel {
   /**
    * Export weights for persistence
    */
-  exportWeights(): { weights: Record<string, number>; bias: number; featureStats: Record<string, FeatureStats>; categoricalValues: Record<string, string[]> } {
+  exportWeights(): {
+    weights: Record<string, number>;
+    bias: number;
+    featureStats: Record<string, FeatureStats>;
+    categoricalValues: Record<string, string[]>;
+    calibration?: CalibrationState;
+    labelScheme?: LabelScheme;
+    heads?: { weights: Record<string, number>; bias: number }[];   // Multiclass: one per BARRIER_CLASSES entry
+    targetMeanR?: number[];
+    residualStd?: number;
+  } {
     return {
-      weights: Object.fromEntries(this.weights),
-      bias: this.bias,
+      weights: Object.fromEntries(this.heads[0].weights),
+      bias: this.heads[0].bias,
       featureStats: Object.fromEntries(this.featureStats),
       categoricalValues: Object.fromEntries(
         Array.from(this.categoricalValues.entries()).map(([k, v]) => [k, Array.from(v)])
-      )
+      ),
+      calibration: this.calibrator?.toJSON(),
+      labelScheme: this.labelScheme,
+      heads: this.heads.length > 1
+        ? this.heads.map(h => ({ weights: Object.fromEntries(h.weights), bias: h.bias }))
+        : undefined,
+      targetMeanR: this.targetMeanR.length > 0 ? this.targetMeanR : undefined,
+      residualStd: this.objective === 'regression' ? this.residualStd : undefined
     };
   }
 
@@ -441,12 +822,17 @@ export class TradingMLModel {
    * Import weights from persistence
    */
   importWeights(data: ReturnType<typeof this.exportWeights>): void {
-    this.weights = new Map(Object.entries(data.weights));
-    this.bias = data.bias;
+    this.labelScheme = data.labelScheme ?? 'binary';
+    this.objective = TradeLabeler.objective(this.labelScheme);
+    this.heads = (data.heads ?? [{ weights: data.weights, bias: data.bias }])
+      .map(h => ({ weights: new Map(Object.entries(h.weights)), bias: h.bias }));
+    this.targetMeanR = (data.targetMeanR ?? []).map(r => r ?? NaN);
+    this.residualStd = data.residualStd ?? 1;
     this.featureStats = new Map(Object.entries(data.featureStats));
     this.categoricalValues = new Map(
       Object.entries(data.categoricalValues).map(([k, v]) => [k, new Set(v)])
     );
+    this.calibrator = data.calibration ? ProbabilityCalibrator.fromJSON(data.calibration) : null;
     this.trained = true;
   }
 }
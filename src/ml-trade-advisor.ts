@@ -13,19 +13,25 @@
 import fs from 'fs';
 import path from 'path';
 import { TradingMLModel, Prediction } from './ml-model.js';
-import { FeatureExtractor, TradeFeatures } from './trade-features.js';
+import { FeatureExtractor, TradeFeatures, EntryFeatures } from './trade-features.js';
 import { SMCIndicators, Candle } from './smc-indicators.js';
 import { UnifiedScoring } from './unified-scoring.js';
 import { TradeDecisionPipeline, TradeSetup, PipelineResult, PipelineConfig } from './trade-decision-pipeline.js';
 import { H2OIntegration, H2OTrainingResult } from './h2o-integration.js';
+import { LightGBMModel } from './lightgbm-model.js';
+import { ModelRegistry } from './model-registry.js';
+import { ProbabilityCalibrator } from './probability-calibration.js';
+import { CorrelationEngine, ExposurePosition } from './correlation-engine.js';
+import { CompositeSentimentProvider } from './sentiment-providers.js';
 
 // Type for prediction input (features without outcome data)
-type PredictionFeatures = Omit<TradeFeatures, 'outcome' | 'pnl' | 'pnl_percent' | 'exit_reason' | 'holding_periods'>;
+type PredictionFeatures = EntryFeatures;
 
 export interface MarketSnapshot {
   symbol: string;
   candles: Candle[];  // Recent candles (need at least 200)
   currentPrice: number;
+  openPositions?: ExposurePosition[];  // Fills correlatedPositions when a CorrelationEngine is attached
 }
 
 export interface TradeAdvice {
@@ -33,6 +39,7 @@ export interface TradeAdvice {
   direction: 'LONG' | 'SHORT' | 'NEUTRAL';
   confidence: number;  // 0-1
   winProbability: number;  // 0-1
+  expectedR: number | null;  // Expected R-multiple of taking the trade (null without R data)
 
   // Scores
   smcScore: number;
@@ -61,12 +68,21 @@ export interface TradeAdvice {
   modelAccuracy: number;
 }
 
+// What the advisor reports about the model in use (H2O result, registry champion or LightGBM)
+type AdvisorModelInfo = Pick<H2OTrainingResult, 'modelId' | 'accuracy' | 'auc'> & { timestamp?: number };
+
 export class MLTradeAdvisor {
   private mlModel: TradingMLModel;
   private h2o: H2OIntegration;
   private pipeline: TradeDecisionPipeline;
-  private bestModel: H2OTrainingResult | null = null;
+  private bestModel: AdvisorModelInfo | null = null;
+  private lightgbm: LightGBMModel | null = null;
+  private lightgbmMeta: { modelId: string; accuracy: number; auc: number; keyFeatures: string[]; meanR: { WIN: number; LOSS: number } | null } | null = null;
+  private lightgbmCalibrator: ProbabilityCalibrator | null = null;
   private modelDir: string;
+  private registry: ModelRegistry;
+  private correlation: CorrelationEngine | null = null;
+  private sentiment: CompositeSentimentProvider;
   private initialized: boolean = false;
 
   constructor(config?: Partial<PipelineConfig> & { modelDir?: string }) {
@@ -74,7 +90,9 @@ export class MLTradeAdvisor {
     this.modelDir = config?.modelDir || path.join(process.cwd(), 'data', 'models');
     this.mlModel = new TradingMLModel();
     this.h2o = new H2OIntegration({ modelDir: this.modelDir });
+    this.registry = new ModelRegistry(this.modelDir);
     this.pipeline = new TradeDecisionPipeline(config);
+    this.sentiment = CompositeSentimentProvider.fromConfig();
   }
 
   /**
@@ -85,6 +103,9 @@ export class MLTradeAdvisor {
 
     console.log('[MLAdvisor] Initializing...');
 
+    // LightGBM text model is scored in-process when present
+    this.loadLightGBM();
+
     // Try to load pre-trained weights first (faster, no retraining needed)
     const weightsLoaded = await this.loadModelWeights();
 
@@ -108,9 +129,12 @@ export class MLTradeAdvisor {
 
   /**
    * Load pre-trained model weights (much faster than retraining from CSV)
+   * Registry champion first, then the legacy model-weights.json
    */
   private async loadModelWeights(): Promise<boolean> {
-    const weightsFile = path.join(this.modelDir, 'model-weights.json');
+    const champion = this.registry.getChampion('logistic');
+    const championWeights = champion ? this.registry.getArtifactPath(champion, 'weights') : null;
+    const weightsFile = championWeights || path.join(this.modelDir, 'model-weights.json');
     const metaFile = path.join(this.modelDir, 'best-model.json');
 
     if (!fs.existsSync(weightsFile)) {
@@ -122,8 +146,19 @@ export class MLTradeAdvisor {
       const weights = JSON.parse(fs.readFileSync(weightsFile, 'utf-8'));
       this.mlModel.importWeights(weights);
 
-      // Load metadata
-      if (fs.existsSync(metaFile)) {
+      if (champion && championWeights) {
+        const accuracy = champion.metrics.oos?.accuracy ?? champion.metrics.accuracy ?? 0;
+        console.log(`[MLAdvisor] Loaded champion weights: ${champion.id}`);
+        console.log(`[MLAdvisor] Accuracy: ${(accuracy * 100).toFixed(1)}%${champion.metrics.oos ? ` (${champion.metrics.oos.source})` : ''}`);
+        console.log(`[MLAdvisor] Weights: ${champion.featureCount}`);
+
+        this.bestModel = {
+          modelId: champion.id,
+          accuracy,
+          auc: champion.metrics.auc ?? 0,
+          timestamp: Date.parse(champion.createdAt)
+        };
+      } else if (fs.existsSync(metaFile)) {
         const meta = JSON.parse(fs.readFileSync(metaFile, 'utf-8'));
         console.log(`[MLAdvisor] Loaded weights: ${meta.modelId}`);
         console.log(`[MLAdvisor] Accuracy: ${(meta.finalAccuracy * 100).toFixed(1)}%`);
@@ -144,6 +179,56 @@ export class MLTradeAdvisor {
     }
   }
 
+  /**
+   * Load the LightGBM text model written by scripts/lightgbm_trainer.py
+   * (registry champion if there is one)
+   */
+  private loadLightGBM(): void {
+    const champion = this.registry.getChampion('lightgbm');
+    const championModel = champion ? this.registry.getArtifactPath(champion, 'model') : null;
+    const modelFile = championModel || path.join(this.modelDir, 'lightgbm_model.txt');
+    const metaFile = (champion && championModel && this.registry.getArtifactPath(champion, 'metadata'))
+      || path.join(this.modelDir, 'lightgbm_metadata.json');
+    const validationFile = (champion && championModel && this.registry.getArtifactPath(champion, 'validation'))
+      || path.join(this.modelDir, 'lightgbm_validation.json');
+
+    if (!fs.existsSync(modelFile)) return;
+
+    try {
+      this.lightgbm = LightGBMModel.fromFile(modelFile);
+
+      const meta = fs.existsSync(metaFile) ? JSON.parse(fs.readFileSync(metaFile, 'utf-8')) : {};
+      const importance: Record<string, number> = meta.featureImportance || {};
+      this.lightgbmMeta = {
+        modelId: meta.modelId || 'lightgbm',
+        accuracy: meta.accuracy || 0,
+        auc: meta.auc || 0,
+        keyFeatures: Object.entries(importance)
+          .sort((a, b) => b[1] - a[1])
+          .slice(0, 4)
+          .map(([name]) => name),
+        meanR: meta.meanR && Number.isFinite(meta.meanR.WIN) && Number.isFinite(meta.meanR.LOSS) ? meta.meanR : null
+      };
+
+      console.log(`[MLAdvisor] Loaded LightGBM: ${this.lightgbmMeta.modelId} (${this.lightgbm.getNumTrees()} trees, ${(this.lightgbmMeta.accuracy * 100).toFixed(1)}% accuracy)`);
+
+      // Calibrate on the trainer's chronological holdout (unseen by training and early stopping);
+      // files from the older random split aren't held out, so they're ignored
+      const validation = fs.existsSync(validationFile) ? JSON.parse(fs.readFileSync(validationFile, 'utf-8')) : null;
+      if (validation?.split === 'chronological_holdout') {
+        const selection = ProbabilityCalibrator.select(validation.probabilities, validation.outcomes);
+        this.lightgbmCalibrator = selection.calibrator;
+        const chosen = selection.calibrator ? selection[selection.method as 'platt' | 'isotonic'] : selection.raw;
+        console.log(`[MLAdvisor] LightGBM calibration: ${selection.method} (ECE ${(selection.raw.ece * 100).toFixed(2)}% -> ${((chosen?.ece ?? selection.raw.ece) * 100).toFixed(2)}%, ${selection.samples} holdout predictions)`);
+      }
+    } catch (err: any) {
+      this.lightgbm = null;
+      this.lightgbmMeta = null;
+      this.lightgbmCalibrator = null;
+      console.log(`[MLAdvisor] Failed to load LightGBM model: ${err.message}`);
+    }
+  }
+
   /**
    * Load training data to initialize local ML model
    */
@@ -220,6 +305,14 @@ export class MLTradeAdvisor {
     return trades;
   }
 
+  /**
+   * Measure correlated positions with this engine (its series are extended
+   * with each snapshot's candles)
+   */
+  useCorrelation(engine: CorrelationEngine): void {
+    this.correlation = engine;
+  }
+
   /**
    * Main function: Should I take this trade?
    */
@@ -270,17 +363,20 @@ export class MLTradeAdvisor {
       direction === 'LONG' ? 'long' : 'short'
     );
 
-    // Step 4: Get ML prediction - try LightGBM first (77%), fall back to local (60.5%)
+    // Step 4: Get ML prediction - try LightGBM first, fall back to local
     let prediction: Prediction;
     let modelSource: 'lightgbm' | 'local' = 'local';
     let modelAccuracy = this.bestModel?.accuracy || 0.605;
 
-    const lgbmPrediction = await this.tryLightGBMPrediction(features);
+    const lgbmPrediction = this.tryLightGBMPrediction(features);
     if (lgbmPrediction) {
       prediction = {
         winProbability: lgbmPrediction.winProbability,
+        rawWinProbability: lgbmPrediction.rawWinProbability,
+        calibrated: lgbmPrediction.calibrated,
+        expectedR: lgbmPrediction.expectedR,
         confidence: lgbmPrediction.confidence,
-        keyFeatures: ['atr_value', 'distance_to_low', 'volatility', 'trend_strength'], // Top LightGBM features
+        keyFeatures: lgbmPrediction.keyFeatures,
         reason: `LightGBM prediction with ${(lgbmPrediction.modelAccuracy * 100).toFixed(0)}% accuracy`,
       };
       modelSource = 'lightgbm';
@@ -289,17 +385,24 @@ export class MLTradeAdvisor {
       this.bestModel = {
         modelId: lgbmPrediction.modelId,
         accuracy: lgbmPrediction.modelAccuracy,
-        auc: 0.86,
+        auc: lgbmPrediction.modelAuc,
       } as any;
-      reasons.push(`ML win probability: ${(prediction.winProbability * 100).toFixed(1)}% (LightGBM ${(modelAccuracy * 100).toFixed(0)}%)`);
+      reasons.push(`ML win probability: ${(prediction.winProbability * 100).toFixed(1)}%${prediction.calibrated ? ' calibrated' : ''} (LightGBM ${(modelAccuracy * 100).toFixed(0)}%)`);
     } else {
       prediction = this.mlModel.predict(features as TradeFeatures);
-      reasons.push(`ML win probability: ${(prediction.winProbability * 100).toFixed(1)}% (local ${(modelAccuracy * 100).toFixed(0)}%)`);
+      reasons.push(`ML win probability: ${(prediction.winProbability * 100).toFixed(1)}%${prediction.calibrated ? ' calibrated' : ''} (local ${(modelAccuracy * 100).toFixed(0)}%)`);
+    }
+
+    if (prediction.expectedR !== null) {
+      reasons.push(`Expected R: ${prediction.expectedR >= 0 ? '+' : ''}${prediction.expectedR.toFixed(2)}R`);
     }
 
     if (prediction.winProbability < 0.45) {
       warnings.push(`ML predicts low win probability: ${(prediction.winProbability * 100).toFixed(1)}%`);
     }
+    if (prediction.expectedR !== null && prediction.expectedR < 0) {
+      warnings.push(`Negative expected value: ${prediction.expectedR.toFixed(2)}R`);
+    }
 
     // Step 5: Calculate entry/exit levels
     const atr = analysis.atr || (candles[lastIndex].high - candles[lastIndex].low);
@@ -328,6 +431,7 @@ export class MLTradeAdvisor {
         highs: recentCandles.map(c => c.high),
         lows: recentCandles.map(c => c.low),
         volumes: recentCandles.map(c => c.volume),
+        regime: features.market_regime,
       },
       smcScore: scoring.score,
       smcDirection: direction as any,
@@ -335,6 +439,22 @@ export class MLTradeAdvisor {
       mlDirection: prediction.winProbability > 0.5 ? direction as any : 'NEUTRAL',
     };
 
+    // Sentiment as of the last candle's close (one interval after its open)
+    const interval = candles.length > 1 ? lastCandle.timestamp - candles[candles.length - 2].timestamp : 0;
+    const sentiment = this.sentiment.read(market.symbol, lastCandle.timestamp + interval);
+    if (sentiment) {
+      tradeSetup.sentimentScore = sentiment.score;
+      reasons.push(`Sentiment: ${sentiment.score >= 0 ? '+' : ''}${sentiment.score.toFixed(2)} (${sentiment.detail})`);
+    }
+
+    if (this.correlation && market.openPositions) {
+      this.correlation.update(market.symbol, candles);
+      this.correlation.populate(tradeSetup, market.openPositions, lastCandle.timestamp);
+      if (tradeSetup.correlatedPositions!.length > 0) {
+        reasons.push(`Correlated open positions: ${tradeSetup.correlatedPositions!.join(', ')}`);
+      }
+    }
+
     const pipelineResult = this.pipeline.evaluate(tradeSetup);
 
     // Step 7: Build final advice
@@ -343,6 +463,7 @@ export class MLTradeAdvisor {
       direction: direction as any,
       confidence: prediction.confidence,
       winProbability: prediction.winProbability,
+      expectedR: prediction.expectedR,
 
       smcScore: scoring.score,
       mlScore: prediction.winProbability,
@@ -377,50 +498,48 @@ export class MLTradeAdvisor {
   }
 
   /**
-   * Try to get prediction from LightGBM server (77% accuracy)
+   * Score with the in-process LightGBM model (null when none is loaded)
    */
-  private async tryLightGBMPrediction(features: any): Promise<{
+  private tryLightGBMPrediction(features: PredictionFeatures): {
     winProbability: number;
+    rawWinProbability: number;
+    calibrated: boolean;
+    expectedR: number | null;
     confidence: number;
+    keyFeatures: string[];
     modelId: string;
     modelAccuracy: number;
-  } | null> {
-    const serverUrl = process.env.LIGHTGBM_SERVER_URL || 'http://localhost:5555';
-
-    try {
-      const response = await fetch(`${serverUrl}/predict`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ features }),
-      });
+    modelAuc: number;
+  } | null {
+    if (!this.lightgbm || !this.lightgbmMeta) return null;
 
-      if (!response.ok) {
-        return null;
-      }
+    const rawWinProbability = this.lightgbm.predict(features as unknown as Record<string, unknown>);
+    const winProbability = this.lightgbmCalibrator ? this.lightgbmCalibrator.calibrate(rawWinProbability) : rawWinProbability;
 
-      const result = await response.json() as any;
-      if (result.error) {
-        return null;
-      }
-
-      return {
-        winProbability: result.win_probability,
-        confidence: result.confidence,
-        modelId: result.model_id || 'lightgbm',
-        modelAccuracy: result.model_accuracy || 0.77,
-      };
-    } catch {
-      return null; // Server not available
-    }
+    return {
+      winProbability,
+      rawWinProbability,
+      calibrated: this.lightgbmCalibrator !== null,
+      // Mean R of the trainer's winners/losers weighted by the win probability
+      expectedR: this.lightgbmMeta.meanR
+        ? winProbability * this.lightgbmMeta.meanR.WIN + (1 - winProbability) * this.lightgbmMeta.meanR.LOSS
+        : null,
+      confidence: Math.abs(winProbability - 0.5) * 2,
+      keyFeatures: this.lightgbmMeta.keyFeatures,
+      modelId: this.lightgbmMeta.modelId,
+      modelAccuracy: this.lightgbmMeta.accuracy,
+      modelAuc: this.lightgbmMeta.auc,
+    };
   }
 
   /**
    * Quick check - just get ML prediction without full pipeline
-   * Tries LightGBM server (77%) first, falls back to local model (60.5%)
+   * Tries LightGBM first, falls back to local model
    */
   async quickPredict(market: MarketSnapshot): Promise<{
     direction: 'LONG' | 'SHORT' | 'NEUTRAL';
     winProbability: number;
+    expectedR?: number | null;
     confidence: number;
     smcScore: number;
     modelSource?: 'lightgbm' | 'local';
@@ -459,21 +578,22 @@ export class MLTradeAdvisor {
       direction === 'LONG' ? 'long' : 'short'
     );
 
-    // Try LightGBM server first (77% accuracy)
-    const lgbmPrediction = await this.tryLightGBMPrediction(features);
+    // Try LightGBM first
+    const lgbmPrediction = this.tryLightGBMPrediction(features);
     if (lgbmPrediction) {
       // Update best model info if using LightGBM
       if (!this.bestModel || lgbmPrediction.modelAccuracy > (this.bestModel.accuracy || 0)) {
         this.bestModel = {
           modelId: lgbmPrediction.modelId,
           accuracy: lgbmPrediction.modelAccuracy,
-          auc: 0.86,
+          auc: lgbmPrediction.modelAuc,
         } as any;
       }
 
       return {
         direction: lgbmPrediction.winProbability > 0.5 ? direction : 'NEUTRAL',
         winProbability: lgbmPrediction.winProbability,
+        expectedR: lgbmPrediction.expectedR,
         confidence: lgbmPrediction.confidence,
         smcScore: scoring.score,
         modelSource: 'lightgbm',
@@ -481,12 +601,13 @@ export class MLTradeAdvisor {
       };
     }
 
-    // Fall back to local model (60.5% accuracy)
+    // Fall back to local model
     const prediction = this.mlModel.predict(features as TradeFeatures);
 
     return {
       direction: prediction.winProbability > 0.5 ? direction : 'NEUTRAL',
       winProbability: prediction.winProbability,
+      expectedR: prediction.expectedR,
       confidence: prediction.confidence,
       smcScore: scoring.score,
       modelSource: 'local',
@@ -524,6 +645,7 @@ export class MLTradeAdvisor {
       direction: 'NEUTRAL',
       confidence: 0,
       winProbability: 0.5,
+      expectedR: null,
       smcScore: 0,
       mlScore: 0.5,
       ensembleScore: 0,
@@ -600,6 +722,7 @@ Examples:
       console.log(`Should Trade: ${advice.shouldTrade ? 'YES' : 'NO'}`);
       console.log(`Direction: ${advice.direction}`);
       console.log(`Win Probability: ${(advice.winProbability * 100).toFixed(1)}%`);
+      console.log(`Expected R: ${advice.expectedR !== null ? `${advice.expectedR >= 0 ? '+' : ''}${advice.expectedR.toFixed(2)}R` : 'N/A'}`);
       console.log(`Confidence: ${(advice.confidence * 100).toFixed(1)}%`);
       console.log(`SMC Score: ${advice.smcScore}`);
 
@@ -0,0 +1,381 @@
+/**
+ * Model Registry
+ * Single manifest for every trained model, with stages and promotion
+ *
+ * Layout (under data/models/registry):
+ *   manifest.json        - all entries, current champion per model kind, promotion history
+ *   <model id>/          - immutable copies of the model's artifacts
+ *
+ * Each entry records id, kind, algorithm, feature list hash, training data hash,
+ * metrics, created time and parent (the champion it was trained to replace).
+ * Stages: candidate -> champion -> archived. There is one champion per kind;
+ * promotion is gated on out-of-sample metrics (model_registry in
+ * config/features.json) and rollback restores the previous champion.
+ *
+ * Usage:
+ *   const registry = new ModelRegistry();
+ *   const entry = registry.register({ kind: 'logistic', ... });
+ *   registry.autoPromote(entry.id);
+ *   const weightsPath = registry.getChampionArtifact('logistic', 'weights');
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+export type ModelKind = 'logistic' | 'lightgbm' | 'h2o';
+export type ModelStage = 'candidate' | 'champion' | 'archived';
+
+export const MODEL_KINDS: ModelKind[] = ['logistic', 'lightgbm', 'h2o'];
+
+export interface OutOfSampleSummary {
+  trades: number;
+  accuracy: number;
+  logLoss?: number;
+  baseRate?: number;
+  source: string;           // How it was measured, e.g. 'walk-forward', 'holdout'
+}
+
+export interface ModelMetrics {
+  accuracy?: number;        // In-sample / validation
+  auc?: number;
+  logloss?: number;
+  oos?: OutOfSampleSummary;
+}
+
+export interface ModelEntry {
+  id: string;
+  kind: ModelKind;
+  algorithm: string;
+  target?: string;                     // Label scheme the model predicts (see trade-labels.ts)
+  stage: ModelStage;
+  artifacts: Record<string, string>;   // role -> path relative to the registry dir
+  featureHash: string;
+  featureCount: number;
+  dataHash: string | null;
+  metrics: ModelMetrics;
+  createdAt: string;
+  parent: string | null;
+  promotedAt?: string;
+  archivedAt?: string;
+}
+
+export interface RegistryEvent {
+  at: string;
+  kind: ModelKind;
+  action: 'promote' | 'rollback';
+  from: string | null;
+  to: string;
+  reason: string;
+}
+
+interface Manifest {
+  version: 1;
+  champions: Partial<Record<ModelKind, string>>;
+  models: ModelEntry[];
+  history: RegistryEvent[];
+}
+
+export interface RegisterInput {
+  id?: string;
+  kind: ModelKind;
+  algorithm: string;
+  target?: string;
+  features: string[];
+  artifacts: Record<string, string>;   // role -> source file (copied into the registry)
+  dataFile?: string;                   // Training data, hashed for lineage
+  metrics: ModelMetrics;
+}
+
+export interface PromotionDecision {
+  promote: boolean;
+  reasons: string[];
+}
+
+export interface ModelRegistryConfig {
+  require_oos: boolean;            // Candidates without OOS metrics are never auto-promoted
+  min_oos_trades: number;
+  min_accuracy_gain: number;       // Over the champion's OOS accuracy
+  max_logloss_increase: number;    // Over the champion's OOS log loss
+}
+
+const DEFAULT_CONFIG: ModelRegistryConfig = {
+  require_oos: true,
+  min_oos_trades: 200,
+  min_accuracy_gain: 0.005,
+  max_logloss_increase: 0.01,
+};
+
+export class ModelRegistry {
+  private config: ModelRegistryConfig;
+  private registryDir: string;
+  private manifestPath: string;
+  private manifest: Manifest;
+
+  constructor(modelDir: string = path.join(process.cwd(), 'data', 'models'), config: Partial<ModelRegistryConfig> = {}) {
+    this.config = { ...ModelRegistry.loadConfig(), ...config };
+    this.registryDir = path.join(modelDir, 'registry');
+    this.manifestPath = path.join(this.registryDir, 'manifest.json');
+    this.manifest = this.loadManifest();
+  }
+
+  /**
+   * Load model_registry from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): ModelRegistryConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.model_registry || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  /**
+   * Order-independent hash of a feature list
+   */
+  static hashFeatures(features: string[]): string {
+    return crypto.createHash('sha256').update([...features].sort().join('\n')).digest('hex').slice(0, 16);
+  }
+
+  static hashFile(filePath: string): string {
+    return crypto.createHash('sha256').update(fs.readFileSync(filePath)).digest('hex').slice(0, 16);
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // REGISTRATION
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Register a trained model as a candidate, copying its artifacts
+   */
+  register(input: RegisterInput): ModelEntry {
+    const id = input.id || `${input.kind}_${new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19)}`;
+    if (this.find(id)) {
+      throw new Error(`Model ${id} is already registered`);
+    }
+
+    const modelDir = path.join(this.registryDir, id);
+    fs.mkdirSync(modelDir, { recursive: true });
+
+    const artifacts: Record<string, string> = {};
+    for (const [role, source] of Object.entries(input.artifacts)) {
+      if (!fs.existsSync(source)) {
+        throw new Error(`Artifact "${role}" not found: ${source}`);
+      }
+      const target = path.join(modelDir, path.basename(source));
+      fs.copyFileSync(source, target);
+      artifacts[role] = path.relative(this.registryDir, target);
+    }
+
+    const entry: ModelEntry = {
+      id,
+      kind: input.kind,
+      algorithm: input.algorithm,
+      target: input.target,
+      stage: 'candidate',
+      artifacts,
+      featureHash: ModelRegistry.hashFeatures(input.features),
+      featureCount: input.features.length,
+      dataHash: input.dataFile && fs.existsSync(input.dataFile) ? ModelRegistry.hashFile(input.dataFile) : null,
+      metrics: input.metrics,
+      createdAt: new Date().toISOString(),
+      parent: this.manifest.champions[input.kind] ?? null,
+    };
+
+    this.manifest.models.push(entry);
+    this.saveManifest();
+    return entry;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // PROMOTION
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Check a candidate against the promotion rules and the current champion
+   */
+  evaluatePromotion(id: string): PromotionDecision {
+    const entry = this.require(id);
+    const reasons: string[] = [];
+    const oos = entry.metrics.oos;
+    const champion = this.getChampion(entry.kind);
+
+    if (entry.stage === 'champion') {
+      return { promote: false, reasons: ['already champion'] };
+    }
+
+    if (!oos) {
+      if (this.config.require_oos) {
+        return { promote: false, reasons: ['no out-of-sample metrics'] };
+      }
+      reasons.push('no out-of-sample metrics (not required)');
+    } else if (oos.trades < this.config.min_oos_trades) {
+      return { promote: false, reasons: [`only ${oos.trades} OOS trades (need ${this.config.min_oos_trades})`] };
+    }
+
+    if (!champion) {
+      reasons.push('no current champion');
+      return { promote: true, reasons };
+    }
+
+    // OOS accuracy on different targets isn't comparable
+    if ((entry.target ?? 'binary') !== (champion.target ?? 'binary')) {
+      return { promote: false, reasons: [`target ${entry.target ?? 'binary'} differs from champion's ${champion.target ?? 'binary'} - promote manually`] };
+    }
+
+    const championOos = champion.metrics.oos;
+    if (!championOos) {
+      reasons.push(`champion ${champion.id} has no OOS metrics`);
+      return { promote: true, reasons };
+    }
+    if (!oos) {
+      return { promote: false, reasons: [...reasons, `champion ${champion.id} has OOS metrics to beat`] };
+    }
+
+    const gain = oos.accuracy - championOos.accuracy;
+    if (gain < this.config.min_accuracy_gain) {
+      return {
+        promote: false,
+        reasons: [`OOS accuracy ${(oos.accuracy * 100).toFixed(1)}% vs champion ${(championOos.accuracy * 100).toFixed(1)}% (need +${(this.config.min_accuracy_gain * 100).toFixed(1)}%)`],
+      };
+    }
+    reasons.push(`OOS accuracy +${(gain * 100).toFixed(2)}% over ${champion.id}`);
+
+    if (oos.logLoss !== undefined && championOos.logLoss !== undefined) {
+      const increase = oos.logLoss - championOos.logLoss;
+      if (increase > this.config.max_logloss_increase) {
+        return { promote: false, reasons: [`OOS log loss worse by ${increase.toFixed(4)} (max ${this.config.max_logloss_increase})`] };
+      }
+      reasons.push(`OOS log loss ${oos.logLoss.toFixed(4)} vs ${championOos.logLoss.toFixed(4)}`);
+    }
+
+    return { promote: true, reasons };
+  }
+
+  /**
+   * Promote if the rules allow it
+   */
+  autoPromote(id: string): PromotionDecision {
+    const decision = this.evaluatePromotion(id);
+    if (decision.promote) {
+      this.promote(id, decision.reasons.join('; '));
+    }
+    return decision;
+  }
+
+  /**
+   * Make a model the champion of its kind (manual promotions skip the rules)
+   */
+  promote(id: string, reason: string = 'manual'): ModelEntry {
+    const entry = this.require(id);
+    if (entry.stage === 'champion') return entry;
+
+    const previous = this.getChampion(entry.kind);
+    const now = new Date().toISOString();
+
+    if (previous) {
+      previous.stage = 'archived';
+      previous.archivedAt = now;
+    }
+
+    entry.stage = 'champion';
+    entry.promotedAt = now;
+    delete entry.archivedAt;
+    this.manifest.champions[entry.kind] = entry.id;
+    this.manifest.history.push({ at: now, kind: entry.kind, action: 'promote', from: previous?.id ?? null, to: entry.id, reason });
+
+    this.saveManifest();
+    return entry;
+  }
+
+  /**
+   * Restore the champion that the current one replaced
+   */
+  rollback(kind: ModelKind, reason: string = 'manual rollback'): ModelEntry {
+    const current = this.getChampion(kind);
+    if (!current) {
+      throw new Error(`No ${kind} champion to roll back`);
+    }
+
+    const promotion = [...this.manifest.history]
+      .reverse()
+      .find(e => e.kind === kind && e.action === 'promote' && e.to === current.id);
+    if (!promotion?.from) {
+      throw new Error(`No previous ${kind} champion before ${current.id}`);
+    }
+
+    const restored = this.require(promotion.from);
+    const now = new Date().toISOString();
+
+    current.stage = 'archived';
+    current.archivedAt = now;
+    restored.stage = 'champion';
+    restored.promotedAt = now;
+    delete restored.archivedAt;
+
+    this.manifest.champions[kind] = restored.id;
+    this.manifest.history.push({ at: now, kind, action: 'rollback', from: current.id, to: restored.id, reason });
+
+    this.saveManifest();
+    return restored;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // LOOKUP
+  // ═══════════════════════════════════════════════════════════════
+
+  getChampion(kind: ModelKind): ModelEntry | null {
+    const id = this.manifest.champions[kind];
+    return id ? this.find(id) : null;
+  }
+
+  /**
+   * Absolute path of a champion artifact, or null if there is none
+   */
+  getChampionArtifact(kind: ModelKind, role: string): string | null {
+    const champion = this.getChampion(kind);
+    return champion ? this.getArtifactPath(champion, role) : null;
+  }
+
+  getArtifactPath(entry: ModelEntry, role: string): string | null {
+    const relative = entry.artifacts[role];
+    if (!relative) return null;
+    const absolute = path.join(this.registryDir, relative);
+    return fs.existsSync(absolute) ? absolute : null;
+  }
+
+  find(id: string): ModelEntry | null {
+    return this.manifest.models.find(m => m.id === id) ?? null;
+  }
+
+  list(kind?: ModelKind): ModelEntry[] {
+    return this.manifest.models.filter(m => !kind || m.kind === kind);
+  }
+
+  getHistory(): RegistryEvent[] {
+    return [...this.manifest.history];
+  }
+
+  private require(id: string): ModelEntry {
+    const entry = this.find(id);
+    if (!entry) {
+      throw new Error(`Model ${id} is not registered`);
+    }
+    return entry;
+  }
+
+  private loadManifest(): Manifest {
+    if (fs.existsSync(this.manifestPath)) {
+      return JSON.parse(fs.readFileSync(this.manifestPath, 'utf-8'));
+    }
+    return { version: 1, champions: {}, models: [], history: [] };
+  }
+
+  private saveManifest(): void {
+    fs.mkdirSync(this.registryDir, { recursive: true });
+    const tmp = `${this.manifestPath}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.manifest, null, 2));
+    fs.renameSync(tmp, this.manifestPath);
+  }
+}
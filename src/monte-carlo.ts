@@ -0,0 +1,397 @@
+/**
+ * Monte Carlo Robustness
+ * Resamples a trade list to see how much of a result is the path it happened on
+ *
+ * A backtest is one ordering of one set of trades. Each method below builds
+ * `runs` alternative histories from the same trades and reports the spread of
+ * final equity, max drawdown and risk of ruin:
+ *   - bootstrap:        draw N trades with replacement
+ *   - block_bootstrap:  draw runs of block_size consecutive trades (keeps streaks / regimes)
+ *   - skip:             drop each trade with skip_probability (missed fills, downtime)
+ *   - slippage:         charge each trade extra slippage, uniform 0..2× slippage_bps per side
+ *
+ * Equity starts at performance_metrics.initial_capital; a run is ruined when
+ * equity falls to initial_capital × (1 - ruin_drawdown). Robustness gates for
+ * evolved strategies (monte_carlo.promotion in config/features.json) are
+ * checked against promotion.method.
+ *
+ * Runs are seeded, so the same trades and config give the same report.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { PerformanceAnalyzer } from './performance-metrics.js';
+import { BacktestEngine } from './backtest-engine.js';
+
+export type MonteCarloMethod = 'bootstrap' | 'block_bootstrap' | 'skip' | 'slippage';
+
+export const MONTE_CARLO_METHODS: MonteCarloMethod[] = ['bootstrap', 'block_bootstrap', 'skip', 'slippage'];
+
+// Anything with a P&L; notional defaults to trade_simulation.position_size
+export interface MonteCarloTrade {
+  pnl: number;
+  exit_time?: number;
+  notional?: number;
+}
+
+export interface RobustnessGate {
+  enabled: boolean;
+  method: MonteCarloMethod;
+  max_risk_of_ruin: number;
+  min_p5_return: number;        // 5th percentile total return, e.g. 0 = profitable in 95% of runs
+  max_p95_drawdown_pct: number;
+}
+
+export interface MonteCarloConfig {
+  runs: number;
+  seed: number;
+  methods: MonteCarloMethod[];
+  block_size: number;
+  skip_probability: number;
+  slippage_bps: number;
+  ruin_drawdown: number;        // Fraction of initial capital lost that counts as ruin
+  band_points: number;          // Checkpoints in the equity confidence bands
+  promotion: RobustnessGate;
+}
+
+const DEFAULT_CONFIG: MonteCarloConfig = {
+  runs: 1000,
+  seed: 42,
+  methods: [...MONTE_CARLO_METHODS],
+  block_size: 10,
+  skip_probability: 0.1,
+  slippage_bps: 5,
+  ruin_drawdown: 0.5,
+  band_points: 20,
+  promotion: {
+    enabled: true,
+    method: 'block_bootstrap',
+    max_risk_of_ruin: 0.01,
+    min_p5_return: 0,
+    max_p95_drawdown_pct: 0.35,
+  },
+};
+
+export interface Percentiles {
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface EquityBand {
+  trade: number;                // Trades into the run
+  p5: number;
+  p50: number;
+  p95: number;
+}
+
+export interface MonteCarloDistribution {
+  method: MonteCarloMethod;
+  runs: number;
+  final_equity: Percentiles;
+  total_return: Percentiles;
+  max_drawdown_pct: Percentiles;
+  risk_of_ruin: number;         // Fraction of runs that hit the ruin level
+  prob_loss: number;            // Fraction of runs ending below initial capital
+  equity_bands: EquityBand[];
+}
+
+export interface MonteCarloReport {
+  trades: number;
+  initial_capital: number;
+  historical: { final_equity: number; total_return: number; max_drawdown_pct: number };
+  methods: Partial<Record<MonteCarloMethod, MonteCarloDistribution>>;
+}
+
+export interface RobustnessDecision {
+  robust: boolean;
+  reasons: string[];
+}
+
+// Compact form stored next to evolved candidates
+export interface RobustnessSummary {
+  method: MonteCarloMethod;
+  runs: number;
+  p5_return: number;
+  p50_return: number;
+  p95_drawdown_pct: number;
+  risk_of_ruin: number;
+  robust: boolean;
+  reasons: string[];
+}
+
+export class MonteCarloAnalyzer {
+  private config: MonteCarloConfig;
+  private initialCapital: number;
+  private defaultNotional: number;
+  private state = 0;
+
+  constructor(
+    config: Partial<MonteCarloConfig> = {},
+    initialCapital: number = PerformanceAnalyzer.loadConfig().initial_capital,
+    defaultNotional: number = BacktestEngine.loadConfig().position_size
+  ) {
+    const base = MonteCarloAnalyzer.loadConfig();
+    this.config = { ...base, ...config, promotion: { ...base.promotion, ...config.promotion } };
+    this.initialCapital = initialCapital;
+    this.defaultNotional = defaultNotional;
+  }
+
+  /**
+   * Load monte_carlo from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): MonteCarloConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const section = features.monte_carlo || {};
+      return {
+        ...DEFAULT_CONFIG,
+        ...section,
+        promotion: { ...DEFAULT_CONFIG.promotion, ...(section.promotion || {}) },
+      };
+    } catch {
+      return { ...DEFAULT_CONFIG, promotion: { ...DEFAULT_CONFIG.promotion } };
+    }
+  }
+
+  static parseMethod(value: string): MonteCarloMethod {
+    if (!MONTE_CARLO_METHODS.includes(value as MonteCarloMethod)) {
+      throw new Error(`Unknown Monte Carlo method "${value}" (expected ${MONTE_CARLO_METHODS.join(' | ')})`);
+    }
+    return value as MonteCarloMethod;
+  }
+
+  getConfig(): MonteCarloConfig {
+    return this.config;
+  }
+
+  /**
+   * Run every configured method over the trades (ordered by exit time)
+   */
+  analyze(trades: MonteCarloTrade[], methods: MonteCarloMethod[] = this.config.methods): MonteCarloReport {
+    const ordered = [...trades].sort((a, b) => (a.exit_time ?? 0) - (b.exit_time ?? 0));
+    const historical = this.simulatePath(ordered.map(t => t.pnl));
+
+    const report: MonteCarloReport = {
+      trades: ordered.length,
+      initial_capital: this.initialCapital,
+      historical: {
+        final_equity: historical.finalEquity,
+        total_return: historical.finalEquity / this.initialCapital - 1,
+        max_drawdown_pct: historical.maxDrawdownPct,
+      },
+      methods: {},
+    };
+
+    for (const method of methods) {
+      report.methods[method] = this.distribution(ordered, method);
+    }
+    return report;
+  }
+
+  /**
+   * Check a report against the promotion gate (monte_carlo.promotion)
+   */
+  evaluate(report: MonteCarloReport): RobustnessDecision {
+    const gate = this.config.promotion;
+    const dist = report.methods[gate.method];
+    if (!gate.enabled) return { robust: true, reasons: ['robustness gate disabled'] };
+    if (!dist) return { robust: false, reasons: [`no ${gate.method} distribution`] };
+
+    const reasons: string[] = [];
+    let robust = true;
+    if (dist.risk_of_ruin > gate.max_risk_of_ruin) {
+      robust = false;
+      reasons.push(`risk of ruin ${(dist.risk_of_ruin * 100).toFixed(1)}% > ${(gate.max_risk_of_ruin * 100).toFixed(1)}%`);
+    }
+    if (dist.total_return.p5 < gate.min_p5_return) {
+      robust = false;
+      reasons.push(`p5 return ${(dist.total_return.p5 * 100).toFixed(1)}% < ${(gate.min_p5_return * 100).toFixed(1)}%`);
+    }
+    if (dist.max_drawdown_pct.p95 > gate.max_p95_drawdown_pct) {
+      robust = false;
+      reasons.push(`p95 drawdown ${(dist.max_drawdown_pct.p95 * 100).toFixed(1)}% > ${(gate.max_p95_drawdown_pct * 100).toFixed(1)}%`);
+    }
+    if (robust) {
+      reasons.push(`${gate.method}: p5 return ${(dist.total_return.p5 * 100).toFixed(1)}%, ` +
+        `p95 DD ${(dist.max_drawdown_pct.p95 * 100).toFixed(1)}%, ruin ${(dist.risk_of_ruin * 100).toFixed(1)}%`);
+    }
+    return { robust, reasons };
+  }
+
+  /**
+   * Gate-method distribution and decision in one record
+   */
+  summarize(report: MonteCarloReport): RobustnessSummary | null {
+    const method = this.config.promotion.method;
+    const dist = report.methods[method];
+    if (!dist) return null;
+    const decision = this.evaluate(report);
+    return {
+      method,
+      runs: dist.runs,
+      p5_return: dist.total_return.p5,
+      p50_return: dist.total_return.p50,
+      p95_drawdown_pct: dist.max_drawdown_pct.p95,
+      risk_of_ruin: dist.risk_of_ruin,
+      robust: decision.robust,
+      reasons: decision.reasons,
+    };
+  }
+
+  static printReport(report: MonteCarloReport, indent: string = '  '): void {
+    const h = report.historical;
+    console.log(`${indent}Historical: ${report.trades} trades | return ${(h.total_return * 100).toFixed(1)}% | max DD ${(h.max_drawdown_pct * 100).toFixed(1)}%`);
+    for (const dist of Object.values(report.methods)) {
+      if (!dist) continue;
+      const r = dist.total_return;
+      const dd = dist.max_drawdown_pct;
+      console.log(`${indent}${dist.method.padEnd(16)} return p5/p50/p95 ${(r.p5 * 100).toFixed(1)}% / ${(r.p50 * 100).toFixed(1)}% / ${(r.p95 * 100).toFixed(1)}%` +
+        ` | DD p50/p95 ${(dd.p50 * 100).toFixed(1)}% / ${(dd.p95 * 100).toFixed(1)}%` +
+        ` | ruin ${(dist.risk_of_ruin * 100).toFixed(1)}% | loss ${(dist.prob_loss * 100).toFixed(1)}%`);
+    }
+  }
+
+  private distribution(trades: MonteCarloTrade[], method: MonteCarloMethod): MonteCarloDistribution {
+    // Each method restarts from the seed so adding or removing one leaves the others unchanged
+    this.state = this.config.seed >>> 0;
+    const runs = Math.max(1, this.config.runs);
+    const finals: number[] = [];
+    const drawdowns: number[] = [];
+    const curves: number[][] = [];
+    let ruined = 0;
+
+    for (let run = 0; run < runs; run++) {
+      const pnls = this.resample(trades, method);
+      const result = this.simulatePath(pnls);
+      finals.push(result.finalEquity);
+      drawdowns.push(result.maxDrawdownPct);
+      curves.push(result.curve);
+      if (result.ruined) ruined++;
+    }
+
+    const returns = finals.map(e => e / this.initialCapital - 1);
+    return {
+      method,
+      runs,
+      final_equity: MonteCarloAnalyzer.percentiles(finals),
+      total_return: MonteCarloAnalyzer.percentiles(returns),
+      max_drawdown_pct: MonteCarloAnalyzer.percentiles(drawdowns),
+      risk_of_ruin: ruined / runs,
+      prob_loss: finals.filter(e => e < this.initialCapital).length / runs,
+      equity_bands: this.equityBands(curves),
+    };
+  }
+
+  /**
+   * One alternative P&L sequence
+   */
+  private resample(trades: MonteCarloTrade[], method: MonteCarloMethod): number[] {
+    const n = trades.length;
+    if (n === 0) return [];
+
+    switch (method) {
+      case 'bootstrap':
+        return trades.map(() => trades[this.randomInt(n)].pnl);
+
+      case 'block_bootstrap': {
+        // Circular blocks so trades near the end are drawn as often as the rest
+        const block = Math.max(1, Math.min(this.config.block_size, n));
+        const pnls: number[] = [];
+        while (pnls.length < n) {
+          const start = this.randomInt(n);
+          for (let k = 0; k < block && pnls.length < n; k++) {
+            pnls.push(trades[(start + k) % n].pnl);
+          }
+        }
+        return pnls;
+      }
+
+      case 'skip':
+        return trades.filter(() => this.random() >= this.config.skip_probability).map(t => t.pnl);
+
+      case 'slippage':
+        return trades.map(t => {
+          const notional = t.notional ?? this.defaultNotional;
+          // Entry and exit leg drawn separately
+          const bps = (this.random() + this.random()) * 2 * this.config.slippage_bps;
+          return t.pnl - (notional * bps) / 10000;
+        });
+    }
+  }
+
+  private simulatePath(pnls: number[]): { finalEquity: number; maxDrawdownPct: number; ruined: boolean; curve: number[] } {
+    const ruinLevel = this.initialCapital * (1 - this.config.ruin_drawdown);
+    const curve: number[] = [];
+    let equity = this.initialCapital;
+    let peak = equity;
+    let maxDrawdownPct = 0;
+    let ruined = false;
+
+    for (const pnl of pnls) {
+      equity += pnl;
+      curve.push(equity);
+      peak = Math.max(peak, equity);
+      if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (peak - equity) / peak);
+      if (equity <= ruinLevel) ruined = true;
+    }
+
+    return { finalEquity: equity, maxDrawdownPct, ruined, curve };
+  }
+
+  /**
+   * p5/p50/p95 equity at evenly spaced trade counts (runs shorter than a
+   * checkpoint - skip - hold their final equity)
+   */
+  private equityBands(curves: number[][]): EquityBand[] {
+    const length = curves.reduce((m, c) => Math.max(m, c.length), 0);
+    if (length === 0) return [];
+
+    const points = Math.max(1, Math.min(this.config.band_points, length));
+    const bands: EquityBand[] = [];
+    for (let p = 1; p <= points; p++) {
+      const trade = Math.round((p * length) / points);
+      const values = curves.map(c => c.length === 0 ? this.initialCapital : c[Math.min(trade, c.length) - 1]);
+      const pct = MonteCarloAnalyzer.percentiles(values);
+      bands.push({ trade, p5: pct.p5, p50: pct.p50, p95: pct.p95 });
+    }
+    return bands;
+  }
+
+  private static percentiles(values: number[]): Percentiles {
+    if (values.length === 0) return { mean: 0, p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 };
+    const sorted = [...values].sort((a, b) => a - b);
+    const at = (q: number) => {
+      const pos = (sorted.length - 1) * q;
+      const lo = Math.floor(pos);
+      const hi = Math.ceil(pos);
+      return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+    };
+    return {
+      mean: sorted.reduce((s, v) => s + v, 0) / sorted.length,
+      p5: at(0.05),
+      p25: at(0.25),
+      p50: at(0.5),
+      p75: at(0.75),
+      p95: at(0.95),
+    };
+  }
+
+  /**
+   * Seeded uniform [0, 1) (mulberry32)
+   */
+  private random(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  private randomInt(n: number): number {
+    return Math.floor(this.random() * n);
+  }
+}
@@ -16,6 +16,11 @@ import { ICTIndicators } from './ict-indicators.js';
 import { FeatureExtractor, TradeFeatures } from './trade-features.js';
 import { UnifiedScoring } from './unified-scoring.js';
 import { TradingMLModel } from './ml-model.js';
+import { TradingCostModel } from './trading-costs.js';
+import { ModelRegistry } from './model-registry.js';
+import { TradePath, PathStats } from './trade-path.js';
+import { CandleResampler } from './candle-resampler.js';
+import { RegimeClassifier, MarketRegime } from './market-regime.js';
 
 // Configuration
 const CONFIG = {
@@ -51,8 +56,14 @@ interface PaperTrade {
   exitPrice?: number;
   exitTime?: number;
   exitReason?: 'TP' | 'SL' | 'MANUAL';
-  pnl?: number;
+  pnl?: number;          // Net of costs
   pnlPercent?: number;
+  grossPnl?: number;
+  fees?: number;
+  slippage?: number;
+  funding?: number;
+  path?: PathStats;      // MAE/MFE etc. from the polled prices while open
+  regime?: MarketRegime; // Regime at entry
   mlPrediction: number;
   smcScore: number;
   ictScore: number;
@@ -74,6 +85,8 @@ interface TradingState {
 class PaperTrader {
   private client: ReturnType<typeof Binance>;
   private mlModel: TradingMLModel;
+  private costModel: TradingCostModel;
+  private regimes: RegimeClassifier;
   private state: TradingState;
   private candles: Candle[] = [];
   private running: boolean = false;
@@ -81,6 +94,8 @@ class PaperTrader {
   constructor() {
     this.client = Binance();
     this.mlModel = new TradingMLModel();
+    this.costModel = new TradingCostModel();
+    this.regimes = new RegimeClassifier();
     this.state = this.loadState();
   }
 
@@ -129,12 +144,14 @@ class PaperTrader {
     console.log('║           PAPER TRADING - Live Model Testing                   ║');
     console.log('╚═══════════════════════════════════════════════════════════════╝\n');
 
-    // Load ML model weights
-    const weightsFile = path.join(process.cwd(), 'data', 'models', 'model-weights.json');
+    // Load ML model weights - registry champion, else the legacy weights file
+    const modelDir = path.join(process.cwd(), 'data', 'models');
+    const champion = new ModelRegistry(modelDir).getChampionArtifact('logistic', 'weights');
+    const weightsFile = champion || path.join(modelDir, 'model-weights.json');
     if (fs.existsSync(weightsFile)) {
       const weights = JSON.parse(fs.readFileSync(weightsFile, 'utf-8'));
       this.mlModel.importWeights(weights);
-      console.log('✓ ML model loaded');
+      console.log(`✓ ML model loaded${champion ? ` (champion ${path.basename(path.dirname(champion))})` : ''}`);
     } else {
       console.log('⚠ No model weights found. Run npm run learn-loop first.');
     }
@@ -349,6 +366,8 @@ class PaperTrader {
       takeProfit,
       positionSize,
       status: 'OPEN',
+      path: TradePath.empty(),
+      regime: this.regimes.current(this.candles)?.regime,
       mlPrediction: analysis.mlPrediction,
       smcScore: analysis.smcScore,
       ictScore: analysis.ictScore,
@@ -363,6 +382,7 @@ class PaperTrader {
     console.log(`   SL: $${trade.stopLoss.toFixed(2)}`);
     console.log(`   TP: $${trade.takeProfit.toFixed(2)}`);
     console.log(`   ML: ${(trade.mlPrediction * 100).toFixed(0)}%`);
+    console.log(`   Regime: ${trade.regime ?? 'unknown'}`);
     console.log(`   Size: ${trade.positionSize.toFixed(4)} BTC\n`);
   }
 
@@ -384,6 +404,7 @@ class PaperTrader {
     // Check stop loss
     if ((isLong && currentPrice <= trade.stopLoss) ||
         (!isLong && currentPrice >= trade.stopLoss)) {
+      this.trackPath(trade, trade.stopLoss, null);
       await this.closeTrade(trade.stopLoss, 'SL');
       return;
     }
@@ -391,15 +412,36 @@ class PaperTrader {
     // Check take profit
     if ((isLong && currentPrice >= trade.takeProfit) ||
         (!isLong && currentPrice <= trade.takeProfit)) {
+      this.trackPath(trade, null, trade.takeProfit);
       await this.closeTrade(trade.takeProfit, 'TP');
       return;
     }
 
+    this.trackPath(trade, currentPrice, currentPrice);
+
     // Log position status
     const pnlColor = unrealizedPnl >= 0 ? '+' : '';
     process.stdout.write(`\r[${timestamp}] ${trade.direction} @ $${trade.entryPrice.toFixed(0)} | Now: $${currentPrice.toFixed(0)} | P&L: ${pnlColor}$${unrealizedPnl.toFixed(2)} (${pnlColor}${pnlPercent.toFixed(2)}%)     `);
   }
 
+  /**
+   * Update MAE/MFE with the latest price - excursions stop at the fill price,
+   * bars are counted in CONFIG.interval candles since entry
+   */
+  private trackPath(trade: PaperTrade, adverse: number | null, favourable: number | null): void {
+    trade.path = trade.path || TradePath.empty();
+    const bar = Math.floor((Date.now() - trade.entryTime) / CandleResampler.intervalMs(CONFIG.interval));
+    TradePath.update(
+      trade.path,
+      trade.direction === 'LONG' ? 'long' : 'short',
+      trade.entryPrice,
+      Math.abs(trade.entryPrice - trade.stopLoss),
+      bar,
+      adverse,
+      favourable
+    );
+  }
+
   /**
    * Close the open trade
    */
@@ -410,14 +452,38 @@ class PaperTrader {
     const priceDiff = isLong
       ? exitPrice - trade.entryPrice
       : trade.entryPrice - exitPrice;
-    const pnl = priceDiff * trade.positionSize;
-    const pnlPercent = (priceDiff / trade.entryPrice) * 100;
+    const grossPnl = priceDiff * trade.positionSize;
+    const exitTime = Date.now();
+
+    // Same cost model as the backtests: TP is a resting limit (maker), SL/manual are market (taker)
+    const atr = SMCIndicators.atr(this.candles, 14);
+    const lastCandle = this.candles[this.candles.length - 1];
+    const costs = this.costModel.calculate({
+      symbol: trade.symbol,
+      direction: isLong ? 'long' : 'short',
+      notional: trade.entryPrice * trade.positionSize,
+      entry: { fraction: 1, price: trade.entryPrice, order: 'taker', time: trade.entryTime },
+      exits: [{
+        fraction: 1,
+        price: exitPrice,
+        order: reason === 'TP' ? 'maker' : 'taker',
+        time: exitTime,
+        context: { atr: atr[atr.length - 1], volume: lastCandle?.volume },
+      }],
+    });
+
+    const pnl = grossPnl - costs.total;
+    const pnlPercent = (pnl / (trade.entryPrice * trade.positionSize)) * 100;
 
     trade.exitPrice = exitPrice;
-    trade.exitTime = Date.now();
+    trade.exitTime = exitTime;
     trade.exitReason = reason;
     trade.pnl = pnl;
     trade.pnlPercent = pnlPercent;
+    trade.grossPnl = grossPnl;
+    trade.fees = costs.fees;
+    trade.slippage = costs.slippage;
+    trade.funding = costs.funding;
     trade.status = 'CLOSED';
 
     // Update balance
@@ -443,6 +509,10 @@ class PaperTrader {
     console.log(`   Entry: $${trade.entryPrice.toFixed(2)}`);
     console.log(`   Exit: $${exitPrice.toFixed(2)}`);
     console.log(`   P&L: ${pnlSign}$${pnl.toFixed(2)} (${pnlSign}${pnlPercent.toFixed(2)}%)`);
+    console.log(`   Costs: $${costs.total.toFixed(2)} (fees $${costs.fees.toFixed(2)}, slippage $${costs.slippage.toFixed(2)}, funding $${costs.funding.toFixed(2)})`);
+    if (trade.path) {
+      console.log(`   MAE: ${trade.path.mae_r.toFixed(2)}R | MFE: ${trade.path.mfe_r.toFixed(2)}R (bar ${trade.path.bars_to_mfe}) | Exit bar: ${trade.path.exit_bar}`);
+    }
     console.log(`\n📊 Stats: ${this.state.stats.wins}W/${this.state.stats.losses}L (${(this.state.stats.winRate * 100).toFixed(0)}%) | Balance: $${this.state.balance.toFixed(2)}\n`);
   }
 
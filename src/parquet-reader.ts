@@ -0,0 +1,782 @@
+/**
+ * Parquet Reader
+ * Pure TypeScript decoder for the Parquet files in Historical_Data_Lite
+ *
+ * Supports what pandas/pyarrow write for flat OHLCV tables:
+ *   - Thrift compact protocol footer and page headers
+ *   - Data pages v1 and v2, dictionary pages
+ *   - Encodings: PLAIN, PLAIN_DICTIONARY / RLE_DICTIONARY, RLE (levels, booleans)
+ *   - Codecs: UNCOMPRESSED, SNAPPY, GZIP
+ *   - Physical types: BOOLEAN, INT32, INT64, INT96, FLOAT, DOUBLE, BYTE_ARRAY,
+ *     FIXED_LEN_BYTE_ARRAY; optional (nullable) columns, no nesting
+ *
+ * Numeric columns decode straight into Float64Array (nulls = NaN). Timestamp
+ * columns (TIMESTAMP logical/converted type, INT96) are converted to epoch ms.
+ *
+ * Usage:
+ *   const reader = ParquetReader.fromFile('BTCUSDT_1d.parquet');
+ *   const closes = reader.readColumn('close') as Float64Array;
+ *   const candles = ParquetReader.readCandles('BTCUSDT_1d.parquet');
+ */
+
+import fs from 'fs';
+import zlib from 'zlib';
+import { Candle } from './smc-indicators.js';
+
+// ═══════════════════════════════════════════════════════════════
+// FORMAT CONSTANTS
+// ═══════════════════════════════════════════════════════════════
+
+const MAGIC = 'PAR1';
+
+enum PhysicalType {
+  BOOLEAN = 0,
+  INT32 = 1,
+  INT64 = 2,
+  INT96 = 3,
+  FLOAT = 4,
+  DOUBLE = 5,
+  BYTE_ARRAY = 6,
+  FIXED_LEN_BYTE_ARRAY = 7,
+}
+
+enum Encoding {
+  PLAIN = 0,
+  PLAIN_DICTIONARY = 2,
+  RLE = 3,
+  BIT_PACKED = 4,
+  RLE_DICTIONARY = 8,
+}
+
+enum Codec {
+  UNCOMPRESSED = 0,
+  SNAPPY = 1,
+  GZIP = 2,
+}
+
+enum PageType {
+  DATA_PAGE = 0,
+  INDEX_PAGE = 1,
+  DICTIONARY_PAGE = 2,
+  DATA_PAGE_V2 = 3,
+}
+
+enum Repetition {
+  REQUIRED = 0,
+  OPTIONAL = 1,
+  REPEATED = 2,
+}
+
+// ConvertedType values for timestamps
+const TIMESTAMP_MILLIS = 9;
+const TIMESTAMP_MICROS = 10;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const JULIAN_EPOCH_DAY = 2440588;   // Julian day number of 1970-01-01
+
+// ═══════════════════════════════════════════════════════════════
+// PUBLIC TYPES
+// ═══════════════════════════════════════════════════════════════
+
+export type TimeUnit = 'ms' | 'us' | 'ns';
+
+export interface ParquetColumnInfo {
+  name: string;
+  type: PhysicalType;
+  typeLength: number;         // FIXED_LEN_BYTE_ARRAY width
+  optional: boolean;
+  timeUnit: TimeUnit | null;  // Set for timestamp columns
+}
+
+export type ParquetColumnValues = Float64Array | Array<string | null>;
+
+// ═══════════════════════════════════════════════════════════════
+// THRIFT COMPACT PROTOCOL
+// ═══════════════════════════════════════════════════════════════
+
+// Decoded value: every integer width as a number (offsets/sizes fit in 2^53), binary as Buffer
+type ThriftValue = number | boolean | Buffer | ThriftValue[] | Map<ThriftValue, ThriftValue> | ThriftStruct;
+
+// Decoded struct: field id → value (nested structs/lists decoded recursively)
+interface ThriftStruct {
+  [fieldId: number]: ThriftValue | undefined;
+}
+
+function isThriftStruct(value: ThriftValue): value is ThriftStruct {
+  return typeof value === 'object' && !Array.isArray(value) && !Buffer.isBuffer(value) && !(value instanceof Map);
+}
+
+/**
+ * Typed access to decoded struct fields - a field of the wrong type means a
+ * corrupt or unsupported file. Optional fields come back undefined.
+ */
+const thrift = {
+  number(struct: ThriftStruct, fieldId: number): number | undefined {
+    const value = struct[fieldId];
+    if (value === undefined || typeof value === 'number') return value;
+    throw new Error(`Parquet: thrift field ${fieldId} is not an integer`);
+  },
+
+  boolean(struct: ThriftStruct, fieldId: number): boolean | undefined {
+    const value = struct[fieldId];
+    if (value === undefined || typeof value === 'boolean') return value;
+    throw new Error(`Parquet: thrift field ${fieldId} is not a boolean`);
+  },
+
+  buffer(struct: ThriftStruct, fieldId: number): Buffer | undefined {
+    const value = struct[fieldId];
+    if (value === undefined || Buffer.isBuffer(value)) return value;
+    throw new Error(`Parquet: thrift field ${fieldId} is not binary`);
+  },
+
+  struct(struct: ThriftStruct, fieldId: number): ThriftStruct | undefined {
+    const value = struct[fieldId];
+    if (value === undefined || isThriftStruct(value)) return value;
+    throw new Error(`Parquet: thrift field ${fieldId} is not a struct`);
+  },
+
+  /** List of structs (empty when the field is absent) */
+  structs(struct: ThriftStruct, fieldId: number): ThriftStruct[] {
+    const value = struct[fieldId];
+    if (value === undefined) return [];
+    if (Array.isArray(value) && value.every(isThriftStruct)) return value as ThriftStruct[];
+    throw new Error(`Parquet: thrift field ${fieldId} is not a list of structs`);
+  },
+
+  /** Field the format requires */
+  required<T>(value: T | undefined, name: string): T {
+    if (value === undefined) throw new Error(`Parquet: missing ${name}`);
+    return value;
+  },
+};
+
+class ThriftCompactReader {
+  private buf: Buffer;
+  pos: number;
+
+  constructor(buf: Buffer, offset: number = 0) {
+    this.buf = buf;
+    this.pos = offset;
+  }
+
+  readStruct(): ThriftStruct {
+    const result: ThriftStruct = {};
+    let fieldId = 0;
+
+    for (;;) {
+      const header = this.buf[this.pos++];
+      const type = header & 0x0f;
+      if (type === 0) break;   // STOP
+
+      const delta = header >> 4;
+      fieldId = delta !== 0 ? fieldId + delta : this.readZigzag();
+      result[fieldId] = this.readValue(type);
+    }
+
+    return result;
+  }
+
+  private readValue(type: number): ThriftValue {
+    switch (type) {
+      case 1: return true;                  // BOOLEAN_TRUE
+      case 2: return false;                 // BOOLEAN_FALSE
+      case 3: return this.buf.readInt8(this.pos++);
+      case 4:                               // I16
+      case 5:                               // I32
+      case 6: return this.readZigzag();     // I64 (offsets/sizes fit in 2^53)
+      case 7: {
+        const v = this.buf.readDoubleLE(this.pos);
+        this.pos += 8;
+        return v;
+      }
+      case 8: {
+        const len = this.readVarint();
+        const v = this.buf.subarray(this.pos, this.pos + len);
+        this.pos += len;
+        return v;
+      }
+      case 9:                               // LIST
+      case 10: return this.readList();      // SET
+      case 11: return this.readMap();
+      case 12: return this.readStruct();
+      default:
+        throw new Error(`Parquet: unknown thrift type ${type} at offset ${this.pos}`);
+    }
+  }
+
+  private readList(): ThriftValue[] {
+    const header = this.buf[this.pos++];
+    let size = header >> 4;
+    const elemType = header & 0x0f;
+    if (size === 15) size = this.readVarint();
+
+    const items: ThriftValue[] = [];
+    for (let i = 0; i < size; i++) {
+      // Booleans inside containers are one byte each
+      items.push(elemType === 1 || elemType === 2 ? this.buf[this.pos++] === 1 : this.readValue(elemType));
+    }
+    return items;
+  }
+
+  private readMap(): Map<ThriftValue, ThriftValue> {
+    const size = this.readVarint();
+    const map = new Map<ThriftValue, ThriftValue>();
+    if (size === 0) return map;
+
+    const types = this.buf[this.pos++];
+    for (let i = 0; i < size; i++) {
+      map.set(this.readValue(types >> 4), this.readValue(types & 0x0f));
+    }
+    return map;
+  }
+
+  readVarint(): number {
+    let result = 0;
+    let multiplier = 1;
+    for (;;) {
+      const byte = this.buf[this.pos++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) return result;
+      multiplier *= 128;
+    }
+  }
+
+  private readZigzag(): number {
+    const n = this.readVarint();
+    return n % 2 === 0 ? n / 2 : -(n + 1) / 2;
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// DECOMPRESSION
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * Snappy raw block decompression (no framing)
+ */
+function snappyDecompress(input: Buffer): Buffer {
+  let pos = 0;
+
+  // Preamble: uncompressed length as varint
+  let length = 0;
+  let shift = 0;
+  for (;;) {
+    const byte = input[pos++];
+    length += (byte & 0x7f) * 2 ** shift;
+    if ((byte & 0x80) === 0) break;
+    shift += 7;
+  }
+
+  const output = Buffer.alloc(length);
+  let out = 0;
+
+  while (pos < input.length) {
+    const tag = input[pos++];
+    const kind = tag & 0x03;
+
+    if (kind === 0) {
+      // Literal
+      let len = tag >> 2;
+      if (len >= 60) {
+        const bytes = len - 59;
+        len = input.readUIntLE(pos, bytes);
+        pos += bytes;
+      }
+      len += 1;
+      input.copy(output, out, pos, pos + len);
+      pos += len;
+      out += len;
+      continue;
+    }
+
+    let len: number;
+    let offset: number;
+    if (kind === 1) {
+      len = ((tag >> 2) & 0x07) + 4;
+      offset = ((tag >> 5) << 8) | input[pos++];
+    } else if (kind === 2) {
+      len = (tag >> 2) + 1;
+      offset = input.readUInt16LE(pos);
+      pos += 2;
+    } else {
+      len = (tag >> 2) + 1;
+      offset = input.readUInt32LE(pos);
+      pos += 4;
+    }
+
+    if (offset === 0 || offset > out) {
+      throw new Error(`Parquet: corrupt snappy block (offset ${offset} at ${out})`);
+    }
+
+    // Copies may overlap their own output - go byte by byte
+    for (let i = 0; i < len; i++, out++) {
+      output[out] = output[out - offset];
+    }
+  }
+
+  if (out !== length) {
+    throw new Error(`Parquet: snappy length mismatch (${out} != ${length})`);
+  }
+  return output;
+}
+
+function decompress(codec: Codec, data: Buffer, uncompressedSize: number): Buffer {
+  switch (codec) {
+    case Codec.UNCOMPRESSED:
+      return data;
+    case Codec.SNAPPY:
+      return snappyDecompress(data);
+    case Codec.GZIP: {
+      const out = zlib.gunzipSync(data);
+      if (out.length !== uncompressedSize) {
+        throw new Error(`Parquet: gzip length mismatch (${out.length} != ${uncompressedSize})`);
+      }
+      return out;
+    }
+    default:
+      throw new Error(`Parquet: unsupported compression codec ${codec}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// VALUE DECODING
+// ═══════════════════════════════════════════════════════════════
+
+/**
+ * RLE / bit-packed hybrid (definition levels, dictionary indices, booleans)
+ */
+function decodeHybrid(buf: Buffer, pos: number, end: number, bitWidth: number, count: number): Int32Array {
+  const values = new Int32Array(count);
+  const byteWidth = Math.ceil(bitWidth / 8);
+  const mask = bitWidth === 32 ? 0xffffffff : (1 << bitWidth) - 1;
+  let n = 0;
+
+  while (n < count && pos < end) {
+    // Header varint
+    let header = 0;
+    let shift = 0;
+    for (;;) {
+      const byte = buf[pos++];
+      header += (byte & 0x7f) * 2 ** shift;
+      if ((byte & 0x80) === 0) break;
+      shift += 7;
+    }
+
+    if (header & 1) {
+      // Bit-packed run: (header >> 1) groups of 8 values, LSB first
+      const total = Math.floor(header / 2) * 8;
+      let bitPos = 0;
+      for (let i = 0; i < total; i++) {
+        let v = 0;
+        for (let b = 0; b < bitWidth; b++, bitPos++) {
+          if (buf[pos + (bitPos >> 3)] & (1 << (bitPos & 7))) v |= 1 << b;
+        }
+        if (n < count) values[n++] = v & mask;
+      }
+      pos += Math.ceil(total * bitWidth / 8);
+    } else {
+      // RLE run: value repeated (header >> 1) times
+      const run = Math.floor(header / 2);
+      const v = byteWidth > 0 ? buf.readUIntLE(pos, byteWidth) : 0;
+      pos += byteWidth;
+      values.fill(v, n, Math.min(count, n + run));
+      n += run;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Bit width needed for values 0..maxValue
+ */
+function bitWidthOf(maxValue: number): number {
+  return maxValue === 0 ? 0 : Math.floor(Math.log2(maxValue)) + 1;
+}
+
+/**
+ * INT96 (legacy Impala/pandas timestamp): nanos-of-day (8) + julian day (4)
+ */
+function int96ToMs(buf: Buffer, pos: number): number {
+  const nanos = buf.readBigInt64LE(pos);
+  const julianDay = buf.readInt32LE(pos + 8);
+  return (julianDay - JULIAN_EPOCH_DAY) * MS_PER_DAY + Number(nanos / 1000000n);
+}
+
+/**
+ * PLAIN-encoded values into a numeric or string target
+ */
+function decodePlain(
+  buf: Buffer,
+  pos: number,
+  column: ParquetColumnInfo,
+  count: number
+): { numbers: Float64Array | null; strings: Array<string | null> | null } {
+  switch (column.type) {
+    case PhysicalType.BOOLEAN: {
+      const numbers = new Float64Array(count);
+      for (let i = 0; i < count; i++) {
+        numbers[i] = (buf[pos + (i >> 3)] >> (i & 7)) & 1;
+      }
+      return { numbers, strings: null };
+    }
+    case PhysicalType.INT32: {
+      const numbers = new Float64Array(count);
+      for (let i = 0; i < count; i++) numbers[i] = buf.readInt32LE(pos + i * 4);
+      return { numbers, strings: null };
+    }
+    case PhysicalType.INT64: {
+      const numbers = new Float64Array(count);
+      for (let i = 0; i < count; i++) numbers[i] = Number(buf.readBigInt64LE(pos + i * 8));
+      return { numbers, strings: null };
+    }
+    case PhysicalType.INT96: {
+      const numbers = new Float64Array(count);
+      for (let i = 0; i < count; i++) numbers[i] = int96ToMs(buf, pos + i * 12);
+      return { numbers, strings: null };
+    }
+    case PhysicalType.FLOAT: {
+      const numbers = new Float64Array(count);
+      for (let i = 0; i < count; i++) numbers[i] = buf.readFloatLE(pos + i * 4);
+      return { numbers, strings: null };
+    }
+    case PhysicalType.DOUBLE: {
+      const numbers = new Float64Array(count);
+      for (let i = 0; i < count; i++) numbers[i] = buf.readDoubleLE(pos + i * 8);
+      return { numbers, strings: null };
+    }
+    case PhysicalType.BYTE_ARRAY: {
+      const strings: string[] = [];
+      for (let i = 0; i < count; i++) {
+        const len = buf.readInt32LE(pos);
+        strings.push(buf.toString('utf8', pos + 4, pos + 4 + len));
+        pos += 4 + len;
+      }
+      return { numbers: null, strings };
+    }
+    case PhysicalType.FIXED_LEN_BYTE_ARRAY: {
+      const strings: string[] = [];
+      for (let i = 0; i < count; i++, pos += column.typeLength) {
+        strings.push(buf.toString('hex', pos, pos + column.typeLength));
+      }
+      return { numbers: null, strings };
+    }
+    default:
+      throw new Error(`Parquet: unsupported physical type ${column.type} (column ${column.name})`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════
+// READER
+// ═══════════════════════════════════════════════════════════════
+
+export class ParquetReader {
+  private buf: Buffer;
+  private metadata: ThriftStruct;
+  private columns: ParquetColumnInfo[];
+
+  constructor(buffer: Buffer) {
+    this.buf = buffer;
+
+    if (buffer.length < 12 ||
+        buffer.toString('ascii', 0, 4) !== MAGIC ||
+        buffer.toString('ascii', buffer.length - 4) !== MAGIC) {
+      throw new Error('Parquet: not a parquet file (missing PAR1 magic)');
+    }
+
+    const footerLength = buffer.readUInt32LE(buffer.length - 8);
+    const footerStart = buffer.length - 8 - footerLength;
+    this.metadata = new ThriftCompactReader(buffer, footerStart).readStruct();
+    this.columns = this.parseSchema(thrift.structs(this.metadata, 2));
+  }
+
+  static fromFile(filePath: string): ParquetReader {
+    return new ParquetReader(fs.readFileSync(filePath));
+  }
+
+  get numRows(): number {
+    return thrift.number(this.metadata, 3) ?? 0;
+  }
+
+  getColumns(): ParquetColumnInfo[] {
+    return this.columns.map(c => ({ ...c }));
+  }
+
+  /**
+   * Decode one column across all row groups
+   * Numeric columns → Float64Array (timestamps in epoch ms, nulls NaN),
+   * BYTE_ARRAY → strings (FIXED_LEN_BYTE_ARRAY as hex)
+   */
+  readColumn(name: string): ParquetColumnValues {
+    const columnIndex = this.columns.findIndex(c => c.name === name);
+    if (columnIndex === -1) {
+      throw new Error(`Parquet: column not found: ${name} (columns: ${this.columns.map(c => c.name).join(', ')})`);
+    }
+
+    const column = this.columns[columnIndex];
+    const numeric = column.type !== PhysicalType.BYTE_ARRAY && column.type !== PhysicalType.FIXED_LEN_BYTE_ARRAY;
+    const numbers = numeric ? new Float64Array(this.numRows) : null;
+    const strings: Array<string | null> | null = numeric ? null : new Array(this.numRows).fill(null);
+    let row = 0;
+
+    for (const rowGroup of thrift.structs(this.metadata, 4)) {
+      const chunk = thrift.required(thrift.structs(rowGroup, 1)[columnIndex], `column chunk ${columnIndex}`);
+      const meta = thrift.required(thrift.struct(chunk, 3), 'column chunk metadata');
+      row = this.readColumnChunk(column, meta, numbers, strings, row);
+    }
+
+    if (numbers) {
+      this.toMilliseconds(column, numbers);
+      return numbers;
+    }
+    return strings!;
+  }
+
+  /**
+   * Load an OHLCV file as candles
+   * Columns are matched by name (timestamp/open_time/time/date, open, high, low,
+   * close, volume), falling back to the first six columns in file order.
+   * String-typed price columns are parsed as numbers.
+   */
+  static readCandles(filePath: string): Candle[] {
+    const reader = ParquetReader.fromFile(filePath);
+    const names = reader.columns.map(c => c.name.toLowerCase());
+    const pick = (candidates: string[], fallback: number): string => {
+      const idx = names.findIndex(n => candidates.includes(n));
+      const column = reader.columns[idx !== -1 ? idx : fallback];
+      if (!column) throw new Error(`Parquet: ${filePath} has no ${candidates[0]} column`);
+      return column.name;
+    };
+
+    // Some exports store prices as decimal strings - parse those
+    const read = (name: string): Float64Array => {
+      const values = reader.readColumn(name);
+      if (values instanceof Float64Array) return values;
+      return Float64Array.from(values, v => (v === null ? NaN : parseFloat(v)));
+    };
+
+    const timestamp = read(pick(['timestamp', 'open_time', 'time', 'date', 'datetime'], 0));
+    const open = read(pick(['open'], 1));
+    const high = read(pick(['high'], 2));
+    const low = read(pick(['low'], 3));
+    const close = read(pick(['close'], 4));
+    const volume = read(pick(['volume'], 5));
+
+    const candles: Candle[] = [];
+    for (let i = 0; i < reader.numRows; i++) {
+      if (Number.isNaN(timestamp[i]) || Number.isNaN(close[i])) continue;
+      candles.push({
+        timestamp: timestamp[i],
+        open: open[i],
+        high: high[i],
+        low: low[i],
+        close: close[i],
+        volume: volume[i],
+      });
+    }
+    return candles;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // INTERNALS
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Flatten the schema tree into leaf columns (flat tables only)
+   */
+  private parseSchema(elements: ThriftStruct[]): ParquetColumnInfo[] {
+    const columns: ParquetColumnInfo[] = [];
+
+    // elements[0] is the root; leaves have a physical type and no children
+    for (const el of elements.slice(1)) {
+      const name = thrift.required(thrift.buffer(el, 4), 'schema element name').toString('utf8');
+      const repetition = thrift.number(el, 3);
+      if (thrift.number(el, 5)) {
+        throw new Error('Parquet: nested schemas are not supported');
+      }
+      if (repetition === Repetition.REPEATED) {
+        throw new Error(`Parquet: repeated column ${name} is not supported`);
+      }
+
+      columns.push({
+        name,
+        type: thrift.required(thrift.number(el, 1), `physical type of ${name}`),
+        typeLength: thrift.number(el, 2) ?? 0,
+        optional: repetition === Repetition.OPTIONAL,
+        timeUnit: this.timeUnitOf(el),
+      });
+    }
+
+    return columns;
+  }
+
+  private timeUnitOf(el: ThriftStruct): TimeUnit | null {
+    if (thrift.number(el, 1) === PhysicalType.INT96) return 'ms';   // Converted while decoding
+
+    // LogicalType union: field 8 = TIMESTAMP { 1: isAdjustedToUTC, 2: unit }
+    const logical = thrift.struct(el, 10);
+    const timestamp = logical ? thrift.struct(logical, 8) : undefined;
+    const unit = timestamp ? thrift.struct(timestamp, 2) : undefined;
+    if (unit) {
+      if (unit[1] !== undefined) return 'ms';
+      if (unit[2] !== undefined) return 'us';
+      if (unit[3] !== undefined) return 'ns';
+    }
+
+    const converted = thrift.number(el, 6);
+    if (converted === TIMESTAMP_MILLIS) return 'ms';
+    if (converted === TIMESTAMP_MICROS) return 'us';
+    return null;
+  }
+
+  private toMilliseconds(column: ParquetColumnInfo, values: Float64Array): void {
+    if (column.type === PhysicalType.INT96) return;
+    const divisor = column.timeUnit === 'us' ? 1e3 : column.timeUnit === 'ns' ? 1e6 : 1;
+    if (divisor === 1) return;
+    for (let i = 0; i < values.length; i++) {
+      values[i] = Math.floor(values[i] / divisor);
+    }
+  }
+
+  /**
+   * Decode every page of one column chunk, writing from `row` onwards
+   */
+  private readColumnChunk(
+    column: ParquetColumnInfo,
+    meta: ThriftStruct,
+    numbers: Float64Array | null,
+    strings: Array<string | null> | null,
+    row: number
+  ): number {
+    const codec: Codec = thrift.required(thrift.number(meta, 4), 'compression codec');
+    const totalValues = thrift.required(thrift.number(meta, 5), 'column value count');
+    const dictionaryOffset = thrift.number(meta, 11);
+    const dataOffset = thrift.required(thrift.number(meta, 9), 'data page offset');
+
+    let pos = dictionaryOffset !== undefined && dictionaryOffset > 0 ? Math.min(dictionaryOffset, dataOffset) : dataOffset;
+    let valuesRead = 0;
+    let dictionary: { numbers: Float64Array | null; strings: Array<string | null> | null } | null = null;
+    const maxDefinition = column.optional ? 1 : 0;
+
+    while (valuesRead < totalValues) {
+      const headerReader = new ThriftCompactReader(this.buf, pos);
+      const header = headerReader.readStruct();
+      const pageType: PageType = thrift.required(thrift.number(header, 1), 'page type');
+      const uncompressedSize = thrift.required(thrift.number(header, 2), 'uncompressed page size');
+      const compressedSize = thrift.required(thrift.number(header, 3), 'compressed page size');
+      const pageStart = headerReader.pos;
+      const raw = this.buf.subarray(pageStart, pageStart + compressedSize);
+      pos = pageStart + compressedSize;
+
+      if (pageType === PageType.DICTIONARY_PAGE) {
+        const dictHeader = thrift.required(thrift.struct(header, 7), 'dictionary page header');
+        const data = decompress(codec, raw, uncompressedSize);
+        dictionary = decodePlain(data, 0, column, thrift.required(thrift.number(dictHeader, 1), 'dictionary size'));
+        continue;
+      }
+
+      if (pageType === PageType.INDEX_PAGE) continue;
+
+      let numValues: number;
+      let encoding: Encoding;
+      let definitions: Int32Array | null = null;
+      let data: Buffer;
+      let valuesStart: number;
+
+      if (pageType === PageType.DATA_PAGE) {
+        const dataHeader = thrift.required(thrift.struct(header, 5), 'data page header');
+        numValues = thrift.required(thrift.number(dataHeader, 1), 'page value count');
+        encoding = thrift.required(thrift.number(dataHeader, 2), 'page encoding');
+        data = decompress(codec, raw, uncompressedSize);
+        valuesStart = 0;
+
+        if (maxDefinition > 0) {
+          // v1: 4-byte length prefix + RLE hybrid
+          const length = data.readUInt32LE(0);
+          definitions = decodeHybrid(data, 4, 4 + length, bitWidthOf(maxDefinition), numValues);
+          valuesStart = 4 + length;
+        }
+      } else if (pageType === PageType.DATA_PAGE_V2) {
+        const v2 = thrift.required(thrift.struct(header, 8), 'data page v2 header');
+        numValues = thrift.required(thrift.number(v2, 1), 'page value count');
+        encoding = thrift.required(thrift.number(v2, 4), 'page encoding');
+        const defLength = thrift.number(v2, 5) ?? 0;
+        const repLength = thrift.number(v2, 6) ?? 0;
+        const isCompressed = thrift.boolean(v2, 7) !== false;
+
+        // v2: levels are stored uncompressed ahead of the (compressed) values
+        if (maxDefinition > 0 && defLength > 0) {
+          definitions = decodeHybrid(raw, repLength, repLength + defLength, bitWidthOf(maxDefinition), numValues);
+        }
+        const levelBytes = repLength + defLength;
+        const values = raw.subarray(levelBytes);
+        data = isCompressed ? decompress(codec, values, uncompressedSize - levelBytes) : values;
+        valuesStart = 0;
+      } else {
+        throw new Error(`Parquet: unsupported page type ${pageType}`);
+      }
+
+      // Definition level < max means null
+      const present = definitions ? definitions.reduce((n, d) => n + (d === maxDefinition ? 1 : 0), 0) : numValues;
+      const decoded = this.decodeValues(column, encoding, data, valuesStart, present, dictionary);
+
+      let v = 0;
+      for (let i = 0; i < numValues; i++, row++) {
+        const isNull = definitions !== null && definitions[i] !== maxDefinition;
+        if (numbers) {
+          numbers[row] = isNull ? NaN : decoded.numbers![v];
+        } else if (strings) {
+          strings[row] = isNull ? null : decoded.strings![v];
+        }
+        if (!isNull) v++;
+      }
+
+      valuesRead += numValues;
+    }
+
+    return row;
+  }
+
+  private decodeValues(
+    column: ParquetColumnInfo,
+    encoding: Encoding,
+    data: Buffer,
+    pos: number,
+    count: number,
+    dictionary: { numbers: Float64Array | null; strings: Array<string | null> | null } | null
+  ): { numbers: Float64Array | null; strings: Array<string | null> | null } {
+    switch (encoding) {
+      case Encoding.PLAIN:
+        return decodePlain(data, pos, column, count);
+
+      case Encoding.PLAIN_DICTIONARY:
+      case Encoding.RLE_DICTIONARY: {
+        if (!dictionary) {
+          throw new Error(`Parquet: dictionary-encoded page without dictionary (column ${column.name})`);
+        }
+        const bitWidth = data[pos];
+        const indices = decodeHybrid(data, pos + 1, data.length, bitWidth, count);
+        if (dictionary.numbers) {
+          const numbers = new Float64Array(count);
+          for (let i = 0; i < count; i++) numbers[i] = dictionary.numbers[indices[i]];
+          return { numbers, strings: null };
+        }
+        const strings = Array.from(indices, i => dictionary.strings![i]);
+        return { numbers: null, strings };
+      }
+
+      case Encoding.RLE: {
+        // Only booleans use RLE for values (4-byte length prefix, bit width 1)
+        if (column.type !== PhysicalType.BOOLEAN) {
+          throw new Error(`Parquet: RLE encoding on non-boolean column ${column.name}`);
+        }
+        const length = data.readUInt32LE(pos);
+        const bits = decodeHybrid(data, pos + 4, pos + 4 + length, 1, count);
+        return { numbers: Float64Array.from(bits), strings: null };
+      }
+
+      default:
+        throw new Error(`Parquet: unsupported encoding ${Encoding[encoding] || encoding} (column ${column.name})`);
+    }
+  }
+}
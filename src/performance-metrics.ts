@@ -0,0 +1,426 @@
+/**
+ * Performance Metrics
+ * Risk-adjusted statistics for a list of closed trades
+ *
+ * BacktestResult answers "did it make money"; this answers "how, and at what
+ * risk": equity curve, Sharpe / Sortino / Calmar, CAGR, expectancy in R,
+ * payoff ratio, drawdown depth / duration / ulcer index, exposure time, win
+ * and loss streaks, and the same core numbers per symbol, timeframe and
+ * session.
+ *
+ * Returns are measured on performance_metrics.initial_capital (config/features.json)
+ * with each trade's net P&L added at its exit time. When trades carry
+ * timestamps, Sharpe / Sortino / ulcer use daily returns annualized with
+ * periods_per_year (365 - crypto trades every day); without them they fall
+ * back to per-trade returns, unannualized.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { FeatureExtractor } from './trade-features.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Anything with a P&L; the optional fields unlock the time-based metrics and breakdowns
+export interface MetricsTrade {
+  pnl: number;
+  entry_time?: number;
+  exit_time?: number;
+  r_multiple?: number;
+  symbol?: string;
+  timeframe?: string;
+}
+
+export interface PerformanceConfig {
+  initial_capital: number;
+  periods_per_year: number;
+  risk_free_rate: number;       // Annual, subtracted from returns for Sharpe / Sortino
+}
+
+const DEFAULT_CONFIG: PerformanceConfig = {
+  initial_capital: 10000,
+  periods_per_year: 365,
+  risk_free_rate: 0,
+};
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+  drawdown_pct: number;         // Below the running peak, 0-1
+}
+
+export interface StreakStats {
+  max_wins: number;
+  max_losses: number;
+  current: number;              // > 0 wins in a row, < 0 losses in a row
+  wins: Record<string, number>;   // Streak length → how many times it happened
+  losses: Record<string, number>;
+}
+
+export interface PerformanceMetrics {
+  trades: number;
+  wins: number;
+  losses: number;
+  win_rate: number;
+  total_pnl: number;
+  profit_factor: number;
+  avg_win: number;
+  avg_loss: number;             // Positive number
+  payoff_ratio: number;         // avg_win / avg_loss
+  expectancy: number;           // Mean P&L per trade
+  expectancy_r: number;         // Mean R-multiple (trades that have one)
+  total_return: number;         // On initial_capital
+  cagr: number;
+  sharpe: number;
+  sortino: number;
+  calmar: number;               // CAGR / max_drawdown_pct
+  max_drawdown: number;
+  max_drawdown_pct: number;
+  max_drawdown_duration_days: number;  // Longest peak-to-recovery (or to the end)
+  ulcer_index: number;          // RMS drawdown, in percent
+  exposure: number;             // Fraction of the period with a position open
+  period_days: number;
+  streaks: StreakStats;
+}
+
+// Core numbers for one slice of the trades
+export interface MetricsBreakdown {
+  trades: number;
+  win_rate: number;
+  total_pnl: number;
+  profit_factor: number;
+  expectancy_r: number;
+  max_drawdown: number;
+}
+
+export interface PerformanceReport extends PerformanceMetrics {
+  equity_curve: EquityPoint[];
+  by_symbol: Record<string, MetricsBreakdown>;
+  by_timeframe: Record<string, MetricsBreakdown>;
+  by_session: Record<string, MetricsBreakdown>;
+}
+
+export class PerformanceAnalyzer {
+  /**
+   * Load performance_metrics from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): PerformanceConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.performance_metrics || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  /**
+   * Full report: metrics, equity curve and breakdowns
+   */
+  static report(trades: MetricsTrade[], config: PerformanceConfig = PerformanceAnalyzer.loadConfig()): PerformanceReport {
+    const ordered = PerformanceAnalyzer.order(trades);
+    return {
+      ...PerformanceAnalyzer.computeOrdered(ordered, config),
+      equity_curve: PerformanceAnalyzer.equityCurve(ordered, config.initial_capital),
+      by_symbol: PerformanceAnalyzer.breakdown(ordered, t => t.symbol),
+      by_timeframe: PerformanceAnalyzer.breakdown(ordered, t => t.timeframe),
+      by_session: PerformanceAnalyzer.breakdown(ordered, t => {
+        const time = t.entry_time ?? t.exit_time;
+        return time ? FeatureExtractor.getSession(time) : undefined;
+      }),
+    };
+  }
+
+  /**
+   * Metrics only (no curve or breakdowns) - cheap enough for fitness loops
+   */
+  static compute(trades: MetricsTrade[], config: PerformanceConfig = PerformanceAnalyzer.loadConfig()): PerformanceMetrics {
+    return PerformanceAnalyzer.computeOrdered(PerformanceAnalyzer.order(trades), config);
+  }
+
+  /**
+   * Equity after each trade, in exit order
+   */
+  static equityCurve(trades: MetricsTrade[], initialCapital: number): EquityPoint[] {
+    const curve: EquityPoint[] = [];
+    let equity = initialCapital;
+    let peak = initialCapital;
+    for (const t of trades) {
+      equity += t.pnl;
+      peak = Math.max(peak, equity);
+      curve.push({ time: t.exit_time ?? 0, equity, drawdown_pct: peak > 0 ? (peak - equity) / peak : 0 });
+    }
+    return curve;
+  }
+
+  static printReport(report: PerformanceReport, indent: string = '  '): void {
+    console.log(`${indent}Return: ${(report.total_return * 100).toFixed(1)}% | CAGR: ${(report.cagr * 100).toFixed(1)}% over ${report.period_days.toFixed(0)} days`);
+    console.log(`${indent}Sharpe: ${report.sharpe.toFixed(2)} | Sortino: ${report.sortino.toFixed(2)} | Calmar: ${report.calmar.toFixed(2)}`);
+    console.log(`${indent}Expectancy: $${report.expectancy.toFixed(2)} (${report.expectancy_r.toFixed(3)}R) | Payoff: ${report.payoff_ratio.toFixed(2)}`);
+    console.log(`${indent}Max DD: ${(report.max_drawdown_pct * 100).toFixed(1)}% ($${report.max_drawdown.toFixed(2)}), ${report.max_drawdown_duration_days.toFixed(0)} days | Ulcer: ${report.ulcer_index.toFixed(2)}`);
+    console.log(`${indent}Exposure: ${(report.exposure * 100).toFixed(1)}% | Streaks: ${report.streaks.max_wins}W / ${report.streaks.max_losses}L max`);
+
+    const sections: Array<[string, Record<string, MetricsBreakdown>]> = [
+      ['symbol', report.by_symbol],
+      ['timeframe', report.by_timeframe],
+      ['session', report.by_session],
+    ];
+    for (const [name, breakdown] of sections) {
+      const keys = Object.keys(breakdown);
+      if (keys.length < 2) continue;
+      console.log(`${indent}By ${name}:`);
+      for (const key of keys) {
+        const b = breakdown[key];
+        console.log(`${indent}  ${key.padEnd(10)} ${String(b.trades).padStart(5)} trades  ${(b.win_rate * 100).toFixed(1).padStart(5)}% WR  PF ${b.profit_factor.toFixed(2)}  ${b.expectancy_r.toFixed(3)}R  $${b.total_pnl.toFixed(2)}`);
+      }
+    }
+  }
+
+  private static order(trades: MetricsTrade[]): MetricsTrade[] {
+    return [...trades].sort((a, b) => (a.exit_time ?? 0) - (b.exit_time ?? 0));
+  }
+
+  private static computeOrdered(trades: MetricsTrade[], config: PerformanceConfig): PerformanceMetrics {
+    const core = PerformanceAnalyzer.breakdownOf(trades);
+    const winners = trades.filter(t => t.pnl > 0);
+    const losers = trades.filter(t => t.pnl <= 0);
+    const avgWin = winners.length > 0 ? winners.reduce((s, t) => s + t.pnl, 0) / winners.length : 0;
+    const avgLoss = losers.length > 0 ? Math.abs(losers.reduce((s, t) => s + t.pnl, 0)) / losers.length : 0;
+
+    const capital = config.initial_capital;
+    const finalEquity = capital + core.total_pnl;
+    const timed = trades.length > 0 && trades.every(t => (t.exit_time ?? 0) > 0);
+    const start = timed ? trades.reduce((m, t) => Math.min(m, t.entry_time ?? t.exit_time!), Infinity) : 0;
+    const end = timed ? trades[trades.length - 1].exit_time! : 0;
+    const periodDays = timed ? (end - start) / DAY_MS : 0;
+
+    // Per-period returns: daily when timestamps exist, per trade otherwise
+    const returns = timed
+      ? PerformanceAnalyzer.dailyReturns(trades, start, end, capital)
+      : PerformanceAnalyzer.tradeReturns(trades, capital);
+    const annualization = timed ? Math.sqrt(config.periods_per_year) : 1;
+    const riskFree = timed ? config.risk_free_rate / config.periods_per_year : 0;
+    const excess = returns.map(r => r - riskFree);
+    const mean = excess.length > 0 ? excess.reduce((s, r) => s + r, 0) / excess.length : 0;
+    const std = Math.sqrt(excess.length > 1 ? excess.reduce((s, r) => s + (r - mean) ** 2, 0) / (excess.length - 1) : 0);
+    const downside = Math.sqrt(excess.length > 0 ? excess.reduce((s, r) => s + Math.min(0, r) ** 2, 0) / excess.length : 0);
+
+    const years = periodDays / 365.25;
+    const cagr = years > 0
+      ? (finalEquity > 0 ? Math.pow(finalEquity / capital, 1 / years) - 1 : -1)
+      : 0;
+
+    const curve = PerformanceAnalyzer.equityCurve(trades, capital);
+    const drawdown = PerformanceAnalyzer.drawdownStats(curve, capital, start, end);
+    const withR = trades.filter(t => t.r_multiple !== undefined && Number.isFinite(t.r_multiple));
+
+    return {
+      trades: trades.length,
+      wins: winners.length,
+      losses: losers.length,
+      win_rate: core.win_rate,
+      total_pnl: core.total_pnl,
+      profit_factor: core.profit_factor,
+      avg_win: avgWin,
+      avg_loss: avgLoss,
+      payoff_ratio: avgLoss > 0 ? avgWin / avgLoss : avgWin > 0 ? 10 : 0,
+      expectancy: trades.length > 0 ? core.total_pnl / trades.length : 0,
+      expectancy_r: withR.length > 0 ? withR.reduce((s, t) => s + t.r_multiple!, 0) / withR.length : 0,
+      total_return: capital > 0 ? core.total_pnl / capital : 0,
+      cagr,
+      sharpe: std > 0 ? (mean / std) * annualization : 0,
+      sortino: downside > 0 ? (mean / downside) * annualization : 0,
+      calmar: drawdown.maxPct > 0 ? cagr / drawdown.maxPct : cagr > 0 ? 10 : 0,
+      max_drawdown: drawdown.max,
+      max_drawdown_pct: drawdown.maxPct,
+      max_drawdown_duration_days: drawdown.durationMs / DAY_MS,
+      ulcer_index: timed
+        ? PerformanceAnalyzer.ulcer(PerformanceAnalyzer.compound(returns))
+        : PerformanceAnalyzer.ulcer(curve.map(p => p.equity)),
+      exposure: timed && end > start ? PerformanceAnalyzer.timeInMarket(trades) / (end - start) : 0,
+      period_days: periodDays,
+      streaks: PerformanceAnalyzer.streaks(trades),
+    };
+  }
+
+  /**
+   * Net P&L per UTC day divided by the equity at the start of that day
+   * Days without exits count as 0% - flat time is part of the risk profile.
+   */
+  private static dailyReturns(trades: MetricsTrade[], start: number, end: number, capital: number): number[] {
+    const firstDay = Math.floor(start / DAY_MS);
+    const days = Math.floor(end / DAY_MS) - firstDay + 1;
+    const pnlByDay = new Array<number>(days).fill(0);
+    for (const t of trades) {
+      pnlByDay[Math.floor(t.exit_time! / DAY_MS) - firstDay] += t.pnl;
+    }
+
+    const returns: number[] = [];
+    let equity = capital;
+    for (const pnl of pnlByDay) {
+      returns.push(equity > 0 ? pnl / equity : 0);
+      equity += pnl;
+    }
+    return returns;
+  }
+
+  private static tradeReturns(trades: MetricsTrade[], capital: number): number[] {
+    const returns: number[] = [];
+    let equity = capital;
+    for (const t of trades) {
+      returns.push(equity > 0 ? t.pnl / equity : 0);
+      equity += t.pnl;
+    }
+    return returns;
+  }
+
+  // Equity index (starting at 1) from a series of returns
+  private static compound(returns: number[]): number[] {
+    const series: number[] = [1];
+    for (const r of returns) series.push(series[series.length - 1] * (1 + r));
+    return series;
+  }
+
+  private static ulcer(equity: number[]): number {
+    if (equity.length === 0) return 0;
+    let peak = equity[0];
+    let sumSquares = 0;
+    for (const value of equity) {
+      peak = Math.max(peak, value);
+      const ddPercent = peak > 0 ? ((peak - value) / peak) * 100 : 0;
+      sumSquares += ddPercent ** 2;
+    }
+    return Math.sqrt(sumSquares / equity.length);
+  }
+
+  private static drawdownStats(
+    curve: EquityPoint[],
+    capital: number,
+    start: number,
+    end: number
+  ): { max: number; maxPct: number; durationMs: number } {
+    let peak = capital;
+    let peakTime = start;
+    let max = 0;
+    let maxPct = 0;
+    let durationMs = 0;
+    let underwater = false;
+
+    for (const point of curve) {
+      if (point.equity >= peak) {
+        if (underwater) durationMs = Math.max(durationMs, point.time - peakTime);
+        peak = point.equity;
+        peakTime = point.time;
+        underwater = false;
+      } else {
+        underwater = true;
+        max = Math.max(max, peak - point.equity);
+        maxPct = Math.max(maxPct, point.drawdown_pct);
+      }
+    }
+    if (underwater) durationMs = Math.max(durationMs, end - peakTime);
+
+    return { max, maxPct, durationMs };
+  }
+
+  /**
+   * Total time covered by at least one open trade (overlaps counted once)
+   */
+  private static timeInMarket(trades: MetricsTrade[]): number {
+    const intervals = trades
+      .filter(t => t.entry_time !== undefined)
+      .map(t => [t.entry_time!, t.exit_time!] as [number, number])
+      .sort((a, b) => a[0] - b[0]);
+
+    let total = 0;
+    let [curStart, curEnd] = intervals[0] ?? [0, 0];
+    for (const [s, e] of intervals.slice(1)) {
+      if (s <= curEnd) {
+        curEnd = Math.max(curEnd, e);
+      } else {
+        total += curEnd - curStart;
+        [curStart, curEnd] = [s, e];
+      }
+    }
+    return total + (curEnd - curStart);
+  }
+
+  private static streaks(trades: MetricsTrade[]): StreakStats {
+    const stats: StreakStats = { max_wins: 0, max_losses: 0, current: 0, wins: {}, losses: {} };
+    const close = (streak: number) => {
+      if (streak > 0) stats.wins[streak] = (stats.wins[streak] || 0) + 1;
+      if (streak < 0) stats.losses[-streak] = (stats.losses[-streak] || 0) + 1;
+    };
+
+    let streak = 0;
+    for (const t of trades) {
+      const win = t.pnl > 0;
+      if (win && streak >= 0) streak++;
+      else if (!win && streak <= 0) streak--;
+      else {
+        close(streak);
+        streak = win ? 1 : -1;
+      }
+      stats.max_wins = Math.max(stats.max_wins, streak);
+      stats.max_losses = Math.max(stats.max_losses, -streak);
+    }
+    close(streak);
+    stats.current = streak;
+    return stats;
+  }
+
+  private static breakdown(
+    trades: MetricsTrade[],
+    key: (t: MetricsTrade) => string | undefined
+  ): Record<string, MetricsBreakdown> {
+    const groups = new Map<string, MetricsTrade[]>();
+    for (const t of trades) {
+      const k = key(t);
+      if (k === undefined) continue;
+      if (!groups.has(k)) groups.set(k, []);
+      groups.get(k)!.push(t);
+    }
+
+    const result: Record<string, MetricsBreakdown> = {};
+    for (const [k, group] of groups) {
+      result[k] = PerformanceAnalyzer.breakdownOf(group);
+    }
+    return result;
+  }
+
+  // Trades must already be in exit order (for the drawdown)
+  private static breakdownOf(trades: MetricsTrade[]): MetricsBreakdown {
+    let wins = 0;
+    let grossProfit = 0;
+    let grossLoss = 0;
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    let rSum = 0;
+    let rCount = 0;
+
+    for (const t of trades) {
+      if (t.pnl > 0) {
+        wins++;
+        grossProfit += t.pnl;
+      } else {
+        grossLoss += Math.abs(t.pnl);
+      }
+      equity += t.pnl;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - equity);
+      if (t.r_multiple !== undefined && Number.isFinite(t.r_multiple)) {
+        rSum += t.r_multiple;
+        rCount++;
+      }
+    }
+
+    return {
+      trades: trades.length,
+      win_rate: trades.length > 0 ? wins / trades.length : 0,
+      total_pnl: grossProfit - grossLoss,
+      profit_factor: grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? 10 : 0,
+      expectancy_r: rCount > 0 ? rSum / rCount : 0,
+      max_drawdown: maxDrawdown,
+    };
+  }
+}
@@ -0,0 +1,200 @@
+#!/usr/bin/env node
+/**
+ * Portfolio Backtest Runner
+ * Backtests a stored strategy across all symbols with shared capital:
+ *   1. Loads strategy weights/min_score/max_positions from data/strategies.json
+ *   2. Runs PortfolioBacktester on a common clock (config/features.json → portfolio),
+ *      with correlated positions measured by CorrelationEngine (→ correlation)
+ *      and the sentiment veto fed by CompositeSentimentProvider (→ sentiment)
+ *   3. Prints portfolio equity, vetoes and per-symbol contribution, plus the
+ *      PerformanceAnalyzer report, and saves them to data/backtests/
+ *   4. With --learn-ensemble, records every trade's ensemble vote and outcome to
+ *      the ensemble weight learner (→ ensemble_weights; see cli ensemble-weights)
+ *
+ * Run: npm run portfolio-backtest -- --strategy production --timeframe 1h
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LocalDataLoader } from './data-loader.js';
+import { PortfolioBacktester, PortfolioConfig, PortfolioResult } from './portfolio-backtester.js';
+import { CorrelationEngine } from './correlation-engine.js';
+import { BacktestEngine } from './backtest-engine.js';
+import { CompositeSentimentProvider } from './sentiment-providers.js';
+import { PerformanceAnalyzer } from './performance-metrics.js';
+import { EnsembleVoting } from './ensemble-voting.js';
+import { Strategy } from './types.js';
+
+// Configuration
+const CONFIG = {
+  strategy: 'production',
+  symbols: [
+    'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'ADAUSDT', 'SOLUSDT',
+    'XRPUSDT', 'DOGEUSDT', 'DOTUSDT', 'AVAXUSDT', 'LINKUSDT'
+  ],
+  timeframe: '1d',
+  minScore: undefined as number | undefined,   // Default: strategy min_score
+  portfolio: {} as Partial<PortfolioConfig>,
+  learnEnsemble: false,    // Record trade outcomes to the ensemble weight learner
+  dataPath: path.join(process.cwd(), 'Historical_Data_Lite'),
+  strategiesFile: path.join(process.cwd(), 'data', 'strategies.json'),
+  outputDir: path.join(process.cwd(), 'data', 'backtests'),
+};
+
+function loadStrategy(id: string): Strategy {
+  const strategies: Record<string, Strategy> = JSON.parse(fs.readFileSync(CONFIG.strategiesFile, 'utf-8'));
+  const strategy = strategies[id];
+  if (!strategy) {
+    throw new Error(`Strategy not found: ${id} (available: ${Object.keys(strategies).join(', ')})`);
+  }
+  return strategy;
+}
+
+function printResult(result: PortfolioResult): void {
+  console.log('\n═══════════════════════════════════════════════════════════════');
+  console.log('PORTFOLIO');
+  console.log('═══════════════════════════════════════════════════════════════');
+  console.log(`  Equity: $${result.initial_capital.toFixed(2)} → $${result.final_equity.toFixed(2)}`);
+  console.log(`  Trades: ${result.trades.length} of ${result.signals} signals | Max concurrent: ${result.max_concurrent}/${result.max_positions}`);
+  if (result.ensemble_outcomes > 0) {
+    console.log(`  Ensemble: ${result.ensemble_outcomes} outcomes recorded (cli ensemble-weights to inspect)`);
+  }
+
+  const vetoes = Object.entries(result.vetoes).sort((a, b) => b[1] - a[1]);
+  if (vetoes.length > 0) {
+    console.log('\n  Skipped signals:');
+    for (const [reason, count] of vetoes) {
+      console.log(`    ${reason.padEnd(28)} ${String(count).padStart(6)}`);
+    }
+  }
+
+  console.log('\n  Contribution by symbol:');
+  const rows = Object.entries(result.contribution).sort((a, b) => b[1].pnl - a[1].pnl);
+  for (const [symbol, c] of rows) {
+    console.log(`    ${symbol.padEnd(10)} ${String(c.trades).padStart(5)} trades  ${(c.win_rate * 100).toFixed(1).padStart(5)}% WR  ` +
+      `$${c.pnl.toFixed(2).padStart(10)}  ${(c.return_contribution * 100).toFixed(2).padStart(6)}% of capital  avg size $${c.avg_notional.toFixed(0)}`);
+  }
+
+  console.log('\n  Performance:');
+  PerformanceAnalyzer.printReport(result.performance, '    ');
+}
+
+function saveResult(result: PortfolioResult, strategy: Strategy, minScore: number, config: PortfolioConfig): void {
+  if (!fs.existsSync(CONFIG.outputDir)) {
+    fs.mkdirSync(CONFIG.outputDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  const outputFile = path.join(CONFIG.outputDir, `portfolio_${strategy.id}_${timestamp}.json`);
+  fs.writeFileSync(outputFile, JSON.stringify({
+    timestamp: new Date().toISOString(),
+    version: strategy.version,
+    minScore,
+    portfolioConfig: config,
+    ...result,
+  }, null, 2));
+
+  console.log(`\n  Saved: ${outputFile}`);
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+
+  // Parse args
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--strategy':
+        CONFIG.strategy = args[++i];
+        break;
+      case '--symbols':
+        CONFIG.symbols = args[++i].split(',');
+        break;
+      case '--timeframe':
+        CONFIG.timeframe = args[++i];
+        break;
+      case '--min-score':
+        CONFIG.minScore = parseInt(args[++i]);
+        break;
+      case '--allocation':
+        CONFIG.portfolio.allocation_pct = parseFloat(args[++i]);
+        break;
+      case '--max-positions':
+        CONFIG.portfolio.max_positions = parseInt(args[++i]);
+        break;
+      case '--learn-ensemble':
+        CONFIG.learnEnsemble = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Portfolio Backtest
+Walks all symbols on one clock → Shared balance, max_positions and risk vetoes → Portfolio equity
+
+Usage: npm run portfolio-backtest -- [OPTIONS]
+
+Options:
+  --strategy <id>        Strategy id from data/strategies.json (default: production)
+  --symbols <list>       Comma-separated symbols (default: all 10)
+  --timeframe <tf>       Candle timeframe (default: 1d)
+  --min-score <n>        Override the strategy's min_score
+  --allocation <pct>     Fraction of equity per position (default: portfolio.allocation_pct)
+  --max-positions <n>    Used when the strategy has no max_positions
+  --learn-ensemble       Record trade outcomes to the ensemble weight learner
+                         (re-running records the same trades again - reset first)
+  -h, --help             Show this help
+
+Sizing and vetoes are read from config/features.json → portfolio, starting
+capital from → performance_metrics.initial_capital.
+
+Examples:
+  npm run portfolio-backtest
+  npm run portfolio-backtest -- --strategy experimental_v1 --timeframe 1h
+  npm run portfolio-backtest -- --allocation 0.1
+  npm run portfolio-backtest -- --timeframe 1h --learn-ensemble
+        `);
+        process.exit(0);
+    }
+  }
+
+  console.log('╔═══════════════════════════════════════════════════════════════╗');
+  console.log('║                    PORTFOLIO BACKTEST                         ║');
+  console.log('╚═══════════════════════════════════════════════════════════════╝\n');
+
+  try {
+    const strategy = loadStrategy(CONFIG.strategy);
+    const minScore = CONFIG.minScore ?? strategy.min_score ?? 70;
+    const loader = new LocalDataLoader(CONFIG.dataPath);
+    const correlation = await CorrelationEngine.load(loader, CONFIG.symbols, CONFIG.timeframe);
+    const sentiment = CompositeSentimentProvider.fromConfig();
+    const ensemble = CONFIG.learnEnsemble ? new EnsembleVoting() : null;
+    if (ensemble && !ensemble.getLearner()) {
+      console.log('⚠️  --learn-ensemble ignored: ensemble_weights.enabled is false');
+    }
+    const backtester = new PortfolioBacktester(loader, CONFIG.portfolio, new BacktestEngine(),
+      (symbol, openSymbols, time) => correlation.correlatedWith(symbol, openSymbols, time),
+      sentiment.getSources().length > 0 ? sentiment : null,
+      ensemble);
+    const config = backtester.getConfig();
+
+    console.log('Configuration:');
+    console.log(`  Strategy: ${strategy.id} (${strategy.name} v${strategy.version})`);
+    console.log(`  Symbols: ${CONFIG.symbols.join(', ')}`);
+    console.log(`  Timeframe: ${CONFIG.timeframe} | Min Score: ${minScore}`);
+    console.log(`  Allocation: ${(config.allocation_pct * 100).toFixed(0)}% of equity | Max positions: ${strategy.max_positions ?? config.max_positions}`);
+    const corr = correlation.getConfig();
+    console.log(`  Correlation: ${corr.method} ${corr.primary_window} bars ≥ ${corr.threshold} | max ${config.max_correlated_positions} correlated`);
+    console.log(`  Sentiment: ${sentiment.getSources().join(', ') || 'no source files (sentiment.dir)'}`);
+    if (ensemble?.getLearner()) {
+      console.log(`  Ensemble: recording outcomes to ${ensemble.getLearner()!.getConfig().state_file}`);
+    }
+
+    const result = await backtester.run(strategy, CONFIG.symbols, CONFIG.timeframe, minScore);
+    printResult(result);
+    saveResult(result, strategy, minScore, config);
+  } catch (error) {
+    console.error('\n❌ Portfolio backtest failed:', error);
+    process.exit(1);
+  }
+}
+
+main().catch(console.error);
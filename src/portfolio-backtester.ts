@@ -0,0 +1,383 @@
+/**
+ * Portfolio Backtester
+ * Walks several symbols on one clock with a shared balance
+ *
+ * The single-symbol backtests size every trade at a notional position_size and
+ * never let trades compete. Here:
+ *   1. Every symbol is scored bar by bar (same scoring as backtest-runner) and
+ *      its entry signals are merged into one timeline
+ *   2. At each timestamp, positions that have exited release their capital and
+ *      P&L first, then new signals are taken best score first
+ *   3. A signal is skipped while its symbol already has a position, and vetoed
+ *      by TradeDecisionPipeline.checkPortfolioRisk (max_positions, correlated
+ *      positions, drawdown) using the live portfolio state, and by
+ *      checkSentiment when a SentimentProvider is given (read at the bar close)
+ *   4. Each accepted trade is sized at allocation_pct of equity, capped by the
+ *      free balance (no leverage), and simulated by BacktestEngine at that notional
+ *   5. With an EnsembleVoting given, each accepted trade is voted on at its entry
+ *      bar (regime from RegimeClassifier) and the outcome recorded when it exits,
+ *      so the ensemble's learned weights train on the backtest's track record
+ *
+ * Drawdown for the veto is on realised equity (closed trades). Config:
+ * config/features.json → portfolio; starting capital is
+ * performance_metrics.initial_capital.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LocalDataLoader } from './data-loader.js';
+import { Candle } from './smc-indicators.js';
+import { SMCAnalyzer } from './smc-analyzer.js';
+import { UnifiedScoring } from './unified-scoring.js';
+import { BacktestEngine, SimulatedTrade } from './backtest-engine.js';
+import { TimeframeAligner } from './timeframe-alignment.js';
+import { IntrabarResolver } from './intrabar-resolver.js';
+import { TradeDecisionPipeline } from './trade-decision-pipeline.js';
+import { SentimentProvider } from './sentiment-providers.js';
+import { CandleResampler } from './candle-resampler.js';
+import { PerformanceAnalyzer, PerformanceReport } from './performance-metrics.js';
+import { EnsembleVoting, EnsembleResult } from './ensemble-voting.js';
+import { RegimeClassifier, RegimeBar } from './market-regime.js';
+import { Strategy } from './types.js';
+
+export interface PortfolioConfig {
+  allocation_pct: number;       // Fraction of equity per new position
+  max_positions: number;        // Used when the strategy has no max_positions
+  min_notional: number;         // Smaller allocations are skipped
+  max_drawdown_to_trade: number;
+  max_correlated_positions: number;
+  lookback: number;             // Bars ingested before the first signal
+}
+
+const DEFAULT_CONFIG: PortfolioConfig = {
+  allocation_pct: 0.2,
+  max_positions: 5,
+  min_notional: 10,
+  max_drawdown_to_trade: 0.2,
+  max_correlated_positions: 2,
+  lookback: 200,
+};
+
+/**
+ * Open positions that move with `symbol` (CorrelationEngine.correlatedWith);
+ * without one, no positions count as correlated
+ */
+export type CorrelatedPositionsFn = (symbol: string, openSymbols: string[], time: number) => string[];
+
+export interface PortfolioTrade extends SimulatedTrade {
+  symbol: string;
+  notional: number;
+  equity_at_entry: number;
+  open_positions_at_entry: number;
+}
+
+export interface SymbolContribution {
+  trades: number;
+  win_rate: number;
+  pnl: number;
+  pnl_share: number;            // Of total portfolio P&L (can be negative)
+  return_contribution: number;  // pnl / initial capital
+  avg_notional: number;
+}
+
+export interface PortfolioResult {
+  strategy: string;
+  timeframe: string;
+  symbols: string[];
+  initial_capital: number;
+  final_equity: number;
+  max_positions: number;
+  max_concurrent: number;
+  signals: number;
+  vetoes: Record<string, number>;     // Reason → skipped signals
+  ensemble_outcomes: number;          // Trades recorded to the ensemble weight learner
+  trades: PortfolioTrade[];
+  contribution: Record<string, SymbolContribution>;
+  performance: PerformanceReport;
+}
+
+interface PendingSignal {
+  symbol: string;
+  index: number;
+  time: number;
+  direction: 'long' | 'short';
+  score: number;
+  atr: number | null;
+}
+
+interface SymbolData {
+  candles: Candle[];
+  intrabar: IntrabarResolver;
+  regimes: RegimeBar[];
+}
+
+/** Bars of price history handed to the ensemble's momentum/mean-reversion signals */
+const ENSEMBLE_HISTORY_BARS = 100;
+
+export class PortfolioBacktester {
+  private config: PortfolioConfig;
+  private dataLoader: LocalDataLoader;
+  private engine: BacktestEngine;
+  private initialCapital: number;
+  private correlatedPositions: CorrelatedPositionsFn;
+  private sentiment: SentimentProvider | null;
+  private ensemble: EnsembleVoting | null;
+
+  constructor(
+    dataLoader: LocalDataLoader,
+    config: Partial<PortfolioConfig> = {},
+    engine: BacktestEngine = new BacktestEngine(),
+    correlatedPositions: CorrelatedPositionsFn = () => [],
+    sentiment: SentimentProvider | null = null,
+    ensemble: EnsembleVoting | null = null
+  ) {
+    this.config = { ...PortfolioBacktester.loadConfig(), ...config };
+    this.dataLoader = dataLoader;
+    this.engine = engine;
+    this.initialCapital = PerformanceAnalyzer.loadConfig().initial_capital;
+    this.correlatedPositions = correlatedPositions;
+    this.sentiment = sentiment;
+    this.ensemble = ensemble;
+  }
+
+  /**
+   * Load portfolio from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): PortfolioConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.portfolio || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  getConfig(): PortfolioConfig {
+    return { ...this.config };
+  }
+
+  async run(strategy: Strategy, symbols: string[], timeframe: string, minScore: number = strategy.min_score ?? 70): Promise<PortfolioResult> {
+    const maxPositions = strategy.max_positions ?? this.config.max_positions;
+    const intervalMs = CandleResampler.intervalMs(timeframe);
+    const pipeline = new TradeDecisionPipeline({
+      maxOpenPositions: maxPositions,
+      maxCorrelatedPositions: this.config.max_correlated_positions,
+      maxDrawdownToTrade: this.config.max_drawdown_to_trade,
+    });
+
+    const data = new Map<string, SymbolData>();
+    const signals: PendingSignal[] = [];
+    for (const symbol of symbols) {
+      try {
+        const { candles } = await this.dataLoader.loadData(symbol, timeframe);
+        if (candles.length < this.config.lookback + 50) {
+          console.warn(`[Portfolio] Skipping ${symbol}: ${candles.length} candles`);
+          continue;
+        }
+        const intrabar = await IntrabarResolver.load(this.dataLoader, symbol, timeframe);
+        const regimes = this.ensemble ? new RegimeClassifier().classify(candles) : [];
+        data.set(symbol, { candles, intrabar, regimes });
+        signals.push(...await this.collectSignals(symbol, candles, timeframe, strategy, minScore));
+      } catch (err: any) {
+        console.warn(`[Portfolio] Skipping ${symbol}: ${err.message}`);
+      }
+    }
+
+    // Same bar: best score first, so the strongest setups get the capital
+    signals.sort((a, b) => a.time - b.time || b.score - a.score);
+
+    let balance = this.initialCapital;  // Realised equity
+    let peak = balance;
+    let maxConcurrent = 0;
+    const open: PortfolioTrade[] = [];
+    const trades: PortfolioTrade[] = [];
+    const vetoes: Record<string, number> = {};
+    const veto = (reason: string) => { vetoes[reason] = (vetoes[reason] || 0) + 1; };
+    const votes = new Map<PortfolioTrade, { result: EnsembleResult; regime: string }>();
+    let ensembleOutcomes = 0;
+
+    const closeUpTo = (time: number) => {
+      open.sort((a, b) => a.exit_time - b.exit_time);
+      while (open.length > 0 && open[0].exit_time <= time) {
+        const trade = open.shift()!;
+        balance += trade.pnl;
+        peak = Math.max(peak, balance);
+
+        const vote = votes.get(trade);
+        if (vote && this.ensemble) {
+          this.ensemble.recordOutcome(vote.result, trade.direction === 'long' ? 'LONG' : 'SHORT', trade.pnl > 0, {
+            symbol: trade.symbol,
+            regime: vote.regime,
+            timestamp: trade.exit_time,
+          });
+          votes.delete(trade);
+          ensembleOutcomes++;
+        }
+      }
+    };
+
+    for (const signal of signals) {
+      closeUpTo(signal.time);
+
+      const openSymbols = open.map(t => t.symbol);
+      if (openSymbols.includes(signal.symbol)) {
+        veto('symbol already open');
+        continue;
+      }
+
+      const risk = pipeline.checkPortfolioRisk({
+        openPositionCount: open.length,
+        correlatedPositions: this.correlatedPositions(signal.symbol, openSymbols, signal.time),
+        currentDrawdown: peak > 0 ? (peak - balance) / peak : 0,
+      });
+      if (!risk.passed) {
+        veto(risk.reason.startsWith('Already at max') ? 'max positions'
+          : risk.reason.startsWith('Too many correlated') ? 'correlated positions'
+          : 'drawdown limit');
+        continue;
+      }
+
+      if (this.sentiment) {
+        const reading = this.sentiment.read(signal.symbol, signal.time + intervalMs);
+        const mood = pipeline.checkSentiment({
+          direction: signal.direction === 'long' ? 'LONG' : 'SHORT',
+          sentimentScore: reading?.score,
+        });
+        if (!mood.passed) {
+          veto('sentiment');
+          continue;
+        }
+      }
+
+      const committed = open.reduce((s, t) => s + t.notional, 0);
+      const notional = Math.min(balance * this.config.allocation_pct, balance - committed);
+      if (notional < this.config.min_notional) {
+        veto('insufficient free capital');
+        continue;
+      }
+
+      const { candles, intrabar } = data.get(signal.symbol)!;
+      const simulated = this.engine.simulateTrade(candles, signal.index, signal.direction, {
+        atr: signal.atr,
+        score: signal.score,
+        symbol: signal.symbol,
+        timeframe,
+        intrabar,
+        notional,
+      });
+      const trade: PortfolioTrade = {
+        ...simulated,
+        symbol: signal.symbol,
+        notional,
+        equity_at_entry: balance,
+        open_positions_at_entry: open.length,
+      };
+      if (this.ensemble) {
+        const regime = data.get(signal.symbol)!.regimes[signal.index].regime;
+        votes.set(trade, { result: this.voteAt(candles, signal, regime), regime });
+      }
+      open.push(trade);
+      trades.push(trade);
+      maxConcurrent = Math.max(maxConcurrent, open.length);
+    }
+    closeUpTo(Infinity);
+    this.ensemble?.flush();
+
+    return {
+      strategy: strategy.id,
+      timeframe,
+      symbols: Array.from(data.keys()),
+      initial_capital: this.initialCapital,
+      final_equity: balance,
+      max_positions: maxPositions,
+      max_concurrent: maxConcurrent,
+      signals: signals.length,
+      vetoes,
+      ensemble_outcomes: ensembleOutcomes,
+      trades,
+      contribution: this.contribution(trades),
+      performance: PerformanceAnalyzer.report(trades),
+    };
+  }
+
+  /**
+   * Every bar whose score clears min_score (overlap is resolved on the shared clock)
+   */
+  private async collectSignals(
+    symbol: string,
+    candles: Candle[],
+    timeframe: string,
+    strategy: Strategy,
+    minScore: number
+  ): Promise<PendingSignal[]> {
+    const signals: PendingSignal[] = [];
+    const analyzer = new SMCAnalyzer();
+    const aligner = await TimeframeAligner.load(this.dataLoader, symbol, timeframe);
+
+    for (let i = 0; i < candles.length - 1; i++) {
+      analyzer.push(candles[i]);
+      if (i < this.config.lookback) continue;
+
+      const analysis = analyzer.analyze();
+      const mtf = aligner.advance(candles[i], analysis);
+      const mtfBonus = mtf.daily ? UnifiedScoring.calculateMTFBonus(mtf.daily, mtf.hourly, mtf.fiveMin) : undefined;
+      const scoring = UnifiedScoring.calculateConfluence(analysis, candles[i].close, strategy.weights, candles[i].timestamp, mtfBonus);
+      if (scoring.bias === 'neutral' || scoring.score < minScore) continue;
+
+      signals.push({
+        symbol,
+        index: i,
+        time: candles[i].timestamp,
+        direction: scoring.bias === 'bullish' ? 'long' : 'short',
+        score: scoring.score,
+        atr: analysis.atr,
+      });
+    }
+    return signals;
+  }
+
+  /**
+   * Ensemble vote at the signal's bar close - price history up to and including it
+   */
+  private voteAt(candles: Candle[], signal: PendingSignal, regime: string): EnsembleResult {
+    const history = candles.slice(Math.max(0, signal.index - ENSEMBLE_HISTORY_BARS + 1), signal.index + 1);
+    const bar = candles[signal.index];
+    return this.ensemble!.vote({
+      open: bar.open,
+      high: bar.high,
+      low: bar.low,
+      close: bar.close,
+      volume: bar.volume,
+      smcScore: signal.score,
+      smcDirection: signal.direction === 'long' ? 'LONG' : 'SHORT',
+      regime,
+      closes: history.map(c => c.close),
+      highs: history.map(c => c.high),
+      lows: history.map(c => c.low),
+      volumes: history.map(c => c.volume),
+    }, { verbose: false });
+  }
+
+  private contribution(trades: PortfolioTrade[]): Record<string, SymbolContribution> {
+    const total = trades.reduce((s, t) => s + t.pnl, 0);
+    const bySymbol = new Map<string, PortfolioTrade[]>();
+    for (const t of trades) {
+      if (!bySymbol.has(t.symbol)) bySymbol.set(t.symbol, []);
+      bySymbol.get(t.symbol)!.push(t);
+    }
+
+    const result: Record<string, SymbolContribution> = {};
+    for (const [symbol, group] of bySymbol) {
+      const pnl = group.reduce((s, t) => s + t.pnl, 0);
+      result[symbol] = {
+        trades: group.length,
+        win_rate: group.filter(t => t.pnl > 0).length / group.length,
+        pnl,
+        pnl_share: total !== 0 ? pnl / Math.abs(total) : 0,
+        return_contribution: pnl / this.initialCapital,
+        avg_notional: group.reduce((s, t) => s + t.notional, 0) / group.length,
+      };
+    }
+    return result;
+  }
+}
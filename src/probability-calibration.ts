@@ -0,0 +1,378 @@
+/**
+ * Probability Calibration
+ * Maps raw model scores to win probabilities that match observed win rates
+ *
+ * Methods:
+ *   - Platt scaling: logistic fit on the logit of the raw score (2 parameters,
+ *     monotone and smooth - good for small samples)
+ *   - Isotonic: pool-adjacent-violators step function, interpolated between
+ *     blocks (no shape assumption - needs more samples)
+ *
+ * Calibrators are fitted on out-of-sample predictions only (holdout or
+ * walk-forward folds). `select()` splits those predictions in order, fits each
+ * method on the first part and keeps whichever lowers the Brier score on the
+ * rest - or none, if the raw scores are already the best calibrated.
+ *
+ * Reports: Brier score, expected/maximum calibration error and a reliability
+ * table (mean predicted vs observed win rate per probability bin).
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type CalibrationMethod = 'platt' | 'isotonic';
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedRate: number;
+}
+
+export interface CalibrationReport {
+  samples: number;
+  brier: number;
+  ece: number;              // Expected calibration error (count-weighted bin gap)
+  mce: number;              // Maximum calibration error over non-empty bins
+  logLoss: number;
+  bins: ReliabilityBin[];
+}
+
+export interface CalibrationState {
+  method: CalibrationMethod;
+  platt?: { a: number; b: number };
+  isotonic?: { x: number[]; y: number[] };
+  samples: number;
+  fittedAt: string;
+}
+
+export interface CalibrationSelection {
+  calibrator: ProbabilityCalibrator | null;   // null = raw scores kept
+  method: CalibrationMethod | 'none';
+  samples: number;
+  evaluated: number;                          // Predictions the methods were compared on
+  raw: CalibrationReport;
+  platt?: CalibrationReport;
+  isotonic?: CalibrationReport;
+}
+
+export interface CalibrationConfig {
+  method: CalibrationMethod | 'auto';
+  min_samples: number;       // Below this, no calibrator is fitted
+  holdout_fraction: number;  // Share of predictions used to compare methods
+  bins: number;
+}
+
+const DEFAULT_CONFIG: CalibrationConfig = {
+  method: 'auto',
+  min_samples: 200,
+  holdout_fraction: 0.3,
+  bins: 10,
+};
+
+// Keep calibrated outputs off exact 0/1 (isotonic blocks can be pure)
+const PROBABILITY_FLOOR = 0.001;
+
+export class ProbabilityCalibrator {
+  private state: CalibrationState;
+
+  private constructor(state: CalibrationState) {
+    this.state = state;
+  }
+
+  /**
+   * Load calibration from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): CalibrationConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return { ...DEFAULT_CONFIG, ...(features.calibration || {}) };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  static fromJSON(state: CalibrationState): ProbabilityCalibrator {
+    if (state.method === 'platt' && !state.platt) {
+      throw new Error('Platt calibration state has no parameters');
+    }
+    if (state.method === 'isotonic' && (!state.isotonic || state.isotonic.x.length === 0)) {
+      throw new Error('Isotonic calibration state has no knots');
+    }
+    return new ProbabilityCalibrator(state);
+  }
+
+  toJSON(): CalibrationState {
+    return this.state;
+  }
+
+  getMethod(): CalibrationMethod {
+    return this.state.method;
+  }
+
+  /**
+   * Fit a calibrator on raw probabilities and 0/1 outcomes
+   */
+  static fit(probs: number[], targets: number[], method: CalibrationMethod): ProbabilityCalibrator {
+    if (probs.length !== targets.length) {
+      throw new Error(`Calibration needs one outcome per prediction (${probs.length} vs ${targets.length})`);
+    }
+    if (probs.length === 0) {
+      throw new Error('Calibration needs at least one prediction');
+    }
+
+    const state: CalibrationState = {
+      method,
+      samples: probs.length,
+      fittedAt: new Date().toISOString(),
+    };
+    if (method === 'platt') {
+      state.platt = ProbabilityCalibrator.fitPlatt(probs, targets);
+    } else {
+      state.isotonic = ProbabilityCalibrator.fitIsotonic(probs, targets);
+    }
+    return new ProbabilityCalibrator(state);
+  }
+
+  /**
+   * Choose and fit a calibrator from out-of-sample predictions (in time order)
+   */
+  static select(probs: number[], targets: number[], config: Partial<CalibrationConfig> = {}): CalibrationSelection {
+    const cfg = { ...ProbabilityCalibrator.loadConfig(), ...config };
+    const raw = ProbabilityCalibrator.evaluate(probs, targets, cfg.bins);
+
+    if (probs.length < cfg.min_samples) {
+      return { calibrator: null, method: 'none', samples: probs.length, evaluated: 0, raw };
+    }
+
+    const split = Math.floor(probs.length * (1 - cfg.holdout_fraction));
+    const fitProbs = probs.slice(0, split);
+    const fitTargets = targets.slice(0, split);
+    const evalProbs = probs.slice(split);
+    const evalTargets = targets.slice(split);
+
+    const methods: CalibrationMethod[] = cfg.method === 'auto' ? ['platt', 'isotonic'] : [cfg.method];
+    const selection: CalibrationSelection = {
+      calibrator: null,
+      method: 'none',
+      samples: probs.length,
+      evaluated: evalProbs.length,
+      raw: ProbabilityCalibrator.evaluate(evalProbs, evalTargets, cfg.bins),
+    };
+
+    let bestBrier = selection.raw.brier;
+    for (const method of methods) {
+      const candidate = ProbabilityCalibrator.fit(fitProbs, fitTargets, method);
+      const report = ProbabilityCalibrator.evaluate(evalProbs.map(p => candidate.calibrate(p)), evalTargets, cfg.bins);
+      selection[method] = report;
+      if (report.brier < bestBrier) {
+        bestBrier = report.brier;
+        selection.method = method;
+      }
+    }
+
+    // Refit the winner on everything
+    if (selection.method !== 'none') {
+      selection.calibrator = ProbabilityCalibrator.fit(probs, targets, selection.method);
+    }
+    return selection;
+  }
+
+  /**
+   * Brier score, ECE/MCE, log loss and a reliability table
+   */
+  static evaluate(probs: number[], targets: number[], numBins: number = DEFAULT_CONFIG.bins): CalibrationReport {
+    const n = probs.length;
+    const bins: ReliabilityBin[] = Array.from({ length: numBins }, (_, i) => ({
+      lower: i / numBins,
+      upper: (i + 1) / numBins,
+      count: 0,
+      meanPredicted: 0,
+      observedRate: 0,
+    }));
+
+    const epsilon = 1e-7;
+    let brier = 0;
+    let logLoss = 0;
+
+    for (let i = 0; i < n; i++) {
+      const p = probs[i];
+      const y = targets[i];
+      brier += (p - y) * (p - y);
+      logLoss += -y * Math.log(p + epsilon) - (1 - y) * Math.log(1 - p + epsilon);
+
+      const bin = bins[Math.min(numBins - 1, Math.floor(p * numBins))];
+      bin.count++;
+      bin.meanPredicted += p;
+      bin.observedRate += y;
+    }
+
+    let ece = 0;
+    let mce = 0;
+    for (const bin of bins) {
+      if (bin.count === 0) continue;
+      bin.meanPredicted /= bin.count;
+      bin.observedRate /= bin.count;
+      const gap = Math.abs(bin.meanPredicted - bin.observedRate);
+      ece += (bin.count / n) * gap;
+      mce = Math.max(mce, gap);
+    }
+
+    return {
+      samples: n,
+      brier: n > 0 ? brier / n : 0,
+      ece,
+      mce,
+      logLoss: n > 0 ? logLoss / n : 0,
+      bins,
+    };
+  }
+
+  /**
+   * Print a reliability table (non-empty bins)
+   */
+  static printReport(label: string, report: CalibrationReport): void {
+    console.log(`\n  ${label}: Brier ${report.brier.toFixed(4)} | ECE ${(report.ece * 100).toFixed(2)}% | MCE ${(report.mce * 100).toFixed(2)}% | ${report.samples} predictions`);
+    for (const bin of report.bins) {
+      if (bin.count === 0) continue;
+      const range = `${(bin.lower * 100).toFixed(0)}-${(bin.upper * 100).toFixed(0)}%`;
+      console.log(`    ${range.padEnd(8)} predicted ${(bin.meanPredicted * 100).toFixed(1).padStart(5)}% | observed ${(bin.observedRate * 100).toFixed(1).padStart(5)}% | n=${bin.count}`);
+    }
+  }
+
+  /**
+   * Calibrated probability for a raw score
+   */
+  calibrate(probability: number): number {
+    const p = Math.min(1, Math.max(0, probability));
+    let calibrated: number;
+
+    if (this.state.method === 'platt') {
+      const { a, b } = this.state.platt!;
+      calibrated = 1 / (1 + Math.exp(-(a * ProbabilityCalibrator.logit(p) + b)));
+    } else {
+      calibrated = ProbabilityCalibrator.interpolate(this.state.isotonic!, p);
+    }
+
+    return Math.min(1 - PROBABILITY_FLOOR, Math.max(PROBABILITY_FLOOR, calibrated));
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // FITTING
+  // ═══════════════════════════════════════════════════════════════
+
+  private static logit(p: number): number {
+    const clamped = Math.min(1 - 1e-7, Math.max(1e-7, p));
+    return Math.log(clamped / (1 - clamped));
+  }
+
+  /**
+   * Platt (1999) with smoothed targets, fitted by Newton's method
+   */
+  private static fitPlatt(probs: number[], targets: number[]): { a: number; b: number } {
+    const positives = targets.filter(t => t === 1).length;
+    const negatives = targets.length - positives;
+    const hi = (positives + 1) / (positives + 2);
+    const lo = 1 / (negatives + 2);
+
+    const f = probs.map(p => ProbabilityCalibrator.logit(p));
+    const t = targets.map(y => (y === 1 ? hi : lo));
+
+    const loss = (a: number, b: number): number => {
+      let total = 0;
+      for (let i = 0; i < f.length; i++) {
+        const z = a * f[i] + b;
+        // log(1 + e^z) - t*z, computed stably
+        total += (z > 0 ? z + Math.log1p(Math.exp(-z)) : Math.log1p(Math.exp(z))) - t[i] * z;
+      }
+      return total;
+    };
+
+    let a = 1;
+    let b = 0;
+    let current = loss(a, b);
+
+    for (let iter = 0; iter < 100; iter++) {
+      let gA = 0, gB = 0, hAA = 0, hAB = 0, hBB = 0;
+      for (let i = 0; i < f.length; i++) {
+        const p = 1 / (1 + Math.exp(-(a * f[i] + b)));
+        const d = p - t[i];
+        const w = p * (1 - p);
+        gA += d * f[i];
+        gB += d;
+        hAA += w * f[i] * f[i];
+        hAB += w * f[i];
+        hBB += w;
+      }
+
+      hAA += 1e-12;
+      hBB += 1e-12;
+      const det = hAA * hBB - hAB * hAB;
+      if (Math.abs(gA) < 1e-9 && Math.abs(gB) < 1e-9) break;
+      if (det <= 0) break;
+
+      const stepA = (hBB * gA - hAB * gB) / det;
+      const stepB = (hAA * gB - hAB * gA) / det;
+
+      // Backtracking line search
+      let scale = 1;
+      let next = loss(a - stepA, b - stepB);
+      while (next > current && scale > 1e-8) {
+        scale /= 2;
+        next = loss(a - scale * stepA, b - scale * stepB);
+      }
+      if (next > current) break;
+
+      a -= scale * stepA;
+      b -= scale * stepB;
+      const improvement = current - next;
+      current = next;
+      if (improvement < 1e-10) break;
+    }
+
+    return { a, b };
+  }
+
+  /**
+   * Pool-adjacent-violators; knots at each block's mean score
+   */
+  private static fitIsotonic(probs: number[], targets: number[]): { x: number[]; y: number[] } {
+    const order = probs.map((_, i) => i).sort((i, j) => probs[i] - probs[j]);
+
+    const blocks: { sumX: number; sumY: number; count: number }[] = [];
+    for (const i of order) {
+      blocks.push({ sumX: probs[i], sumY: targets[i], count: 1 });
+      while (blocks.length > 1) {
+        const last = blocks[blocks.length - 1];
+        const prev = blocks[blocks.length - 2];
+        if (prev.sumY / prev.count < last.sumY / last.count) break;
+        prev.sumX += last.sumX;
+        prev.sumY += last.sumY;
+        prev.count += last.count;
+        blocks.pop();
+      }
+    }
+
+    return {
+      x: blocks.map(b => b.sumX / b.count),
+      y: blocks.map(b => b.sumY / b.count),
+    };
+  }
+
+  private static interpolate(knots: { x: number[]; y: number[] }, p: number): number {
+    const { x, y } = knots;
+    if (p <= x[0]) return y[0];
+    if (p >= x[x.length - 1]) return y[y.length - 1];
+
+    let lo = 0;
+    let hi = x.length - 1;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (x[mid] <= p) lo = mid;
+      else hi = mid;
+    }
+    const span = x[hi] - x[lo];
+    return span > 0 ? y[lo] + (y[hi] - y[lo]) * (p - x[lo]) / span : y[hi];
+  }
+}
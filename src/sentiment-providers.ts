@@ -0,0 +1,412 @@
+/**
+ * Sentiment Providers
+ * Local-file sentiment sources for Layer 4 of TradeDecisionPipeline
+ *
+ * Every provider answers "what was the sentiment for this symbol at time t",
+ * using only data stamped at or before t and no older than its max age - so
+ * the same providers work live and in backtests. Scores are -1 (bearish) to 1
+ * (bullish):
+ *   - fear_greed:  Fear & Greed CSV (timestamp,value 0-100) → (value - 50) / 50
+ *   - funding:     funding rate snapshots (timestamp,symbol,funding_rate);
+ *                  crowded longs paying shorts read bearish: -tanh(rate / scale)
+ *   - long_short:  long/short account ratio dumps (timestamp,symbol,long_short_ratio);
+ *                  contrarian as well: -tanh(ln(ratio) / scale)
+ *   - news:        headline JSONL ({time, headline, symbols?}) scored with a word
+ *                  lexicon, averaged over the last window_hours
+ *
+ * CompositeSentimentProvider blends whichever providers have a reading into
+ * one score, by weight. Files and weights: config/features.json → sentiment
+ * (paths relative to sentiment.dir). Timestamps may be ms, seconds or ISO dates.
+ *
+ * Usage:
+ *   const sentiment = CompositeSentimentProvider.fromConfig();
+ *   setup.sentimentScore = sentiment.read('BTCUSDT', barCloseTime)?.score;
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface SentimentReading {
+  score: number;                // -1..1
+  time: number;                 // Timestamp of the underlying data
+  source: string;
+  detail?: string;
+}
+
+export interface SentimentProvider {
+  readonly name: string;
+  read(symbol: string, time: number): SentimentReading | null;
+}
+
+export interface SentimentSourceConfig {
+  file: string;
+  weight: number;
+  max_age_hours?: number;       // Older readings are ignored (news uses window_hours)
+  scale?: number;               // funding / long_short sensitivity
+  window_hours?: number;        // news aggregation window
+}
+
+export interface SentimentConfig {
+  dir: string;
+  fear_greed: SentimentSourceConfig;
+  funding: SentimentSourceConfig;
+  long_short: SentimentSourceConfig;
+  news: SentimentSourceConfig & { lexicon?: string };
+}
+
+const DEFAULT_CONFIG: SentimentConfig = {
+  dir: 'data/sentiment',
+  fear_greed: { file: 'fear_greed.csv', weight: 0.35, max_age_hours: 48 },
+  funding: { file: 'funding_rates.csv', weight: 0.25, max_age_hours: 24, scale: 0.0005 },
+  long_short: { file: 'long_short_ratio.csv', weight: 0.2, max_age_hours: 24, scale: 0.5 },
+  news: { file: 'news.jsonl', weight: 0.2, window_hours: 24 },
+};
+
+// Default lexicon for headline scoring; sentiment.news.lexicon can point at a
+// JSON { "word": score } file to extend or override it
+const DEFAULT_LEXICON: Record<string, number> = {
+  surge: 1, surges: 1, rally: 1, rallies: 1, soar: 1, soars: 1, bullish: 1, breakout: 0.8,
+  record: 0.6, high: 0.3, gain: 0.6, gains: 0.6, rise: 0.5, rises: 0.5, jump: 0.7, jumps: 0.7,
+  approval: 0.8, approved: 0.8, adoption: 0.7, inflows: 0.7, upgrade: 0.5, partnership: 0.5,
+  buy: 0.4, accumulate: 0.6, recover: 0.5, recovers: 0.5, rebound: 0.6,
+  crash: -1, crashes: -1, plunge: -1, plunges: -1, dump: -0.8, dumps: -0.8, bearish: -1,
+  selloff: -0.9, sell: -0.4, drop: -0.6, drops: -0.6, fall: -0.5, falls: -0.5, low: -0.3,
+  hack: -1, hacked: -1, exploit: -0.9, lawsuit: -0.7, sued: -0.7, ban: -0.9, bans: -0.9,
+  outflows: -0.7, liquidation: -0.6, liquidations: -0.6, fraud: -1, bankrupt: -1, bankruptcy: -1,
+  fear: -0.5, panic: -0.8, delist: -0.8, delisting: -0.8, investigation: -0.6,
+};
+
+/**
+ * Parse ms / seconds / ISO timestamps (NaN if unreadable)
+ */
+export function parseSentimentTime(value: unknown): number {
+  if (typeof value === 'number') return value < 1e12 ? value * 1000 : value;
+  const text = String(value ?? '').trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return parseSentimentTime(parseFloat(text));
+  return Date.parse(text);
+}
+
+/**
+ * Header-keyed rows of a simple CSV (no quoted commas)
+ */
+function readCsv(file: string): Array<Record<string, string>> {
+  const lines = fs.readFileSync(file, 'utf-8').split('\n').map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, '').toLowerCase());
+  return lines.slice(1).map(line => {
+    const values = line.split(',');
+    const row: Record<string, string> = {};
+    headers.forEach((h, i) => { row[h] = values[i]?.trim().replace(/"/g, '') ?? ''; });
+    return row;
+  });
+}
+
+/**
+ * Time-sorted values with "latest at or before t" lookup
+ */
+class ReadingSeries {
+  private times: number[] = [];
+  private values: number[] = [];
+
+  constructor(points: Array<[number, number]>) {
+    points.sort((a, b) => a[0] - b[0]);
+    for (const [t, v] of points) {
+      this.times.push(t);
+      this.values.push(v);
+    }
+  }
+
+  at(time: number, maxAgeMs: number): { time: number; value: number } | null {
+    let lo = 0;
+    let hi = this.times.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.times[mid] <= time) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    if (found < 0 || time - this.times[found] > maxAgeMs) return null;
+    return { time: this.times[found], value: this.values[found] };
+  }
+}
+
+/**
+ * Per-symbol series from a timestamp,symbol,<column> CSV
+ */
+function readSymbolSeries(file: string, columns: string[]): Map<string, ReadingSeries> {
+  const points = new Map<string, Array<[number, number]>>();
+  for (const row of readCsv(file)) {
+    const time = parseSentimentTime(row.timestamp ?? row.time ?? row.date);
+    const column = columns.find(c => row[c] !== undefined && row[c] !== '');
+    const value = column ? parseFloat(row[column]) : NaN;
+    const symbol = (row.symbol || '').toUpperCase();
+    if (!symbol || Number.isNaN(time) || !Number.isFinite(value)) continue;
+    if (!points.has(symbol)) points.set(symbol, []);
+    points.get(symbol)!.push([time, value]);
+  }
+  const series = new Map<string, ReadingSeries>();
+  for (const [symbol, p] of points) series.set(symbol, new ReadingSeries(p));
+  return series;
+}
+
+export class FearGreedProvider implements SentimentProvider {
+  readonly name = 'fear_greed';
+  private series: ReadingSeries;
+  private maxAgeMs: number;
+
+  constructor(file: string, maxAgeHours: number = DEFAULT_CONFIG.fear_greed.max_age_hours!) {
+    const points: Array<[number, number]> = [];
+    for (const row of readCsv(file)) {
+      const time = parseSentimentTime(row.timestamp ?? row.time ?? row.date);
+      const value = parseFloat(row.value ?? row.fng_value);
+      if (!Number.isNaN(time) && Number.isFinite(value)) points.push([time, value]);
+    }
+    this.series = new ReadingSeries(points);
+    this.maxAgeMs = maxAgeHours * HOUR_MS;
+  }
+
+  // Market-wide index: the symbol is ignored
+  read(_symbol: string, time: number): SentimentReading | null {
+    const point = this.series.at(time, this.maxAgeMs);
+    if (!point) return null;
+    return {
+      score: Math.max(-1, Math.min(1, (point.value - 50) / 50)),
+      time: point.time,
+      source: this.name,
+      detail: `index ${point.value.toFixed(0)}`,
+    };
+  }
+}
+
+export class FundingRateProvider implements SentimentProvider {
+  readonly name = 'funding';
+  private series: Map<string, ReadingSeries>;
+  private maxAgeMs: number;
+  private scale: number;
+
+  constructor(file: string, maxAgeHours: number = DEFAULT_CONFIG.funding.max_age_hours!, scale: number = DEFAULT_CONFIG.funding.scale!) {
+    this.series = readSymbolSeries(file, ['funding_rate', 'fundingrate', 'rate']);
+    this.maxAgeMs = maxAgeHours * HOUR_MS;
+    this.scale = scale;
+  }
+
+  read(symbol: string, time: number): SentimentReading | null {
+    const point = this.series.get(symbol.toUpperCase())?.at(time, this.maxAgeMs);
+    if (!point) return null;
+    return {
+      score: -Math.tanh(point.value / this.scale),
+      time: point.time,
+      source: this.name,
+      detail: `rate ${(point.value * 100).toFixed(4)}%`,
+    };
+  }
+}
+
+export class LongShortRatioProvider implements SentimentProvider {
+  readonly name = 'long_short';
+  private series: Map<string, ReadingSeries>;
+  private maxAgeMs: number;
+  private scale: number;
+
+  constructor(file: string, maxAgeHours: number = DEFAULT_CONFIG.long_short.max_age_hours!, scale: number = DEFAULT_CONFIG.long_short.scale!) {
+    this.series = readSymbolSeries(file, ['long_short_ratio', 'longshortratio', 'ratio']);
+    this.maxAgeMs = maxAgeHours * HOUR_MS;
+    this.scale = scale;
+  }
+
+  read(symbol: string, time: number): SentimentReading | null {
+    const point = this.series.get(symbol.toUpperCase())?.at(time, this.maxAgeMs);
+    if (!point || point.value <= 0) return null;
+    return {
+      score: -Math.tanh(Math.log(point.value) / this.scale),
+      time: point.time,
+      source: this.name,
+      detail: `ratio ${point.value.toFixed(2)}`,
+    };
+  }
+}
+
+// A news.jsonl line - any of the time/text/symbol spellings
+interface HeadlineItem {
+  time?: unknown;
+  timestamp?: unknown;
+  published_at?: unknown;
+  headline?: unknown;
+  title?: unknown;
+  symbols?: unknown;
+  symbol?: unknown;
+}
+
+interface Headline {
+  time: number;
+  score: number | null;         // null: no lexicon words
+  symbols: string[];            // Upper-case assets/symbols; empty = market-wide
+  text: string;
+}
+
+export class NewsHeadlineProvider implements SentimentProvider {
+  readonly name = 'news';
+  private headlines: Headline[] = [];
+  private lexicon: Record<string, number>;
+  private windowMs: number;
+
+  constructor(file: string, windowHours: number = DEFAULT_CONFIG.news.window_hours!, lexicon: Record<string, number> = {}) {
+    this.lexicon = { ...DEFAULT_LEXICON, ...lexicon };
+    this.windowMs = windowHours * HOUR_MS;
+
+    for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+      if (!line.trim()) continue;
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (typeof parsed !== 'object' || parsed === null) continue;
+      const item = parsed as HeadlineItem;
+      const time = parseSentimentTime(item.time ?? item.timestamp ?? item.published_at);
+      const text = String(item.headline ?? item.title ?? '');
+      if (Number.isNaN(time) || !text) continue;
+      const tagged = item.symbols ?? item.symbol ?? [];
+      const symbols = (Array.isArray(tagged) ? tagged : [tagged]).map(s => String(s).toUpperCase());
+      this.headlines.push({ time, score: this.scoreText(text), symbols, text });
+    }
+    this.headlines.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Mean lexicon score of the words that hit, -1..1 (null if none hit)
+   */
+  scoreText(text: string): number | null {
+    const words = text.toLowerCase().match(/[a-z]+/g) ?? [];
+    let sum = 0;
+    let hits = 0;
+    for (const word of words) {
+      const value = this.lexicon[word];
+      if (value === undefined) continue;
+      sum += value;
+      hits++;
+    }
+    return hits > 0 ? Math.max(-1, Math.min(1, sum / hits)) : null;
+  }
+
+  read(symbol: string, time: number): SentimentReading | null {
+    const upper = symbol.toUpperCase();
+    const asset = upper.replace(/(USDT|USDC|BUSD|USD)$/, '');
+    const relevant = this.headlines.filter(h =>
+      h.time <= time && time - h.time <= this.windowMs && h.score !== null &&
+      (h.symbols.length === 0 || h.symbols.includes(upper) || h.symbols.includes(asset))
+    );
+    if (relevant.length === 0) return null;
+    return {
+      score: relevant.reduce((s, h) => s + h.score!, 0) / relevant.length,
+      time: relevant[relevant.length - 1].time,
+      source: this.name,
+      detail: `${relevant.length} headlines`,
+    };
+  }
+}
+
+export class CompositeSentimentProvider implements SentimentProvider {
+  readonly name = 'composite';
+  private providers: Array<{ provider: SentimentProvider; weight: number }>;
+
+  constructor(providers: Array<{ provider: SentimentProvider; weight: number }>) {
+    this.providers = providers.filter(p => p.weight > 0);
+  }
+
+  /**
+   * Load sentiment from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): SentimentConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const section = features.sentiment || {};
+      return {
+        dir: section.dir ?? DEFAULT_CONFIG.dir,
+        fear_greed: { ...DEFAULT_CONFIG.fear_greed, ...section.fear_greed },
+        funding: { ...DEFAULT_CONFIG.funding, ...section.funding },
+        long_short: { ...DEFAULT_CONFIG.long_short, ...section.long_short },
+        news: { ...DEFAULT_CONFIG.news, ...section.news },
+      };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  /**
+   * Composite of every configured source whose file exists
+   */
+  static fromConfig(config: SentimentConfig = CompositeSentimentProvider.loadConfig()): CompositeSentimentProvider {
+    const dir = path.resolve(process.cwd(), config.dir);
+    const file = (source: SentimentSourceConfig) => path.join(dir, source.file);
+    const providers: Array<{ provider: SentimentProvider; weight: number }> = [];
+
+    // A missing source is skipped silently, an unreadable one with a warning
+    const add = (name: string, source: SentimentSourceConfig, create: () => SentimentProvider) => {
+      if (!fs.existsSync(file(source))) return;
+      try {
+        providers.push({ provider: create(), weight: source.weight });
+      } catch (err: any) {
+        console.warn(`[Sentiment] Skipping ${name} (${file(source)}): ${err.message}`);
+      }
+    };
+
+    add('fear_greed', config.fear_greed, () => new FearGreedProvider(file(config.fear_greed), config.fear_greed.max_age_hours));
+    add('funding', config.funding, () => new FundingRateProvider(file(config.funding), config.funding.max_age_hours, config.funding.scale));
+    add('long_short', config.long_short, () => new LongShortRatioProvider(file(config.long_short), config.long_short.max_age_hours, config.long_short.scale));
+    add('news', config.news, () => {
+      const lexiconFile = config.news.lexicon ? path.join(dir, config.news.lexicon) : null;
+      const lexicon = lexiconFile && fs.existsSync(lexiconFile) ? JSON.parse(fs.readFileSync(lexiconFile, 'utf-8')) : {};
+      return new NewsHeadlineProvider(file(config.news), config.news.window_hours, lexicon);
+    });
+
+    return new CompositeSentimentProvider(providers);
+  }
+
+  getSources(): string[] {
+    return this.providers.map(p => p.provider.name);
+  }
+
+  /**
+   * Each provider's reading (null where it has no data for the time)
+   */
+  components(symbol: string, time: number): Record<string, SentimentReading | null> {
+    const result: Record<string, SentimentReading | null> = {};
+    for (const { provider } of this.providers) result[provider.name] = provider.read(symbol, time);
+    return result;
+  }
+
+  /**
+   * Weighted mean of the providers that have a reading, re-normalized over them
+   */
+  read(symbol: string, time: number): SentimentReading | null {
+    let sum = 0;
+    let weight = 0;
+    let latest = 0;
+    const parts: string[] = [];
+
+    for (const { provider, weight: w } of this.providers) {
+      const reading = provider.read(symbol, time);
+      if (!reading) continue;
+      sum += reading.score * w;
+      weight += w;
+      latest = Math.max(latest, reading.time);
+      parts.push(`${provider.name} ${reading.score >= 0 ? '+' : ''}${reading.score.toFixed(2)}`);
+    }
+
+    if (weight === 0) return null;
+    return {
+      score: Math.max(-1, Math.min(1, sum / weight)),
+      time: latest,
+      source: this.name,
+      detail: parts.join(', '),
+    };
+  }
+}
@@ -0,0 +1,640 @@
+/**
+ * Streaming SMC Analyzer
+ * Stateful, one-candle-at-a-time version of SMCIndicators.analyze()
+ *
+ * SMCIndicators.analyze(candles.slice(0, i + 1)) rebuilds every indicator and
+ * state machine from bar 0, so walking a series is O(n²). SMCAnalyzer keeps:
+ *   - EMA50/EMA200 and VWAP as running values
+ *   - RSI/ATR/SMA over a short trailing buffer
+ *   - Order blocks, FVGs and liquidity zones as live state machines, each
+ *     advanced once per new candle and dropped when they reach a dead state
+ *
+ * analyze() returns the same SMCAnalysis that SMCIndicators.analyze() would
+ * return for every candle pushed so far.
+ *
+ * Usage:
+ *   const analyzer = new SMCAnalyzer();
+ *   for (const candle of candles) {
+ *     const analysis = analyzer.update(candle);
+ *   }
+ */
+
+import {
+  SMCIndicators,
+  SMCAnalysis,
+  Candle,
+  OrderBlock,
+  OBState,
+  FVG,
+  FVGState,
+  LiquidityZone,
+  LiquidityZones,
+} from './smc-indicators.js';
+
+// Same parameters as the batch detectors
+const OB_LOOKBACK = 10;
+const SWING_PERIOD = 5;
+const RSI_PERIOD = 14;
+const ATR_PERIOD = 14;
+
+// FVG candidate - size filter and displacement depend on the ATR at analysis
+// time, so they are applied in analyze() rather than at formation
+interface TrackedFVG {
+  fvg: FVG;
+  bodyUp: boolean;     // Middle candle closed up
+  bodyDown: boolean;   // Middle candle closed down
+  range: number;       // Middle candle high - low
+}
+
+export interface SMCAnalyzerConfig {
+  historySize: number;  // Candles kept for trailing-window calculations (>= 250)
+}
+
+const DEFAULT_CONFIG: SMCAnalyzerConfig = {
+  historySize: 500,
+};
+
+export class SMCAnalyzer {
+  private config: SMCAnalyzerConfig;
+
+  // Trailing candle buffer: history[k - offset] is absolute candle k
+  private history: Candle[] = [];
+  private offset = 0;
+  private count = 0;
+
+  // Running indicators
+  private ema50 = 0;
+  private ema200 = 0;
+  private closeSum = 0;
+  private cumVolPrice = 0;
+  private cumVol = 0;
+
+  // Live state machines
+  private orderBlocks: OrderBlock[] = [];
+  private fvgs: TrackedFVG[] = [];
+  private liquidityHighs: LiquidityZones['highs'] = [];
+  private liquidityLows: LiquidityZones['lows'] = [];
+  private liquidityZones: LiquidityZone[] = [];
+
+  constructor(config: Partial<SMCAnalyzerConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.config.historySize = Math.max(250, this.config.historySize);
+  }
+
+  /**
+   * Number of candles ingested
+   */
+  get length(): number {
+    return this.count;
+  }
+
+  /**
+   * Trailing candle buffer (most recent last) - for tail-only consumers like
+   * ICTIndicators.analyzeFast. Do not mutate.
+   */
+  getCandles(): Candle[] {
+    return this.history;
+  }
+
+  /**
+   * Ingest one candle and return the analysis as of that candle
+   */
+  update(candle: Candle): SMCAnalysis {
+    this.push(candle);
+    return this.analyze();
+  }
+
+  /**
+   * Ingest one candle without building an analysis (for sampled walks)
+   */
+  push(candle: Candle): void {
+    const t = this.count;
+    this.history.push(candle);
+    this.count++;
+
+    if (this.history.length > this.config.historySize * 2) {
+      const drop = this.history.length - this.config.historySize;
+      this.history.splice(0, drop);
+      this.offset += drop;
+    }
+
+    this.updateRunningIndicators(candle);
+
+    // Advance existing state machines with the new candle, then register
+    // whatever the new candle completes (batch detectors start their state
+    // machines on the bar after formation)
+    if (t >= 1) {
+      this.stepOrderBlocks(t);
+      this.stepFVGs(t);
+    }
+    this.stepLiquidityZones(t);
+
+    if (t - 2 >= OB_LOOKBACK) this.detectOrderBlock(t - 2, t);
+    if (t - 1 >= 1) this.detectFVG(t - 1);
+    if (t - SWING_PERIOD >= SWING_PERIOD) this.detectSwing(t - SWING_PERIOD, t);
+  }
+
+  /**
+   * Build the SMCAnalysis for the candles ingested so far
+   */
+  analyze(): SMCAnalysis {
+    if (this.count === 0) {
+      throw new Error('SMCAnalyzer: no candles ingested');
+    }
+
+    const current = this.count - 1;
+    const trend = this.getTrend();
+    const bos = this.getBOS();
+    const choch = bos !== null && trend !== null && bos !== trend;
+
+    // Snapshot live objects so later updates don't mutate returned analyses
+    const orderBlocks = this.orderBlocks.map(ob => ({ ...ob, barsAgo: current - ob.index }));
+    const fvg = this.snapshotFVGs(current);
+    const liquidityZones: LiquidityZones = {
+      highs: this.liquidityHighs.slice(),
+      lows: this.liquidityLows.slice(),
+      zones: this.liquidityZones.map(z =>
+        z.state === 'VALID_LIQUIDITY' || z.state === 'DEAD' ? z : { ...z }
+      ),
+    };
+
+    const returnSignals = SMCIndicators.detectReturnSignals(this.history, orderBlocks, fvg, trend);
+    const signals = SMCIndicators.generateSignals(orderBlocks, fvg, trend);
+
+    return {
+      trend,
+      bos,
+      choch,
+      ema50: this.emaValue(this.ema50, 50) || null,
+      ema200: this.emaValue(this.ema200, 200) || null,
+      rsi: this.rsi() || null,
+      orderBlocks,
+      fvg,
+      liquidityZones,
+      breakerBlocks: [],
+      atr: this.atr() || null,
+      vwap: (this.cumVolPrice / this.cumVol) || null,
+      pullback: SMCIndicators.detectPullback(this.history, trend),
+      signals,
+      bestSignal: signals.length > 0 ? signals[0] : null,
+      returnSignals,
+    };
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // RUNNING INDICATORS
+  // ═══════════════════════════════════════════════════════════════
+
+  private candle(index: number): Candle {
+    return this.history[index - this.offset];
+  }
+
+  private updateRunningIndicators(candle: Candle): void {
+    // EMAs are seeded with the SMA of the first `period` closes
+    if (this.count <= 200) this.closeSum += candle.close;
+    if (this.count === 50) this.ema50 = this.closeSum / 50;
+    else if (this.count > 50) this.ema50 = (candle.close - this.ema50) * (2 / 51) + this.ema50;
+    if (this.count === 200) this.ema200 = this.closeSum / 200;
+    else if (this.count > 200) this.ema200 = (candle.close - this.ema200) * (2 / 201) + this.ema200;
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    this.cumVolPrice += typicalPrice * candle.volume;
+    this.cumVol += candle.volume;
+  }
+
+  /**
+   * Before `period` closes exist the batch EMA is the partial sum / period
+   */
+  private emaValue(value: number, period: number): number {
+    return this.count >= period ? value : this.closeSum / period;
+  }
+
+  private sumCloses(from: number, to: number): number {
+    let sum = 0;
+    for (let k = from; k < to; k++) sum += this.candle(k).close;
+    return sum;
+  }
+
+  private sma(period: number, endIndex: number): number {
+    return this.sumCloses(endIndex - period + 1, endIndex + 1) / period;
+  }
+
+  private rsi(): number {
+    const n = this.count;
+    if (n < RSI_PERIOD + 1) return 0;
+
+    // Matches SMCIndicators.rsi: window excludes the latest close
+    let gains = 0;
+    let losses = 0;
+    for (let k = n - RSI_PERIOD; k < n - 1; k++) {
+      const diff = this.candle(k).close - this.candle(k - 1).close;
+      if (diff >= 0) gains += diff;
+      else losses += Math.abs(diff);
+    }
+
+    const avgGain = gains / RSI_PERIOD;
+    const avgLoss = losses / RSI_PERIOD;
+    if (avgLoss === 0) return 100;
+    return 100 - (100 / (1 + avgGain / avgLoss));
+  }
+
+  private atr(): number {
+    const n = this.count;
+    if (n < ATR_PERIOD) return 0;
+
+    let sum = 0;
+    for (let k = n - ATR_PERIOD; k < n; k++) {
+      const c = this.candle(k);
+      sum += Math.max(c.high - c.low, Math.abs(c.high - c.close), Math.abs(c.low - c.close));
+    }
+    return sum / ATR_PERIOD;
+  }
+
+  private getTrend(): 'up' | 'down' | null {
+    if (this.count < 200) return null;
+
+    const sma50 = this.sma(50, this.count - 1);
+    const sma200 = this.sma(200, this.count - 1);
+    if (sma50 > sma200) return 'up';
+    if (sma50 < sma200) return 'down';
+    return null;
+  }
+
+  private getBOS(): 'up' | 'down' | null {
+    if (this.count < 51) return null;
+
+    const last = this.sma(50, this.count - 1);
+    const prev = this.sma(50, this.count - 2);
+    if (last > prev) return 'up';
+    if (last < prev) return 'down';
+    return null;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // ORDER BLOCKS
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Check whether candle i formed an OB (needs candles up to i + 2)
+   */
+  private detectOrderBlock(i: number, currentIdx: number): void {
+    const candle = this.candle(i);
+    const nextCandle = this.candle(i + 1);
+    const nextNextCandle = this.candle(i + 2);
+
+    const bodySize = Math.abs(candle.close - candle.open);
+    let avgBody = 0;
+    for (let k = i - OB_LOOKBACK; k < i; k++) {
+      const c = this.candle(k);
+      avgBody = avgBody + Math.abs(c.close - c.open);
+    }
+    avgBody /= OB_LOOKBACK;
+
+    const atrPeriod = Math.min(14, i);
+    let atr = 0;
+    if (atrPeriod > 0) {
+      for (let k = i - atrPeriod; k < i; k++) {
+        if (k >= 0) atr += this.candle(k).high - this.candle(k).low;
+      }
+      atr /= atrPeriod;
+    }
+
+    let type: 'bull' | 'bear' | null = null;
+    let impulseMove = 0;
+    if (candle.close < candle.open && bodySize > avgBody * 1.5 &&
+        nextCandle.close > nextCandle.open && nextNextCandle.close > nextNextCandle.open) {
+      type = 'bull';
+      impulseMove = nextNextCandle.close - candle.low;
+    } else if (candle.close > candle.open && bodySize > avgBody * 1.5 &&
+        nextCandle.close < nextCandle.open && nextNextCandle.close < nextNextCandle.open) {
+      type = 'bear';
+      impulseMove = candle.high - nextNextCandle.close;
+    }
+    if (!type) return;
+
+    const impulseATR = atr > 0 ? impulseMove / atr : 1;
+
+    let causedBOS = false;
+    for (let k = Math.max(0, i - 20); k < i; k++) {
+      const broke = type === 'bull'
+        ? nextNextCandle.close > this.candle(k).high
+        : nextNextCandle.close < this.candle(k).low;
+      if (broke) {
+        causedBOS = true;
+        break;
+      }
+    }
+
+    let strengthScore = 0;
+    if (impulseATR > 1.5) strengthScore++;
+    if (causedBOS) strengthScore++;
+    if (bodySize > avgBody * 2) strengthScore++;
+
+    this.orderBlocks.push({
+      index: i,
+      timestamp: candle.timestamp,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      mid: (candle.high + candle.low) / 2,
+      type,
+      state: 'NEW_OB' as OBState,
+      strength: strengthScore,
+      causedBOS,
+      hasDisplacement: impulseATR > 1.5,
+      hasFVG: false,
+      impulseSize: impulseATR,
+      testCount: 0,
+      firstTouchIndex: -1,
+      rejectionConfirmed: false,
+      ltfBOSConfirmed: false,
+      tested: false,
+      broken: false,
+      priceLeftZone: false,
+      barsAgo: currentIdx - i,
+    });
+  }
+
+  /**
+   * Advance every live OB by candle j (same transitions as detectOrderBlocks)
+   */
+  private stepOrderBlocks(j: number): void {
+    const c = this.candle(j);
+    const prevCandle = this.candle(j - 1);
+    let invalidated = false;
+
+    for (const ob of this.orderBlocks) {
+      const zoneHigh = Math.max(ob.open, ob.close);
+      const zoneLow = Math.min(ob.open, ob.close);
+
+      if (ob.type === 'bull') {
+        if (ob.state === 'NEW_OB' && c.low > zoneHigh) {
+          ob.state = 'WAITING_FOR_MITIGATION';
+          ob.priceLeftZone = true;
+        }
+        if (ob.state === 'WAITING_FOR_MITIGATION' && c.low <= zoneHigh && c.low >= zoneLow) {
+          ob.state = 'IN_MITIGATION';
+          ob.firstTouchIndex = j;
+          ob.testCount++;
+          ob.tested = true;
+        }
+        if (ob.state === 'IN_MITIGATION') {
+          const touchedZone = c.low <= zoneHigh && c.low >= zoneLow;
+          if (touchedZone && c.close > ob.mid && c.close > c.open && c.high > prevCandle.high) {
+            ob.rejectionConfirmed = true;
+            ob.ltfBOSConfirmed = true;
+            ob.state = 'CONFIRMED_MITIGATED';
+          }
+        }
+        if (c.close < zoneLow - (zoneLow * 0.005)) {
+          ob.state = 'INVALIDATED';
+          ob.broken = true;
+          invalidated = true;
+        }
+      } else {
+        if (ob.state === 'NEW_OB' && c.high < zoneLow) {
+          ob.state = 'WAITING_FOR_MITIGATION';
+          ob.priceLeftZone = true;
+        }
+        if (ob.state === 'WAITING_FOR_MITIGATION' && c.high >= zoneLow && c.high <= zoneHigh) {
+          ob.state = 'IN_MITIGATION';
+          ob.firstTouchIndex = j;
+          ob.testCount++;
+          ob.tested = true;
+        }
+        if (ob.state === 'IN_MITIGATION') {
+          const touchedZone = c.high >= zoneLow && c.high <= zoneHigh;
+          if (touchedZone && c.close < ob.mid && c.close < c.open && c.low < prevCandle.low) {
+            ob.rejectionConfirmed = true;
+            ob.ltfBOSConfirmed = true;
+            ob.state = 'CONFIRMED_MITIGATED';
+          }
+        }
+        if (c.close > zoneHigh + (zoneHigh * 0.005)) {
+          ob.state = 'INVALIDATED';
+          ob.broken = true;
+          invalidated = true;
+        }
+      }
+    }
+
+    // INVALIDATED is terminal
+    if (invalidated) {
+      this.orderBlocks = this.orderBlocks.filter(ob => ob.state !== 'INVALIDATED');
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // FAIR VALUE GAPS
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Check whether candles i-1..i+1 left a gap (needs candle i + 1)
+   */
+  private detectFVG(i: number): void {
+    const prev = this.candle(i - 1);
+    const curr = this.candle(i);
+    const next = this.candle(i + 1);
+
+    let fvg: FVG | null = null;
+    if (prev.high < next.low) {
+      const size = next.low - prev.high;
+      fvg = this.newFVG(i, prev.high, next.low, 'bull', size);
+    } else if (prev.low > next.high) {
+      const size = prev.low - next.high;
+      fvg = this.newFVG(i, next.high, prev.low, 'bear', size);
+    }
+
+    if (fvg) {
+      this.fvgs.push({
+        fvg,
+        bodyUp: curr.close > curr.open,
+        bodyDown: curr.close < curr.open,
+        range: curr.high - curr.low,
+      });
+    }
+  }
+
+  private newFVG(index: number, from: number, to: number, type: 'bull' | 'bear', size: number): FVG {
+    return {
+      index,
+      from,
+      to,
+      mid: (from + to) / 2,
+      type,
+      size,
+      sizeATR: 0,
+      state: 'NEW_FVG' as FVGState,
+      filled: false,
+      partiallyFilled: false,
+      fillPercent: 0,
+      rejectedAt50: false,
+      formedAfterBOS: false,
+      hasDisplacement: false,
+      overlapsOB: false,
+      inOTE: false,
+      barsAgo: 0,
+    };
+  }
+
+  /**
+   * Advance every live FVG by candle j (same transitions as detectFVG)
+   */
+  private stepFVGs(j: number): void {
+    const c = this.candle(j);
+    let filled = false;
+
+    for (const { fvg } of this.fvgs) {
+      if (fvg.type === 'bull') {
+        const priceInGap = c.low <= fvg.to && c.low >= fvg.from;
+
+        if (fvg.state === 'NEW_FVG' && !priceInGap) fvg.state = 'PENDING_FILL';
+        if (fvg.state === 'PENDING_FILL' && priceInGap) {
+          fvg.state = 'FILLING';
+          fvg.partiallyFilled = true;
+        }
+        if (fvg.state === 'FILLING') {
+          fvg.fillPercent = Math.min(1, (fvg.to - Math.max(c.low, fvg.from)) / fvg.size);
+          if (c.low <= fvg.mid && c.close > fvg.mid && c.close > c.open) {
+            fvg.rejectedAt50 = true;
+            fvg.state = 'STRONG_FVG';
+          }
+          if (c.low <= fvg.from) {
+            fvg.filled = true;
+            fvg.fillPercent = 1;
+            fvg.state = 'FULLY_FILLED';
+            filled = true;
+          }
+        }
+      } else {
+        const priceInGap = c.high >= fvg.from && c.high <= fvg.to;
+
+        if (fvg.state === 'NEW_FVG' && !priceInGap) fvg.state = 'PENDING_FILL';
+        if (fvg.state === 'PENDING_FILL' && priceInGap) {
+          fvg.state = 'FILLING';
+          fvg.partiallyFilled = true;
+        }
+        if (fvg.state === 'FILLING') {
+          fvg.fillPercent = Math.min(1, (Math.min(c.high, fvg.to) - fvg.from) / fvg.size);
+          if (c.high >= fvg.mid && c.close < fvg.mid && c.close < c.open) {
+            fvg.rejectedAt50 = true;
+            fvg.state = 'STRONG_FVG';
+          }
+          if (c.high >= fvg.to) {
+            fvg.filled = true;
+            fvg.fillPercent = 1;
+            fvg.state = 'FULLY_FILLED';
+            filled = true;
+          }
+        }
+      }
+    }
+
+    // FULLY_FILLED is terminal
+    if (filled) {
+      this.fvgs = this.fvgs.filter(t => t.fvg.state !== 'FULLY_FILLED');
+    }
+  }
+
+  /**
+   * Apply the current-ATR size filter (> 0.3 ATR) and displacement flag
+   */
+  private snapshotFVGs(currentIdx: number): FVG[] {
+    const n = this.count;
+    const atrPeriod = Math.min(14, n - 1);
+    let atr = 0;
+    for (let k = n - atrPeriod; k < n; k++) {
+      if (k >= 0) atr += this.candle(k).high - this.candle(k).low;
+    }
+    atr = atr / atrPeriod || 1;
+
+    const result: FVG[] = [];
+    for (const tracked of this.fvgs) {
+      const sizeATR = tracked.fvg.size / atr;
+      if (sizeATR <= 0.3) continue;
+
+      const impulse = tracked.fvg.type === 'bull' ? tracked.bodyUp : tracked.bodyDown;
+      result.push({
+        ...tracked.fvg,
+        sizeATR,
+        hasDisplacement: impulse && tracked.range > atr,
+        barsAgo: currentIdx - tracked.fvg.index,
+      });
+    }
+    return result;
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // LIQUIDITY
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Check whether candle i is a swing high/low (needs candle i + SWING_PERIOD)
+   */
+  private detectSwing(i: number, currentIdx: number): void {
+    const pivot = this.candle(i);
+    let isSwingHigh = true;
+    let isSwingLow = true;
+    for (let k = i - SWING_PERIOD; k <= i + SWING_PERIOD; k++) {
+      const c = this.candle(k);
+      if (c.high > pivot.high) isSwingHigh = false;
+      if (c.low < pivot.low) isSwingLow = false;
+    }
+
+    for (const type of ['high', 'low'] as const) {
+      if (type === 'high' ? !isSwingHigh : !isSwingLow) continue;
+
+      const price = type === 'high' ? pivot.high : pivot.low;
+      (type === 'high' ? this.liquidityHighs : this.liquidityLows).push({ price, touches: 0, lastTouch: i });
+
+      const zone: LiquidityZone = {
+        price,
+        type,
+        touches: 1,
+        state: 'TARGET_ZONE',
+        grabbedIndex: -1,
+        reversalConfirmed: false,
+        sessionType: 'other',
+      };
+
+      // Catch up on the candles that confirmed the swing
+      for (let j = i + 1; j <= currentIdx; j++) {
+        this.stepZone(zone, j);
+      }
+      this.liquidityZones.push(zone);
+    }
+  }
+
+  private stepLiquidityZones(j: number): void {
+    for (const zone of this.liquidityZones) {
+      this.stepZone(zone, j);
+    }
+  }
+
+  /**
+   * Same transitions as detectLiquidity: sweep → reversal within 5 bars
+   */
+  private stepZone(zone: LiquidityZone, j: number): void {
+    if (zone.state === 'VALID_LIQUIDITY' || zone.state === 'DEAD') return;
+
+    const c = this.candle(j);
+    const swept = zone.type === 'high' ? c.high > zone.price : c.low < zone.price;
+    if (swept && zone.state === 'TARGET_ZONE') {
+      zone.state = 'GRABBED';
+      zone.grabbedIndex = j;
+    }
+
+    if (zone.state === 'GRABBED' && j > zone.grabbedIndex) {
+      const reversed = zone.type === 'high'
+        ? c.close < zone.price && c.close < c.open
+        : c.close > zone.price && c.close > c.open;
+      if (reversed) {
+        zone.reversalConfirmed = true;
+        zone.state = 'VALID_LIQUIDITY';
+      } else if (j - zone.grabbedIndex > 5) {
+        zone.state = 'DEAD';
+      }
+    }
+  }
+}
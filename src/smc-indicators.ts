@@ -1102,32 +1102,14 @@ export class SMCIndicators {
   }
 
   /**
-   * Perform full SMC analysis on candles
+   * Generate tiered entry signals from OB/FVG state (best first)
    */
-  static analyze(candles: Candle[]): SMCAnalysis {
-    const closes = candles.map(c => c.close);
-
-    const ema50Arr = this.ema(closes, 50);
-    const ema200Arr = this.ema(closes, 200);
-    const rsiArr = this.rsi(candles, 14);
-    const atrArr = this.atr(candles, 14);
-    const vwapArr = this.vwap(candles);
-
-    const trend = this.getTrend(candles);
-    const bos = this.getBOS(candles);
-    const orderBlocks = this.detectOrderBlocks(candles);
-    const fvg = this.detectFVG(candles);
-    const liquidityZones = this.detectLiquidity(candles);
-
-    // Detect Change of Character (CHoCH) - trend reversal signal
-    const choch = bos !== null && trend !== null && bos !== trend;
-
-    // Get return signals (the actual entry opportunities)
-    const returnSignals = this.detectReturnSignals(candles, orderBlocks, fvg, trend);
-
-    // Generate tiered signals
+  static generateSignals(
+    orderBlocks: OrderBlock[],
+    fvg: FVG[],
+    trend: 'up' | 'down' | null
+  ): SMCSignal[] {
     const signals: SMCSignal[] = [];
-    const currentPrice = candles[candles.length - 1].close;
 
     // TIER 1 (90%): HTF OB/FVG confirmed + structure alignment
     for (const ob of orderBlocks) {
@@ -1177,6 +1159,36 @@ export class SMCIndicators {
     // Sort signals by tier (best first)
     signals.sort((a, b) => a.tier - b.tier || b.strength - a.strength);
 
+    return signals;
+  }
+
+  /**
+   * Perform full SMC analysis on candles
+   */
+  static analyze(candles: Candle[]): SMCAnalysis {
+    const closes = candles.map(c => c.close);
+
+    const ema50Arr = this.ema(closes, 50);
+    const ema200Arr = this.ema(closes, 200);
+    const rsiArr = this.rsi(candles, 14);
+    const atrArr = this.atr(candles, 14);
+    const vwapArr = this.vwap(candles);
+
+    const trend = this.getTrend(candles);
+    const bos = this.getBOS(candles);
+    const orderBlocks = this.detectOrderBlocks(candles);
+    const fvg = this.detectFVG(candles);
+    const liquidityZones = this.detectLiquidity(candles);
+
+    // Detect Change of Character (CHoCH) - trend reversal signal
+    const choch = bos !== null && trend !== null && bos !== trend;
+
+    // Get return signals (the actual entry opportunities)
+    const returnSignals = this.detectReturnSignals(candles, orderBlocks, fvg, trend);
+
+    // Generate tiered signals
+    const signals = this.generateSignals(orderBlocks, fvg, trend);
+
     return {
       trend,
       bos,
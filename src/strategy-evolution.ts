@@ -0,0 +1,785 @@
+/**
+ * Strategy Evolution Engine
+ * Genetic search over SMC scoring weights
+ *
+ * Cycle:
+ *   1. Seed the population from data/strategies.json (production + experimentals)
+ *   2. Breed SMCWeights mutations using config.mutation_probabilities:
+ *      - tune_winner:       small perturbation of a strong parent
+ *      - explore_direction: push one factor hard, dampen the rest
+ *      - regime_specific:   re-weight for the current trending/ranging regime
+ *      - hybrid_best:       blend two of the fittest parents
+ *   3. Backtest every candidate on historical data and score fitness
+ *      (bars labelled by RegimeClassifier; backtest_period 'regime_specific' or
+ *      the regime option keep only bars in that regime)
+ *   4. Keep elites, breed the next generation, repeat
+ *   5. Monte Carlo the top-N (monte-carlo.ts), write them to the top-N file and
+ *      register the best offspring that pass the robustness gate as experimental strategies
+ *      (with evolution.regime_change_required, only once the market regime has
+ *      changed since the last registration)
+ *
+ * SMC analysis and the BacktestEngine outcome are computed once per bar and
+ * shared by all candidates - candidates only differ in weights/min_score,
+ * so only the scoring is re-run.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { LocalDataLoader } from './data-loader.js';
+import { SMCAnalysis, Candle } from './smc-indicators.js';
+import { SMCAnalyzer } from './smc-analyzer.js';
+import { TimeframeAligner } from './timeframe-alignment.js';
+import { UnifiedScoring } from './unified-scoring.js';
+import { BacktestEngine } from './backtest-engine.js';
+import { IntrabarResolver } from './intrabar-resolver.js';
+import { PerformanceAnalyzer, PerformanceConfig } from './performance-metrics.js';
+import { MonteCarloAnalyzer, RobustnessSummary } from './monte-carlo.js';
+import { RegimeClassifier, MarketRegime } from './market-regime.js';
+import { SMCWeights, Strategy, Mutation, EvolutionConfigWithPhases, PhaseConfig } from './types.js';
+
+export type MutationType = Mutation['mutation_type'];
+export type MarketRegimeBias = 'trending' | 'ranging';
+
+export interface EvolutionEngineConfig {
+  // Genetic algorithm
+  populationSize: number;
+  generations: number;
+  eliteCount: number;
+  tournamentSize: number;
+  mutationStrength: number;     // Std dev of tune_winner perturbation (0.1 = ±10%)
+  topN: number;                 // Size of the evolved-strategies output file
+  maxNewStrategies: number;     // Max experimental entries written per run
+
+  // Backtest data
+  symbols?: string[];           // Default: backtest_symbols of the production phase
+  timeframe: string;
+  sampleRate: number;           // Analyze every Nth bar
+  regime?: string;              // Only bars in this regime (RegimeClassifier.parseFilter)
+  minTradesForFitness: number;  // Below this, fitness is scaled down
+
+  // Paths
+  dataPath: string;
+  configFile: string;
+  strategiesFile: string;
+  outputDir: string;
+  learningDir: string;
+}
+
+const DEFAULT_CONFIG: EvolutionEngineConfig = {
+  populationSize: 20,
+  generations: 5,
+  eliteCount: 4,
+  tournamentSize: 3,
+  mutationStrength: 0.1,
+  topN: 10,
+  maxNewStrategies: 2,
+
+  timeframe: '1d',
+  sampleRate: 1,
+  minTradesForFitness: 50,
+
+  dataPath: path.join(process.cwd(), 'Historical_Data_Lite'),
+  configFile: path.join(process.cwd(), 'data', 'config.json'),
+  strategiesFile: path.join(process.cwd(), 'data', 'strategies.json'),
+  outputDir: path.join(process.cwd(), 'data', 'evolved-strategies'),
+  learningDir: path.join(process.cwd(), 'data', 'learning'),
+};
+
+const DEFAULT_MUTATION_PROBABILITIES: Record<MutationType, number> = {
+  tune_winner: 0.60,
+  explore_direction: 0.25,
+  regime_specific: 0.10,
+  hybrid_best: 0.05,
+};
+
+// Factors boosted per regime by regime_specific mutations
+const REGIME_FACTORS: Record<MarketRegimeBias, string[]> = {
+  trending: ['trend_structure', 'ema_alignment', 'mtf_bonus'],
+  ranging: ['order_blocks', 'fvgs', 'liquidity'],
+};
+
+const PERIOD_DAYS: Record<string, number> = {
+  '6_months': 182,
+  '3_months': 91,
+  '1_month': 30,
+};
+
+const MAX_WEIGHT = 100;
+const MIN_SCORE_RANGE = { min: 10, max: 90 };
+
+export interface CandidateMetrics {
+  winRate: number;
+  profitFactor: number;
+  maxDrawdown: number;
+  totalPnl: number;
+  totalTrades: number;
+  sharpe: number;
+  sortino: number;
+  calmar: number;
+  expectancyR: number;
+}
+
+export interface EvolutionCandidate {
+  id: string;
+  weights: SMCWeights;
+  min_score: number;
+  rootStrategy: string;         // Stored strategy this lineage descends from
+  mutation: Mutation | null;    // null for seeds loaded from strategies.json
+  fitness: number;
+  metrics: CandidateMetrics | null;
+  robustness?: RobustnessSummary | null;  // Set for the top-N after the last generation
+}
+
+export interface EvolutionRunResult {
+  generations: number;
+  evaluated: number;
+  regime: MarketRegimeBias;
+  marketRegimes: Record<string, MarketRegime>;  // Current regime per symbol
+  regimeChanged: boolean;       // Since the last registered evolution
+  top: EvolutionCandidate[];
+  topFile: string;
+  newStrategies: string[];
+}
+
+// Precomputed bar: analysis + outcome do not depend on weights
+interface BarSnapshot {
+  symbol: string;
+  timestamp: number;
+  price: number;
+  regime: MarketRegime;
+  analysis: SMCAnalysis;
+  mtf?: { bonus: number; factors: string[] };  // Real-timeframe MTF bonus (weight-independent)
+  pnl: number;
+  r: number;
+  exitTime: number;
+}
+
+interface TakenTrade {
+  pnl: number;
+  r_multiple: number;
+  entry_time: number;
+  exit_time: number;
+}
+
+type StrategyBook = Record<string, Strategy>;
+
+interface OrchestratorConfig extends EvolutionConfigWithPhases {
+  mutation_probabilities?: Partial<Record<MutationType, number>>;
+}
+
+export class StrategyEvolution {
+  private config: EvolutionEngineConfig;
+  private dataLoader: LocalDataLoader;
+  private backtestEngine: BacktestEngine;
+  private snapshots: BarSnapshot[] = [];
+  private regime: MarketRegimeBias = 'trending';
+  private marketRegimes: Record<string, MarketRegime> = {};
+  private regimeClassifier: RegimeClassifier;
+  private candidateCounter = 0;
+  private performanceConfig: PerformanceConfig;
+  private monteCarlo: MonteCarloAnalyzer;
+
+  constructor(config: Partial<EvolutionEngineConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.dataLoader = new LocalDataLoader(this.config.dataPath);
+    this.backtestEngine = new BacktestEngine();
+    this.regimeClassifier = new RegimeClassifier();
+    this.performanceConfig = PerformanceAnalyzer.loadConfig();
+    this.monteCarlo = new MonteCarloAnalyzer({}, this.performanceConfig.initial_capital);
+  }
+
+  /**
+   * Run the full evolution cycle
+   */
+  async run(): Promise<EvolutionRunResult> {
+    const orchestratorConfig = this.loadOrchestratorConfig();
+    const strategies = this.loadStrategies();
+    const production = strategies.production || Object.values(strategies)[0];
+
+    if (!production) {
+      throw new Error(`No strategies found in ${this.config.strategiesFile}`);
+    }
+
+    const phase = this.getPhaseConfig(orchestratorConfig, production);
+    const symbols = this.config.symbols || phase?.backtest_symbols || ['BTCUSDT', 'ETHUSDT'];
+    const probabilities = { ...DEFAULT_MUTATION_PROBABILITIES, ...orchestratorConfig.mutation_probabilities };
+
+    console.log(`\n[Evolution] Preparing backtest data: ${symbols.join(', ')} (${this.config.timeframe})`);
+    await this.prepareSnapshots(symbols, phase?.backtest_period);
+    console.log(`[Evolution] ${this.snapshots.length} bars with a trend bias, regime: ${this.regime}`);
+    console.log(`[Evolution] Market regimes: ${Object.entries(this.marketRegimes).map(([s, r]) => `${s} ${r}`).join(', ')}`);
+
+    if (this.snapshots.length === 0) {
+      throw new Error('No backtest data available for evolution');
+    }
+
+    // Seed population from stored strategies
+    let population: EvolutionCandidate[] = Object.values(strategies).map(s => ({
+      id: s.id,
+      weights: { ...s.weights },
+      min_score: s.min_score ?? 70,
+      rootStrategy: s.id,
+      mutation: null,
+      fitness: 0,
+      metrics: null,
+    }));
+    const seedFitness = new Map<string, number>();
+    let evaluated = 0;
+
+    for (let gen = 1; gen <= this.config.generations; gen++) {
+      // Fill up the population with offspring
+      const ranked = population.filter(c => c.metrics !== null);
+      const parents = ranked.length > 0 ? ranked : population;
+      while (population.length < this.config.populationSize) {
+        population.push(this.breed(parents, probabilities, gen));
+      }
+
+      // Evaluate new candidates
+      for (const candidate of population) {
+        if (candidate.metrics) continue;
+        candidate.metrics = this.backtest(candidate.weights, candidate.min_score);
+        candidate.fitness = this.calculateFitness(candidate.metrics);
+        evaluated++;
+        if (!candidate.mutation) seedFitness.set(candidate.id, candidate.fitness);
+      }
+
+      population.sort((a, b) => b.fitness - a.fitness);
+      const best = population[0];
+      console.log(`[Evolution] Gen ${gen}: best ${best.id} fitness=${best.fitness.toFixed(2)} ` +
+        `(WR ${((best.metrics?.winRate || 0) * 100).toFixed(1)}%, PF ${(best.metrics?.profitFactor || 0).toFixed(2)}, ` +
+        `${best.metrics?.totalTrades || 0} trades)`);
+
+      // Elitism: keep the top candidates, rebreed the rest next generation
+      if (gen < this.config.generations) {
+        population = population.slice(0, this.config.eliteCount);
+      }
+    }
+
+    const top = population.slice(0, this.config.topN);
+    for (const candidate of top) {
+      candidate.robustness = this.assessRobustness(candidate);
+    }
+    const topFile = this.saveTopCandidates(top);
+    const regimeChanged = this.regimeChangedSinceLastEvolution();
+    const newStrategies = this.registerExperimental(population, strategies, seedFitness, orchestratorConfig, production, regimeChanged);
+
+    return {
+      generations: this.config.generations,
+      evaluated,
+      regime: this.regime,
+      marketRegimes: { ...this.marketRegimes },
+      regimeChanged,
+      top,
+      topFile,
+      newStrategies,
+    };
+  }
+
+  /**
+   * Load orchestrator config (evolution rules, phases, mutation probabilities)
+   */
+  private loadOrchestratorConfig(): OrchestratorConfig {
+    return JSON.parse(fs.readFileSync(this.config.configFile, 'utf-8'));
+  }
+
+  /**
+   * Load strategies keyed by id
+   */
+  loadStrategies(): StrategyBook {
+    if (!fs.existsSync(this.config.strategiesFile)) return {};
+    return JSON.parse(fs.readFileSync(this.config.strategiesFile, 'utf-8'));
+  }
+
+  /**
+   * Map a strategy phase ('pre-training') to its config block ('pre_training')
+   */
+  private getPhaseConfig(config: OrchestratorConfig, strategy: Strategy): PhaseConfig | undefined {
+    const key = (strategy.phase || 'pre-training').replace('-', '_') as keyof OrchestratorConfig['phases'];
+    return config.phases?.[key];
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // BACKTESTING
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Analyze every sampled bar once and simulate its outcome
+   * 'regime_specific' keeps the bars in each symbol's current regime
+   */
+  private async prepareSnapshots(symbols: string[], period?: string): Promise<void> {
+    this.snapshots = [];
+    this.marketRegimes = {};
+    const periodDays = period ? PERIOD_DAYS[period] : undefined;
+    let trendingVotes = 0;
+    let loaded = 0;
+
+    for (const symbol of symbols) {
+      let candles: Candle[];
+      try {
+        candles = (await this.dataLoader.loadData(symbol, this.config.timeframe)).candles;
+      } catch (err: any) {
+        console.warn(`[Evolution] Skipping ${symbol}: ${err.message}`);
+        continue;
+      }
+      if (candles.length < 300) continue;
+      loaded++;
+
+      const regimes = this.regimeClassifier.classify(candles);
+      const current = regimes[regimes.length - 1].regime;
+      const regimeFilter = this.config.regime ?? (period === 'regime_specific' ? current : undefined);
+      this.marketRegimes[symbol] = current;
+
+      const lastTimestamp = candles[candles.length - 1].timestamp;
+      const startTime = periodDays ? lastTimestamp - periodDays * 24 * 60 * 60 * 1000 : 0;
+      const lookback = 200;
+      const analyzer = new SMCAnalyzer();
+      const aligner = await TimeframeAligner.load(this.dataLoader, symbol, this.config.timeframe);
+      const intrabar = await IntrabarResolver.load(this.dataLoader, symbol, this.config.timeframe);
+      let ingested = 0;
+
+      for (let i = lookback; i < candles.length - 1; i += this.config.sampleRate) {
+        const candle = candles[i];
+        while (ingested <= i) analyzer.push(candles[ingested++]);
+        if (candle.timestamp < startTime) continue;
+        if (regimeFilter && !RegimeClassifier.matches(regimes[i].regime, regimeFilter)) continue;
+
+        const analysis = analyzer.analyze();
+        if (!analysis.trend) continue;
+
+        const mtf = aligner.advance(candle, analysis);
+        const direction = analysis.trend === 'up' ? 'long' : 'short';
+        const trade = this.backtestEngine.simulateTrade(candles, i, direction, { atr: analysis.atr, symbol, intrabar });
+        this.snapshots.push({
+          symbol,
+          timestamp: candle.timestamp,
+          price: candle.close,
+          regime: regimes[i].regime,
+          analysis: this.slimAnalysis(analysis),
+          mtf: mtf.daily ? UnifiedScoring.calculateMTFBonus(mtf.daily, mtf.hourly, mtf.fiveMin) : undefined,
+          pnl: trade.pnl,
+          r: trade.r_multiple,
+          exitTime: trade.exit_time,
+        });
+      }
+
+      if (RegimeClassifier.matches(current, 'trend')) trendingVotes++;
+    }
+
+    this.regime = loaded > 0 && trendingVotes >= loaded / 2 ? 'trending' : 'ranging';
+    this.snapshots.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Drop the parts of an analysis that scoring never reads (keeps memory flat
+   * across thousands of cached bars)
+   */
+  private slimAnalysis(analysis: SMCAnalysis): SMCAnalysis {
+    return {
+      ...analysis,
+      orderBlocks: [],
+      fvg: [],
+      liquidityZones: {
+        highs: analysis.liquidityZones.highs.slice(-5),
+        lows: analysis.liquidityZones.lows.slice(-5),
+        zones: [],
+      },
+      signals: analysis.bestSignal ? [analysis.bestSignal] : [],
+      returnSignals: [],
+    };
+  }
+
+  /**
+   * Backtest a weight set against the cached bars
+   */
+  backtest(weights: SMCWeights, minScore: number): CandidateMetrics {
+    const metrics = PerformanceAnalyzer.compute(this.takenTrades(weights, minScore), this.performanceConfig);
+    return {
+      winRate: metrics.win_rate,
+      profitFactor: metrics.profit_factor,
+      maxDrawdown: metrics.max_drawdown,
+      totalPnl: metrics.total_pnl,
+      totalTrades: metrics.trades,
+      sharpe: metrics.sharpe,
+      sortino: metrics.sortino,
+      calmar: metrics.calmar,
+      expectancyR: metrics.expectancy_r,
+    };
+  }
+
+  /**
+   * Cached bars a weight set would have traded
+   */
+  private takenTrades(weights: SMCWeights, minScore: number): TakenTrade[] {
+    const taken: TakenTrade[] = [];
+    for (const bar of this.snapshots) {
+      const scoring = UnifiedScoring.calculateConfluence(bar.analysis, bar.price, weights, bar.timestamp, bar.mtf);
+      if (scoring.score < minScore || scoring.bias === 'neutral') continue;
+      taken.push({ pnl: bar.pnl, r_multiple: bar.r, entry_time: bar.timestamp, exit_time: bar.exitTime });
+    }
+    return taken;
+  }
+
+  /**
+   * Monte Carlo the candidate's trades and check the promotion gate
+   */
+  private assessRobustness(candidate: EvolutionCandidate): RobustnessSummary | null {
+    const trades = this.takenTrades(candidate.weights, candidate.min_score);
+    const method = this.monteCarlo.getConfig().promotion.method;
+    return this.monteCarlo.summarize(this.monteCarlo.analyze(trades, [method]));
+  }
+
+  /**
+   * Fitness: win rate + capped profit factor + clamped Sharpe, minus drawdown
+   * (per $1000), scaled down when the sample is too small to trust
+   */
+  calculateFitness(metrics: CandidateMetrics): number {
+    if (metrics.totalTrades === 0) return 0;
+
+    const profitFactor = Math.min(metrics.profitFactor, 3);
+    const sharpe = Math.max(-1, Math.min(metrics.sharpe, 3));
+    const drawdownPenalty = (metrics.maxDrawdown / 1000) * 10;
+    const sampleFactor = Math.min(1, metrics.totalTrades / this.config.minTradesForFitness);
+
+    return Math.max(0, (metrics.winRate * 50 + profitFactor * 25 + sharpe * 10 - drawdownPenalty) * sampleFactor);
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // BREEDING
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Create one offspring using a mutation type drawn from the configured probabilities
+   */
+  private breed(
+    parents: EvolutionCandidate[],
+    probabilities: Record<MutationType, number>,
+    generation: number
+  ): EvolutionCandidate {
+    const type = this.selectMutationType(probabilities);
+    const parent = this.tournamentSelect(parents);
+    let mutation: Mutation;
+
+    switch (type) {
+      case 'explore_direction':
+        mutation = this.exploreDirection(parent);
+        break;
+      case 'regime_specific':
+        mutation = this.regimeSpecific(parent, this.regime);
+        break;
+      case 'hybrid_best': {
+        const other = this.tournamentSelect(parents.filter(p => p !== parent));
+        mutation = other ? this.hybridBest(parent, other) : this.tuneWinner(parent);
+        break;
+      }
+      case 'tune_winner':
+      default:
+        mutation = this.tuneWinner(parent);
+        break;
+    }
+
+    return {
+      id: `gen${generation}-${mutation.mutation_type}-${this.candidateCounter++}`,
+      weights: mutation.weights,
+      min_score: mutation.min_score ?? parent.min_score,
+      rootStrategy: parent.rootStrategy,
+      mutation,
+      fitness: 0,
+      metrics: null,
+    };
+  }
+
+  /**
+   * Roulette selection over mutation_probabilities
+   */
+  selectMutationType(probabilities: Record<MutationType, number>): MutationType {
+    const entries = Object.entries(probabilities) as Array<[MutationType, number]>;
+    const total = entries.reduce((sum, [, p]) => sum + Math.max(0, p), 0);
+    let roll = Math.random() * total;
+
+    for (const [type, p] of entries) {
+      roll -= Math.max(0, p);
+      if (roll <= 0) return type;
+    }
+    return 'tune_winner';
+  }
+
+  /**
+   * Tournament selection - best of N random candidates
+   */
+  private tournamentSelect(candidates: EvolutionCandidate[]): EvolutionCandidate {
+    let best: EvolutionCandidate | null = null;
+    for (let i = 0; i < this.config.tournamentSize; i++) {
+      const pick = candidates[Math.floor(Math.random() * candidates.length)];
+      if (pick && (!best || pick.fitness > best.fitness)) best = pick;
+    }
+    return best || candidates[0];
+  }
+
+  /**
+   * tune_winner: perturb every weight slightly
+   */
+  tuneWinner(parent: EvolutionCandidate): Mutation {
+    const weights = this.mapWeights(parent.weights, (_key, value) =>
+      value * (1 + this.gaussian() * this.config.mutationStrength)
+    );
+    const minScore = this.clampMinScore(parent.min_score + Math.round(this.gaussian() * 3));
+
+    return {
+      name: `tune_${parent.rootStrategy}`,
+      weights,
+      min_score: minScore,
+      mutation_reason: `Tuning: ±${(this.config.mutationStrength * 100).toFixed(0)}% perturbation of ${parent.id}`,
+      mutation_type: 'tune_winner',
+    };
+  }
+
+  /**
+   * explore_direction: heavily weight one factor, dampen the others
+   */
+  exploreDirection(parent: EvolutionCandidate): Mutation {
+    const keys = Object.keys(parent.weights).filter(k => k !== 'rsi_penalty');
+    const focus = keys[Math.floor(Math.random() * keys.length)];
+    const weights = this.mapWeights(parent.weights, (key, value) =>
+      key === focus ? Math.max(Math.abs(value), 10) * 2 * Math.sign(value || 1) : value * 0.75
+    );
+
+    return {
+      name: `explore_${focus}_focus`,
+      weights,
+      min_score: parent.min_score,
+      mutation_reason: `Exploration: heavily weight ${focus} over other factors`,
+      mutation_type: 'explore_direction',
+    };
+  }
+
+  /**
+   * regime_specific: boost the factors that suit the detected regime
+   */
+  regimeSpecific(parent: EvolutionCandidate, regime: MarketRegimeBias): Mutation {
+    const boosted = REGIME_FACTORS[regime];
+    const weights = this.mapWeights(parent.weights, (key, value) =>
+      boosted.includes(key) ? value * 1.5 : key === 'rsi_penalty' ? value : value * 0.8
+    );
+
+    return {
+      name: `regime_${regime}`,
+      weights,
+      min_score: parent.min_score,
+      mutation_reason: `Regime: ${regime} market - emphasize ${boosted.join(', ')}`,
+      mutation_type: 'regime_specific',
+    };
+  }
+
+  /**
+   * hybrid_best: random per-weight blend of two parents
+   */
+  hybridBest(a: EvolutionCandidate, b: EvolutionCandidate): Mutation {
+    const weights = this.mapWeights(a.weights, (key, value) => {
+      const t = 0.3 + Math.random() * 0.4;
+      return value * t + (b.weights[key] ?? value) * (1 - t);
+    });
+
+    return {
+      name: `hybrid_${a.rootStrategy}_${b.rootStrategy}`,
+      weights,
+      min_score: this.clampMinScore(Math.round((a.min_score + b.min_score) / 2)),
+      mutation_reason: `Hybrid: blend of ${a.id} and ${b.id}`,
+      mutation_type: 'hybrid_best',
+    };
+  }
+
+  /**
+   * Apply fn to every weight, clamping magnitude to MAX_WEIGHT
+   */
+  private mapWeights(weights: SMCWeights, fn: (key: string, value: number) => number): SMCWeights {
+    const result = { ...weights };
+    for (const key of Object.keys(weights)) {
+      const value = fn(key, weights[key]);
+      result[key] = Math.max(-MAX_WEIGHT, Math.min(MAX_WEIGHT, value));
+    }
+    return result;
+  }
+
+  private clampMinScore(score: number): number {
+    return Math.max(MIN_SCORE_RANGE.min, Math.min(MIN_SCORE_RANGE.max, score));
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private gaussian(): number {
+    const u = 1 - Math.random();
+    const v = Math.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  // ═══════════════════════════════════════════════════════════════
+  // PERSISTENCE
+  // ═══════════════════════════════════════════════════════════════
+
+  /**
+   * Write data/evolved-strategies/<timestamp>_top<N>.json
+   */
+  private saveTopCandidates(top: EvolutionCandidate[]): string {
+    if (!fs.existsSync(this.config.outputDir)) {
+      fs.mkdirSync(this.config.outputDir, { recursive: true });
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').replace('Z', '');
+    const file = path.join(this.config.outputDir, `${timestamp}_top${this.config.topN}.json`);
+
+    fs.writeFileSync(file, JSON.stringify(top.map(c => ({
+      id: c.id,
+      weights: c.weights,
+      min_score: c.min_score,
+      fitness: c.fitness,
+      metrics: c.metrics,
+      parent_strategy: c.rootStrategy,
+      mutation_type: c.mutation?.mutation_type,
+      robustness: c.robustness ?? null,
+    })), null, 2));
+
+    return file;
+  }
+
+  /**
+   * Register the fittest offspring that beat their parent by the parent phase's
+   * min_improvement (relative fitness) and pass the Monte Carlo robustness gate
+   * as paper strategies
+   */
+  private registerExperimental(
+    ranked: EvolutionCandidate[],
+    strategies: StrategyBook,
+    seedFitness: Map<string, number>,
+    orchestratorConfig: OrchestratorConfig,
+    production: Strategy,
+    regimeChanged: boolean
+  ): string[] {
+    if (orchestratorConfig.evolution?.regime_change_required && !regimeChanged) {
+      this.logEvent('evolution_skipped', {
+        reason: 'No market regime change since the last evolution (evolution.regime_change_required)',
+        market_regimes: this.marketRegimes,
+      });
+      return [];
+    }
+
+    const activeExperimental = Object.values(strategies).filter(s => s.mode === 'paper').length;
+    const maxExperimental = orchestratorConfig.evolution?.max_experimental_versions ?? 10;
+    const slots = Math.min(this.config.maxNewStrategies, maxExperimental - activeExperimental);
+
+    if (slots <= 0) {
+      this.logEvent('evolution_skipped', {
+        reason: `Maximum experimental versions (${maxExperimental}) already active`,
+      });
+      return [];
+    }
+
+    const improved = ranked.filter(c => {
+      if (!c.mutation) return false;
+      const seed = seedFitness.get(c.rootStrategy) ?? 0;
+      const minImprovement = this.getPhaseConfig(orchestratorConfig, strategies[c.rootStrategy] || production)?.min_improvement ?? 0;
+      return c.fitness > seed && c.fitness >= seed * (1 + minImprovement);
+    });
+    const fragile: Array<{ id: string; reasons: string[] }> = [];
+    const winners: EvolutionCandidate[] = [];
+    for (const candidate of improved) {
+      if (winners.length >= slots) break;
+      if (candidate.robustness === undefined) candidate.robustness = this.assessRobustness(candidate);
+      if (candidate.robustness && !candidate.robustness.robust) {
+        fragile.push({ id: candidate.id, reasons: candidate.robustness.reasons });
+        continue;
+      }
+      winners.push(candidate);
+    }
+
+    if (winners.length === 0) {
+      this.logEvent('evolution_skipped', {
+        reason: improved.length === 0
+          ? 'No offspring outperformed its parent strategy by the phase min_improvement'
+          : 'No improved offspring passed the Monte Carlo robustness gate',
+        fragile,
+      });
+      return [];
+    }
+
+    let nextVersion = Object.keys(strategies)
+      .map(id => id.match(/^experimental_v(\d+)$/))
+      .reduce((max, m) => Math.max(max, m ? parseInt(m[1]) : 0), 0) + 1;
+
+    const created: string[] = [];
+    for (const candidate of winners) {
+      const parent = strategies[candidate.rootStrategy] || production;
+      const id = `experimental_v${nextVersion++}`;
+
+      strategies[id] = {
+        id,
+        name: candidate.mutation!.name,
+        mode: 'paper',
+        version: this.bumpMinor(parent.version),
+        created: new Date().toISOString(),
+        weights: candidate.weights,
+        min_score: candidate.min_score,
+        max_positions: parent.max_positions,
+        parent_strategy: parent.id,
+        parent_version: parent.version,
+        mutation_type: candidate.mutation!.mutation_type,
+        phase: parent.phase,
+        total_trades: 0,
+        win_rate: null,
+        profit_factor: null,
+      };
+      created.push(id);
+    }
+
+    fs.writeFileSync(this.config.strategiesFile, JSON.stringify(strategies, null, 2));
+
+    this.logEvent('evolution_created', {
+      new_strategies: created,
+      production_version: production.version,
+      phase: production.phase,
+      current_regime: this.regime,
+      market_regimes: this.marketRegimes,
+      backtest_bars: this.snapshots.length,
+      robustness: Object.fromEntries(winners.map((c, i) => [created[i], c.robustness ?? null])),
+      fragile,
+    });
+
+    return created;
+  }
+
+  /**
+   * Has any symbol's regime changed since the last evolution_created event?
+   * (true when there is none yet)
+   */
+  private regimeChangedSinceLastEvolution(): boolean {
+    const logFile = path.join(this.config.learningDir, 'evolution_created.log');
+    if (!fs.existsSync(logFile)) return true;
+
+    const lines = fs.readFileSync(logFile, 'utf-8').trim().split('\n').filter(Boolean);
+    let previous: Record<string, MarketRegime> | undefined;
+    try {
+      previous = lines.length > 0 ? JSON.parse(lines[lines.length - 1]).market_regimes : undefined;
+    } catch {
+      return true;
+    }
+    if (!previous) return true;
+
+    return Object.entries(this.marketRegimes).some(([symbol, regime]) => previous![symbol] !== regime);
+  }
+
+  private bumpMinor(version: string): string {
+    const [major, minor] = version.split('.').map(n => parseInt(n) || 0);
+    return `${major}.${minor + 1}.0`;
+  }
+
+  /**
+   * Append to data/learning/<event>.log (JSON lines)
+   */
+  private logEvent(event: 'evolution_created' | 'evolution_skipped', data: Record<string, unknown>): void {
+    if (!fs.existsSync(this.config.learningDir)) {
+      fs.mkdirSync(this.config.learningDir, { recursive: true });
+    }
+    const line = JSON.stringify({ timestamp: new Date().toISOString(), event, ...data });
+    fs.appendFileSync(path.join(this.config.learningDir, `${event}.log`), line + '\n');
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Timeframe Alignment
+ * Real multi-timeframe context for a bar-by-bar walk, without lookahead
+ *
+ * Replaces the "simulated MTF" (20/50/100-bar lookbacks on one series) with the
+ * actual 1d / 1h / 5m series of the symbol:
+ *   - Each series comes from LocalDataLoader (which resamples intervals that
+ *     have no file from a finer series)
+ *   - For a base bar, only candles whose close time (open + interval) is at or
+ *     before the base bar's close are visible - an in-progress daily candle is
+ *     never seen by an hourly bar
+ *   - Each timeframe has its own SMCAnalyzer, fed as candles close, so the
+ *     HTF SMCAnalysis is exactly what a live system would have had
+ *
+ * Candle timestamps are open times (Binance klines convention).
+ *
+ * Usage:
+ *   const aligner = await TimeframeAligner.load(loader, 'ETHUSDT', '1h');
+ *   for (const candle of candles) {
+ *     const mtf = aligner.advance(candle, analysis);
+ *     UnifiedScoring.calculateMTFBonus(mtf.daily!, mtf.hourly, mtf.fiveMin);
+ *   }
+ */
+
+import { Candle, SMCAnalysis } from './smc-indicators.js';
+import { SMCAnalyzer } from './smc-analyzer.js';
+import { LocalDataLoader } from './data-loader.js';
+import { CandleResampler } from './candle-resampler.js';
+
+// Timeframes used by calculateMTFBonus / the ICT cascade (HTF → LTF)
+export const MTF_TIMEFRAMES = ['1d', '1h', '5m'] as const;
+
+export interface TimeframeAlignerConfig {
+  timeframes: string[];       // Timeframes to align (base timeframe included)
+  minCandles: number;         // Closed candles required before a timeframe is analyzed
+}
+
+const DEFAULT_CONFIG: TimeframeAlignerConfig = {
+  timeframes: [...MTF_TIMEFRAMES],
+  minCandles: 50,
+};
+
+// Multi-timeframe view as of one base bar - null where a timeframe has no data
+// or not enough closed candles yet
+export interface MTFSnapshot {
+  timestamp: number;          // Base bar close time
+  daily: SMCAnalysis | null;
+  hourly: SMCAnalysis | null;
+  fiveMin: SMCAnalysis | null;
+  closedBars: Record<string, number>;  // Closed candles visible per timeframe
+}
+
+interface TimeframeSeries {
+  timeframe: string;
+  intervalMs: number;
+  candles: Candle[];
+  next: number;               // Next candle to feed (all before it are closed)
+  analyzer: SMCAnalyzer;
+  analysis: SMCAnalysis | null;
+  dirty: boolean;             // Candles fed since the last analysis
+}
+
+export class TimeframeAligner {
+  private config: TimeframeAlignerConfig;
+  private baseTimeframe: string;
+  private baseIntervalMs: number;
+  private series = new Map<string, TimeframeSeries>();
+
+  constructor(
+    baseTimeframe: string,
+    series: Record<string, Candle[]>,
+    config: Partial<TimeframeAlignerConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.baseTimeframe = baseTimeframe;
+    this.baseIntervalMs = CandleResampler.intervalMs(baseTimeframe);
+
+    for (const [timeframe, candles] of Object.entries(series)) {
+      if (timeframe === baseTimeframe || candles.length === 0) continue;
+      this.series.set(timeframe, {
+        timeframe,
+        intervalMs: CandleResampler.intervalMs(timeframe),
+        candles,
+        next: 0,
+        analyzer: new SMCAnalyzer(),
+        analysis: null,
+        dirty: false,
+      });
+    }
+  }
+
+  /**
+   * Load the other timeframes of a symbol for a walk over its base series
+   */
+  static async load(
+    loader: LocalDataLoader,
+    symbol: string,
+    baseTimeframe: string,
+    config: Partial<TimeframeAlignerConfig> = {}
+  ): Promise<TimeframeAligner> {
+    const cfg = { ...DEFAULT_CONFIG, ...config };
+    const series: Record<string, Candle[]> = {};
+
+    for (const timeframe of cfg.timeframes) {
+      if (timeframe === baseTimeframe) continue;
+      try {
+        series[timeframe] = (await loader.loadData(symbol, timeframe)).candles;
+      } catch {
+        // No file and nothing finer to resample from - timeframe stays null
+      }
+    }
+
+    return new TimeframeAligner(baseTimeframe, series, cfg);
+  }
+
+  /**
+   * Number of candles in a series that are closed at time `asOf`
+   * (binary search - candles must be sorted by timestamp)
+   */
+  static closedCount(candles: Candle[], intervalMs: number, asOf: number): number {
+    let lo = 0;
+    let hi = candles.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (candles[mid].timestamp + intervalMs <= asOf) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  }
+
+  /**
+   * Candles of a timeframe that had closed by the close of a base bar
+   */
+  getClosedCandles(timeframe: string, baseTimestamp: number): Candle[] {
+    const s = this.series.get(timeframe);
+    if (!s) return [];
+    const asOf = baseTimestamp + this.baseIntervalMs;
+    return s.candles.slice(0, TimeframeAligner.closedCount(s.candles, s.intervalMs, asOf));
+  }
+
+  /**
+   * Timeframes with data (base timeframe included)
+   */
+  getTimeframes(): string[] {
+    return [this.baseTimeframe, ...this.series.keys()];
+  }
+
+  /**
+   * Move to a base bar and return the MTF view as of its close
+   * Base bars must be passed in chronological order; baseAnalysis fills the
+   * slot of the base timeframe itself.
+   */
+  advance(baseCandle: Candle, baseAnalysis: SMCAnalysis | null = null): MTFSnapshot {
+    const asOf = baseCandle.timestamp + this.baseIntervalMs;
+    const closedBars: Record<string, number> = {};
+    const analyses: Record<string, SMCAnalysis | null> = {
+      [this.baseTimeframe]: baseAnalysis,
+    };
+
+    for (const s of this.series.values()) {
+      while (s.next < s.candles.length && s.candles[s.next].timestamp + s.intervalMs <= asOf) {
+        s.analyzer.push(s.candles[s.next++]);
+        s.dirty = true;
+      }
+
+      if (s.dirty && s.next >= this.config.minCandles) {
+        s.analysis = s.analyzer.analyze();
+        s.dirty = false;
+      }
+
+      closedBars[s.timeframe] = s.next;
+      analyses[s.timeframe] = s.next >= this.config.minCandles ? s.analysis : null;
+    }
+
+    return {
+      timestamp: asOf,
+      daily: analyses['1d'] ?? null,
+      hourly: analyses['1h'] ?? null,
+      fiveMin: analyses['5m'] ?? null,
+      closedBars,
+    };
+  }
+}
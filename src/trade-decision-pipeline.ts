@@ -30,8 +30,9 @@ export interface TradeSetup {
   mlDirection: SignalDirection;
 
   // Optional context
-  sentimentScore?: number;      // -1 to 1
-  correlatedPositions?: string[]; // Symbols of correlated open positions
+  sentimentScore?: number;      // -1 to 1 (SentimentProvider, see sentiment-providers.ts)
+  correlatedPositions?: string[]; // Symbols of correlated open positions (CorrelationEngine.populate)
+  clusterExposure?: number;     // Net signed notional already open in this symbol's correlation cluster
   currentDrawdown?: number;     // Current portfolio drawdown
   openPositionCount?: number;   // Number of open positions
   recentWinRate?: number;       // Recent trade win rate
@@ -283,9 +284,9 @@ export class TradeDecisionPipeline {
   }
 
   /**
-   * Layer 4: Sentiment Check
+   * Layer 4: Sentiment Check (public so backtests can apply it on its own)
    */
-  private checkSentiment(setup: TradeSetup): { passed: boolean; score: number; reason: string } {
+  checkSentiment(setup: Pick<TradeSetup, 'direction' | 'sentimentScore'>): { passed: boolean; score: number; reason: string } {
     if (!this.config.useSentiment) {
       return { passed: true, score: 0, reason: 'Sentiment check disabled' };
     }
@@ -329,7 +330,16 @@ export class TradeDecisionPipeline {
     if (!this.config.useCorrelation) {
       return { passed: true, correlations: [], reason: 'Correlation check disabled' };
     }
+    return this.checkPortfolioRisk(setup);
+  }
 
+  /**
+   * Position count, correlated position and drawdown limits on their own -
+   * used by the portfolio backtester, which has the state but no full setup
+   */
+  checkPortfolioRisk(
+    setup: Pick<TradeSetup, 'correlatedPositions' | 'openPositionCount' | 'currentDrawdown' | 'clusterExposure'>
+  ): { passed: boolean; correlations: string[]; reason: string } {
     const correlatedPositions = setup.correlatedPositions ?? [];
     const openCount = setup.openPositionCount ?? 0;
 
@@ -361,12 +371,13 @@ export class TradeDecisionPipeline {
       };
     }
 
+    const exposure = setup.clusterExposure ? ` | cluster net exposure $${setup.clusterExposure.toFixed(0)}` : '';
     return {
       passed: true,
       correlations: correlatedPositions,
-      reason: correlatedPositions.length > 0
+      reason: (correlatedPositions.length > 0
         ? `${correlatedPositions.length} correlated positions (within limit)`
-        : 'No correlated positions'
+        : 'No correlated positions') + exposure
     };
   }
 
@@ -415,15 +426,26 @@ export class TradeDecisionPipeline {
   }
 
   /**
-   * Update RL from trade outcome
+   * Update RL and the ensemble's learned weights from trade outcome
+   * (exitTime: timestamp of the bar the trade closed on)
    */
   updateFromTrade(
     setup: TradeSetup,
     pipelineResult: PipelineResult,
     pnlPercent: number,
     hitStopLoss: boolean,
-    hitTakeProfit: boolean
+    hitTakeProfit: boolean,
+    exitTime: number
   ): void {
+    if (pipelineResult.approved && pipelineResult.ensembleResult && setup.direction !== 'NEUTRAL') {
+      this.ensemble.recordOutcome(pipelineResult.ensembleResult, setup.direction, pnlPercent > 0, {
+        symbol: setup.symbol,
+        regime: setup.marketData.regime,
+        timestamp: exitTime,
+      });
+      this.ensemble.flush();   // One trade at a time live - keep every outcome on disk
+    }
+
     if (!pipelineResult.approved || !pipelineResult.positionSize) {
       return; // Only learn from trades that were actually taken
     }
@@ -444,9 +466,13 @@ export class TradeDecisionPipeline {
   /**
    * Get pipeline statistics
    */
-  getStats(): { rl: ReturnType<RLPositionSizer['getStats']> } {
+  getStats(): {
+    rl: ReturnType<RLPositionSizer['getStats']>;
+    ensemble: ReturnType<EnsembleVoting['getWeights']>;
+  } {
     return {
-      rl: this.rlSizer.getStats()
+      rl: this.rlSizer.getStats(),
+      ensemble: this.ensemble.getWeights()
     };
   }
 }
@@ -13,16 +13,31 @@
 import { Candle } from './smc-indicators.js';
 import { SMCAnalysis, SMCIndicators } from './smc-indicators.js';
 import { ICTIndicators, ICTAnalysis } from './ict-indicators.js';
+import { MTFSnapshot } from './timeframe-alignment.js';
+import { TradeLabeler, BarrierLabel } from './trade-labels.js';
+import { TradePath, PathStats } from './trade-path.js';
+import { RegimeClassifier, RegimeBar, MarketRegime } from './market-regime.js';
 import fs from 'fs';
 
 // Trade outcome data (for adding to features after backtest)
-export interface BacktestTrade {
+// Path stats are optional: recorded trades without them get zeros
+export interface BacktestTrade extends Partial<PathStats> {
   outcome: 'WIN' | 'LOSS';
   pnl: number;
   pnl_percent: number;
   exit_reason: string;
   holding_periods: number;
+  exit_time: number;
+  r_multiple?: number;     // Estimated from volatility when missing (recorded trades)
 }
+
+// Fields only known once the trade has closed
+export type OutcomeField =
+  | 'outcome' | 'pnl' | 'pnl_percent' | 'exit_reason' | 'holding_periods' | 'exit_time'
+  | 'barrier_label' | 'r_multiple' | 'meta_label'
+  | keyof PathStats;
+
+export type EntryFeatures = Omit<TradeFeatures, OutcomeField>;
 import path from 'path';
 
 // Load configuration
@@ -50,6 +65,12 @@ try {
   };
 }
 
+// Label settings (meta_min_r etc.) - read once like featureConfig
+const labelConfig = TradeLabeler.loadConfig();
+
+// Regime settings (config/features.json → regime) - read once as well
+const regimeClassifier = new RegimeClassifier();
+
 export interface TradeFeatures {
   // Entry conditions
   entry_price: number;
@@ -185,6 +206,8 @@ export interface TradeFeatures {
   // Market Regime
   efficiency_ratio: number;       // Net move / total move (0-1)
   is_trending_market: boolean;    // Efficiency ratio >= 0.30
+  market_regime: MarketRegime;    // trend/range × high/low volatility (RegimeClassifier)
+  regime_bars: number;            // Bars since the regime began
 
   // ═══════════════════════════════════════════════════════════════
   // Bollinger Bands Features
@@ -222,12 +245,31 @@ export interface TradeFeatures {
   pnl_percent: number;
   exit_reason: string;
   holding_periods: number;
+  exit_time: number;       // Label end - used to purge overlapping trades in walk-forward
+
+  // Alternative labels (see trade-labels.ts)
+  barrier_label: BarrierLabel;   // First barrier hit: TP, SL or TIMEOUT
+  r_multiple: number;            // Net P&L in units of initial risk
+  meta_label: 0 | 1;             // Reached labels.meta_min_r
+
+  // Trade path (see trade-path.ts) - post-entry, never a model input
+  mae_price: number;             // Max adverse excursion, price units
+  mfe_price: number;             // Max favourable excursion, price units
+  mae_r: number;                 // MAE in units of initial risk
+  mfe_r: number;                 // MFE in units of initial risk
+  bars_to_mfe: number;           // Bars from entry to the MFE
+  touched_1r: boolean;           // Price reached +1R before exit
+  exit_bar: number;              // Bars from entry to exit
 }
 
 export class FeatureExtractor {
   /**
    * Extract features from a trade entry point
    * Includes both SMC and ICT institutional features
+   * @param mtf - Optional real timeframe context (TimeframeAligner) for mtf_aligned and the HTF cascade
+   * @param regime - This bar's label from RegimeClassifier.classify over the full series
+   *                 (default: classify candles up to index, O(index) per call - fine for
+   *                 a single live bar, O(n²) over a series, so full-series loops pass it)
    */
   static extractFeatures(
     candles: Candle[],
@@ -235,8 +277,10 @@ export class FeatureExtractor {
     analysis: SMCAnalysis,
     score: number,
     direction: 'long' | 'short',
-    ictAnalysis?: ICTAnalysis
-  ): Omit<TradeFeatures, 'outcome' | 'pnl' | 'pnl_percent' | 'exit_reason' | 'holding_periods'> {
+    ictAnalysis?: ICTAnalysis,
+    mtf?: MTFSnapshot,
+    regime?: RegimeBar
+  ): EntryFeatures {
     const currentCandle = candles[index];
     const config = featureConfig.feature_extraction;
     const lookback = config.lookback_periods.default;
@@ -335,7 +379,8 @@ export class FeatureExtractor {
       trend_direction,
       direction,
       currentCandle,
-      historicalCandles
+      historicalCandles,
+      mtf
     );
     
     // Market state
@@ -369,13 +414,7 @@ export class FeatureExtractor {
     const confluence_score = Math.min(confluence_count / 6, 1);
     
     // Market session
-    const hour = new Date(currentCandle.timestamp).getUTCHours();
-    let session: 'asian' | 'london' | 'newyork' | 'overlap' | 'off-hours' = 'off-hours';
-    if (hour >= 0 && hour < 6) session = 'asian';
-    else if (hour >= 6 && hour < 8) session = 'london';
-    else if (hour >= 8 && hour < 12) session = 'overlap';
-    else if (hour >= 12 && hour < 16) session = 'newyork';
-    else if (hour >= 16 && hour < 20) session = 'newyork';
+    const session = FeatureExtractor.getSession(currentCandle.timestamp);
     
     // Psychological (simplified - would need trade history)
     const days_since_loss = 0;  // Would track from trade journal
@@ -530,7 +569,7 @@ export class FeatureExtractor {
     // ═══════════════════════════════════════════════════════════════
 
     // If ICT analysis provided, use it; otherwise compute fast version
-    const ict = ictAnalysis || ICTIndicators.analyzeFast(historicalCandles, analysis);
+    const ict = ictAnalysis || ICTIndicators.analyzeFast(historicalCandles, analysis, mtf);
 
     // OTE Zone features
     const ote_in_zone = ict.ote.valid &&
@@ -571,6 +610,9 @@ export class FeatureExtractor {
     // Market Regime features
     const efficiency_ratio = ICTIndicators.calculateEfficiencyRatio(historicalCandles, 30);
     const is_trending_market = efficiency_ratio >= 0.30;
+    const regimeBar = regime ?? regimeClassifier.current(candles.slice(0, index + 1));
+    const market_regime = regimeBar?.regime ?? 'range_low_vol';
+    const regime_bars = regimeBar?.bars_in_regime ?? 0;
 
     // ICT Entry Quality
     const ict_entry_score = ict.entryScore;
@@ -678,6 +720,8 @@ export class FeatureExtractor {
       fvg_in_ote,
       efficiency_ratio,
       is_trending_market,
+      market_regime,
+      regime_bars,
       ict_entry_score,
       ict_entry_valid,
       htf_cascade_aligned,
@@ -715,11 +759,23 @@ export class FeatureExtractor {
     return Math.min(Math.max(normalizedSlope, 0), 1);
   }
   
+  /**
+   * Market session of a timestamp (UTC hours)
+   */
+  static getSession(timestamp: number): TradeFeatures['session'] {
+    const hour = new Date(timestamp).getUTCHours();
+    if (hour >= 0 && hour < 6) return 'asian';
+    if (hour >= 6 && hour < 8) return 'london';
+    if (hour >= 8 && hour < 12) return 'overlap';
+    if (hour >= 12 && hour < 20) return 'newyork';
+    return 'off-hours';
+  }
+
   /**
    * Add outcome to features (after trade completes)
    */
   static addOutcome(
-    features: Omit<TradeFeatures, 'outcome' | 'pnl' | 'pnl_percent' | 'exit_reason' | 'holding_periods'>,
+    features: EntryFeatures,
     trade: BacktestTrade
   ): TradeFeatures {
     return {
@@ -728,20 +784,38 @@ export class FeatureExtractor {
       pnl: trade.pnl,
       pnl_percent: trade.pnl_percent,
       exit_reason: trade.exit_reason,
-      holding_periods: trade.holding_periods
+      holding_periods: trade.holding_periods,
+      exit_time: trade.exit_time,
+      ...TradeLabeler.label(trade, features.volatility, labelConfig),
+      ...TradePath.empty(),
+      exit_bar: trade.holding_periods,
+      ...TradePath.pick(trade)
     };
   }
   
   /**
    * Check multi-timeframe alignment
-   * Simulates checking if higher timeframes agree with current trend
+   * With an MTFSnapshot, checks the real 1d/1h/5m trends; otherwise simulates
+   * higher timeframes with lookbacks on the current series
    */
   private static checkMTFAlignment(
     trend_direction: 'up' | 'down' | 'neutral',
     direction: 'long' | 'short',
     currentCandle: Candle,
-    historicalCandles: Candle[]
+    historicalCandles: Candle[],
+    mtf?: MTFSnapshot
   ): boolean {
+    const frames = mtf
+      ? [mtf.daily, mtf.hourly, mtf.fiveMin].filter((a): a is SMCAnalysis => a !== null)
+      : [];
+
+    if (frames.length >= 2) {
+      // Aligned = timeframe trend matches the trade or is neutral; need 2 of 3 (all of 2)
+      const wanted = direction === 'long' ? 'up' : 'down';
+      const aligned = frames.filter(a => a.trend === wanted || a.trend === null).length;
+      return aligned >= Math.ceil(frames.length * 2 / 3);
+    }
+
     if (historicalCandles.length < 50) return true; // Not enough data
     
     // Get trend on different lookback periods (simulating MTF)
@@ -0,0 +1,153 @@
+/**
+ * Trade Labels
+ * Training targets derived from a simulated (or recorded) trade's outcome
+ *
+ * Schemes (config/features.json → labels.scheme, or --labels on the pipelines):
+ *   - binary:          outcome WIN/LOSS (pnl > 0) - the original target
+ *   - triple_barrier:  which barrier closed the trade first - TP, SL or TIMEOUT
+ *   - r_multiple:      net P&L in units of initial risk (regression)
+ *   - meta:            1 if acting on the SMC signal returned at least
+ *                      meta_min_r, else 0 - a "take it or skip it" label for
+ *                      a model that sits on top of the primary signal
+ *
+ * Every labelled trade carries all three extra labels (barrier_label,
+ * r_multiple, meta_label) so the exported CSVs work with any scheme.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { BacktestTrade, TradeFeatures } from './trade-features.js';
+
+export type LabelScheme = 'binary' | 'triple_barrier' | 'r_multiple' | 'meta';
+export type BarrierLabel = 'TP' | 'SL' | 'TIMEOUT';
+export type ModelObjective = 'binary' | 'multiclass' | 'regression';
+
+export const LABEL_SCHEMES: LabelScheme[] = ['binary', 'triple_barrier', 'r_multiple', 'meta'];
+
+// Class order for multiclass models (index = class id)
+export const BARRIER_CLASSES: BarrierLabel[] = ['TP', 'SL', 'TIMEOUT'];
+
+export interface TradeLabels {
+  barrier_label: BarrierLabel;
+  r_multiple: number;
+  meta_label: 0 | 1;
+}
+
+export interface LabelConfig {
+  scheme: LabelScheme;
+  meta_min_r: number;     // R-multiple a trade must reach for meta_label = 1
+  r_clip: number;         // Regression targets clipped to ±r_clip (fat tails)
+  stop_atr_multiple: number;  // Risk estimate for trades without r_multiple
+}
+
+const DEFAULT_CONFIG: LabelConfig = {
+  scheme: 'binary',
+  meta_min_r: 0.25,
+  r_clip: 5,
+  stop_atr_multiple: 2,
+};
+
+export class TradeLabeler {
+  /**
+   * Load labels from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): LabelConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      return {
+        ...DEFAULT_CONFIG,
+        stop_atr_multiple: features.trade_simulation?.atr_multiplier_sl ?? DEFAULT_CONFIG.stop_atr_multiple,
+        ...(features.labels || {}),
+      };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  static parseScheme(value: string): LabelScheme {
+    if (!LABEL_SCHEMES.includes(value as LabelScheme)) {
+      throw new Error(`Unknown label scheme "${value}" (expected ${LABEL_SCHEMES.join(', ')})`);
+    }
+    return value as LabelScheme;
+  }
+
+  /**
+   * All extra labels for a completed trade
+   * @param volatility - ATR % of price at entry, used to estimate risk when
+   *   the trade has no r_multiple (recorded live trades)
+   */
+  static label(trade: BacktestTrade, volatility: number, config: LabelConfig = TradeLabeler.loadConfig()): TradeLabels {
+    let r = trade.r_multiple;
+    if (r === undefined || !Number.isFinite(r)) {
+      const riskPercent = volatility * config.stop_atr_multiple;
+      r = riskPercent > 0 ? trade.pnl_percent / riskPercent : 0;
+    }
+
+    return {
+      barrier_label: TradeLabeler.barrier(trade.exit_reason),
+      r_multiple: r,
+      meta_label: r >= config.meta_min_r ? 1 : 0,
+    };
+  }
+
+  /**
+   * First barrier touched - breakeven/trailing exits only happen after TP1
+   */
+  static barrier(exitReason: string): BarrierLabel {
+    const reason = (exitReason || '').toLowerCase();
+    if (reason.startsWith('tp') || reason.includes('take') || reason === 'breakeven' || reason === 'trailing') {
+      return 'TP';
+    }
+    if (reason === 'sl' || reason.includes('stop')) {
+      return 'SL';
+    }
+    return 'TIMEOUT';
+  }
+
+  static objective(scheme: LabelScheme): ModelObjective {
+    switch (scheme) {
+      case 'triple_barrier': return 'multiclass';
+      case 'r_multiple': return 'regression';
+      default: return 'binary';
+    }
+  }
+
+  /**
+   * CSV column holding the scheme's target
+   */
+  static targetColumn(scheme: LabelScheme): 'outcome' | 'barrier_label' | 'r_multiple' | 'meta_label' {
+    switch (scheme) {
+      case 'triple_barrier': return 'barrier_label';
+      case 'r_multiple': return 'r_multiple';
+      case 'meta': return 'meta_label';
+      default: return 'outcome';
+    }
+  }
+
+  /**
+   * Numeric training target: 0/1, class index, or clipped R-multiple
+   */
+  static target(trade: TradeFeatures, scheme: LabelScheme, config: LabelConfig): number {
+    switch (scheme) {
+      case 'triple_barrier':
+        return BARRIER_CLASSES.indexOf(trade.barrier_label ?? TradeLabeler.barrier(trade.exit_reason));
+      case 'r_multiple':
+        return Math.max(-config.r_clip, Math.min(config.r_clip, trade.r_multiple ?? 0));
+      case 'meta':
+        return trade.meta_label ?? ((trade.r_multiple ?? 0) >= config.meta_min_r ? 1 : 0);
+      default:
+        return trade.outcome === 'WIN' ? 1 : 0;
+    }
+  }
+
+  /**
+   * The event a model's win probability refers to under each scheme
+   */
+  static isPositive(trade: TradeFeatures, scheme: LabelScheme, config: LabelConfig): boolean {
+    switch (scheme) {
+      case 'triple_barrier': return TradeLabeler.target(trade, scheme, config) === 0;   // TP
+      case 'r_multiple': return (trade.r_multiple ?? 0) > 0;
+      default: return TradeLabeler.target(trade, scheme, config) === 1;
+    }
+  }
+}
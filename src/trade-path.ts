@@ -0,0 +1,82 @@
+/**
+ * Trade Path Statistics
+ * How a trade travelled between entry and exit, not just where it ended
+ *
+ *   - MAE / MFE: maximum adverse / favourable excursion from the entry price,
+ *     in price units and in R (multiples of the initial stop distance)
+ *   - bars_to_mfe: bars after entry until the favourable extreme was set
+ *   - touched_1r: price reached +1R at some point
+ *   - exit_bar: bars after entry the trade closed on
+ *
+ * Shared by the BacktestEngine (bar highs/lows) and the paper trader
+ * (polled prices), so both write the same fields into the trade records.
+ */
+
+export interface PathStats {
+  mae_price: number;     // >= 0, price distance against the position
+  mfe_price: number;     // >= 0, price distance in favour of the position
+  mae_r: number;
+  mfe_r: number;
+  bars_to_mfe: number;
+  touched_1r: boolean;
+  exit_bar: number;
+}
+
+export class TradePath {
+  static empty(): PathStats {
+    return {
+      mae_price: 0,
+      mfe_price: 0,
+      mae_r: 0,
+      mfe_r: 0,
+      bars_to_mfe: 0,
+      touched_1r: false,
+      exit_bar: 0,
+    };
+  }
+
+  /**
+   * The path fields a record actually has (recorded trades may predate them)
+   */
+  static pick(record: Partial<PathStats>): Partial<PathStats> {
+    const keys = Object.keys(TradePath.empty()) as Array<keyof PathStats>;
+    return Object.fromEntries(
+      keys.filter(key => record[key] !== undefined && record[key] !== null).map(key => [key, record[key]])
+    ) as Partial<PathStats>;
+  }
+
+  /**
+   * Fold one bar (or price poll) into the running stats
+   * @param adverse - worst price seen against the position, null to skip
+   * @param favourable - best price seen for the position, null to skip
+   */
+  static update(
+    stats: PathStats,
+    direction: 'long' | 'short',
+    entryPrice: number,
+    riskDistance: number,
+    bar: number,
+    adverse: number | null,
+    favourable: number | null
+  ): void {
+    const sign = direction === 'long' ? 1 : -1;
+
+    if (adverse !== null) {
+      const move = Math.max(0, sign * (entryPrice - adverse));
+      if (move > stats.mae_price) stats.mae_price = move;
+    }
+
+    if (favourable !== null) {
+      const move = Math.max(0, sign * (favourable - entryPrice));
+      if (move > stats.mfe_price) {
+        stats.mfe_price = move;
+        stats.bars_to_mfe = bar;
+      }
+    }
+
+    stats.mae_r = riskDistance > 0 ? stats.mae_price / riskDistance : 0;
+    stats.mfe_r = riskDistance > 0 ? stats.mfe_price / riskDistance : 0;
+    stats.touched_1r = stats.mfe_r >= 1 - 1e-9;   // TP1 at 1R lands exactly on it
+    stats.exit_bar = bar;
+  }
+}
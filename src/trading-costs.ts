@@ -0,0 +1,192 @@
+/**
+ * Trading Cost Model
+ * Converts gross (price-difference) P&L into net P&L
+ *
+ * Three cost sources, configured in config/features.json → trading_costs:
+ *   - Fees:     maker/taker in bps of notional. Limit exits (take profits) pay
+ *               maker, market entries and stop/timeout exits pay taker.
+ *   - Slippage: taker fills only, per-symbol model:
+ *                 fixed_bps            - constant bps of price
+ *                 atr_proportional     - fraction of ATR
+ *                 volume_participation - base bps + impact × sqrt(order / bar volume)
+ *   - Funding:  perpetual funding accrued on notional over the holding time.
+ *               Positive rate = longs pay, shorts receive.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export type OrderType = 'maker' | 'taker';
+export type SlippageModelType = 'fixed_bps' | 'atr_proportional' | 'volume_participation';
+
+export interface SlippageModel {
+  model: SlippageModelType;
+  bps?: number;             // fixed_bps, and base bps for volume_participation
+  atr_fraction?: number;    // atr_proportional: slippage = atr × fraction
+  impact_bps?: number;      // volume_participation: bps at 100% participation
+}
+
+export interface TradingCostConfig {
+  enabled: boolean;
+  maker_fee_bps: number;
+  taker_fee_bps: number;
+  slippage: {
+    default: SlippageModel;
+    per_symbol: Record<string, SlippageModel>;
+  };
+  funding: {
+    enabled: boolean;
+    rate_per_interval: number;   // e.g. 0.0001 = 0.01% per interval
+    interval_hours: number;
+  };
+}
+
+const DEFAULT_CONFIG: TradingCostConfig = {
+  enabled: true,
+  maker_fee_bps: 2,
+  taker_fee_bps: 5,
+  slippage: {
+    default: { model: 'fixed_bps', bps: 2 },
+    per_symbol: {},
+  },
+  funding: {
+    enabled: true,
+    rate_per_interval: 0.0001,
+    interval_hours: 8,
+  },
+};
+
+// Market context for a single fill
+export interface FillContext {
+  atr?: number | null;
+  volume?: number;          // Bar volume in base units
+}
+
+export interface CostLeg {
+  fraction: number;         // Share of the position filled on this leg
+  price: number;
+  order: OrderType;
+  time: number;
+  context?: FillContext;
+}
+
+export interface TradeCostInput {
+  symbol: string;
+  direction: 'long' | 'short';
+  notional: number;         // Position size in quote currency at entry
+  entry: CostLeg;
+  exits: CostLeg[];
+}
+
+export interface TradeCosts {
+  fees: number;
+  slippage: number;
+  funding: number;
+  total: number;
+}
+
+export class TradingCostModel {
+  private config: TradingCostConfig;
+
+  constructor(config: Partial<TradingCostConfig> = {}) {
+    this.config = { ...TradingCostModel.loadConfig(), ...config };
+  }
+
+  /**
+   * Load trading_costs from config/features.json (defaults if missing)
+   */
+  static loadConfig(configPath: string = path.join(process.cwd(), 'config', 'features.json')): TradingCostConfig {
+    try {
+      const features = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+      const costs = features.trading_costs || {};
+      return {
+        ...DEFAULT_CONFIG,
+        ...costs,
+        slippage: {
+          default: costs.slippage?.default || DEFAULT_CONFIG.slippage.default,
+          per_symbol: costs.slippage?.per_symbol || {},
+        },
+        funding: { ...DEFAULT_CONFIG.funding, ...(costs.funding || {}) },
+      };
+    } catch {
+      return { ...DEFAULT_CONFIG };
+    }
+  }
+
+  getConfig(): TradingCostConfig {
+    return this.config;
+  }
+
+  /**
+   * Fee for one fill, in quote currency
+   */
+  fee(notional: number, order: OrderType): number {
+    const bps = order === 'maker' ? this.config.maker_fee_bps : this.config.taker_fee_bps;
+    return notional * bps / 10000;
+  }
+
+  /**
+   * Adverse price move for a taker fill, as a fraction of price
+   */
+  slippageFraction(symbol: string, price: number, notional: number, context: FillContext = {}): number {
+    const model = this.config.slippage.per_symbol[symbol] || this.config.slippage.default;
+
+    switch (model.model) {
+      case 'atr_proportional': {
+        if (!context.atr || price <= 0) return (model.bps ?? 0) / 10000;
+        return (context.atr * (model.atr_fraction ?? 0.05)) / price;
+      }
+      case 'volume_participation': {
+        const base = (model.bps ?? 0) / 10000;
+        if (!context.volume || price <= 0) return base;
+        const participation = Math.min(1, (notional / price) / context.volume);
+        return base + ((model.impact_bps ?? 50) / 10000) * Math.sqrt(participation);
+      }
+      case 'fixed_bps':
+      default:
+        return (model.bps ?? 0) / 10000;
+    }
+  }
+
+  /**
+   * Funding paid (positive) or received (negative) over a holding period
+   */
+  funding(notional: number, direction: 'long' | 'short', holdingMs: number): number {
+    const { enabled, rate_per_interval, interval_hours } = this.config.funding;
+    if (!enabled || holdingMs <= 0) return 0;
+
+    const intervals = holdingMs / (interval_hours * 60 * 60 * 1000);
+    const sign = direction === 'long' ? 1 : -1;
+    return sign * notional * rate_per_interval * intervals;
+  }
+
+  /**
+   * Total costs of a trade made of one entry and one or more exit legs
+   */
+  calculate(input: TradeCostInput): TradeCosts {
+    if (!this.config.enabled) {
+      return { fees: 0, slippage: 0, funding: 0, total: 0 };
+    }
+
+    const { symbol, direction, notional, entry } = input;
+    let fees = 0;
+    let slippage = 0;
+    let funding = 0;
+
+    const fill = (leg: CostLeg) => {
+      const legNotional = notional * leg.fraction;
+      fees += this.fee(legNotional, leg.order);
+      if (leg.order === 'taker') {
+        slippage += legNotional * this.slippageFraction(symbol, leg.price, legNotional, leg.context);
+      }
+    };
+
+    fill(entry);
+    for (const exit of input.exits) {
+      fill(exit);
+      funding += this.funding(notional * exit.fraction, direction, exit.time - entry.time);
+    }
+
+    return { fees, slippage, funding, total: fees + slippage + funding };
+  }
+}
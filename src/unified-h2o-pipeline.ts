@@ -14,10 +14,16 @@
 import fs from 'fs';
 import path from 'path';
 import { LocalDataLoader } from './data-loader.js';
-import { SMCIndicators, Candle } from './smc-indicators.js';
+import { SMCAnalyzer } from './smc-analyzer.js';
 import { UnifiedScoring } from './unified-scoring.js';
 import { FeatureExtractor, TradeFeatures } from './trade-features.js';
 import { H2OIntegration } from './h2o-integration.js';
+import { BacktestEngine, SimulatedTrade } from './backtest-engine.js';
+import { IntrabarResolver } from './intrabar-resolver.js';
+import { TimeframeAligner } from './timeframe-alignment.js';
+import { RegimeClassifier } from './market-regime.js';
+import { ModelRegistry } from './model-registry.js';
+import { TradeLabeler, LabelScheme } from './trade-labels.js';
 
 // Configuration
 const CONFIG = {
@@ -32,6 +38,8 @@ const CONFIG = {
   modelDir: path.join(process.cwd(), 'data', 'models'),
   trainSplit: 0.8,  // 80% train, 20% test
   algorithm: 'gbm' as const,  // GBM, XGBoost, DRF, GLM
+  // H2O scoring here is binary (win probability), so binary or meta labels only
+  labelScheme: TradeLabeler.loadConfig().scheme as LabelScheme,
 };
 
 interface PipelineResult {
@@ -47,10 +55,13 @@ interface PipelineResult {
 class UnifiedH2OPipeline {
   private dataLoader: LocalDataLoader;
   private h2o: H2OIntegration;
+  private backtestEngine: BacktestEngine;
   private allTrades: TradeFeatures[] = [];
+  private simulatedTrades: SimulatedTrade[] = [];
 
   constructor() {
     this.dataLoader = new LocalDataLoader(CONFIG.dataPath);
+    this.backtestEngine = new BacktestEngine();
     this.h2o = new H2OIntegration({
       modelDir: CONFIG.modelDir,
       dataDir: CONFIG.outputDir,
@@ -63,6 +74,10 @@ class UnifiedH2OPipeline {
   async run(): Promise<PipelineResult> {
     const startTime = Date.now();
 
+    if (TradeLabeler.objective(CONFIG.labelScheme) !== 'binary') {
+      throw new Error(`H2O pipeline needs a binary target (binary or meta labels), got ${CONFIG.labelScheme} - use the learn loop (npm run learn-loop -- --labels ${CONFIG.labelScheme})`);
+    }
+
     console.log('╔═══════════════════════════════════════════════════════════════╗');
     console.log('║          UNIFIED H2O TRAINING PIPELINE                        ║');
     console.log('╚═══════════════════════════════════════════════════════════════╝\n');
@@ -72,6 +87,7 @@ class UnifiedH2OPipeline {
     console.log(`  Timeframes: ${CONFIG.timeframes.join(', ')}`);
     console.log(`  Min Score: ${CONFIG.minScore}`);
     console.log(`  Algorithm: ${CONFIG.algorithm.toUpperCase()}`);
+    console.log(`  Labels: ${CONFIG.labelScheme} (target column ${TradeLabeler.targetColumn(CONFIG.labelScheme)})`);
     console.log(`  Train/Test Split: ${CONFIG.trainSplit * 100}% / ${(1 - CONFIG.trainSplit) * 100}%`);
     console.log('');
 
@@ -91,6 +107,11 @@ class UnifiedH2OPipeline {
 
     console.log(`\n✅ Total trades extracted: ${this.allTrades.length}`);
 
+    const backtest = BacktestEngine.summarize(this.simulatedTrades);
+    console.log(`  Win rate: ${(backtest.win_rate * 100).toFixed(1)}% | PF: ${backtest.profit_factor.toFixed(2)} | P&L: $${backtest.total_pnl.toFixed(2)}`);
+    const intrabar = BacktestEngine.summarizeIntrabar(this.simulatedTrades, IntrabarResolver.loadConfig().mode);
+    console.log(`  Intrabar: ${BacktestEngine.formatIntrabar(intrabar, this.simulatedTrades.length)}`);
+
     // Phase 2: Split into train/test and save CSV
     console.log('\n═══════════════════════════════════════════════════════════════');
     console.log('PHASE 2: Preparing Training Data');
@@ -108,9 +129,10 @@ class UnifiedH2OPipeline {
     console.log('PHASE 3: Training H2O Model');
     console.log('═══════════════════════════════════════════════════════════════\n');
 
+    const targetColumn = TradeLabeler.targetColumn(CONFIG.labelScheme);
     const trainResult = await this.h2o.trainModel(
       trainFile,
-      'outcome',
+      targetColumn,
       CONFIG.algorithm,
       1 - CONFIG.trainSplit
     );
@@ -120,23 +142,53 @@ class UnifiedH2OPipeline {
     console.log('PHASE 4: Evaluating Model');
     console.log('═══════════════════════════════════════════════════════════════\n');
 
-    const evalResult = await this.h2o.evaluateModel(trainResult.modelId, testFile);
+    const evalResult = await this.h2o.evaluateModel(trainResult.modelId, testFile, targetColumn);
 
-    // Phase 5: Set as best model if it performs well
+    // Phase 5: Register and promote only on out-of-sample evidence
     console.log('\n═══════════════════════════════════════════════════════════════');
-    console.log('PHASE 5: Saving Model');
+    console.log('PHASE 5: Registering Model');
     console.log('═══════════════════════════════════════════════════════════════\n');
 
-    const existingBest = await this.h2o.getBestModel();
+    if (!trainResult.modelPath || !fs.existsSync(trainResult.modelPath)) {
+      throw new Error(`Trained model file not found: ${trainResult.modelPath ?? 'no path reported'}`);
+    }
+
+    const artifacts: Record<string, string> = { model: trainResult.modelPath };
+    const calibrationFile = this.h2o.calibrationPath(trainResult.modelId);
+    if (fs.existsSync(calibrationFile)) artifacts.calibration = calibrationFile;
+
+    const registry = new ModelRegistry();
+    const entry = registry.register({
+      id: trainResult.modelId,
+      kind: 'h2o',
+      algorithm: trainResult.algorithm,
+      target: CONFIG.labelScheme,
+      features: trainResult.features,
+      artifacts,
+      dataFile: trainFile,
+      metrics: {
+        accuracy: trainResult.accuracy,
+        auc: trainResult.auc,
+        logloss: trainResult.logloss,
+        oos: {
+          trades: evalResult.rows,
+          accuracy: evalResult.accuracy,
+          logLoss: evalResult.logloss,
+          source: 'holdout'
+        }
+      }
+    });
+    const decision = registry.autoPromote(entry.id);
 
-    if (!existingBest || trainResult.accuracy > existingBest.accuracy) {
+    if (decision.promote) {
       await this.h2o.setBestModel(trainResult.modelId);
-      console.log(`  ✅ New best model saved: ${trainResult.modelId}`);
-      console.log(`     Previous best: ${existingBest?.accuracy ? (existingBest.accuracy * 100).toFixed(1) + '%' : 'none'}`);
-      console.log(`     New accuracy: ${(trainResult.accuracy * 100).toFixed(1)}%`);
+      console.log(`  ✅ New champion: ${trainResult.modelId}`);
     } else {
-      console.log(`  ℹ️  Existing model is better (${(existingBest.accuracy * 100).toFixed(1)}% vs ${(trainResult.accuracy * 100).toFixed(1)}%)`);
+      console.log(`  ℹ️  Registered as candidate: ${trainResult.modelId}`);
     }
+    console.log(`     Parent: ${entry.parent ?? 'none'}`);
+    console.log(`     OOS accuracy: ${(evalResult.accuracy * 100).toFixed(1)}% on ${evalResult.rows} test trades`);
+    console.log(`     ${decision.reasons.join('; ')}`);
 
     // Save pipeline run metadata
     await this.savePipelineMetadata(trainResult, evalResult);
@@ -212,13 +264,28 @@ class UnifiedH2OPipeline {
 
     const trades: TradeFeatures[] = [];
     const lookback = 200;
+    const analyzer = new SMCAnalyzer();
+
+    // Warm up the analyzer on the lookback window
+    for (let i = 0; i < lookback; i++) {
+      analyzer.push(candles[i]);
+    }
+
+    // Real 1d/1h/5m context for the MTF bonus and mtf_aligned
+    const aligner = await TimeframeAligner.load(this.dataLoader, symbol, timeframe);
+    // 1m/5m replay for bars that touch both stop and target
+    const intrabar = await IntrabarResolver.load(this.dataLoader, symbol, timeframe);
+    // Regime per bar over the full series (same labels backtest-runner filters on)
+    const regimes = new RegimeClassifier().classify(candles);
 
     for (let i = lookback; i < candles.length - 50; i++) {
       const currentCandle = candles[i];
-      const historicalCandles = candles.slice(0, i + 1);
 
-      // Run SMC analysis
-      const analysis = SMCIndicators.analyze(historicalCandles);
+      // Run SMC analysis (incremental - one new candle per bar)
+      const analysis = analyzer.update(currentCandle);
+
+      const mtf = aligner.advance(currentCandle, analysis);
+      const mtfBonus = mtf.daily ? UnifiedScoring.calculateMTFBonus(mtf.daily, mtf.hourly, mtf.fiveMin) : undefined;
 
       // Calculate score
       const scoring = UnifiedScoring.calculateConfluence(
@@ -232,7 +299,9 @@ class UnifiedH2OPipeline {
           liquidity: 10,
           mtf_bonus: 35,
           rsi_penalty: 15
-        }
+        },
+        currentCandle.timestamp,
+        mtfBonus
       );
 
       // Skip low score trades
@@ -247,72 +316,29 @@ class UnifiedH2OPipeline {
         i,
         analysis,
         scoring.score,
-        direction
+        direction,
+        undefined,
+        mtf,
+        regimes[i]
       );
 
       // Simulate trade outcome
-      const trade = this.simulateTrade(candles, i, currentCandle.close, direction, analysis);
+      const trade = this.backtestEngine.simulateTrade(candles, i, direction, {
+        atr: analysis.atr,
+        score: scoring.score,
+        symbol,
+        timeframe,
+        intrabar,
+      });
       const featuresWithOutcome = FeatureExtractor.addOutcome(features, trade);
 
       trades.push(featuresWithOutcome);
+      this.simulatedTrades.push(trade);
     }
 
     return trades;
   }
 
-  /**
-   * Simulate a trade to get outcome
-   */
-  private simulateTrade(
-    candles: Candle[],
-    startIndex: number,
-    entryPrice: number,
-    direction: 'long' | 'short',
-    analysis: any
-  ): any {
-    const isLong = direction === 'long';
-    const atr = analysis.atr || (candles[startIndex].high - candles[startIndex].low);
-    const stopLoss = isLong ? entryPrice - (atr * 2) : entryPrice + (atr * 2);
-    const riskDistance = Math.abs(entryPrice - stopLoss);
-    const tp2 = isLong ? entryPrice + (riskDistance * 3) : entryPrice - (riskDistance * 3);
-
-    let exitPrice = candles[startIndex].close;
-    let pnl = 0;
-
-    // Simulate forward (max 100 candles)
-    for (let i = startIndex + 1; i < Math.min(startIndex + 100, candles.length); i++) {
-      const candle = candles[i];
-
-      // Check SL
-      if (isLong && candle.low <= stopLoss) {
-        exitPrice = stopLoss;
-        break;
-      }
-      if (!isLong && candle.high >= stopLoss) {
-        exitPrice = stopLoss;
-        break;
-      }
-
-      // Check TP2
-      if (isLong && candle.high >= tp2) {
-        exitPrice = tp2;
-        break;
-      }
-      if (!isLong && candle.low <= tp2) {
-        exitPrice = tp2;
-        break;
-      }
-    }
-
-    const priceDiff = isLong ? (exitPrice - entryPrice) : (entryPrice - exitPrice);
-    pnl = 1000 * (priceDiff / entryPrice);
-
-    return {
-      pnl,
-      outcome: pnl > 0 ? 'WIN' : 'LOSS'
-    };
-  }
-
   /**
    * Prepare training data - split and save to CSV
    */
@@ -322,12 +348,19 @@ class UnifiedH2OPipeline {
     trainCount: number;
     testCount: number;
   }> {
-    // Shuffle trades for random split
-    const shuffled = [...this.allTrades].sort(() => Math.random() - 0.5);
-
-    const splitIndex = Math.floor(shuffled.length * CONFIG.trainSplit);
-    const trainTrades = shuffled.slice(0, splitIndex);
-    const testTrades = shuffled.slice(splitIndex);
+    // Chronological split - the test set is the most recent trades, so its
+    // score is registered as out-of-sample evidence
+    const sorted = [...this.allTrades].sort((a, b) => a.entry_time - b.entry_time);
+
+    const splitIndex = Math.floor(sorted.length * CONFIG.trainSplit);
+    const testTrades = sorted.slice(splitIndex);
+    const splitTime = testTrades.length > 0 ? testTrades[0].entry_time : Infinity;
+
+    // Purge training trades still open when the test set starts
+    const trainTrades = sorted.slice(0, splitIndex).filter(t => (t.exit_time || t.entry_time) < splitTime);
+    if (trainTrades.length < splitIndex) {
+      console.log(`  Purged ${splitIndex - trainTrades.length} training trades overlapping the test period`);
+    }
 
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
     const trainFile = path.join(CONFIG.outputDir, `train_${timestamp}.csv`);
@@ -391,6 +424,7 @@ class UnifiedH2OPipeline {
       auc: trainResult.auc,
       logloss: trainResult.logloss,
       evaluation: evalResult,
+      backtest: BacktestEngine.summarize(this.simulatedTrades),
     });
 
     // Keep last 20 runs
@@ -432,6 +466,9 @@ async function main() {
       case '--algorithm':
         CONFIG.algorithm = args[++i] as any;
         break;
+      case '--labels':
+        CONFIG.labelScheme = TradeLabeler.parseScheme(args[++i]);
+        break;
       case '--help':
       case '-h':
         console.log(`
@@ -445,6 +482,7 @@ Options:
   --timeframes <list>    Comma-separated timeframes (default: 1d,1h,5m)
   --min-score <n>        Minimum SMC score (default: 70)
   --algorithm <algo>     H2O algorithm: gbm, xgboost, drf, glm (default: gbm)
+  --labels <scheme>      Target: binary or meta (default: labels.scheme in config)
   -h, --help             Show this help
 
 Examples:
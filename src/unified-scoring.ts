@@ -38,19 +38,96 @@ export interface UnifiedScore {
   entryQuality: 'A' | 'B' | 'C' | 'D';  // NEW: Grade the entry
 }
 
+export type ScoringComponent =
+  | 'pullback'
+  | 'price_position'
+  | 'volatility'
+  | 'trend'
+  | 'rsi'
+  | 'session'
+  | 'ema'
+  | 'smc_return'
+  | 'mtf';
+
+export type ComponentWeights = Record<ScoringComponent, number>;
+
+export const SCORING_COMPONENTS: ScoringComponent[] = [
+  'pullback', 'price_position', 'volatility', 'trend', 'rsi', 'session', 'ema', 'smc_return', 'mtf'
+];
+
+/**
+ * Migration from the legacy SMCWeights keys (point values used by the old
+ * scoreSetup) to component multipliers.
+ *
+ * multiplier = |legacy value| / baseline, so the production weights
+ * (40/30/20/15/10/35/15) reproduce the unweighted v3 scores exactly.
+ * Components fed by several legacy keys take the mean of their ratios.
+ */
+export const LEGACY_WEIGHT_MIGRATION: Record<string, { components: ScoringComponent[]; baseline: number }> = {
+  trend_structure: { components: ['trend', 'pullback'], baseline: 40 },
+  order_blocks: { components: ['smc_return'], baseline: 30 },
+  fvgs: { components: ['smc_return'], baseline: 20 },
+  ema_alignment: { components: ['ema'], baseline: 15 },
+  liquidity: { components: ['price_position'], baseline: 10 },
+  mtf_bonus: { components: ['mtf'], baseline: 35 },
+  rsi_penalty: { components: ['rsi'], baseline: 15 },
+};
+
 export class UnifiedScoring {
+  /**
+   * Resolve the multiplier applied to each score component.
+   *
+   * Component keys set directly on the weights (e.g. `pullback: 1.2`) win;
+   * otherwise the legacy keys are migrated via LEGACY_WEIGHT_MIGRATION.
+   * Components with no source (volatility, session) stay at 1.0.
+   */
+  static resolveComponentWeights(weights: SMCWeights): ComponentWeights {
+    const ratios: Record<string, number[]> = {};
+
+    for (const [legacyKey, migration] of Object.entries(LEGACY_WEIGHT_MIGRATION)) {
+      const value = weights[legacyKey];
+      if (typeof value !== 'number' || !isFinite(value)) continue;
+
+      for (const component of migration.components) {
+        (ratios[component] ||= []).push(Math.abs(value) / migration.baseline);
+      }
+    }
+
+    const resolved = {} as ComponentWeights;
+    for (const component of SCORING_COMPONENTS) {
+      const direct = weights[component];
+      const migrated = ratios[component];
+
+      if (typeof direct === 'number' && isFinite(direct)) {
+        resolved[component] = direct;
+      } else if (migrated && migrated.length > 0) {
+        resolved[component] = migrated.reduce((s, r) => s + r, 0) / migrated.length;
+      } else {
+        resolved[component] = 1;
+      }
+    }
+
+    return resolved;
+  }
+
   /**
    * Calculate score based on what ML model ACTUALLY learned works
+   *
+   * Point values below are the unweighted (1.0) values - each component is
+   * scaled by its multiplier from resolveComponentWeights(weights).
    * @param timestamp - Optional timestamp for session calculation (for backtesting)
+   * @param mtf - Optional MTF alignment from calculateMTFBonus, scored as the `mtf` component
    */
   static calculateConfluence(
     analysis: SMCAnalysis,
     currentPrice: number,
     weights: SMCWeights,
-    timestamp?: number
+    timestamp?: number,
+    mtf?: { bonus: number; factors: string[] }
   ): UnifiedScore {
     const breakdown: Record<string, number> = {};
     const confluence: string[] = [];
+    const componentWeights = this.resolveComponentWeights(weights);
     let totalScore = 0;
 
     // Determine bias from trend
@@ -97,6 +174,7 @@ export class UnifiedScoring {
       breakdown.pullback = -10;
       confluence.push(`WARNING: No pullback - entering during impulse`);
     }
+    breakdown.pullback *= componentWeights.pullback;
     totalScore += breakdown.pullback;
 
     // ═══════════════════════════════════════════════════════════════
@@ -136,6 +214,7 @@ export class UnifiedScoring {
     } else {
       breakdown.price_position = 0;
     }
+    breakdown.price_position *= componentWeights.price_position;
     totalScore += breakdown.price_position;
 
     // ═══════════════════════════════════════════════════════════════
@@ -165,6 +244,7 @@ export class UnifiedScoring {
     } else {
       breakdown.volatility = 0;
     }
+    breakdown.volatility *= componentWeights.volatility;
     totalScore += breakdown.volatility;
 
     // ═══════════════════════════════════════════════════════════════
@@ -177,6 +257,7 @@ export class UnifiedScoring {
       breakdown.trend = -5;
       confluence.push(`No clear trend - ranging`);
     }
+    breakdown.trend *= componentWeights.trend;
     totalScore += breakdown.trend;
 
     // ═══════════════════════════════════════════════════════════════
@@ -211,6 +292,7 @@ export class UnifiedScoring {
     } else {
       breakdown.rsi = 0;
     }
+    breakdown.rsi *= componentWeights.rsi;
     totalScore += breakdown.rsi;
 
     // ═══════════════════════════════════════════════════════════════
@@ -241,6 +323,7 @@ export class UnifiedScoring {
     } else {
       breakdown.session = 0;
     }
+    breakdown.session *= componentWeights.session;
     totalScore += breakdown.session;
 
     // ═══════════════════════════════════════════════════════════════
@@ -268,6 +351,7 @@ export class UnifiedScoring {
     } else {
       breakdown.ema = 0;
     }
+    breakdown.ema *= componentWeights.ema;
     totalScore += breakdown.ema;
 
     // ═══════════════════════════════════════════════════════════════
@@ -310,8 +394,18 @@ export class UnifiedScoring {
     } else {
       breakdown.smc_return = 0;
     }
+    breakdown.smc_return *= componentWeights.smc_return;
     totalScore += breakdown.smc_return;
 
+    // ═══════════════════════════════════════════════════════════════
+    // 9. MTF ALIGNMENT (0-25 pts) - only when HTF context is supplied
+    // ═══════════════════════════════════════════════════════════════
+    if (mtf) {
+      breakdown.mtf = mtf.bonus * componentWeights.mtf;
+      confluence.push(...mtf.factors);
+      totalScore += breakdown.mtf;
+    }
+
     // ═══════════════════════════════════════════════════════════════
     // NOTE: We now properly use OBs and FVGs - but only RETURN signals
     // Simple "proximity" to zones is NOT scored (that was hurting us)
@@ -337,6 +431,7 @@ export class UnifiedScoring {
 
   /**
    * Calculate MTF alignment - simplified
+   * Pass real per-timeframe analyses (TimeframeAligner snapshot), not the same series
    */
   static calculateMTFBonus(
     daily: SMCAnalysis,
@@ -362,6 +457,12 @@ export class UnifiedScoring {
         bonus += 10;
         factors.push(`Hourly pullback active`);
       }
+
+      // Mild bonus if 5m agrees
+      if (fiveMin && fiveMin.trend === daily.trend) {
+        bonus += 5;
+        factors.push(`5m confirms`);
+      }
     }
 
     return { bonus, factors };